@@ -0,0 +1,111 @@
+import type { DueDate } from "@/api/domain/dueDate";
+import type {
+  CreateTaskParams,
+  Duration,
+  MoveTaskParams,
+  TaskId,
+  UpdateTaskParams,
+} from "@/api/domain/task";
+import snakify from "snakify-ts";
+
+export type CommandId = string;
+
+export type SyncCommand = {
+  type: string;
+  uuid: CommandId;
+  temp_id?: string;
+  args: Record<string, unknown>;
+};
+
+export type CommandStatus = { ok: true } | { ok: false; error: string; httpCode?: number };
+
+export type CommandResults = {
+  statuses: Map<CommandId, CommandStatus>;
+  // Maps the temporary IDs of created resources to their real IDs.
+  tempIdMapping: Map<string, string>;
+};
+
+// Raised when Todoist rejects a command outright, as opposed to the request failing to send.
+export class CommandRejectedError extends Error {
+  public httpCode: number | undefined;
+
+  constructor(error: string, httpCode?: number) {
+    super(`Todoist rejected the change: ${error}`);
+    this.httpCode = httpCode;
+  }
+}
+
+// Collects task mutations so they can be sent to the Sync API in as few requests as possible.
+// Tasks created in the batch get a temporary ID which later commands in the same batch can use,
+// e.g. as the parent of a subtask.
+export class CommandBatch {
+  private readonly queue: SyncCommand[] = [];
+
+  public get commands(): SyncCommand[] {
+    return [...this.queue];
+  }
+
+  public get size(): number {
+    return this.queue.length;
+  }
+
+  public closeTask(id: TaskId): CommandId {
+    return this.push("item_close", { id });
+  }
+
+  public reopenTask(id: TaskId): CommandId {
+    return this.push("item_uncomplete", { id });
+  }
+
+  public deleteTask(id: TaskId): CommandId {
+    return this.push("item_delete", { id });
+  }
+
+  public updateTask(id: TaskId, params: UpdateTaskParams): CommandId {
+    return this.push("item_update", { id, ...toSyncTaskArgs(params) });
+  }
+
+  public moveTask(id: TaskId, destination: MoveTaskParams): CommandId {
+    return this.push("item_move", { id, ...snakify(destination) });
+  }
+
+  // Returns the command ID and the temporary ID of the task to be created.
+  public createTask(content: string, params: CreateTaskParams): [CommandId, TaskId] {
+    const tempId = crypto.randomUUID();
+    const uuid = this.push("item_add", { content, ...toSyncTaskArgs(params) }, tempId);
+    return [uuid, tempId];
+  }
+
+  private push(type: string, args: Record<string, unknown>, tempId?: string): CommandId {
+    const uuid = crypto.randomUUID();
+    const command: SyncCommand = { type, uuid, args };
+    if (tempId !== undefined) {
+      command.temp_id = tempId;
+    }
+
+    this.queue.push(command);
+    return uuid;
+  }
+}
+
+// The Sync API takes due dates and durations as objects rather than the REST API's flat fields.
+const toSyncTaskArgs = (params: CreateTaskParams | UpdateTaskParams): Record<string, unknown> => {
+  const { dueDate, dueDatetime, dueString, duration, durationUnit, ...rest } = params;
+  const args: Record<string, unknown> = snakify(rest);
+
+  if (dueString === "no date") {
+    args.due = null;
+  } else if (dueString !== undefined) {
+    args.due = { string: dueString } satisfies Partial<DueDate>;
+  } else if (dueDatetime !== undefined) {
+    args.due = { date: dueDatetime } satisfies Partial<DueDate>;
+  } else if (dueDate !== undefined) {
+    args.due = { date: dueDate } satisfies Partial<DueDate>;
+  }
+
+  if (duration !== undefined) {
+    args.duration = { amount: duration, unit: durationUnit ?? "minute" } satisfies Duration;
+  }
+
+  return args;
+};
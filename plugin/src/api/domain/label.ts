@@ -5,3 +5,17 @@ export type Label = {
   name: string;
   color: string;
 };
+
+export type CreateLabelParams = {
+  name: string;
+  color?: string;
+  order?: number;
+  isFavorite?: boolean;
+};
+
+export type UpdateLabelParams = {
+  name?: string;
+  color?: string;
+  order?: number;
+  isFavorite?: boolean;
+};
@@ -8,3 +8,16 @@ export type Project = {
   isInboxProject: boolean;
   color: string;
 };
+
+export type CreateProjectParams = {
+  name: string;
+  parentId?: ProjectId;
+  color?: string;
+  isFavorite?: boolean;
+};
+
+export type UpdateProjectParams = {
+  name?: string;
+  color?: string;
+  isFavorite?: boolean;
+};
@@ -8,3 +8,13 @@ export type Section = {
   name: string;
   order: number;
 };
+
+export type CreateSectionParams = {
+  name: string;
+  projectId: ProjectId;
+  order?: number;
+};
+
+export type UpdateSectionParams = {
+  name: string;
+};
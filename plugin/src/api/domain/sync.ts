@@ -0,0 +1,71 @@
+import type { DueDate } from "@/api/domain/dueDate";
+import type { LabelId } from "@/api/domain/label";
+import type { ProjectId } from "@/api/domain/project";
+import type { SectionId } from "@/api/domain/section";
+import type { Duration, Priority, TaskId } from "@/api/domain/task";
+
+export type SyncToken = string;
+
+// Requesting with this token returns a full sync instead of a delta.
+export const fullSyncToken: SyncToken = "*";
+
+export type SyncResourceType = "items" | "projects" | "sections" | "labels";
+
+export type SyncItem = {
+  id: TaskId;
+  addedAt: string;
+
+  content: string;
+  description: string;
+
+  projectId: ProjectId;
+  sectionId: SectionId | null;
+  parentId: TaskId | null;
+
+  labels: string[];
+  priority: Priority;
+
+  due: DueDate | null;
+  duration: Duration | null;
+
+  childOrder: number;
+  checked: boolean;
+  isDeleted: boolean;
+};
+
+export type SyncProject = {
+  id: ProjectId;
+  parentId: ProjectId | null;
+  name: string;
+  childOrder: number;
+  inboxProject?: boolean;
+  color: string;
+  isDeleted: boolean;
+  isArchived: boolean;
+};
+
+export type SyncSection = {
+  id: SectionId;
+  projectId: ProjectId;
+  name: string;
+  sectionOrder: number;
+  isDeleted: boolean;
+  isArchived: boolean;
+};
+
+export type SyncLabel = {
+  id: LabelId;
+  name: string;
+  color: string;
+  itemOrder: number;
+  isDeleted: boolean;
+};
+
+export type SyncResponse = {
+  syncToken: SyncToken;
+  fullSync: boolean;
+  items?: SyncItem[];
+  projects?: SyncProject[];
+  sections?: SyncSection[];
+  labels?: SyncLabel[];
+};
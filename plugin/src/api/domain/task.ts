@@ -31,11 +31,32 @@ export type CreateTaskParams = {
   projectId: ProjectId;
   description?: string;
   sectionId?: SectionId;
+  parentId?: TaskId;
   dueDate?: string;
   dueDatetime?: string;
+  dueString?: string;
   labels?: string[];
+  duration?: number;
+  durationUnit?: Duration["unit"];
 };
 
+export type UpdateTaskParams = {
+  content?: string;
+  description?: string;
+  labels?: string[];
+  priority?: number;
+  dueDate?: string;
+  dueDatetime?: string;
+  dueString?: string;
+  duration?: number;
+  durationUnit?: Duration["unit"];
+};
+
+export type MoveTaskParams =
+  | { projectId: ProjectId }
+  | { sectionId: SectionId }
+  | { parentId: TaskId };
+
 export type Duration = {
   amount: number;
   unit: "minute" | "day";
@@ -14,6 +14,7 @@ export type RequestParams = {
 export type WebResponse = {
   statusCode: number;
   body: string;
+  headers?: Record<string, string>;
 };
 
 export class ObsidianFetcher implements WebFetcher {
@@ -29,6 +30,7 @@ export class ObsidianFetcher implements WebFetcher {
     return {
       statusCode: response.status,
       body: response.text,
+      headers: response.headers,
     };
   }
 }
@@ -0,0 +1,53 @@
+import type { RequestParams, WebFetcher, WebResponse } from "@/api/fetcher";
+
+export type Recording = {
+  request: {
+    method: string;
+    url: string;
+    // Fields the JSON request body must contain; other fields are ignored.
+    body?: Record<string, unknown>;
+  };
+  response: WebResponse;
+};
+
+// Replays recorded Todoist API exchanges in order, failing on any request that doesn't match
+// the next recording. Lets tests drive the API client without network access.
+export class FixtureFetcher implements WebFetcher {
+  public readonly requests: RequestParams[] = [];
+  private readonly recordings: Recording[];
+
+  constructor(recordings: Recording[]) {
+    this.recordings = [...recordings];
+  }
+
+  public async fetch(params: RequestParams): Promise<WebResponse> {
+    this.requests.push(params);
+
+    const next = this.recordings.shift();
+    if (next === undefined) {
+      throw new Error(`Unexpected request: [${params.method}] ${params.url}`);
+    }
+
+    const { method, url, body } = next.request;
+    if (params.method !== method || params.url !== url) {
+      throw new Error(`Expected [${method}] ${url} but got [${params.method}] ${params.url}`);
+    }
+
+    if (body !== undefined) {
+      const actual = JSON.parse(params.body ?? "{}");
+      for (const [key, value] of Object.entries(body)) {
+        if (JSON.stringify(actual[key]) !== JSON.stringify(value)) {
+          throw new Error(
+            `Request body field '${key}' was ${JSON.stringify(actual[key])}, expected ${JSON.stringify(value)}`,
+          );
+        }
+      }
+    }
+
+    return next.response;
+  }
+
+  public isDone(): boolean {
+    return this.recordings.length === 0;
+  }
+}
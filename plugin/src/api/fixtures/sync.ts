@@ -0,0 +1,103 @@
+import type { Recording } from "@/api/fixtures/fetcher";
+
+const syncUrl = "https://api.todoist.com/sync/v9/sync";
+
+const item = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  added_at: "2024-05-26T10:00:00Z",
+  content: `Task ${id}`,
+  description: "",
+  project_id: "inbox",
+  section_id: null,
+  parent_id: null,
+  labels: [],
+  priority: 1,
+  due: null,
+  duration: null,
+  child_order: Number(id),
+  checked: false,
+  is_deleted: false,
+  ...overrides,
+});
+
+// Full sync followed by a delta that edits one task, completes another, and adds a label.
+export const fullThenDelta: Recording[] = [
+  {
+    request: { method: "POST", url: syncUrl, body: { sync_token: "*" } },
+    response: {
+      statusCode: 200,
+      body: JSON.stringify({
+        sync_token: "token-1",
+        full_sync: true,
+        items: [
+          item("1", { labels: ["errand"] }),
+          item("2", { due: { date: "2024-05-27", is_recurring: false, string: "tomorrow" } }),
+          item("3", { project_id: "work", section_id: "planning" }),
+        ],
+        projects: [
+          {
+            id: "inbox",
+            parent_id: null,
+            name: "Inbox",
+            child_order: 0,
+            inbox_project: true,
+            color: "grey",
+            is_deleted: false,
+            is_archived: false,
+          },
+          {
+            id: "work",
+            parent_id: null,
+            name: "Work",
+            child_order: 1,
+            color: "blue",
+            is_deleted: false,
+            is_archived: false,
+          },
+        ],
+        sections: [
+          {
+            id: "planning",
+            project_id: "work",
+            name: "Planning",
+            section_order: 1,
+            is_deleted: false,
+            is_archived: false,
+          },
+        ],
+        labels: [{ id: "l1", name: "errand", color: "red", item_order: 0, is_deleted: false }],
+      }),
+    },
+  },
+  {
+    request: { method: "POST", url: syncUrl, body: { sync_token: "token-1" } },
+    response: {
+      statusCode: 200,
+      body: JSON.stringify({
+        sync_token: "token-2",
+        full_sync: false,
+        items: [
+          item("1", { content: "Buy milk", labels: ["errand"] }),
+          item("2", { checked: true }),
+        ],
+        projects: [],
+        sections: [],
+        labels: [{ id: "l2", name: "focus", color: "blue", item_order: 1, is_deleted: false }],
+      }),
+    },
+  },
+  {
+    request: { method: "POST", url: syncUrl, body: { sync_token: "token-2" } },
+    response: {
+      statusCode: 200,
+      body: JSON.stringify({
+        sync_token: "token-2",
+        full_sync: false,
+        items: [],
+        projects: [],
+        sections: [],
+        labels: [],
+      }),
+    },
+  },
+];
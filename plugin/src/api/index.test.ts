@@ -0,0 +1,158 @@
+import { TodoistApiClient, TodoistApiError } from "@/api";
+import { CommandBatch } from "@/api/commands";
+import type { RequestParams, WebFetcher, WebResponse } from "@/api/fetcher";
+import { describe, expect, it } from "vitest";
+
+class FakeFetcher implements WebFetcher {
+  public requests: RequestParams[] = [];
+  private readonly respond: (params: RequestParams) => WebResponse;
+
+  constructor(respond: (params: RequestParams) => WebResponse) {
+    this.respond = respond;
+  }
+
+  public async fetch(params: RequestParams): Promise<WebResponse> {
+    this.requests.push(params);
+    return this.respond(params);
+  }
+}
+
+describe("TodoistApiClient", () => {
+  it("updateTask sends snake_cased fields and returns the camelized task", async () => {
+    const fetcher = new FakeFetcher(() => ({
+      statusCode: 200,
+      body: JSON.stringify({ id: "1", content: "Updated", project_id: "p1" }),
+    }));
+    const client = new TodoistApiClient("token", fetcher);
+
+    const task = await client.updateTask("1", { content: "Updated", dueString: "tomorrow" });
+
+    expect(fetcher.requests[0].url).toBe("https://api.todoist.com/rest/v2/tasks/1");
+    expect(fetcher.requests[0].method).toBe("POST");
+    expect(JSON.parse(fetcher.requests[0].body ?? "")).toEqual({
+      content: "Updated",
+      due_string: "tomorrow",
+    });
+    expect(task.projectId).toBe("p1");
+  });
+
+  it("deleteTask issues a DELETE request", async () => {
+    const fetcher = new FakeFetcher(() => ({ statusCode: 204, body: "" }));
+    const client = new TodoistApiClient("token", fetcher);
+
+    await client.deleteTask("42");
+
+    expect(fetcher.requests[0].url).toBe("https://api.todoist.com/rest/v2/tasks/42");
+    expect(fetcher.requests[0].method).toBe("DELETE");
+  });
+
+  it("moveTask sends an item_move command to the Sync API", async () => {
+    const fetcher = new FakeFetcher((params) => {
+      const { commands } = JSON.parse(params.body ?? "");
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ sync_status: { [commands[0].uuid]: "ok" } }),
+      };
+    });
+    const client = new TodoistApiClient("token", fetcher);
+
+    await client.moveTask("1", { sectionId: "s1" });
+
+    const request = fetcher.requests[0];
+    expect(request.url).toBe("https://api.todoist.com/sync/v9/sync");
+    const { commands } = JSON.parse(request.body ?? "");
+    expect(commands[0].type).toBe("item_move");
+    expect(commands[0].args).toEqual({ id: "1", section_id: "s1" });
+  });
+
+  it("moveTask throws when the command is rejected", async () => {
+    const fetcher = new FakeFetcher((params) => {
+      const { commands } = JSON.parse(params.body ?? "");
+      return {
+        statusCode: 200,
+        body: JSON.stringify({
+          sync_status: {
+            [commands[0].uuid]: { error: "Item not found", error_code: 22, http_code: 404 },
+          },
+        }),
+      };
+    });
+    const client = new TodoistApiClient("token", fetcher);
+
+    const error = await client.moveTask("1", { projectId: "p2" }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TodoistApiError);
+    expect(error.statusCode).toBe(404);
+  });
+
+  it("executeCommands reports per-command statuses and temporary ID mappings", async () => {
+    const fetcher = new FakeFetcher((params) => {
+      const { commands } = JSON.parse(params.body ?? "");
+      return {
+        statusCode: 200,
+        body: JSON.stringify({
+          sync_status: {
+            [commands[0].uuid]: "ok",
+            [commands[1].uuid]: { error: "Invalid argument value", http_code: 400 },
+          },
+          temp_id_mapping: { [commands[0].temp_id]: "100" },
+        }),
+      };
+    });
+    const client = new TodoistApiClient("token", fetcher);
+
+    const batch = new CommandBatch();
+    const [created, tempId] = batch.createTask("Plan trip", {
+      priority: 1,
+      projectId: "p1",
+      dueString: "today",
+    });
+    const closed = batch.closeTask("2");
+    const results = await client.executeCommands(batch.commands);
+
+    expect(JSON.parse(fetcher.requests[0].body ?? "").commands[0].args).toEqual({
+      content: "Plan trip",
+      priority: 1,
+      project_id: "p1",
+      due: { string: "today" },
+    });
+    expect(results.statuses.get(created)).toEqual({ ok: true });
+    expect(results.statuses.get(closed)).toEqual({
+      ok: false,
+      error: "Invalid argument value",
+      httpCode: 400,
+    });
+    expect(results.tempIdMapping.get(tempId)).toBe("100");
+  });
+
+  it("executeCommands splits large batches and resolves earlier temporary IDs", async () => {
+    let nextId = 1;
+    const fetcher = new FakeFetcher((params) => {
+      const { commands } = JSON.parse(params.body ?? "");
+      const body = {
+        sync_status: {} as Record<string, string>,
+        temp_id_mapping: {} as Record<string, string>,
+      };
+      for (const command of commands) {
+        body.sync_status[command.uuid] = "ok";
+        if (command.temp_id) {
+          body.temp_id_mapping[command.temp_id] = String(nextId++);
+        }
+      }
+      return { statusCode: 200, body: JSON.stringify(body) };
+    });
+    const client = new TodoistApiClient("token", fetcher);
+
+    const batch = new CommandBatch();
+    const [, parentId] = batch.createTask("Parent", { priority: 1, projectId: "p1" });
+    for (let i = 0; i < 100; i++) {
+      batch.createTask(`Child ${i}`, { priority: 1, projectId: "p1", parentId });
+    }
+    const results = await client.executeCommands(batch.commands);
+
+    expect(fetcher.requests).toHaveLength(2);
+    const [lastChild] = JSON.parse(fetcher.requests[1].body ?? "").commands;
+    expect(lastChild.args.parent_id).toBe("1");
+    expect([...results.statuses.values()].every((status) => status.ok)).toBe(true);
+  });
+});
@@ -1,12 +1,41 @@
-import type { Label } from "@/api/domain/label";
-import type { Project } from "@/api/domain/project";
-import type { Section } from "@/api/domain/section";
-import type { CreateTaskParams, Task, TaskId } from "@/api/domain/task";
+import {
+  CommandBatch,
+  type CommandResults,
+  type CommandStatus,
+  type SyncCommand,
+} from "@/api/commands";
+import type { CreateLabelParams, Label, LabelId, UpdateLabelParams } from "@/api/domain/label";
+import type {
+  CreateProjectParams,
+  Project,
+  ProjectId,
+  UpdateProjectParams,
+} from "@/api/domain/project";
+import type {
+  CreateSectionParams,
+  Section,
+  SectionId,
+  UpdateSectionParams,
+} from "@/api/domain/section";
+import type { SyncResourceType, SyncResponse, SyncToken } from "@/api/domain/sync";
+import type {
+  CreateTaskParams,
+  MoveTaskParams,
+  Task,
+  TaskId,
+  UpdateTaskParams,
+} from "@/api/domain/task";
 import type { RequestParams, WebFetcher, WebResponse } from "@/api/fetcher";
 import debug from "@/log";
 import camelize from "camelize-ts";
 import snakify from "snakify-ts";
 
+const restApiUrl = "https://api.todoist.com/rest/v2";
+const syncApiUrl = "https://api.todoist.com/sync/v9";
+
+// The Sync API rejects requests with more than 100 commands.
+const maxCommands = 100;
+
 export class TodoistApiClient {
   private token: string;
   private fetcher: WebFetcher;
@@ -28,33 +57,144 @@ export class TodoistApiClient {
     return camelize(JSON.parse(response.body)) as Task[];
   }
 
-  public async createTask(content: string, options?: CreateTaskParams): Promise<void> {
+  public async createTask(content: string, options?: CreateTaskParams): Promise<Task> {
     const body = snakify({ content: content, ...(options ?? {}) });
-    await this.do("/tasks", "POST", body);
+    const response = await this.do("/tasks", "POST", body);
+    return camelize(JSON.parse(response.body)) as Task;
+  }
+
+  public async updateTask(id: TaskId, params: UpdateTaskParams): Promise<Task> {
+    const response = await this.do(`/tasks/${id}`, "POST", snakify(params));
+    return camelize(JSON.parse(response.body)) as Task;
   }
 
   public async closeTask(id: TaskId): Promise<void> {
     await this.do(`/tasks/${id}/close`, "POST");
   }
 
+  public async reopenTask(id: TaskId): Promise<void> {
+    await this.do(`/tasks/${id}/reopen`, "POST");
+  }
+
+  public async deleteTask(id: TaskId): Promise<void> {
+    await this.do(`/tasks/${id}`, "DELETE");
+  }
+
+  // The REST API cannot change a task's project, section, or parent, so moves go through
+  // the Sync API's `item_move` command.
+  public async moveTask(id: TaskId, destination: MoveTaskParams): Promise<void> {
+    const batch = new CommandBatch();
+    const uuid = batch.moveTask(id, destination);
+    const { statuses } = await this.executeCommands(batch.commands);
+
+    const status = statuses.get(uuid);
+    if (status !== undefined && !status.ok) {
+      throw new TodoistApiError(
+        { url: `${syncApiUrl}/sync`, method: "POST", headers: {} },
+        { statusCode: status.httpCode ?? 400, body: status.error },
+      );
+    }
+  }
+
+  // Sends commands to the Sync API, splitting them into requests of at most `maxCommands`.
+  // Temporary IDs resolved by earlier requests are substituted into later ones.
+  public async executeCommands(commands: SyncCommand[]): Promise<CommandResults> {
+    const results: CommandResults = { statuses: new Map(), tempIdMapping: new Map() };
+
+    for (let i = 0; i < commands.length; i += maxCommands) {
+      const chunk = commands
+        .slice(i, i + maxCommands)
+        .map((command) => resolveTempIds(command, results.tempIdMapping));
+      const response = await this.do("/sync", "POST", { commands: chunk }, syncApiUrl);
+
+      // Keys are command UUIDs and temporary IDs, so the body must not be camelized.
+      const body = JSON.parse(response.body) as RawCommandResponse;
+      for (const command of chunk) {
+        results.statuses.set(command.uuid, toCommandStatus(body.sync_status?.[command.uuid]));
+      }
+      for (const [tempId, id] of Object.entries(body.temp_id_mapping ?? {})) {
+        results.tempIdMapping.set(tempId, id);
+      }
+    }
+
+    return results;
+  }
+
+  // Returns everything changed since `syncToken`, or all resources for the full sync token.
+  public async sync(
+    syncToken: SyncToken,
+    resourceTypes: SyncResourceType[],
+  ): Promise<SyncResponse> {
+    const body = { sync_token: syncToken, resource_types: resourceTypes };
+    const response = await this.do("/sync", "POST", body, syncApiUrl);
+    return camelize(JSON.parse(response.body)) as SyncResponse;
+  }
+
   public async getProjects(): Promise<Project[]> {
     const response = await this.do("/projects", "GET");
     return camelize(JSON.parse(response.body)) as Project[];
   }
 
+  public async createProject(params: CreateProjectParams): Promise<Project> {
+    const response = await this.do("/projects", "POST", snakify(params));
+    return camelize(JSON.parse(response.body)) as Project;
+  }
+
+  public async updateProject(id: ProjectId, params: UpdateProjectParams): Promise<Project> {
+    const response = await this.do(`/projects/${id}`, "POST", snakify(params));
+    return camelize(JSON.parse(response.body)) as Project;
+  }
+
+  public async deleteProject(id: ProjectId): Promise<void> {
+    await this.do(`/projects/${id}`, "DELETE");
+  }
+
   public async getSections(): Promise<Section[]> {
     const response = await this.do("/sections", "GET");
     return camelize(JSON.parse(response.body)) as Section[];
   }
 
+  public async createSection(params: CreateSectionParams): Promise<Section> {
+    const response = await this.do("/sections", "POST", snakify(params));
+    return camelize(JSON.parse(response.body)) as Section;
+  }
+
+  public async updateSection(id: SectionId, params: UpdateSectionParams): Promise<Section> {
+    const response = await this.do(`/sections/${id}`, "POST", snakify(params));
+    return camelize(JSON.parse(response.body)) as Section;
+  }
+
+  public async deleteSection(id: SectionId): Promise<void> {
+    await this.do(`/sections/${id}`, "DELETE");
+  }
+
   public async getLabels(): Promise<Label[]> {
     const response = await this.do("/labels", "GET");
     return camelize(JSON.parse(response.body)) as Label[];
   }
 
-  private async do(path: string, method: string, json?: object): Promise<WebResponse> {
+  public async createLabel(params: CreateLabelParams): Promise<Label> {
+    const response = await this.do("/labels", "POST", snakify(params));
+    return camelize(JSON.parse(response.body)) as Label;
+  }
+
+  public async updateLabel(id: LabelId, params: UpdateLabelParams): Promise<Label> {
+    const response = await this.do(`/labels/${id}`, "POST", snakify(params));
+    return camelize(JSON.parse(response.body)) as Label;
+  }
+
+  public async deleteLabel(id: LabelId): Promise<void> {
+    await this.do(`/labels/${id}`, "DELETE");
+  }
+
+  private async do(
+    path: string,
+    method: string,
+    json?: object,
+    baseUrl: string = restApiUrl,
+  ): Promise<WebResponse> {
     const params: RequestParams = {
-      url: `https://api.todoist.com/rest/v2${path}`,
+      url: `${baseUrl}${path}`,
       method: method,
       headers: {
         Authorization: `Bearer ${this.token}`,
@@ -86,6 +226,35 @@ export class TodoistApiClient {
   }
 }
 
+type RawCommandResponse = {
+  sync_status?: Record<string, "ok" | { error?: string; http_code?: number }>;
+  temp_id_mapping?: Record<string, string>;
+};
+
+const toCommandStatus = (
+  status: "ok" | { error?: string; http_code?: number } | undefined,
+): CommandStatus => {
+  if (status === "ok") {
+    return { ok: true };
+  }
+
+  if (status === undefined) {
+    return { ok: false, error: "No status returned for command" };
+  }
+
+  return { ok: false, error: status.error ?? "Unknown error", httpCode: status.http_code };
+};
+
+const resolveTempIds = (command: SyncCommand, mapping: Map<string, string>): SyncCommand => {
+  const args = Object.fromEntries(
+    Object.entries(command.args).map(([key, value]) => [
+      key,
+      typeof value === "string" ? (mapping.get(value) ?? value) : value,
+    ]),
+  );
+  return { ...command, args };
+};
+
 export class TodoistApiError extends Error {
   public statusCode: number;
 
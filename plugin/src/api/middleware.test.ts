@@ -0,0 +1,169 @@
+import type { RequestParams, WebFetcher, WebResponse } from "@/api/fetcher";
+import {
+  applyMiddleware,
+  limitConcurrency,
+  logMetrics,
+  retryTransientErrors,
+} from "@/api/middleware";
+import { useSettingsStore } from "@/settings";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+class FakeFetcher implements WebFetcher {
+  public requests: RequestParams[] = [];
+  private readonly responses: WebResponse[];
+
+  constructor(responses: WebResponse[]) {
+    this.responses = responses;
+  }
+
+  public async fetch(params: RequestParams): Promise<WebResponse> {
+    this.requests.push(params);
+    return this.responses.shift() ?? { statusCode: 200, body: "" };
+  }
+}
+
+const request: RequestParams = {
+  url: "https://api.todoist.com/rest/v2/tasks",
+  method: "GET",
+  headers: {},
+};
+
+const recordSleeps = () => {
+  const sleeps: number[] = [];
+  return {
+    sleeps,
+    sleep: async (ms: number) => {
+      sleeps.push(ms);
+    },
+  };
+};
+
+describe("retryTransientErrors", () => {
+  it("waits for the Retry-After delay when rate limited", async () => {
+    const fake = new FakeFetcher([
+      { statusCode: 429, body: "", headers: { "retry-after": "2" } },
+      { statusCode: 200, body: "ok" },
+    ]);
+    const { sleeps, sleep } = recordSleeps();
+    const fetcher = applyMiddleware(fake, retryTransientErrors({ sleep }));
+
+    const response = await fetcher.fetch(request);
+
+    expect(response.body).toBe("ok");
+    expect(sleeps).toEqual([2000]);
+  });
+
+  it("accepts an HTTP date in Retry-After", async () => {
+    const now = Date.parse("2024-05-26T10:00:00Z");
+    const fake = new FakeFetcher([
+      { statusCode: 429, body: "", headers: { "Retry-After": "Sun, 26 May 2024 10:00:05 GMT" } },
+    ]);
+    const { sleeps, sleep } = recordSleeps();
+    const fetcher = applyMiddleware(fake, retryTransientErrors({ sleep, now: () => now }));
+
+    await fetcher.fetch(request);
+
+    expect(sleeps).toEqual([5000]);
+  });
+
+  it("retries server errors with jittered exponential backoff and then gives up", async () => {
+    const fake = new FakeFetcher([
+      { statusCode: 502, body: "" },
+      { statusCode: 503, body: "" },
+      { statusCode: 500, body: "" },
+      { statusCode: 500, body: "still down" },
+    ]);
+    const { sleeps, sleep } = recordSleeps();
+    const fetcher = applyMiddleware(
+      fake,
+      retryTransientErrors({ sleep, random: () => 0.5, baseDelayMs: 100 }),
+    );
+
+    const response = await fetcher.fetch(request);
+
+    expect(response.body).toBe("still down");
+    expect(fake.requests).toHaveLength(4);
+    expect(sleeps).toEqual([50, 100, 200]);
+  });
+
+  it("does not retry client errors", async () => {
+    const fake = new FakeFetcher([{ statusCode: 400, body: "bad" }]);
+    const { sleeps, sleep } = recordSleeps();
+    const fetcher = applyMiddleware(fake, retryTransientErrors({ sleep }));
+
+    const response = await fetcher.fetch(request);
+
+    expect(response.statusCode).toBe(400);
+    expect(sleeps).toEqual([]);
+  });
+
+  it("sends the same request ID on every attempt of a POST", async () => {
+    const fake = new FakeFetcher([{ statusCode: 503, body: "" }]);
+    const { sleep } = recordSleeps();
+    const fetcher = applyMiddleware(fake, retryTransientErrors({ sleep }));
+
+    await fetcher.fetch({ ...request, method: "POST" });
+
+    const [first, second] = fake.requests.map((r) => r.headers["X-Request-Id"]);
+    expect(first).toBeDefined();
+    expect(second).toBe(first);
+  });
+});
+
+describe("limitConcurrency", () => {
+  it("never has more requests in flight than the limit", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const slow: WebFetcher = {
+      fetch: async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        inFlight--;
+        return { statusCode: 200, body: "" };
+      },
+    };
+    const fetcher = applyMiddleware(slow, limitConcurrency(2));
+
+    await Promise.all(Array.from({ length: 6 }, () => fetcher.fetch(request)));
+
+    expect(maxInFlight).toBe(2);
+  });
+
+  it("releases the slot when a request throws", async () => {
+    const failing: WebFetcher = {
+      fetch: async () => {
+        throw new Error("offline");
+      },
+    };
+    const fetcher = applyMiddleware(failing, limitConcurrency(1));
+
+    await expect(fetcher.fetch(request)).rejects.toThrow("offline");
+    await expect(fetcher.fetch(request)).rejects.toThrow("offline");
+  });
+});
+
+describe("logMetrics", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    useSettingsStore.setState({ debugLogging: false });
+  });
+
+  it("logs running request totals to the debug log", async () => {
+    useSettingsStore.setState({ debugLogging: true });
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    const fake = new FakeFetcher([
+      { statusCode: 200, body: "" },
+      { statusCode: 429, body: "" },
+    ]);
+    const fetcher = applyMiddleware(fake, logMetrics());
+
+    await fetcher.fetch(request);
+    await fetcher.fetch(request);
+
+    expect(log).toHaveBeenCalledWith("Todoist API request metrics");
+    expect(log).toHaveBeenLastCalledWith(
+      expect.objectContaining({ requests: 2, failures: 1, rateLimited: 1, inFlight: 0 }),
+    );
+  });
+});
@@ -0,0 +1,216 @@
+import type { RequestParams, WebFetcher, WebResponse } from "@/api/fetcher";
+import debug from "@/log";
+
+// A middleware wraps a fetcher to add behaviour around every request, e.g. retries.
+export type FetcherMiddleware = (next: WebFetcher) => WebFetcher;
+
+export const applyMiddleware = (
+  fetcher: WebFetcher,
+  ...middleware: FetcherMiddleware[]
+): WebFetcher => {
+  // The first middleware is the outermost, so it sees each request first.
+  return middleware.reduceRight((next, wrap) => wrap(next), fetcher);
+};
+
+// The middleware used for the Todoist API: retries outside of the concurrency cap so a request
+// waiting to retry doesn't hold a slot, and metrics innermost so each attempt is counted.
+export const withDefaultMiddleware = (fetcher: WebFetcher): WebFetcher =>
+  applyMiddleware(fetcher, retryTransientErrors(), limitConcurrency(4), logMetrics());
+
+export type Sleep = (ms: number) => Promise<void>;
+
+const sleep: Sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export type RetryOptions = {
+  maxRetries: number;
+  // Base delay for the exponential backoff after a server error.
+  baseDelayMs: number;
+  maxDelayMs: number;
+  sleep: Sleep;
+  random: () => number;
+  now: () => number;
+};
+
+const defaultRetryOptions: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30 * 1000,
+  sleep,
+  random: Math.random,
+  now: Date.now,
+};
+
+// Retries rate limited requests after the delay Todoist asks for in `Retry-After`, and server
+// errors with exponential backoff and full jitter. Other responses are returned as is.
+export const retryTransientErrors =
+  (options: Partial<RetryOptions> = {}): FetcherMiddleware =>
+  (next) => {
+    const opts = { ...defaultRetryOptions, ...options };
+
+    return {
+      fetch: async (params) => {
+        const request = withRequestId(params);
+
+        for (let attempt = 0; ; attempt++) {
+          const response = await next.fetch(request);
+          if (!isRetryable(response) || attempt >= opts.maxRetries) {
+            return response;
+          }
+
+          const delay = retryDelay(response, attempt, opts);
+          debug({
+            msg: `Retrying Todoist API request in ${delay}ms`,
+            context: { url: params.url, statusCode: response.statusCode, attempt: attempt + 1 },
+          });
+          await opts.sleep(delay);
+        }
+      },
+    };
+  };
+
+// Todoist deduplicates requests with the same `X-Request-Id`, which makes retrying a POST safe.
+const withRequestId = (params: RequestParams): RequestParams => {
+  if (params.method === "GET" || params.headers["X-Request-Id"] !== undefined) {
+    return params;
+  }
+
+  return { ...params, headers: { ...params.headers, "X-Request-Id": crypto.randomUUID() } };
+};
+
+const isRetryable = (response: WebResponse): boolean =>
+  response.statusCode === 429 || response.statusCode >= 500;
+
+const retryDelay = (response: WebResponse, attempt: number, opts: RetryOptions): number => {
+  if (response.statusCode === 429) {
+    const retryAfter = parseRetryAfter(getHeader(response, "Retry-After"), opts.now());
+    if (retryAfter !== undefined) {
+      return Math.min(retryAfter, opts.maxDelayMs);
+    }
+  }
+
+  const ceiling = Math.min(opts.baseDelayMs * 2 ** attempt, opts.maxDelayMs);
+  return Math.round(opts.random() * ceiling);
+};
+
+// `Retry-After` is either a number of seconds or an HTTP date.
+const parseRetryAfter = (value: string | undefined, now: number): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (value.trim() !== "" && Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, date - now);
+};
+
+const getHeader = (response: WebResponse, name: string): string | undefined => {
+  const key = Object.keys(response.headers ?? {}).find(
+    (header) => header.toLowerCase() === name.toLowerCase(),
+  );
+  return key !== undefined ? response.headers?.[key] : undefined;
+};
+
+// Caps the number of requests in flight. Further requests wait for a slot in the order they
+// were made.
+export const limitConcurrency =
+  (maxConcurrent: number): FetcherMiddleware =>
+  (next) => {
+    let active = 0;
+    const waiting: (() => void)[] = [];
+
+    const acquire = async () => {
+      if (active < maxConcurrent) {
+        active++;
+        return;
+      }
+
+      // The slot is handed over directly by `release`, so `active` is unchanged.
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    };
+
+    const release = () => {
+      const nextInLine = waiting.shift();
+      if (nextInLine !== undefined) {
+        nextInLine();
+      } else {
+        active--;
+      }
+    };
+
+    return {
+      fetch: async (params) => {
+        await acquire();
+        try {
+          return await next.fetch(params);
+        } finally {
+          release();
+        }
+      },
+    };
+  };
+
+export type RequestMetrics = {
+  requests: number;
+  failures: number;
+  rateLimited: number;
+  inFlight: number;
+  totalDurationMs: number;
+};
+
+// Logs the duration of every request along with running totals to the debug log.
+export const logMetrics =
+  (now: () => number = Date.now): FetcherMiddleware =>
+  (next) => {
+    const metrics: RequestMetrics = {
+      requests: 0,
+      failures: 0,
+      rateLimited: 0,
+      inFlight: 0,
+      totalDurationMs: 0,
+    };
+
+    return {
+      fetch: async (params) => {
+        const start = now();
+        metrics.requests++;
+        metrics.inFlight++;
+
+        let statusCode: number | undefined;
+        try {
+          const response = await next.fetch(params);
+          statusCode = response.statusCode;
+          return response;
+        } finally {
+          const durationMs = now() - start;
+          metrics.inFlight--;
+          metrics.totalDurationMs += durationMs;
+          if (statusCode === undefined || statusCode >= 400) {
+            metrics.failures++;
+          }
+          if (statusCode === 429) {
+            metrics.rateLimited++;
+          }
+
+          debug({
+            msg: "Todoist API request metrics",
+            context: {
+              method: params.method,
+              url: params.url,
+              statusCode,
+              durationMs,
+              ...metrics,
+              averageDurationMs: Math.round(metrics.totalDurationMs / metrics.requests),
+            },
+          });
+        }
+      },
+    };
+  };
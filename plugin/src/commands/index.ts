@@ -4,10 +4,12 @@ import {
   addTaskWithPageInDescription,
 } from "@/commands/addTask";
 import { FileSyncManager } from "@/core/sync/FileSyncManager";
+import { withSyncLock } from "@/core/sync/SyncLock";
 import { t } from "@/i18n";
 import type { Translations } from "@/i18n/translation";
 import type TodoistPlugin from "@/index";
 import debug from "@/log";
+import type { SyncPreview } from "@/ui/syncPreviewModal/SyncPreviewModal";
 import type { Command as ObsidianCommand } from "obsidian";
 import { Notice } from "obsidian";
 
@@ -35,10 +37,12 @@ const fileSyncCommand: MakeCommand = (plugin: TodoistPlugin, i18n: Translations[
         // Use static import to ensure proper bundling
         const fileSyncManager = new FileSyncManager(plugin);
 
-        // Ensure directory structure exists before syncing
-        await fileSyncManager.initializeDirectoryStructure();
+        await withSyncLock(async () => {
+          // Ensure directory structure exists before syncing
+          await fileSyncManager.initializeDirectoryStructure();
 
-        await fileSyncManager.syncAllTasks();
+          await fileSyncManager.syncAllTasks();
+        });
       } catch (error) {
         console.error("File sync failed:", error);
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -56,10 +60,12 @@ const bidirectionalSyncCommand: MakeCommand = (plugin: TodoistPlugin, i18n: Tran
       try {
         const fileSyncManager = new FileSyncManager(plugin);
 
-        // Ensure directory structure exists before syncing
-        await fileSyncManager.initializeDirectoryStructure();
+        const result = await withSyncLock(async () => {
+          // Ensure directory structure exists before syncing
+          await fileSyncManager.initializeDirectoryStructure();
 
-        const result = await fileSyncManager.syncObsidianChangesToTodoist();
+          return await fileSyncManager.syncObsidianChangesToTodoist();
+        });
 
         // Create ADHD-friendly success message with backup info
         let message = result.backupCreated ? '🛡️ Backup created! ' : '⚠️ No backup created! ';
@@ -68,7 +74,9 @@ const bidirectionalSyncCommand: MakeCommand = (plugin: TodoistPlugin, i18n: Tran
         const parts = [];
         if (result.completed > 0) parts.push(`${result.completed} tasks completed 🎉`);
         if (result.updated > 0) parts.push(`${result.updated} tasks updated`);
-        if (result.conflicts > 0) parts.push(`${result.conflicts} conflicts resolved`);
+        if (result.created > 0) parts.push(`${result.created} tasks created`);
+        if (result.queued > 0) parts.push(`${result.queued} changes queued until Todoist is reachable 📡`);
+        if (result.conflicts > 0) parts.push(`${result.conflicts} conflicting edits skipped`);
 
         if (parts.length > 0) {
           message += parts.join(', ');
@@ -110,10 +118,12 @@ const quickSyncCommand: MakeCommand = (plugin: TodoistPlugin, i18n: Translations
       try {
         const fileSyncManager = new FileSyncManager(plugin);
 
-        // Ensure directory structure exists before syncing
-        await fileSyncManager.initializeDirectoryStructure();
+        const result = await withSyncLock(async () => {
+          // Ensure directory structure exists before syncing
+          await fileSyncManager.initializeDirectoryStructure();
 
-        const result = await fileSyncManager.syncObsidianChangesToTodoist(true); // Skip conflicts
+          return await fileSyncManager.syncObsidianChangesToTodoist(true, undefined, { trigger: "quick-sync" }); // Skip conflicts
+        });
 
         // Create simple success message
         let message = result.backupCreated ? '🛡️ Backup created! ' : '⚠️ No backup created! ';
@@ -122,6 +132,8 @@ const quickSyncCommand: MakeCommand = (plugin: TodoistPlugin, i18n: Translations
         const parts = [];
         if (result.completed > 0) parts.push(`${result.completed} tasks completed 🎉`);
         if (result.updated > 0) parts.push(`${result.updated} tasks updated`);
+        if (result.created > 0) parts.push(`${result.created} tasks created`);
+        if (result.queued > 0) parts.push(`${result.queued} changes queued until Todoist is reachable 📡`);
 
         if (parts.length > 0) {
           message += parts.join(', ');
@@ -154,15 +166,15 @@ const incrementalSyncCommand: MakeCommand = (plugin: TodoistPlugin, i18n: Transl
       try {
         const fileSyncManager = new FileSyncManager(plugin);
 
-        // Ensure directory structure exists before syncing
-        await fileSyncManager.initializeDirectoryStructure();
+        const result = await withSyncLock(async () => {
+          // Ensure directory structure exists before syncing
+          await fileSyncManager.initializeDirectoryStructure();
 
-        // For now, use the regular sync but with hash-based change detection
-        // The TaskFormatter now includes hashes, so future syncs will be incremental
-        const result = await fileSyncManager.syncAllTasks();
-
-        new Notice(`🧠 Smart sync complete! ${result.tasksProcessed} tasks processed with hash-based change tracking enabled`, 4000);
-        console.log("📊 Smart sync enabled hash-based change tracking for future incremental syncs");
+          // Only changes since the last sync token are downloaded, and files are
+          // rewritten only when their task hashes are out of date
+          return await fileSyncManager.syncIncrementally({ trigger: "smart-sync" });
+        });
+        console.log(result.report);
 
       } catch (error) {
         console.error("Smart sync failed:", error);
@@ -178,50 +190,105 @@ const backupManagementCommand: MakeCommand = (plugin: TodoistPlugin, i18n: Trans
     name: "Manage Todoist Backups",
     callback: async () => {
       debug("Opening backup management");
-      try {
-        const { TodoistBackupManager } = await import('@/core/backup/TodoistBackupManager');
-        const backupManager = new TodoistBackupManager(plugin);
-        const backups = await backupManager.listBackups();
-
-        if (backups.length === 0) {
-          new Notice("📁 No backups found. Backups are created automatically before sync operations.", 4000);
-          return;
-        }
-
-        // Create a simple backup list display
-        let message = `📋 Found ${backups.length} backup(s):\n\n`;
-        backups.slice(0, 5).forEach((backup, index) => {
-          const date = new Date(backup.timestamp).toLocaleString();
-          const size = (backup.size / 1024).toFixed(1);
-          message += `${index + 1}. ${backup.fileName}\n`;
-          message += `   📅 ${date}\n`;
-          message += `   📊 ${backup.taskCount} tasks, ${size}KB\n\n`;
-        });
+      const { BackupBrowserModal } = await import("@/ui/backupModal/BackupBrowserModal");
+      new BackupBrowserModal(plugin).open();
+    },
+  };
+};
 
-        if (backups.length > 5) {
-          message += `... and ${backups.length - 5} more backups`;
-        }
+const restoreBackupCommand: MakeCommand = (plugin: TodoistPlugin, i18n: Translations["commands"]) => {
+  return {
+    name: "Restore Todoist Backup",
+    callback: async () => {
+      debug("Choosing a backup to restore");
+      const { TodoistBackupManager } = await import("@/core/backup/TodoistBackupManager");
+      const { BackupSuggestModal, RestorePreviewModal } = await import("@/ui/backupModal/RestorePreviewModal");
+
+      const backups = await new TodoistBackupManager(plugin).listBackupFiles();
+      if (backups.length === 0) {
+        new Notice("📁 No backups found. Backups are created automatically before sync operations.", 4000);
+        return;
+      }
 
-        message += `\n💡 Backups are stored in: ⚙️ System/Backups/`;
+      new BackupSuggestModal(plugin, backups, (backupFile) => {
+        new RestorePreviewModal(plugin, backupFile).open();
+      }).open();
+    },
+  };
+};
 
-        new Notice(message, 10000);
-        console.log("📋 Backup Details:", backups);
+const conflictHistoryCommand: MakeCommand = (plugin: TodoistPlugin, i18n: Translations["commands"]) => {
+  return {
+    name: "Review recent conflict resolutions",
+    callback: async () => {
+      debug("Opening conflict history");
+      const { ConflictHistoryModal } = await import("@/ui/conflictModal/ConflictHistoryModal");
+      new ConflictHistoryModal(plugin).open();
+    },
+  };
+};
 
-      } catch (error) {
-        console.error("Failed to list backups:", error);
-        new Notice(`❌ Failed to list backups: ${error}`, 5000);
-      }
+const syncHistoryCommand: MakeCommand = (plugin: TodoistPlugin, i18n: Translations["commands"]) => {
+  return {
+    name: "Show sync history",
+    callback: async () => {
+      debug("Opening sync history");
+      const { SyncHistoryModal } = await import("@/ui/syncHistoryModal/SyncHistoryModal");
+      new SyncHistoryModal(plugin).open();
     },
   };
 };
 
+/**
+ * Wraps a sync command in a dry run that previews what it would change, with an option to
+ * run the command from the preview. The dry run waits for running syncs, so it doesn't read
+ * files they are halfway through writing.
+ */
+const previewCommand = (
+  command: MakeCommand,
+  preview: (fileSyncManager: FileSyncManager) => Promise<SyncPreview>,
+): MakeCommand => {
+  return (plugin: TodoistPlugin, i18n: Translations["commands"]) => {
+    const original = command(plugin, i18n);
+    return {
+      name: `${original.name} (Preview)`,
+      callback: async () => {
+        debug(`Previewing ${original.name}`);
+        const { SyncPreviewModal } = await import("@/ui/syncPreviewModal/SyncPreviewModal");
+        const fileSyncManager = new FileSyncManager(plugin);
+        new SyncPreviewModal(
+          plugin,
+          original.name,
+          () => withSyncLock(() => preview(fileSyncManager)),
+          () => original.callback?.(),
+        ).open();
+      },
+    };
+  };
+};
+
 const commands = {
   "todoist-sync": syncCommand,
   "todoist-file-sync": fileSyncCommand,
   "todoist-smart-sync": incrementalSyncCommand,
   "todoist-bidirectional-sync": bidirectionalSyncCommand,
   "todoist-quick-sync": quickSyncCommand,
+  "todoist-file-sync-preview": previewCommand(fileSyncCommand, (manager) =>
+    manager.syncAllTasks(undefined, { dryRun: true, silent: true }),
+  ),
+  "todoist-smart-sync-preview": previewCommand(incrementalSyncCommand, (manager) =>
+    manager.syncIncrementally({ dryRun: true, silent: true, trigger: "smart-sync" }),
+  ),
+  "todoist-bidirectional-sync-preview": previewCommand(bidirectionalSyncCommand, (manager) =>
+    manager.syncObsidianChangesToTodoist(false, undefined, { dryRun: true }),
+  ),
+  "todoist-quick-sync-preview": previewCommand(quickSyncCommand, (manager) =>
+    manager.syncObsidianChangesToTodoist(true, undefined, { dryRun: true, trigger: "quick-sync" }),
+  ),
   "todoist-backup-management": backupManagementCommand,
+  "todoist-restore-backup": restoreBackupCommand,
+  "todoist-conflict-history": conflictHistoryCommand,
+  "todoist-sync-history": syncHistoryCommand,
   "add-task": addTask,
   "add-task-page-content": addTaskWithPageInContent,
   "add-task-page-description": addTaskWithPageInDescription,
@@ -0,0 +1,153 @@
+import type { SafeTaskBackup, TodoistBackupData } from "./TodoistBackupManager";
+
+/**
+ * A task whose fields differ between two backups
+ */
+export interface EditedTask {
+  before: SafeTaskBackup;
+  after: SafeTaskBackup;
+  fields: string[];
+}
+
+/**
+ * What changed in Todoist between two backups
+ */
+export interface BackupChanges {
+  addedTasks: SafeTaskBackup[];
+  removedTasks: SafeTaskBackup[];
+  editedTasks: EditedTask[];
+  addedProjects: string[];
+  removedProjects: string[];
+  renamedProjects: { id: string; from: string; to: string }[];
+}
+
+/**
+ * A backup file with its contents, as used to follow a task across backups
+ */
+export interface LoadedBackup {
+  filePath: string;
+  timestamp: string;
+  data: TodoistBackupData;
+}
+
+const TASK_FIELDS: { name: string; value: (task: SafeTaskBackup) => unknown }[] = [
+  { name: "content", value: (task) => task.content },
+  { name: "description", value: (task) => task.description || "" },
+  { name: "priority", value: (task) => task.priority },
+  {
+    name: "due",
+    value: (task) => (task.due ? task.due.string || task.due.datetime || task.due.date : null),
+  },
+  {
+    name: "duration",
+    value: (task) => (task.duration ? `${task.duration.amount} ${task.duration.unit}` : null),
+  },
+  { name: "labels", value: (task) => task.labels.map((l) => l.name).sort() },
+  { name: "project", value: (task) => task.projectId },
+  { name: "section", value: (task) => task.sectionId },
+  { name: "parent", value: (task) => task.parentId },
+];
+
+/**
+ * Changes from an older backup to a newer one
+ */
+function compare(older: TodoistBackupData, newer: TodoistBackupData): BackupChanges {
+  const before = new Map(older.data.tasks.map((task) => [task.id, task]));
+  const after = new Map(newer.data.tasks.map((task) => [task.id, task]));
+
+  const editedTasks: EditedTask[] = [];
+  for (const [id, task] of after) {
+    const previous = before.get(id);
+    if (!previous) continue;
+
+    const fields = changedFields(previous, task);
+    if (fields.length > 0) {
+      editedTasks.push({ before: previous, after: task, fields });
+    }
+  }
+
+  const projectsBefore = new Map<string, string>(older.data.projects.map((p) => [p.id, p.name]));
+  const projectsAfter = new Map<string, string>(newer.data.projects.map((p) => [p.id, p.name]));
+
+  return {
+    addedTasks: [...after.values()].filter((task) => !before.has(task.id)),
+    removedTasks: [...before.values()].filter((task) => !after.has(task.id)),
+    editedTasks,
+    addedProjects: [...projectsAfter]
+      .filter(([id]) => !projectsBefore.has(id))
+      .map(([, name]) => name),
+    removedProjects: [...projectsBefore]
+      .filter(([id]) => !projectsAfter.has(id))
+      .map(([, name]) => name),
+    renamedProjects: [...projectsAfter]
+      .filter(([id, name]) => projectsBefore.has(id) && projectsBefore.get(id) !== name)
+      .map(([id, to]) => ({ id, from: projectsBefore.get(id) ?? "", to })),
+  };
+}
+
+/**
+ * Names of the fields that differ between two versions of a task
+ */
+function changedFields(before: SafeTaskBackup, after: SafeTaskBackup): string[] {
+  return TASK_FIELDS.filter(
+    (field) => JSON.stringify(field.value(before)) !== JSON.stringify(field.value(after)),
+  ).map((field) => field.name);
+}
+
+/**
+ * Markdown history of a task across backups, oldest first, listing the version of the task in
+ * the first backup holding it and what changed in each later one
+ */
+function taskHistory(taskId: string, backups: LoadedBackup[]): string {
+  const sorted = [...backups].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const versions = sorted.map((backup) => ({
+    backup,
+    task: backup.data.data.tasks.find((task) => task.id === taskId),
+  }));
+  const latest = [...versions].reverse().find((version) => version.task)?.task;
+
+  const lines = [
+    `# 📜 History of "${latest?.content ?? taskId}"`,
+    "",
+    `Todoist task \`${taskId}\` in ${sorted.length} backups.`,
+    "",
+  ];
+  let previous: SafeTaskBackup | undefined;
+
+  for (const { backup, task } of versions) {
+    const heading = `## ${new Date(backup.timestamp).toLocaleString()} (${backup.filePath.split("/").pop()})`;
+
+    if (!task) {
+      if (previous) lines.push(heading, "", "- Not in this backup (completed or deleted)", "");
+      previous = undefined;
+      continue;
+    }
+
+    const fields = previous
+      ? changedFields(previous, task)
+      : TASK_FIELDS.map((field) => field.name);
+    if (previous && fields.length === 0) continue;
+
+    lines.push(heading, "");
+    for (const field of TASK_FIELDS.filter((f) => fields.includes(f.name))) {
+      const value = field.value(task);
+      const shown = Array.isArray(value) ? value.join(", ") : value;
+      lines.push(
+        `- ${previous ? "Changed " : ""}${field.name}: ${shown === null || shown === "" ? "—" : shown}`,
+      );
+    }
+    lines.push("");
+    previous = task;
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * BackupDiff - Compares backups with each other
+ */
+export const BackupDiff = {
+  compare,
+  changedFields,
+  taskHistory,
+};
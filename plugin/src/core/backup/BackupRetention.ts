@@ -0,0 +1,79 @@
+import type { BackupSettings } from "@/settings";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * A backup file and the time it was taken
+ */
+export interface DatedBackup {
+  path: string;
+  time: number;
+}
+
+/**
+ * Matches backup files, plain or gzip-compressed, capturing the time they were taken
+ */
+export const BACKUP_FILE_PATTERN = /(?:^|\/)backup-(\d+)\.json(?:\.gz)?$/;
+
+/**
+ * Time a backup was taken, from its file name
+ */
+function backupTime(path: string): number | null {
+  const match = path.match(BACKUP_FILE_PATTERN);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Backups the policy no longer keeps. A backup is kept when it is one of the `keepLast` newest,
+ * the newest of its day within the last `keepDaily` days, or the newest of its week within the
+ * last `keepWeekly` weeks. The newest backup is always kept.
+ */
+function expired(
+  backups: DatedBackup[],
+  policy: Pick<BackupSettings, "keepLast" | "keepDaily" | "keepWeekly">,
+  now = Date.now(),
+): string[] {
+  const newestFirst = [...backups].sort((a, b) => b.time - a.time);
+  const kept = new Set(
+    newestFirst.slice(0, Math.max(1, policy.keepLast)).map((backup) => backup.path),
+  );
+
+  const keepNewestPer = (period: (time: number) => string, since: number) => {
+    const seen = new Set<string>();
+    for (const backup of newestFirst) {
+      if (backup.time < since) break;
+
+      const key = period(backup.time);
+      if (!seen.has(key)) {
+        seen.add(key);
+        kept.add(backup.path);
+      }
+    }
+  };
+
+  keepNewestPer(dayOf, now - policy.keepDaily * DAY);
+  keepNewestPer(weekOf, now - policy.keepWeekly * 7 * DAY);
+
+  return newestFirst.filter((backup) => !kept.has(backup.path)).map((backup) => backup.path);
+}
+
+function dayOf(time: number): string {
+  return new Date(time).toDateString();
+}
+
+/**
+ * The Monday starting the week of a time
+ */
+function weekOf(time: number): string {
+  const date = new Date(time);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.toDateString();
+}
+
+/**
+ * BackupRetention - Decides which backups a retention policy keeps
+ */
+export const BackupRetention = {
+  backupTime,
+  expired,
+};
@@ -0,0 +1,279 @@
+import type { CreateTaskParams, MoveTaskParams, UpdateTaskParams } from "@/api/domain/task";
+import type { Task } from "@/data/task";
+import type { SafeTaskBackup } from "./TodoistBackupManager";
+
+export interface RestoreOptions {
+  reopenClosed?: boolean; // Reopen tasks missing since the backup instead of recreating them
+  dryRun?: boolean; // Only plan the restore, sending nothing
+}
+
+/**
+ * One change a restore sends to Todoist
+ */
+export type RestoreOperation =
+  | { kind: "recreate"; task: SafeTaskBackup; params: CreateTaskParams; description: string }
+  | { kind: "reopen"; task: SafeTaskBackup; params: CreateTaskParams; description: string } // Recreated with `params` if it was deleted
+  | { kind: "update"; task: SafeTaskBackup; params: UpdateTaskParams; description: string }
+  | { kind: "move"; task: SafeTaskBackup; destination: MoveTaskParams; description: string };
+
+export interface RestorePlan {
+  backupFile: string;
+  timestamp: string;
+  operations: RestoreOperation[];
+}
+
+/**
+ * Projects and sections that exist in Todoist now, to place restored tasks
+ */
+export interface RestoreTargets {
+  inboxId: string;
+  projects: Map<string, string>; // id -> name
+  sections: Map<string, string>; // id -> name
+}
+
+/**
+ * Operations restoring the backup, parents before their subtasks
+ */
+function plan(
+  backupTasks: SafeTaskBackup[],
+  currentTasks: Task[],
+  targets: RestoreTargets,
+  options: RestoreOptions = {},
+): RestoreOperation[] {
+  const current = new Map(currentTasks.map((task) => [task.id, task]));
+  const backupIds = new Set(backupTasks.map((task) => task.id));
+  const operations: RestoreOperation[] = [];
+
+  for (const task of parentsFirst(backupTasks)) {
+    const existing = current.get(task.id);
+
+    if (!existing) {
+      const params = createParams(
+        task,
+        targets,
+        (parentId) => current.has(parentId) || backupIds.has(parentId),
+      );
+      operations.push(
+        options.reopenClosed
+          ? {
+              kind: "reopen",
+              task,
+              params,
+              description: `Reopen "${task.content}" (recreated if it was deleted)`,
+            }
+          : {
+              kind: "recreate",
+              task,
+              params,
+              description: `Recreate "${task.content}" in ${placement(params, targets, backupTasks)}`,
+            },
+      );
+      continue;
+    }
+
+    const [params, fields] = updateParams(task, existing);
+    if (fields.length > 0) {
+      operations.push({
+        kind: "update",
+        task,
+        params,
+        description: `Revert ${fields.join(", ")} of "${task.content}"`,
+      });
+    }
+
+    const destination = moveDestination(task, existing, targets, (parentId) =>
+      current.has(parentId),
+    );
+    if (destination) {
+      operations.push({
+        kind: "move",
+        task,
+        destination,
+        description: `Move "${task.content}" back to ${placement(destination, targets, backupTasks)}`,
+      });
+    }
+  }
+
+  return operations;
+}
+
+/**
+ * Tasks ordered so each parent comes before its subtasks
+ */
+function parentsFirst<T extends { id: string; parentId: string | null }>(tasks: T[]): T[] {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const depth = new Map<string, number>();
+
+  const depthOf = (task: T, seen = new Set<string>()): number => {
+    const known = depth.get(task.id);
+    if (known !== undefined) return known;
+    if (seen.has(task.id)) return 0; // Broken hierarchy with a cycle
+
+    seen.add(task.id);
+    const parent = task.parentId ? byId.get(task.parentId) : undefined;
+    const value = parent ? depthOf(parent, seen) + 1 : 0;
+    depth.set(task.id, value);
+    return value;
+  };
+
+  return [...tasks].sort((a, b) => depthOf(a) - depthOf(b));
+}
+
+/**
+ * Parameters recreating a task where it was, falling back to its project when its section is
+ * gone and to the Inbox when its project is gone
+ */
+function createParams(
+  task: SafeTaskBackup,
+  targets: RestoreTargets,
+  parentKnown: (id: string) => boolean,
+): CreateTaskParams {
+  const projectExists = targets.projects.has(task.projectId);
+  const params: CreateTaskParams = {
+    priority: task.priority,
+    projectId: projectExists ? task.projectId : targets.inboxId,
+    description: task.description || undefined,
+    labels: task.labels.map((l) => l.name),
+  };
+
+  if (task.parentId && parentKnown(task.parentId)) {
+    params.parentId = task.parentId;
+  } else if (projectExists && task.sectionId && targets.sections.has(task.sectionId)) {
+    params.sectionId = task.sectionId;
+  }
+
+  Object.assign(params, dueParams(task));
+
+  if (task.duration) {
+    params.duration = task.duration.amount;
+    params.durationUnit = task.duration.unit;
+  }
+
+  return params;
+}
+
+/**
+ * Update reverting the fields that changed since the backup, and the names of those fields
+ */
+function updateParams(task: SafeTaskBackup, existing: Task): [UpdateTaskParams, string[]] {
+  const params: UpdateTaskParams = {};
+  const fields: string[] = [];
+
+  if (task.content !== existing.content) {
+    params.content = task.content;
+    fields.push("content");
+  }
+
+  if ((task.description || "") !== (existing.description || "")) {
+    params.description = task.description || "";
+    fields.push("description");
+  }
+
+  if (task.priority !== existing.priority) {
+    params.priority = task.priority;
+    fields.push("priority");
+  }
+
+  const due = task.due;
+  const dueChanged = due
+    ? due.isRecurring !== (existing.due?.isRecurring ?? false) ||
+      (due.isRecurring
+        ? due.string !== existing.due?.string
+        : (due.datetime || due.date) !== (existing.due?.datetime || existing.due?.date))
+    : existing.due !== undefined;
+  if (dueChanged) {
+    Object.assign(params, due ? dueParams(task) : { dueString: "no date" });
+    fields.push("due date");
+  }
+
+  // Todoist has no way to clear a duration through an update, so only set ones are restored
+  if (
+    task.duration &&
+    (task.duration.amount !== existing.duration?.amount ||
+      task.duration.unit !== existing.duration?.unit)
+  ) {
+    params.duration = task.duration.amount;
+    params.durationUnit = task.duration.unit;
+    fields.push("duration");
+  }
+
+  const labels = task.labels.map((l) => l.name).sort();
+  if (JSON.stringify(labels) !== JSON.stringify(existing.labels.map((l) => l.name).sort())) {
+    params.labels = labels;
+    fields.push("labels");
+  }
+
+  return [params, fields];
+}
+
+/**
+ * Where to move a task back to, or null if it is still there or its old place is gone
+ */
+function moveDestination(
+  task: SafeTaskBackup,
+  existing: Task,
+  targets: RestoreTargets,
+  parentExists: (id: string) => boolean,
+): MoveTaskParams | null {
+  if (task.parentId) {
+    return task.parentId !== existing.parentId && parentExists(task.parentId)
+      ? { parentId: task.parentId }
+      : null;
+  }
+
+  const moved =
+    task.projectId !== existing.project.id ||
+    (task.sectionId ?? null) !== (existing.section?.id ?? null) ||
+    existing.parentId !== undefined;
+  if (!moved) return null;
+
+  if (task.sectionId && targets.sections.has(task.sectionId)) {
+    return { sectionId: task.sectionId };
+  }
+  return targets.projects.has(task.projectId) ? { projectId: task.projectId } : null;
+}
+
+function dueParams(
+  task: SafeTaskBackup,
+): Pick<CreateTaskParams, "dueDate" | "dueDatetime" | "dueString"> {
+  const due = task.due;
+  if (!due) return {};
+
+  // Recurring tasks get their pattern back, Todoist works out the next date from it
+  if (due.isRecurring && due.string) return { dueString: due.string };
+  return due.datetime ? { dueDatetime: due.datetime } : { dueDate: due.date };
+}
+
+/**
+ * Where a task is put, as shown in the plan
+ */
+function placement(
+  params: { projectId?: string; sectionId?: string; parentId?: string },
+  targets: RestoreTargets,
+  backupTasks: SafeTaskBackup[],
+): string {
+  if (params.parentId) {
+    const parent = backupTasks.find((task) => task.id === params.parentId);
+    return parent ? `subtask of "${parent.content}"` : "its parent task";
+  }
+  if (params.sectionId) {
+    return `section ${targets.sections.get(params.sectionId)}`;
+  }
+  return params.projectId === targets.inboxId
+    ? "Inbox"
+    : `project ${targets.projects.get(params.projectId ?? "")}`;
+}
+
+/**
+ * RestorePlanner - Works out how to bring Todoist back to the state of a backup
+ *
+ * Tasks in the backup that are no longer active are recreated, or reopened first when asked.
+ * Todoist can't tell deleted tasks from completed ones once they left the active list, so a
+ * reopened task that turns out to be deleted is recreated after all. Tasks still active get the
+ * fields that changed since the backup reverted and are moved back where they were. Tasks
+ * created after the backup are left alone.
+ */
+export const RestorePlanner = {
+  plan,
+  parentsFirst,
+};
@@ -1,6 +1,12 @@
+import { CommandBatch, type CommandId } from '@/api/commands';
 import type { Task } from '@/data/task';
 import type TodoistPlugin from '@/index';
+import { type BackupSettings, defaultBackupSettings, useSettingsStore } from '@/settings';
 import { Notice, TFile } from 'obsidian';
+import { SyncLayout } from '../sync/SyncLayout';
+import { BackupDiff, type LoadedBackup } from './BackupDiff';
+import { BACKUP_FILE_PATTERN, BackupRetention } from './BackupRetention';
+import { type RestoreOperation, type RestoreOptions, type RestorePlan, RestorePlanner } from './RestorePlanner';
 
 /**
  * Comprehensive backup system for Todoist data
@@ -8,28 +14,55 @@ import { Notice, TFile } from 'obsidian';
  */
 export class TodoistBackupManager {
   private plugin: TodoistPlugin;
-  private backupPath = '📋 01-PRODUCTIVITY/todoist-integration/⚙️ System/Backups';
 
   constructor(plugin: TodoistPlugin) {
     this.plugin = plugin;
   }
 
+  /**
+   * Backups live in the System folder of the sync layout
+   */
+  private get backupPath(): string {
+    return SyncLayout.current().backupPath;
+  }
+
+  /**
+   * Backup settings, filled in with defaults for settings saved by earlier versions
+   */
+  private get settings(): BackupSettings {
+    return { ...defaultBackupSettings, ...useSettingsStore.getState().backups };
+  }
+
   /**
    * Create a complete backup of current Todoist state before sync
    */
-  async createPreSyncBackup(): Promise<{ success: boolean; backupFile: string; error?: string }> {
+  async createPreSyncBackup(): Promise<{ success: boolean; backupFile: string; skipped?: boolean; error?: string }> {
     try {
-      const backupFilePath = this.generateBackupFilename();
+      const settings = this.settings;
+      const backupFilePath = this.generateBackupFilename(settings.compress);
 
       // Fetch all current Todoist data
       const backupData = await this.gatherTodoistData();
 
+      // Nothing changed since the latest backup, which still covers this state
+      if (settings.skipUnchanged) {
+        const latest = await this.findIdenticalLatestBackup(backupData);
+        if (latest) {
+          console.log(`🛡️ Todoist unchanged since ${latest.split('/').pop()}, skipping backup`);
+          return { success: true, backupFile: latest, skipped: true };
+        }
+      }
+
       // Create backup file
       await this.ensureBackupDirectory();
-      await this.plugin.app.vault.create(backupFilePath, JSON.stringify(backupData, null, 2));
+      if (settings.compress) {
+        await this.plugin.app.vault.createBinary(backupFilePath, await TodoistBackupManager.gzip(JSON.stringify(backupData)));
+      } else {
+        await this.plugin.app.vault.create(backupFilePath, JSON.stringify(backupData, null, 2));
+      }
 
-      // Clean up old backups (keep last 7 days)
-      await this.cleanupOldBackups(7);
+      // Drop the backups the retention policy no longer keeps
+      await this.enforceRetention(settings);
 
       const fileName = backupFilePath.split('/').pop() || 'backup.json';
       new Notice(`🛡️ Backup created: ${fileName}`, 2000);
@@ -42,6 +75,22 @@ export class TodoistBackupManager {
     }
   }
 
+  /**
+   * The latest backup if it holds exactly the same data
+   */
+  private async findIdenticalLatestBackup(backupData: TodoistBackupData): Promise<string | null> {
+    const latest = (await this.listBackupFiles()).pop();
+    if (!latest) return null;
+
+    try {
+      const previous = await this.loadBackup(latest);
+      return JSON.stringify(previous.data) === JSON.stringify(backupData.data) ? latest : null;
+    } catch (error) {
+      console.warn(`Failed to read latest backup ${latest}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Gather comprehensive Todoist data for backup
    */
@@ -246,9 +295,8 @@ export class TodoistBackupManager {
 
       for (const backupPath of backupFiles) {
         // Extract timestamp from filename
-        const match = backupPath.match(/backup-(\d+)\.json$/);
-        if (match) {
-          const timestamp = parseInt(match[1]);
+        const timestamp = BackupRetention.backupTime(backupPath);
+        if (timestamp !== null) {
           if (timestamp < cutoffTime) {
             const file = vault.getAbstractFileByPath(backupPath);
             if (file) {
@@ -270,12 +318,60 @@ export class TodoistBackupManager {
     }
   }
 
+  /**
+   * Delete the backups the retention policy no longer keeps, returning how many were deleted
+   */
+  async enforceRetention(settings: BackupSettings = this.settings): Promise<number> {
+    try {
+      const backups = (await this.listBackupFiles())
+        .map(path => ({ path, time: BackupRetention.backupTime(path) ?? 0 }));
+
+      const expired = BackupRetention.expired(backups, settings);
+      for (const backupPath of expired) {
+        await this.deleteBackup(backupPath);
+      }
+
+      if (expired.length > 0) {
+        console.log(`Cleaned up ${expired.length} old backup files`);
+      }
+
+      return expired.length;
+    } catch (error) {
+      console.warn('Failed to apply backup retention:', error);
+      return 0;
+    }
+  }
+
   /**
    * Generate unique backup filename with timestamp
    */
-  private generateBackupFilename(): string {
+  private generateBackupFilename(compress = false): string {
     const timestamp = Date.now();
-    return `📋 01-PRODUCTIVITY/todoist-integration/⚙️ System/backup-${timestamp}.json`;
+    return `${SyncLayout.current().systemPath}/backup-${timestamp}.json${compress ? '.gz' : ''}`;
+  }
+
+  private static async gzip(text: string): Promise<ArrayBuffer> {
+    const stream = new CompressionStream('gzip');
+    const writer = stream.writable.getWriter();
+    writer.write(new TextEncoder().encode(text));
+    writer.close();
+    return new Response(stream.readable).arrayBuffer();
+  }
+
+  private static async gunzip(data: ArrayBuffer): Promise<string> {
+    const stream = new DecompressionStream('gzip');
+    const writer = stream.writable.getWriter();
+    writer.write(new Uint8Array(data));
+    writer.close();
+    return new Response(stream.readable).text();
+  }
+
+  /**
+   * Contents of a backup file, decompressing gzip-compressed backups
+   */
+  private async readBackupFile(file: TFile): Promise<string> {
+    const vault = this.plugin.app.vault;
+    return file.path.endsWith('.gz') ? TodoistBackupManager.gunzip(await vault.readBinary(file)) : vault.read(file);
   }
 
   /**
@@ -284,12 +380,12 @@ export class TodoistBackupManager {
   async listBackupFiles(): Promise<string[]> {
     try {
       const vault = this.plugin.app.vault;
-      const systemPath = '📋 01-PRODUCTIVITY/todoist-integration/⚙️ System';
+      const systemPath = SyncLayout.current().systemPath;
 
       const listing = await vault.adapter.list(systemPath);
 
       return listing.files
-        .filter(filePath => filePath.includes('backup-') && filePath.endsWith('.json'))
+        .filter(filePath => BACKUP_FILE_PATTERN.test(filePath))
         .sort(); // Sort chronologically
     } catch (error) {
       console.warn('Failed to list backup files:', error);
@@ -309,7 +405,7 @@ export class TodoistBackupManager {
         return false;
       }
 
-      const content = await vault.read(backupFile);
+      const content = await this.readBackupFile(backupFile as TFile);
       const backupData = JSON.parse(content);
 
       // Check required structure
@@ -389,72 +485,233 @@ export class TodoistBackupManager {
   }
 
   /**
-   * Restore from a backup file (emergency recovery)
+   * Restore Todoist to the state of a backup file (emergency recovery)
+   *
+   * The backup is compared with the current Todoist tasks first. With `dryRun`, only the plan
+   * listing every operation is returned and nothing is sent.
    */
-  async restoreFromBackup(backupFilePath: string): Promise<{ success: boolean; error?: string }> {
+  async restoreFromBackup(backupFilePath: string, options: RestoreOptions = {}): Promise<RestoreResult> {
+    const result: RestoreResult = { success: false, applied: 0, queued: 0, errors: [] };
+
     try {
-      const vault = this.plugin.app.vault;
-      const backupFile = vault.getAbstractFileByPath(backupFilePath);
+      result.plan = await this.planRestore(backupFilePath, options);
+      if (options.dryRun) {
+        result.success = true;
+        return result;
+      }
+
+      await this.applyRestorePlan(result.plan, result);
+      result.success = result.errors.length === 0;
+
+      const parts = [`${result.applied} changes applied`];
+      if (result.queued > 0) parts.push(`${result.queued} queued until Todoist is reachable 📡`);
+      if (result.errors.length > 0) parts.push(`${result.errors.length} failed (check console)`);
+      new Notice(`♻️ Restored backup from ${new Date(result.plan.timestamp).toLocaleString()}: ${parts.join(', ')}`, 5000);
+      return result;
+    } catch (error) {
+      const errorMsg = `Failed to restore backup: ${error}`;
+      console.error(errorMsg);
+      result.error = errorMsg;
+      return result;
+    }
+  }
+
+  /**
+   * Compare a backup with the current Todoist state and list the operations restoring it
+   */
+  async planRestore(backupFilePath: string, options: RestoreOptions = {}): Promise<RestorePlan> {
+    const backupData = await this.loadBackup(backupFilePath);
+
+    const todoist = this.plugin.services.todoist;
+    await todoist.fetchChanges();
+
+    const data = todoist.data();
+    const projects = [...data.projects.iter()];
+    const targets = {
+      inboxId: projects.find(project => project.isInboxProject)?.id ?? 'inbox',
+      projects: new Map(projects.map(project => [project.id, project.name])),
+      sections: new Map([...data.sections.iter()].map(section => [section.id, section.name])),
+    };
+
+    return {
+      backupFile: backupFilePath,
+      timestamp: backupData.metadata?.timestamp ?? backupData.timestamp ?? '',
+      operations: RestorePlanner.plan(backupData.data.tasks, todoist.tasks(), targets, options),
+    };
+  }
 
-      if (!backupFile || !(backupFile instanceof TFile)) {
-        throw new Error('Backup file not found');
+  /**
+   * Send a restore plan to Todoist. Reopens, updates and moves go first, then tasks are
+   * recreated, including reopened ones Todoist no longer has, so subtasks can go under their
+   * recreated parents.
+   */
+  private async applyRestorePlan(plan: RestorePlan, result: RestoreResult): Promise<void> {
+    const actions = this.plugin.services.todoist.actions;
+    const toRecreate = plan.operations.filter(op => op.kind === 'recreate');
+
+    const batch = new CommandBatch();
+    const pending = new Map<CommandId, RestoreOperation>();
+    for (const op of plan.operations) {
+      switch (op.kind) {
+        case 'reopen':
+          pending.set(batch.reopenTask(op.task.id), op);
+          break;
+        case 'update':
+          pending.set(batch.updateTask(op.task.id, op.params), op);
+          break;
+        case 'move':
+          pending.set(batch.moveTask(op.task.id, op.destination), op);
+          break;
       }
+    }
 
-      const backupContent = await vault.read(backupFile);
-      const backupData: TodoistBackupData = JSON.parse(backupContent);
+    if (batch.size > 0) {
+      const delivery = await actions.executeCommands(batch);
+      for (const [uuid, op] of pending) {
+        if (delivery.queued.has(uuid)) {
+          result.queued++;
+          continue;
+        }
 
-      // Validate backup data
-      if (!backupData.data || !backupData.data.tasks) {
-        throw new Error('Invalid backup data format');
+        const status = delivery.statuses.get(uuid);
+        if (status?.ok) {
+          result.applied++;
+        } else if (op.kind === 'reopen') {
+          // Deleted rather than completed
+          toRecreate.push({ ...op, kind: 'recreate' });
+        } else {
+          result.errors.push(`Failed to ${op.description.toLowerCase()}: ${status?.error ?? 'no response from Todoist'}`);
+        }
       }
+    }
 
-      console.log(`Backup contains ${backupData.data.tasks.length} tasks from ${backupData.timestamp}`);
-      new Notice(`📋 Backup loaded: ${backupData.data.tasks.length} tasks from ${new Date(backupData.timestamp).toLocaleString()}`, 5000);
+    if (toRecreate.length === 0) return;
 
-      return { success: true };
-    } catch (error) {
-      const errorMsg = `Failed to restore backup: ${error}`;
-      console.error(errorMsg);
-      return { success: false, error: errorMsg };
+    const createBatch = new CommandBatch();
+    const created = new Map<string, string>(); // backup id -> temporary id
+    const creates = new Map<CommandId, RestoreOperation>();
+    for (const op of RestorePlanner.parentsFirst(toRecreate.map(op => ({ ...op, id: op.task.id, parentId: op.task.parentId })))) {
+      if (op.kind !== 'recreate') continue;
+
+      const params = { ...op.params };
+      if (params.parentId && created.has(params.parentId)) {
+        params.parentId = created.get(params.parentId);
+      }
+
+      const [uuid, tempId] = createBatch.createTask(op.task.content, params);
+      created.set(op.task.id, tempId);
+      creates.set(uuid, op);
+    }
+
+    const delivery = await actions.executeCommands(createBatch);
+    for (const [uuid, op] of creates) {
+      const status = delivery.statuses.get(uuid);
+      if (delivery.queued.has(uuid)) {
+        result.queued++;
+      } else if (status?.ok) {
+        result.applied++;
+      } else {
+        result.errors.push(`Failed to recreate "${op.task.content}": ${status?.error ?? 'no response from Todoist'}`);
+      }
+    }
+
+    if (result.errors.length > 0) {
+      console.error('Restore errors:', result.errors);
     }
   }
 
   /**
-   * List available backups
+   * Read and check a backup file
+   */
+  async loadBackup(backupFilePath: string): Promise<TodoistBackupData> {
+    const vault = this.plugin.app.vault;
+    const backupFile = vault.getAbstractFileByPath(backupFilePath);
+
+    if (!backupFile || !(backupFile instanceof TFile)) {
+      throw new Error('Backup file not found');
+    }
+
+    const backupData: TodoistBackupData = JSON.parse(await this.readBackupFile(backupFile));
+
+    // Validate backup data
+    if (!backupData.data || !backupData.data.tasks) {
+      throw new Error('Invalid backup data format');
+    }
+
+    return backupData;
+  }
+
+  /**
+   * List available backups, newest first
    */
   async listBackups(): Promise<BackupInfo[]> {
-    try {
-      const vault = this.plugin.app.vault;
-      const backupFiles = vault.getFiles()
-        .filter(file => file.path.startsWith(this.backupPath) && file.name.startsWith('todoist-backup-'))
-        .sort((a, b) => b.stat.mtime - a.stat.mtime);
-
-      const backupInfos: BackupInfo[] = [];
-
-      for (const file of backupFiles) {
-        try {
-          const content = await vault.read(file);
-          const data: TodoistBackupData = JSON.parse(content);
-
-          backupInfos.push({
-            fileName: file.name,
-            filePath: file.path,
-            timestamp: data.timestamp,
-            taskCount: data.data.tasks.length,
-            projectCount: data.data.projects.length,
-            size: file.stat.size,
-            reason: data.metadata.backupReason
-          });
-        } catch (error) {
-          console.warn(`Failed to read backup file ${file.name}:`, error);
-        }
+    const backupInfos: BackupInfo[] = [];
+
+    for (const { filePath, timestamp, data } of await this.loadBackups()) {
+      const file = this.plugin.app.vault.getAbstractFileByPath(filePath);
+      backupInfos.push({
+        fileName: filePath.split('/').pop() ?? filePath,
+        filePath,
+        timestamp,
+        taskCount: data.data.tasks.length,
+        projectCount: data.data.projects.length,
+        size: file instanceof TFile ? file.stat.size : 0,
+        reason: data.metadata.backupReason ?? data.metadata.type ?? ''
+      });
+    }
+
+    return backupInfos.reverse();
+  }
+
+  /**
+   * All readable backups with their contents, oldest first
+   */
+  async loadBackups(): Promise<LoadedBackup[]> {
+    const backups: LoadedBackup[] = [];
+
+    for (const filePath of await this.listBackupFiles()) {
+      try {
+        const data = await this.loadBackup(filePath);
+        const fileTime = BackupRetention.backupTime(filePath);
+        const timestamp = data.metadata?.timestamp ?? data.timestamp
+          ?? (fileTime !== null ? new Date(fileTime).toISOString() : '');
+        backups.push({ filePath, timestamp, data });
+      } catch (error) {
+        console.warn(`Failed to read backup file ${filePath}:`, error);
       }
+    }
 
-      return backupInfos;
-    } catch (error) {
-      console.error('Failed to list backups:', error);
-      return [];
+    return backups;
+  }
+
+  /**
+   * Delete a backup file
+   */
+  async deleteBackup(backupFilePath: string): Promise<void> {
+    const file = this.plugin.app.vault.getAbstractFileByPath(backupFilePath);
+    if (!file) {
+      throw new Error('Backup file not found');
+    }
+
+    await this.plugin.app.vault.delete(file);
+  }
+
+  /**
+   * Write the history of a task across all backups to a note, returning its path
+   */
+  async exportTaskHistory(taskId: string): Promise<string> {
+    const vault = this.plugin.app.vault;
+    const history = BackupDiff.taskHistory(taskId, await this.loadBackups());
+    const historyPath = `${SyncLayout.current().systemPath}/Task History ${taskId}.md`;
+
+    const file = vault.getAbstractFileByPath(historyPath);
+    if (file instanceof TFile) {
+      await vault.modify(file, history);
+    } else {
+      await vault.create(historyPath, history);
     }
+
+    return historyPath;
   }
 }
 
@@ -462,8 +719,8 @@ export class TodoistBackupManager {
  * Comprehensive backup data structure
  */
 export interface TodoistBackupData {
-  timestamp: string;
-  version: string;
+  timestamp?: string; // Written by earlier versions, now in the metadata
+  version?: string;
   data: {
     tasks: SafeTaskBackup[];
     projects: any[];
@@ -471,10 +728,13 @@ export interface TodoistBackupData {
     labels: any[];
   };
   metadata: {
-    totalTasks: number;
-    totalProjects: number;
-    backupReason: string;
-    pluginVersion: string;
+    version?: string;
+    timestamp?: string;
+    type?: string;
+    totalTasks?: number;
+    totalProjects?: number;
+    backupReason?: string;
+    pluginVersion?: string;
   };
 }
 
@@ -506,6 +766,18 @@ export interface SafeTaskBackup {
   todoistMetadata: Record<string, any>;
 }
 
+/**
+ * Outcome of restoring a backup
+ */
+export interface RestoreResult {
+  success: boolean;
+  error?: string;
+  plan?: RestorePlan;
+  applied: number; // Operations Todoist accepted
+  queued: number; // Operations saved until Todoist can be reached
+  errors: string[];
+}
+
 /**
  * Backup file information
  */
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { BackupDiff } from "../BackupDiff";
+import type { SafeTaskBackup, TodoistBackupData } from "../TodoistBackupManager";
+
+const task = (overrides: Partial<SafeTaskBackup>): SafeTaskBackup => ({
+  id: "1",
+  content: "Task",
+  description: "",
+  createdAt: "2024-05-26T10:00:00Z",
+  order: 1,
+  projectId: "work",
+  projectName: "Work",
+  sectionId: null,
+  sectionName: null,
+  parentId: null,
+  due: null,
+  duration: null,
+  priority: 1,
+  labels: [],
+  todoistMetadata: {},
+  ...overrides,
+});
+
+const backup = (
+  timestamp: string,
+  tasks: SafeTaskBackup[],
+  projects = [{ id: "work", name: "Work" }],
+): TodoistBackupData => ({
+  metadata: { timestamp },
+  data: { tasks, projects, sections: [], labels: [] },
+});
+
+describe("BackupDiff", () => {
+  it("should list added, removed and edited tasks and renamed projects", () => {
+    const older = backup("2024-05-01T10:00:00Z", [
+      task({ id: "1", content: "Write report" }),
+      task({ id: "2", content: "Call mom" }),
+    ]);
+    const newer = backup(
+      "2024-05-02T10:00:00Z",
+      [
+        task({ id: "1", content: "Write final report", priority: 4 }),
+        task({ id: "3", content: "Plan trip" }),
+      ],
+      [{ id: "work", name: "Office" }],
+    );
+
+    const changes = BackupDiff.compare(older, newer);
+
+    expect(changes.addedTasks.map((t) => t.content)).toEqual(["Plan trip"]);
+    expect(changes.removedTasks.map((t) => t.content)).toEqual(["Call mom"]);
+    expect(changes.editedTasks.map((edit) => edit.fields)).toEqual([["content", "priority"]]);
+    expect(changes.renamedProjects).toEqual([{ id: "work", from: "Work", to: "Office" }]);
+  });
+
+  it("should write the history of a task across backups", () => {
+    const backups = [
+      {
+        filePath: "backup-2.json",
+        timestamp: "2024-05-02T10:00:00Z",
+        data: backup("2024-05-02T10:00:00Z", [task({ content: "Write final report" })]),
+      },
+      {
+        filePath: "backup-1.json",
+        timestamp: "2024-05-01T10:00:00Z",
+        data: backup("2024-05-01T10:00:00Z", [task({ content: "Write report" })]),
+      },
+      {
+        filePath: "backup-3.json",
+        timestamp: "2024-05-03T10:00:00Z",
+        data: backup("2024-05-03T10:00:00Z", [task({ content: "Write final report" })]),
+      },
+    ];
+
+    const history = BackupDiff.taskHistory("1", backups);
+
+    expect(history).toContain('# 📜 History of "Write final report"');
+    expect(history).toContain("- content: Write report");
+    expect(history).toContain("- Changed content: Write final report");
+    expect(history).not.toContain("backup-3.json"); // Nothing changed in it
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { BackupRetention } from "../BackupRetention";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const now = new Date(2024, 5, 15, 12).getTime(); // A Saturday
+
+const backupAt = (time: number) => ({ path: `System/backup-${time}.json`, time });
+
+describe("BackupRetention", () => {
+  it("should keep the latest backups and the newest backup of each recent day and week", () => {
+    const backups = [
+      backupAt(now - 1 * HOUR),
+      backupAt(now - 2 * HOUR),
+      backupAt(now - 3 * HOUR), // Same day, beyond the latest two
+      backupAt(now - 1 * DAY),
+      backupAt(now - 1 * DAY - HOUR), // Older backup of the same day
+      backupAt(now - 10 * DAY), // Newest of its week
+      backupAt(now - 11 * DAY), // Same week
+      backupAt(now - 40 * DAY), // Beyond the weekly window
+    ];
+
+    const expired = BackupRetention.expired(
+      backups,
+      { keepLast: 2, keepDaily: 7, keepWeekly: 4 },
+      now,
+    );
+
+    expect(expired).toEqual([backups[2].path, backups[4].path, backups[6].path, backups[7].path]);
+  });
+
+  it("should always keep the newest backup and read times from plain and compressed file names", () => {
+    const backups = [backupAt(now - 30 * DAY), backupAt(now - 60 * DAY)];
+
+    expect(
+      BackupRetention.expired(backups, { keepLast: 0, keepDaily: 0, keepWeekly: 0 }, now),
+    ).toEqual([backups[1].path]);
+    expect(BackupRetention.backupTime("System/backup-1717000000000.json.gz")).toBe(1717000000000);
+    expect(
+      BackupRetention.backupTime("System/corrupted-mappings-backup-1717000000000.json"),
+    ).toBeNull();
+  });
+});
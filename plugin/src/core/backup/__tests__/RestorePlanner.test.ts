@@ -0,0 +1,140 @@
+import type { Task } from "@/data/task";
+import { describe, expect, it } from "vitest";
+import { RestorePlanner } from "../RestorePlanner";
+import type { SafeTaskBackup } from "../TodoistBackupManager";
+
+const backupTask = (overrides: Partial<SafeTaskBackup>): SafeTaskBackup => ({
+  id: "1",
+  content: "Task",
+  description: "",
+  createdAt: "2024-05-26T10:00:00Z",
+  order: 1,
+  projectId: "work",
+  projectName: "Work",
+  sectionId: null,
+  sectionName: null,
+  parentId: null,
+  due: null,
+  duration: null,
+  priority: 1,
+  labels: [],
+  todoistMetadata: {},
+  ...overrides,
+});
+
+const work = {
+  id: "work",
+  parentId: null,
+  name: "Work",
+  order: 1,
+  isInboxProject: false,
+  color: "blue",
+};
+
+const currentTask = (overrides: Partial<Task>): Task => ({
+  id: "1",
+  createdAt: "2024-05-26T10:00:00Z",
+  content: "Task",
+  description: "",
+  project: work,
+  labels: [],
+  priority: 1,
+  order: 1,
+  ...overrides,
+});
+
+const targets = {
+  inboxId: "inbox",
+  projects: new Map([
+    ["inbox", "Inbox"],
+    ["work", "Work"],
+  ]),
+  sections: new Map([["planning", "Planning"]]),
+};
+
+describe("RestorePlanner", () => {
+  it("should recreate deleted tasks with their hierarchy, section, labels, due string and duration", () => {
+    const backup = [
+      backupTask({
+        id: "2",
+        content: "Book hotel",
+        parentId: "1",
+        duration: { amount: 30, unit: "minute" },
+      }),
+      backupTask({
+        id: "1",
+        content: "Plan trip",
+        sectionId: "planning",
+        labels: [{ id: "l1", name: "travel", color: "blue" }],
+        due: {
+          date: "2024-06-01",
+          datetime: null,
+          string: "every month",
+          timezone: null,
+          isRecurring: true,
+          recurringType: null,
+        },
+      }),
+    ];
+
+    const operations = RestorePlanner.plan(backup, [], targets);
+
+    expect(operations.map((op) => op.kind === "recreate" && op.params)).toEqual([
+      {
+        priority: 1,
+        projectId: "work",
+        sectionId: "planning",
+        labels: ["travel"],
+        dueString: "every month",
+        description: undefined,
+      },
+      {
+        priority: 1,
+        projectId: "work",
+        parentId: "1",
+        labels: [],
+        duration: 30,
+        durationUnit: "minute",
+        description: undefined,
+      },
+    ]);
+    expect(operations[1].description).toBe('Recreate "Book hotel" in subtask of "Plan trip"');
+  });
+
+  it("should revert changed fields and move tasks back", () => {
+    const backup = [
+      backupTask({
+        content: "Write report",
+        priority: 4,
+        sectionId: "planning",
+        due: {
+          date: "2024-06-01",
+          datetime: null,
+          string: "",
+          timezone: null,
+          isRecurring: false,
+          recurringType: null,
+        },
+      }),
+    ];
+    const current = [currentTask({ content: "Write final report", priority: 4 })];
+
+    expect(RestorePlanner.plan(backup, current, targets)).toEqual([
+      expect.objectContaining({
+        kind: "update",
+        params: { content: "Write report", dueDate: "2024-06-01" },
+        description: 'Revert content, due date of "Write report"',
+      }),
+      expect.objectContaining({ kind: "move", destination: { sectionId: "planning" } }),
+    ]);
+  });
+
+  it("should reopen missing tasks when asked and restore tasks of deleted projects to the Inbox", () => {
+    const backup = [backupTask({ projectId: "gone", sectionId: "planning" })];
+
+    const [operation] = RestorePlanner.plan(backup, [], targets, { reopenClosed: true });
+
+    expect(operation).toMatchObject({ kind: "reopen", params: { projectId: "inbox" } });
+    expect(operation.kind === "reopen" && operation.params.sectionId).toBeUndefined();
+  });
+});
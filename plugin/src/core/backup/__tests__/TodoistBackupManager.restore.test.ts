@@ -0,0 +1,123 @@
+import type { CommandBatch, SyncCommand } from "@/api/commands";
+import type { Delivery } from "@/data/outbox";
+import type TodoistPlugin from "@/index";
+import { TFile } from "obsidian";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { TodoistBackupManager } from "../TodoistBackupManager";
+
+vi.mock("obsidian", () => ({
+  Notice: vi.fn(),
+  TFile: class TFile {},
+}));
+
+const backupFile = "📋 01-PRODUCTIVITY/todoist-integration/⚙️ System/backup-1717000000000.json";
+
+const backup = {
+  metadata: { version: "3.0.0", timestamp: "2024-05-29T16:26:40.000Z", type: "pre-sync-backup" },
+  data: {
+    tasks: [
+      {
+        id: "1",
+        content: "Plan trip",
+        description: "",
+        projectId: "inbox",
+        sectionId: null,
+        parentId: null,
+        due: null,
+        duration: null,
+        priority: 1,
+        labels: [],
+      },
+      {
+        id: "2",
+        content: "Book hotel",
+        description: "",
+        projectId: "inbox",
+        sectionId: null,
+        parentId: "1",
+        due: null,
+        duration: null,
+        priority: 1,
+        labels: [],
+      },
+    ],
+    projects: [],
+    sections: [],
+    labels: [],
+  },
+};
+
+describe("TodoistBackupManager restore", () => {
+  let sent: SyncCommand[][];
+  let manager: TodoistBackupManager;
+
+  beforeEach(() => {
+    sent = [];
+
+    // Task 1 was completed and reopens, task 2 was deleted and can't be reopened
+    const executeCommands = vi.fn(async (batch: CommandBatch): Promise<Delivery> => {
+      sent.push(batch.commands);
+      const delivery: Delivery = {
+        statuses: new Map(),
+        tempIdMapping: new Map(),
+        queued: new Set(),
+      };
+      for (const command of batch.commands) {
+        const deleted = command.type === "item_uncomplete" && command.args.id === "2";
+        delivery.statuses.set(
+          command.uuid,
+          deleted ? { ok: false, error: "Item not found" } : { ok: true },
+        );
+      }
+      return delivery;
+    });
+
+    const plugin = {
+      app: {
+        vault: {
+          getAbstractFileByPath: (path: string) =>
+            path === backupFile ? Object.assign(new TFile(), { path }) : null,
+          read: async () => JSON.stringify(backup),
+        },
+      },
+      services: {
+        todoist: {
+          actions: { executeCommands },
+          fetchChanges: vi.fn(),
+          tasks: () => [],
+          data: () => ({
+            projects: {
+              iter: () => [{ id: "inbox", name: "Inbox", isInboxProject: true }].values(),
+            },
+            sections: { iter: () => [].values() },
+          }),
+        },
+      },
+    } as unknown as TodoistPlugin;
+
+    manager = new TodoistBackupManager(plugin);
+  });
+
+  it("should list every operation without sending anything in a dry run", async () => {
+    const result = await manager.restoreFromBackup(backupFile, { dryRun: true });
+
+    expect(result.plan?.operations.map((op) => op.description)).toEqual([
+      'Recreate "Plan trip" in Inbox',
+      'Recreate "Book hotel" in subtask of "Plan trip"',
+    ]);
+    expect(sent).toEqual([]);
+  });
+
+  it("should recreate reopened tasks that turn out to be deleted", async () => {
+    const result = await manager.restoreFromBackup(backupFile, { reopenClosed: true });
+
+    expect(sent[0].map((command) => command.type)).toEqual(["item_uncomplete", "item_uncomplete"]);
+    expect(sent[1]).toEqual([
+      expect.objectContaining({
+        type: "item_add",
+        args: expect.objectContaining({ content: "Book hotel", parent_id: "1" }),
+      }),
+    ]);
+    expect(result).toMatchObject({ success: true, applied: 2, errors: [] });
+  });
+});
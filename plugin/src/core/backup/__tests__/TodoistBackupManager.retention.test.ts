@@ -0,0 +1,98 @@
+import type TodoistPlugin from "@/index";
+import { defaultBackupSettings, useSettingsStore } from "@/settings";
+import { TFile } from "obsidian";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { TodoistBackupManager } from "../TodoistBackupManager";
+
+vi.mock("obsidian", () => ({
+  Notice: vi.fn(),
+  TFile: class TFile {},
+}));
+
+describe("TodoistBackupManager retention", () => {
+  let files: Map<string, string | ArrayBuffer>;
+  let tasks: { id: string; content: string }[];
+  let manager: TodoistBackupManager;
+
+  const createBackup = async () => {
+    const result = await manager.createPreSyncBackup();
+    vi.advanceTimersByTime(1000); // Keep file names unique
+    return result;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    files = new Map();
+    tasks = [{ id: "1", content: "Plan trip" }];
+
+    const fileAt = (path: string) =>
+      files.has(path) ? Object.assign(new TFile(), { path, stat: { size: 0 } }) : null;
+
+    const plugin = {
+      app: {
+        vault: {
+          getAbstractFileByPath: fileAt,
+          createFolder: vi.fn(),
+          create: async (path: string, content: string) => files.set(path, content),
+          createBinary: async (path: string, content: ArrayBuffer) => files.set(path, content),
+          read: async (file: TFile) => files.get(file.path),
+          readBinary: async (file: TFile) => files.get(file.path),
+          delete: async (file: TFile) => files.delete(file.path),
+          adapter: { list: async () => ({ files: [...files.keys()], folders: [] }) },
+        },
+      },
+      services: {
+        todoist: {
+          isReady: () => true,
+          subscribe: (_query: string, callback: (result: unknown) => void) => [
+            vi.fn(),
+            () =>
+              callback({
+                type: "success",
+                tasks: tasks.map((task) => ({
+                  ...task,
+                  labels: [],
+                  project: { id: "inbox", name: "Inbox" },
+                })),
+              }),
+          ],
+          data: () => ({
+            projects: { iter: () => [].values() },
+            sections: { iter: () => [].values() },
+            labels: { iter: () => [].values() },
+          }),
+        },
+      },
+    } as unknown as TodoistPlugin;
+
+    manager = new TodoistBackupManager(plugin);
+  });
+
+  it("should write compressed backups that read back and skip unchanged ones", async () => {
+    useSettingsStore.setState({ backups: { ...defaultBackupSettings, compress: true } });
+
+    const first = await createBackup();
+    const unchanged = await createBackup();
+
+    expect(first.backupFile).toMatch(/backup-\d+\.json\.gz$/);
+    expect(unchanged).toMatchObject({ success: true, skipped: true, backupFile: first.backupFile });
+    expect(files.size).toBe(1);
+
+    const backup = await manager.loadBackup(first.backupFile);
+    expect(backup.data.tasks.map((task) => task.content)).toEqual(["Plan trip"]);
+  });
+
+  it("should delete the backups the retention policy no longer keeps", async () => {
+    useSettingsStore.setState({
+      backups: { ...defaultBackupSettings, keepLast: 2, keepDaily: 0, keepWeekly: 0 },
+    });
+
+    for (const content of ["One", "Two", "Three"]) {
+      tasks = [{ id: "1", content }];
+      await createBackup();
+    }
+
+    const kept = await Promise.all([...files.keys()].map((path) => manager.loadBackup(path)));
+    expect(kept.map((backup) => backup.data.tasks[0].content)).toEqual(["Two", "Three"]);
+  });
+});
@@ -1,6 +1,7 @@
 import { TodoistApiClient } from '@/api';
 import { ObsidianFetcher } from '@/api/fetcher';
 import { FileSyncManager } from '@/core/sync/FileSyncManager';
+import { SyncLayout } from '@/core/sync/SyncLayout';
 import type TodoistPlugin from '@/index';
 import { Notice, TFolder } from 'obsidian';
 
@@ -150,7 +151,7 @@ export class SetupOrchestrator {
       result.stepsCompleted = this.currentProgress.completedSteps.length;
       result.configurationApplied = {
         adhdOptimizations: true,
-        folderStructure: '📋 01-PRODUCTIVITY/todoist-integration/',
+        folderStructure: `${SyncLayout.current().basePath}/`,
         defaultsApplied: ['cognitive_load_reduction', 'dopamine_feedback', 'zero_config']
       };
 
@@ -204,7 +205,7 @@ export class SetupOrchestrator {
 
   private async createFolderStructure(): Promise<void> {
     const vault = this.plugin.app.vault;
-    const todoistIntegrationPath = '📋 01-PRODUCTIVITY/todoist-integration';
+    const todoistIntegrationPath = SyncLayout.current().basePath;
 
     try {
       // Check if the existing todoist-integration folder exists
@@ -216,8 +217,8 @@ export class SetupOrchestrator {
       }
 
       // If the main productivity folder doesn't exist, create the full structure
-      const productivityPath = '📋 01-PRODUCTIVITY';
-      const productivityFolder = vault.getAbstractFileByPath(productivityPath);
+      const productivityPath = todoistIntegrationPath.substring(0, todoistIntegrationPath.lastIndexOf('/'));
+      const productivityFolder = productivityPath ? vault.getAbstractFileByPath(productivityPath) : true;
       if (!productivityFolder) {
         await vault.createFolder(productivityPath);
       }
@@ -448,7 +449,7 @@ export class SetupOrchestrator {
       await new Promise(resolve => setTimeout(resolve, 1000));
 
       // Perform initial sync to populate files
-      await fileSyncManager.syncAllTasks();
+      await fileSyncManager.syncAllTasks(undefined, { trigger: 'setup' });
     } catch (error) {
       console.warn('Initial file sync failed, but setup can continue:', error);
       // Don't throw here - file sync failure shouldn't break setup
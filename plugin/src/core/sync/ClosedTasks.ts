@@ -0,0 +1,144 @@
+import type { ClosedTaskPolicy, TaskLineFormat } from "@/settings";
+import { TaskFormatter } from "./TaskFormatter";
+
+export const COMPLETED_HEADING = "## ✅ Completed";
+
+// The completion date `markDone` adds, in the default and Tasks plugin formats or for Dataview
+const COMPLETION_DATE = /✅ \d{4}-\d{2}-\d{2}|\[completion:: /;
+
+/**
+ * A generated file with the lines of closed tasks handled by a policy
+ */
+export interface ClosedTaskResult {
+  content: string;
+  archived: string[]; // Lines to move to the archive file
+}
+
+/**
+ * Apply a policy to the task lines of `previous` that belong to closed tasks:
+ * - `remove` drops them
+ * - `check` marks them done where they were, after the line they followed
+ * - `section` marks them done under a Completed heading at the end of the file
+ * - `archive` marks them done and hands them back for the archive file
+ * Lines queued for creation (without a hash) are never closed.
+ */
+function apply(
+  previous: string,
+  generated: string,
+  isOpen: (todoistId: string) => boolean,
+  policy: ClosedTaskPolicy,
+  date: string,
+  format: TaskLineFormat = TaskFormatter.lineFormat,
+): ClosedTaskResult {
+  if (policy === "remove") return { content: generated, archived: [] };
+
+  const previousLines = previous.split("\n");
+  const closed = new Set<number>();
+  const seen = new Set<string>();
+  previousLines.forEach((line, index) => {
+    const metadata = TaskFormatter.isTaskLine(line)
+      ? TaskFormatter.extractTodoistMetadata(line)
+      : null;
+    if (!metadata || isOpen(metadata.id) || seen.has(metadata.id)) return;
+
+    seen.add(metadata.id);
+    closed.add(index);
+  });
+  if (closed.size === 0) return { content: generated, archived: [] };
+
+  const done = (line: string) => markDone(line, date, format);
+
+  if (policy === "check") {
+    return {
+      content: keepInPlace(previousLines, closed, generated.split("\n"), done).join("\n"),
+      archived: [],
+    };
+  }
+
+  const closedLines = [...closed].map((index) => done(previousLines[index].trimStart()));
+  if (policy === "archive") {
+    return { content: generated, archived: closedLines };
+  }
+
+  const content = `${generated.replace(/\n*$/, "\n")}\n${COMPLETED_HEADING}\n\n${closedLines.join("\n")}\n`;
+  return { content, archived: [] };
+}
+
+/**
+ * Check off a task line and add the date it was completed, unless it already has one
+ */
+function markDone(
+  line: string,
+  date: string,
+  format: TaskLineFormat = TaskFormatter.lineFormat,
+): string {
+  const checked = line.replace(/^(\s*)- \[[ x]\]/, "$1- [x]");
+  if (COMPLETION_DATE.test(checked)) return checked;
+
+  const completion = format === "dataview" ? `[completion:: ${date}]` : `✅ ${date}`;
+  const metadataAt = checked.indexOf(" <!-- todoist:");
+  return metadataAt === -1
+    ? `${checked} ${completion}`
+    : `${checked.slice(0, metadataAt)} ${completion}${checked.slice(metadataAt)}`;
+}
+
+/**
+ * Whether a line is a closed task kept by a policy: checked off, with a completion date
+ */
+function isKept(line: string): boolean {
+  return TaskFormatter.isTaskCompleted(line) && COMPLETION_DATE.test(line);
+}
+
+/**
+ * Insert closed lines after the line they followed before, matching task lines by Todoist ID
+ * and other lines by their text. Lines whose neighbours are all gone are added at the end.
+ */
+function keepInPlace(
+  previousLines: string[],
+  closed: Set<number>,
+  lines: string[],
+  done: (line: string) => string,
+): string[] {
+  const keys = lines.map(lineKey);
+  const after = new Map<number, string[]>();
+  let anchor = -1;
+
+  previousLines.forEach((line, index) => {
+    if (closed.has(index)) {
+      after.set(anchor, [...(after.get(anchor) ?? []), done(line)]);
+      return;
+    }
+
+    const key = lineKey(line);
+    const match = key ? keys.indexOf(key, anchor + 1) : -1;
+    if (match !== -1) anchor = match;
+  });
+
+  const result: string[] = [];
+  lines.forEach((line, index) => {
+    result.push(line, ...(after.get(index) ?? []));
+  });
+
+  const unplaced = after.get(-1) ?? [];
+  if (unplaced.length === 0) return result;
+
+  // Keep the trailing newline of the file after the added lines
+  const trailing = result[result.length - 1] === "" ? result.pop() : undefined;
+  return [...result, ...unplaced, ...(trailing !== undefined ? [trailing] : [])];
+}
+
+function lineKey(line: string): string {
+  return TaskFormatter.extractTodoistId(line) ?? line.trim();
+}
+
+/**
+ * ClosedTasks - Keeps the lines of tasks completed or deleted in Todoist when a synced file is
+ * written again. Generated files only hold open tasks, so without a policy those lines vanish.
+ * Todoist doesn't tell completed and deleted tasks apart once they are closed, so both are
+ * handled alike and dated with the day the sync noticed them.
+ */
+export const ClosedTasks = {
+  apply,
+  markDone,
+  isKept,
+};
@@ -0,0 +1,169 @@
+import type { UpdateTaskParams } from "@/api/domain/task";
+import type TodoistPlugin from "@/index";
+import { TFile } from "obsidian";
+import type { ConflictResolution, ConflictType, TaskSnapshot } from "./ConflictResolver";
+import type { ObsidianTaskField } from "./IncrementalSyncManager";
+import { SyncLayout } from "./SyncLayout";
+
+/**
+ * A resolved conflict as kept in the conflict log
+ */
+export interface ConflictLogEntry {
+  id: string;
+  timestamp: string;
+  todoistId: string;
+  content: string;
+  obsidianFile: string;
+  obsidianLine: number;
+  conflictType: ConflictType;
+  resolution: ConflictResolution;
+  obsidianVersion: TaskSnapshot;
+  todoistVersion: TaskSnapshot;
+  kept: Partial<TaskSnapshot>; // Values the resolution kept for the conflicting fields
+  revertedAt?: string;
+}
+
+/**
+ * ConflictLog - Persists conflict resolutions in the vault so they can be reviewed and undone
+ *
+ * Entries live in a JSON file in the system folder, newest last, and only the most recent ones
+ * are kept.
+ */
+export class ConflictLog {
+  private static readonly MAX_ENTRIES = 200;
+
+  private plugin: TodoistPlugin;
+
+  constructor(plugin: TodoistPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Record a resolution, with both versions of the task and the values it kept
+   */
+  async record(entry: Omit<ConflictLogEntry, "id" | "timestamp">): Promise<void> {
+    const entries = await this.load();
+    const timestamp = new Date().toISOString();
+
+    entries.push({ id: `${Date.parse(timestamp)}-${entry.todoistId}`, timestamp, ...entry });
+    await this.save(entries.slice(-ConflictLog.MAX_ENTRIES));
+  }
+
+  /**
+   * The most recent resolutions, newest first
+   */
+  async recent(limit = 50): Promise<ConflictLogEntry[]> {
+    const entries = await this.load();
+    return entries.slice(-limit).reverse();
+  }
+
+  /**
+   * Undo a resolution by applying the version it discarded to Todoist. The task lines pick
+   * the change up on the next sync.
+   */
+  async revert(id: string): Promise<ConflictLogEntry> {
+    const entries = await this.load();
+    const entry = entries.find((e) => e.id === id);
+    if (!entry) {
+      throw new Error(`No conflict resolution ${id} in the log`);
+    }
+    if (entry.revertedAt) {
+      throw new Error(`The resolution of "${entry.content}" was already reverted`);
+    }
+
+    const update = ConflictLog.buildUpdate(ConflictLog.revertValues(entry));
+    if (Object.keys(update).length > 0) {
+      await this.plugin.services.todoist.actions.updateTask(entry.todoistId, update);
+    }
+
+    entry.revertedAt = new Date().toISOString();
+    await this.save(entries);
+    return entry;
+  }
+
+  /**
+   * Values of the version a resolution discarded, per conflicting field. Fields that were
+   * merged go back to the Obsidian value.
+   */
+  static revertValues(entry: ConflictLogEntry): Partial<TaskSnapshot> {
+    const values: Partial<Record<ObsidianTaskField, unknown>> = {};
+
+    for (const field of Object.keys(entry.kept) as ObsidianTaskField[]) {
+      const keptObsidian =
+        JSON.stringify(entry.kept[field]) === JSON.stringify(entry.obsidianVersion[field]);
+      values[field] = keptObsidian ? entry.todoistVersion[field] : entry.obsidianVersion[field];
+    }
+
+    return values as Partial<TaskSnapshot>;
+  }
+
+  /**
+   * Todoist update setting the given field values
+   */
+  static buildUpdate(values: Partial<TaskSnapshot>): UpdateTaskParams {
+    const update: UpdateTaskParams = {};
+
+    if (values.content !== undefined) {
+      update.content = values.content;
+    }
+
+    if (values.priority !== undefined) {
+      update.priority = values.priority;
+    }
+
+    if (values.recurring) {
+      // Todoist derives the next occurrence from the recurring pattern
+      update.dueString = values.recurring;
+    } else if (values.due !== undefined) {
+      if (values.due) {
+        update.dueDate = values.due;
+      } else {
+        update.dueString = "no date";
+      }
+    }
+
+    if (values.duration) {
+      update.duration = values.duration.amount;
+      update.durationUnit = values.duration.unit;
+    }
+
+    if (values.labels !== undefined) {
+      update.labels = values.labels;
+    }
+
+    return update;
+  }
+
+  private async load(): Promise<ConflictLogEntry[]> {
+    try {
+      const file = this.plugin.app.vault.getAbstractFileByPath(
+        SyncLayout.current().conflictLogPath,
+      );
+      if (!file || !(file instanceof TFile)) {
+        return [];
+      }
+
+      const data = JSON.parse(await this.plugin.app.vault.read(file));
+      return Array.isArray(data.entries) ? data.entries : [];
+    } catch (error) {
+      console.warn("Failed to load conflict log, starting fresh:", error);
+      return [];
+    }
+  }
+
+  private async save(entries: ConflictLogEntry[]): Promise<void> {
+    try {
+      const logPath = SyncLayout.current().conflictLogPath;
+      const content = JSON.stringify({ version: "1.0", entries }, null, 2);
+
+      const file = this.plugin.app.vault.getAbstractFileByPath(logPath);
+      if (file && file instanceof TFile) {
+        await this.plugin.app.vault.modify(file, content);
+      } else {
+        await this.plugin.app.vault.create(logPath, content);
+      }
+    } catch (error) {
+      console.error("Failed to save conflict log:", error);
+    }
+  }
+}
@@ -1,6 +1,10 @@
 import { Notice } from 'obsidian';
-import type TodoistPlugin from '@/index';
+import type { Duration, UpdateTaskParams } from '@/api/domain/task';
 import type { Task } from '@/data/task';
+import type TodoistPlugin from '@/index';
+import { ConflictLog } from './ConflictLog';
+import { DurationParser } from './DurationParser';
+import type { ObsidianTaskChange, ObsidianTaskField } from './IncrementalSyncManager';
 import { TaskFormatter, type ParsedTask } from './TaskFormatter';
 
 /**
@@ -14,8 +18,53 @@ export interface TaskConflict {
   lastSyncTime: string;
   obsidianFile: string;
   obsidianLine: number;
+  fields: FieldConflict[]; // Fields changed on both sides since the last sync
+}
+
+/**
+ * The fields of a task line as they were last synced, the common ancestor of a three-way merge.
+ * Values are normalized so lines and Todoist tasks compare equal when they show the same task.
+ */
+export interface TaskSnapshot {
+  content: string;
+  priority: number;
+  due: string | null; // Todoist date, YYYY-MM-DD
+  duration: Duration | null;
+  recurring: string | null;
+  labels: string[]; // Sorted
+}
+
+/**
+ * Looks up the last synced snapshot of a task, given the hash in the comment of its line
+ */
+export type SnapshotLookup = (todoistId: string, hash: string | null) => TaskSnapshot | null;
+
+/**
+ * A field changed to different values in Obsidian and Todoist since the last sync
+ */
+export interface FieldConflict {
+  field: ObsidianTaskField;
+  base?: TaskSnapshot[ObsidianTaskField]; // Unknown for lines without a snapshot
+  obsidian: TaskSnapshot[ObsidianTaskField];
+  todoist: TaskSnapshot[ObsidianTaskField];
 }
 
+/**
+ * Outcome of a three-way merge of a task line with its Todoist task
+ */
+export interface FieldMerge {
+  obsidianFields: ObsidianTaskField[]; // Changed in Obsidian only, pushed to Todoist
+  todoistFields: ObsidianTaskField[]; // Changed in Todoist only, written to the line
+  conflicts: FieldConflict[]; // Changed on both sides, resolved by the user
+}
+
+/**
+ * Resolution chosen per field of a conflict, used when its resolution is MANUAL
+ */
+export type FieldResolutions = Partial<Record<ObsidianTaskField, ConflictResolution>>;
+
+const MERGED_FIELDS: ObsidianTaskField[] = ['content', 'priority', 'due', 'duration', 'recurring', 'labels'];
+
 export enum ConflictType {
   CONTENT_MODIFIED = 'content_modified',
   COMPLETION_STATUS = 'completion_status',
@@ -41,17 +90,24 @@ export enum ConflictResolution {
 export class ConflictResolver {
   private plugin: TodoistPlugin;
   private conflictLog: TaskConflict[] = [];
+  private persistentLog: ConflictLog;
 
   constructor(plugin: TodoistPlugin) {
     this.plugin = plugin;
+    this.persistentLog = new ConflictLog(plugin);
   }
 
   /**
    * Detect conflicts between Obsidian and Todoist versions
+   *
+   * Each line is merged with its Todoist task using the snapshot taken when the line was last
+   * synced, so only fields changed on both sides are conflicts. Lines without a snapshot, e.g.
+   * written before snapshots were kept, are compared with the Todoist task directly.
    */
   async detectConflicts(
-    obsidianTasks: ParsedTask[],
+    obsidianTasks: ObsidianTaskChange[],
     todoistTasks: Task[],
+    snapshots: SnapshotLookup,
     lastSyncTime: Date
   ): Promise<TaskConflict[]> {
     const conflicts: TaskConflict[] = [];
@@ -61,31 +117,53 @@ export class ConflictResolver {
       if (!obsidianTask.todoistId) continue;
 
       const todoistTask = todoistMap.get(obsidianTask.todoistId);
+      const parsed = TaskFormatter.parseTaskLine(obsidianTask.originalLine);
+      if (!parsed) continue;
 
       if (!todoistTask) {
         // Task deleted in Todoist
         conflicts.push({
           todoistId: obsidianTask.todoistId,
-          obsidianVersion: obsidianTask,
+          obsidianVersion: parsed,
           todoistVersion: null as any,
           conflictType: ConflictType.DELETED_IN_TODOIST,
           lastSyncTime: lastSyncTime.toISOString(),
-          obsidianFile: '', // Will be filled by caller
-          obsidianLine: 0
+          obsidianFile: obsidianTask.filePath,
+          obsidianLine: obsidianTask.lineNumber,
+          fields: []
         });
         continue;
       }
 
-      const conflictType = this.detectConflictType(obsidianTask, todoistTask);
+      const snapshot = snapshots(obsidianTask.todoistId, obsidianTask.storedHash);
+      if (snapshot) {
+        const merge = ConflictResolver.mergeFields(
+          snapshot,
+          ConflictResolver.snapshotLine(obsidianTask, snapshot),
+          ConflictResolver.snapshotTask(todoistTask)
+        );
+        if (merge.conflicts.length > 0) {
+          conflicts.push(ConflictResolver.createConflict(obsidianTask, todoistTask, merge.conflicts, lastSyncTime));
+        }
+        continue;
+      }
+
+      const conflictType = this.detectConflictType(parsed, todoistTask);
       if (conflictType) {
+        // Without a common ancestor every differing field is a conflict
+        const todoist = ConflictResolver.snapshotTask(todoistTask);
+        const obsidian = ConflictResolver.snapshotLine(obsidianTask, todoist);
+
         conflicts.push({
           todoistId: obsidianTask.todoistId,
-          obsidianVersion: obsidianTask,
+          obsidianVersion: parsed,
           todoistVersion: todoistTask,
           conflictType,
           lastSyncTime: lastSyncTime.toISOString(),
-          obsidianFile: '',
-          obsidianLine: 0
+          obsidianFile: obsidianTask.filePath,
+          obsidianLine: obsidianTask.lineNumber,
+          fields: ConflictResolver.mergeFields(todoist, obsidian, todoist).obsidianFields
+            .map(field => ({ field, obsidian: obsidian[field], todoist: todoist[field] }))
         });
       }
     }
@@ -93,6 +171,169 @@ export class ConflictResolver {
     return conflicts;
   }
 
+  /**
+   * Snapshot of a Todoist task as its line shows it. The task is rendered and parsed the same
+   * way as lines, so formatting (overdue markers, hidden P4 priority, label order) doesn't count
+   * as a change.
+   */
+  static snapshotTask(task: Task): TaskSnapshot {
+    const rendered = TaskFormatter.parseTaskLine(TaskFormatter.formatTaskAsMarkdown(task, false).split('\n')[0]);
+
+    return {
+      content: (rendered?.content ?? task.content).trim(),
+      priority: task.priority,
+      due: task.due ? TaskFormatter.toTodoistDue(task.due) : null,
+      duration: rendered?.duration ?? null,
+      recurring: rendered?.recurring ?? null,
+      labels: [...(rendered?.labels ?? [])].sort(),
+    };
+  }
+
+  /**
+   * Snapshot of a task line. A line without a priority keeps the priority of the base.
+   */
+  static snapshotLine(
+    line: Pick<ObsidianTaskChange, 'content' | 'priority' | 'dueDate' | 'duration' | 'recurring' | 'labels'>,
+    base: TaskSnapshot
+  ): TaskSnapshot {
+    return {
+      content: line.content.trim(),
+      priority: line.priority ?? base.priority,
+      // Dates that can't be read are left as they were, like a missing priority
+      due: line.dueDate ? TaskFormatter.toTodoistDate(line.dueDate) ?? base.due : null,
+      duration: line.duration,
+      recurring: line.recurring,
+      labels: [...line.labels].sort(),
+    };
+  }
+
+  /**
+   * Three-way merge of the fields of a task line: fields changed on one side only are taken from
+   * that side, fields changed on both sides to different values are conflicts
+   */
+  static mergeFields(base: TaskSnapshot, obsidian: TaskSnapshot, todoist: TaskSnapshot): FieldMerge {
+    const merge: FieldMerge = { obsidianFields: [], todoistFields: [], conflicts: [] };
+
+    for (const field of MERGED_FIELDS) {
+      const obsidianChanged = !ConflictResolver.sameValue(field, obsidian[field], base[field]);
+      const todoistChanged = !ConflictResolver.sameValue(field, todoist[field], base[field]);
+
+      if (obsidianChanged && !todoistChanged) {
+        merge.obsidianFields.push(field);
+      } else if (todoistChanged && !obsidianChanged) {
+        merge.todoistFields.push(field);
+      } else if (obsidianChanged && !ConflictResolver.sameValue(field, obsidian[field], todoist[field])) {
+        merge.conflicts.push({ field, base: base[field], obsidian: obsidian[field], todoist: todoist[field] });
+      }
+    }
+
+    return merge;
+  }
+
+  /**
+   * Conflict for fields changed on both sides of a three-way merge
+   */
+  static createConflict(
+    obsidianTask: ObsidianTaskChange,
+    todoistTask: Task,
+    fields: FieldConflict[],
+    lastSyncTime: Date
+  ): TaskConflict {
+    const conflictTypes: Partial<Record<ObsidianTaskField, ConflictType>> = {
+      content: ConflictType.CONTENT_MODIFIED,
+      priority: ConflictType.PRIORITY_CHANGED,
+      due: ConflictType.DUE_DATE_CHANGED,
+    };
+
+    return {
+      todoistId: todoistTask.id,
+      obsidianVersion: TaskFormatter.parseTaskLine(obsidianTask.originalLine) ?? {
+        todoistId: obsidianTask.todoistId,
+        content: obsidianTask.content,
+        completed: obsidianTask.completed,
+        dueDate: obsidianTask.dueDate,
+        isOverdue: false,
+        priority: obsidianTask.priority,
+        labels: obsidianTask.labels,
+        duration: obsidianTask.duration,
+        recurring: obsidianTask.recurring,
+      },
+      todoistVersion: todoistTask,
+      conflictType: fields.length === 1
+        ? conflictTypes[fields[0].field] ?? ConflictType.BOTH_MODIFIED
+        : ConflictType.BOTH_MODIFIED,
+      lastSyncTime: lastSyncTime.toISOString(),
+      obsidianFile: obsidianTask.filePath,
+      obsidianLine: obsidianTask.lineNumber,
+      fields,
+    };
+  }
+
+  /**
+   * Values a resolution keeps for the conflicting fields, or null when the conflict is left
+   * for later. A MANUAL resolution takes each field from its own resolution.
+   */
+  static resolveFields(
+    conflict: TaskConflict,
+    resolution: ConflictResolution,
+    fieldResolutions: FieldResolutions = {}
+  ): Partial<TaskSnapshot> | null {
+    const values: Partial<Record<ObsidianTaskField, unknown>> = {};
+
+    for (const { field, obsidian, todoist } of conflict.fields) {
+      const fieldResolution = resolution === ConflictResolution.MANUAL
+        ? fieldResolutions[field] ?? ConflictResolution.SKIP
+        : resolution;
+
+      switch (fieldResolution) {
+        case ConflictResolution.OBSIDIAN_WINS:
+          values[field] = obsidian;
+          break;
+        case ConflictResolution.TODOIST_WINS:
+          values[field] = todoist;
+          break;
+        case ConflictResolution.MERGE:
+          values[field] = ConflictResolver.mergeValue(field, obsidian, todoist);
+          break;
+        default:
+          return null;
+      }
+    }
+
+    return values as Partial<TaskSnapshot>;
+  }
+
+  /**
+   * Combine the values of a field changed on both sides: the higher priority, the earlier due
+   * date and all labels win, the Todoist recurrence is kept and otherwise the Obsidian edit wins
+   */
+  private static mergeValue(field: ObsidianTaskField, obsidian: unknown, todoist: unknown): unknown {
+    switch (field) {
+      case 'priority':
+        return Math.max(obsidian as number, todoist as number);
+      case 'due':
+        if (!obsidian || !todoist) return obsidian ?? todoist;
+        return (obsidian as string) < (todoist as string) ? obsidian : todoist;
+      case 'labels':
+        return [...new Set([...(obsidian as string[]), ...(todoist as string[])])].sort();
+      case 'recurring':
+        return todoist;
+      default:
+        return obsidian;
+    }
+  }
+
+  private static sameValue(field: ObsidianTaskField, a: unknown, b: unknown): boolean {
+    if (field === 'duration') {
+      return DurationParser.durationsEqual(a as Duration | null, b as Duration | null);
+    }
+    // Lines in the default format and snapshots from earlier versions only hold the day
+    if (field === 'due' && typeof a === 'string' && typeof b === 'string' && !(a.includes('T') && b.includes('T'))) {
+      return a.slice(0, 10) === b.slice(0, 10);
+    }
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
   /**
    * Resolve conflicts using ADHD-friendly automatic rules
    */
@@ -116,7 +357,7 @@ export class ConflictResolver {
         result.resolved++;
 
         // Log for user awareness
-        this.logConflictResolution(conflict, resolution);
+        await this.logConflictResolution(conflict, resolution, ConflictResolver.resolveFields(conflict, resolution) ?? {});
 
       } catch (error) {
         const errorMsg = `Failed to resolve conflict for task ${conflict.todoistId}: ${error}`;
@@ -308,19 +549,73 @@ export class ConflictResolver {
    */
   private async applyObsidianVersion(conflict: TaskConflict): Promise<void> {
     const obsidian = conflict.obsidianVersion;
+    const actions = this.plugin.services.todoist.actions;
+
+    switch (conflict.conflictType) {
+      case ConflictType.COMPLETION_STATUS:
+        if (obsidian.completed) {
+          await actions.closeTask(conflict.todoistId);
+        } else {
+          await actions.reopenTask(conflict.todoistId);
+        }
+        break;
+
+      case ConflictType.DELETED_IN_TODOIST:
+        // Recreate task in Todoist
+        await actions.createTask(obsidian.content, {
+          priority: obsidian.priority ?? 1,
+          projectId: conflict.todoistVersion?.project?.id || 'inbox',
+          description: '', // Will be enhanced later
+        });
+        break;
 
-    if (conflict.conflictType === ConflictType.COMPLETION_STATUS && obsidian.completed) {
-      // Close task in Todoist
-      await this.plugin.services.todoist.actions.closeTask(conflict.todoistId);
-    } else if (conflict.conflictType === ConflictType.DELETED_IN_TODOIST) {
-      // Recreate task in Todoist
-      await this.plugin.services.todoist.actions.createTask(obsidian.content, {
-        priority: obsidian.priority,
-        projectId: conflict.todoistVersion?.project?.id || 'inbox',
-        description: '', // Will be enhanced later
-      });
+      case ConflictType.DELETED_IN_OBSIDIAN:
+        await actions.deleteTask(conflict.todoistId);
+        break;
+
+      default: {
+        const update = this.buildObsidianUpdate(obsidian, conflict.todoistVersion);
+        if (Object.keys(update).length > 0) {
+          await actions.updateTask(conflict.todoistId, update);
+        }
+      }
     }
-    // Note: Content updates would require additional API methods
+  }
+
+  /**
+   * Build a Todoist update containing the Obsidian fields that differ from Todoist
+   */
+  private buildObsidianUpdate(obsidian: ParsedTask, todoist: Task): UpdateTaskParams {
+    const update: UpdateTaskParams = {};
+
+    if (obsidian.content !== todoist.content) {
+      update.content = obsidian.content;
+    }
+
+    // Null priority means "preserve original priority"
+    if (obsidian.priority !== null && obsidian.priority !== todoist.priority) {
+      update.priority = obsidian.priority;
+    }
+
+    // Undefined for dates that can't be read, which leave the due date alone
+    const obsidianDue = obsidian.dueDate ? TaskFormatter.toTodoistDate(obsidian.dueDate) : null;
+    const todoistDue = todoist.due?.date ?? null;
+    if (obsidianDue !== undefined && obsidianDue !== todoistDue && !todoist.due?.isRecurring) {
+      // Setting a plain date on a recurring task would drop its recurrence
+      if (obsidianDue) {
+        update.dueDate = obsidianDue;
+      } else {
+        update.dueString = 'no date';
+      }
+    }
+
+    const obsidianLabels = [...obsidian.labels].sort();
+    const todoistLabels = todoist.labels.map(l => l.name).sort();
+    if (JSON.stringify(obsidianLabels) !== JSON.stringify(todoistLabels)) {
+      update.labels = obsidian.labels;
+    }
+
+    return update;
   }
 
   /**
@@ -333,35 +628,50 @@ export class ConflictResolver {
   }
 
   /**
-   * Merge both versions intelligently
+   * Merge both versions field by field and apply the result to Todoist. Fields without a
+   * conflict keep their Todoist value.
    */
   private async mergeVersions(conflict: TaskConflict): Promise<void> {
-    // Intelligent merge strategy
-    const merged = {
-      content: conflict.obsidianVersion.content, // Prefer Obsidian content
-      priority: Math.max(conflict.obsidianVersion.priority, conflict.todoistVersion.priority), // Higher priority
-      dueDate: this.selectEarlierDate(conflict.obsidianVersion.dueDate, conflict.todoistVersion.due?.date),
-      completed: conflict.obsidianVersion.completed, // Preserve completion status
+    const todoist = conflict.todoistVersion;
+    const values = ConflictResolver.resolveFields(conflict, ConflictResolution.MERGE) ?? {};
+
+    const merged: ParsedTask = {
+      ...conflict.obsidianVersion,
+      content: values.content ?? todoist.content,
+      priority: values.priority ?? todoist.priority,
+      dueDate: 'due' in values ? values.due ?? null : todoist.due?.date ?? null,
+      labels: values.labels ?? todoist.labels.map(l => l.name),
     };
 
-    console.log(`Merging versions for task ${conflict.todoistId}:`, merged);
-  }
-
-  /**
-   * Select the earlier of two dates
-   */
-  private selectEarlierDate(date1: string | null, date2: string | null): string | null {
-    if (!date1) return date2;
-    if (!date2) return date1;
-    return new Date(date1) < new Date(date2) ? date1 : date2;
+    const update = this.buildObsidianUpdate(merged, todoist);
+    if (Object.keys(update).length > 0) {
+      await this.plugin.services.todoist.actions.updateTask(conflict.todoistId, update);
+    }
   }
 
   /**
-   * Log conflict resolution for transparency
+   * Log conflict resolution for transparency, in the vault so it can be reviewed and reverted
    */
-  private logConflictResolution(conflict: TaskConflict, resolution: ConflictResolution): void {
+  async logConflictResolution(
+    conflict: TaskConflict,
+    resolution: ConflictResolution,
+    kept: Partial<TaskSnapshot>
+  ): Promise<void> {
     this.conflictLog.push(conflict);
     console.log(`🔄 Conflict resolved: ${conflict.conflictType} → ${resolution} for "${conflict.obsidianVersion.content}"`);
+
+    const todoistVersion = ConflictResolver.snapshotTask(conflict.todoistVersion);
+    await this.persistentLog.record({
+      todoistId: conflict.todoistId,
+      content: conflict.obsidianVersion.content,
+      obsidianFile: conflict.obsidianFile,
+      obsidianLine: conflict.obsidianLine,
+      conflictType: conflict.conflictType,
+      resolution,
+      obsidianVersion: ConflictResolver.snapshotLine(conflict.obsidianVersion, todoistVersion),
+      todoistVersion,
+      kept,
+    });
   }
 
   /**
@@ -33,9 +33,9 @@ export class DurationParser {
    * ```
    */
   static parseDuration(markdownLine: string): Duration | null {
-    // Match ⏱️ followed by duration with flexible spacing
+    // Match ⏱️ or a Dataview [duration:: ] field followed by duration with flexible spacing
     // Supports: 30min, 2h, 1d, 3h30min
-    const durationMatch = markdownLine.match(/⏱️\s*(\d+(?:\.\d+)?)(min|h|d)(?:(\d+)min)?/);
+    const durationMatch = markdownLine.match(/(?:⏱️|\[duration::)\s*(\d+(?:\.\d+)?)(min|h|d)(?:(\d+)min)?/);
 
     if (!durationMatch) {
       return null;
@@ -129,7 +129,7 @@ export class DurationParser {
    * ```
    */
   static removeDuration(markdownLine: string): string {
-    return markdownLine.replace(/⏱️\s*\d+(?:\.\d+)?(?:min|h|d)(?:\d+min)?\s*/g, '').trim();
+    return markdownLine.replace(/(?:⏱️|\[duration::)\s*\d+(?:\.\d+)?(?:min|h|d)(?:\d+min)?\]?\s*/g, '').trim();
   }
 
   /**
@@ -0,0 +1,129 @@
+import type TodoistPlugin from "@/index";
+import { useSettingsStore } from "@/settings";
+import { Notice, type TAbstractFile, TFile } from "obsidian";
+import { FileSyncManager } from "./FileSyncManager";
+import { OwnWrites } from "./OwnWrites";
+import { withSyncLock } from "./SyncLock";
+
+// A file is pushed once it has been left alone this long, or once the sync latency target is
+// reached while it keeps changing
+const QUIET_PERIOD = 1000;
+
+interface PendingFile {
+  firstChangeAt: number;
+  timer: number;
+}
+
+/**
+ * FileChangeWatcher - Pushes edits to synced files to Todoist as they are made
+ * Modify events are debounced per file, and files still holding what the plugin itself wrote
+ * are ignored so pulling from Todoist doesn't push the same changes back
+ */
+export class FileChangeWatcher {
+  private plugin: TodoistPlugin;
+  private fileSyncManager: FileSyncManager;
+  private pending = new Map<string, PendingFile>();
+  private settled = new Set<string>();
+  private pushing: Promise<void> | null = null;
+
+  constructor(plugin: TodoistPlugin) {
+    this.plugin = plugin;
+    this.fileSyncManager = new FileSyncManager(plugin);
+  }
+
+  /**
+   * Start watching the vault until the plugin unloads
+   */
+  register(): void {
+    this.plugin.registerEvent(this.plugin.app.vault.on("modify", (file) => this.onModify(file)));
+    this.plugin.register(() => this.stop());
+  }
+
+  stop(): void {
+    for (const { timer } of this.pending.values()) {
+      window.clearTimeout(timer);
+    }
+    this.pending.clear();
+    this.settled.clear();
+  }
+
+  private onModify(file: TAbstractFile): void {
+    if (!(file instanceof TFile) || file.extension !== "md") return;
+
+    const { enableBidirectionalSync, syncLatencyTarget } = useSettingsStore.getState();
+    if (!enableBidirectionalSync || !this.fileSyncManager.shouldSyncFile(file.path)) return;
+
+    const now = Date.now();
+    const existing = this.pending.get(file.path);
+    if (existing) {
+      window.clearTimeout(existing.timer);
+    }
+
+    const firstChangeAt = existing?.firstChangeAt ?? now;
+    const delay = Math.max(0, Math.min(QUIET_PERIOD, firstChangeAt + syncLatencyTarget - now));
+    this.pending.set(file.path, {
+      firstChangeAt,
+      timer: window.setTimeout(() => this.onSettled(file), delay),
+    });
+  }
+
+  private async onSettled(file: TFile): Promise<void> {
+    this.pending.delete(file.path);
+
+    try {
+      const content = await this.plugin.app.vault.read(file);
+      if (OwnWrites.isOwn(file.path, content)) return;
+    } catch (error) {
+      console.warn(`Failed to read ${file.path} for background sync:`, error);
+      return;
+    }
+
+    this.settled.add(file.path);
+    await this.push();
+  }
+
+  /**
+   * Push settled files, one push at a time and never during another sync. Files settling
+   * during a push are pushed right after.
+   */
+  private async push(): Promise<void> {
+    if (this.pushing) return;
+
+    this.pushing = (async () => {
+      while (this.settled.size > 0) {
+        const files = [...this.settled];
+        this.settled.clear();
+
+        try {
+          // Conflicts need the user, so they are left for the next manual sync
+          const result = await withSyncLock(() =>
+            this.fileSyncManager.syncObsidianChangesToTodoist(true, files, {
+              trigger: "file-change",
+            }),
+          );
+          const pushed = result.completed + result.updated + result.created;
+          if (pushed > 0 || result.queued > 0) {
+            console.log(
+              `☁️ Background sync pushed ${pushed} changes from ${files.join(", ")} (${result.queued} queued)`,
+            );
+          }
+          if (result.errors.length > 0) {
+            console.warn("Background sync errors:", result.errors);
+            new Notice(
+              `⚠️ Background sync to Todoist failed for ${result.errors.length} changes - check console`,
+              5000,
+            );
+          }
+        } catch (error) {
+          console.error("Background sync failed:", error);
+        }
+      }
+    })();
+
+    try {
+      await this.pushing;
+    } finally {
+      this.pushing = null;
+    }
+  }
+}
@@ -1,17 +1,29 @@
+import { CommandBatch } from '@/api/commands';
 import type { Label } from '@/api/domain/label';
 import type { Project } from '@/api/domain/project';
 import type { Section } from '@/api/domain/section';
+import type { CreateTaskParams, UpdateTaskParams } from '@/api/domain/task';
+import type { Delivery } from '@/data/outbox';
 import type { Task } from '@/data/task';
 import { type TaskTree, buildTaskTree } from '@/data/transformations/relationships';
 import type TodoistPlugin from '@/index';
+import { type ClosedTaskSettings, defaultClosedTasks, useSettingsStore } from '@/settings';
+import { usePluginStateStore } from '@/state';
 import { ConflictResolutionModal } from '@/ui/conflictModal/ConflictResolutionModal';
 import { Notice, TFile, TFolder } from 'obsidian';
 import { TodoistBackupManager } from '../backup/TodoistBackupManager';
-import { ConflictResolver, type TaskConflict } from './ConflictResolver';
-import { IncrementalSyncManager } from './IncrementalSyncManager';
-import { SafeSyncStrategy } from './SafeSyncStrategy';
+import { ClosedTasks } from './ClosedTasks';
+import { ConflictResolution, ConflictResolver, type FieldResolutions, type TaskConflict, type TaskSnapshot } from './ConflictResolver';
+import { IncrementalSyncManager, type ObsidianTaskChange } from './IncrementalSyncManager';
+import { OwnWrites } from './OwnWrites';
+import { type PlannedLine, SafeSyncStrategy } from './SafeSyncStrategy';
+import { SyncJournal, type SyncJournalOperation, type SyncRun, type SyncTrigger } from './SyncJournal';
+import { type LayoutEntries, type LayoutMove, SyncLayout } from './SyncLayout';
+import { useSyncStatusStore } from './SyncStatus';
 import { TaskCollectionUtils, TaskFormatter } from './TaskFormatter';
+import { TaskHash } from './TaskHash';
 import { TaskMappingManager } from './TaskMappingManager';
+import { type PageVariables, TaskTemplates, TemplateError, type TemplateView, type ViewTemplate } from './TaskTemplates';
 
 export interface SyncStats {
   tasksProcessed: number;
@@ -20,6 +32,47 @@ export interface SyncStats {
   filesUpdated: number;
   lastSyncTime: Date;
   errors: string[];
+  plan?: SyncJournalOperation[]; // What a dry run would have done
+}
+
+export interface SyncOptions {
+  silent?: boolean; // No notices, for syncs running in the background
+  trigger?: SyncTrigger; // Recorded in the sync journal, 'command' by default
+  dryRun?: boolean; // Work out what the sync would do without changing files or Todoist
+}
+
+/**
+ * A pushed Obsidian line whose metadata comment needs the Todoist ID and new hash
+ */
+type TaskWriteBack =
+  | { change: ObsidianTaskChange; task: Task }
+  | { change: ObsidianTaskChange; queuedId: string }; // Temporary ID of a create waiting in the outbox
+
+/**
+ * Lines pushed to Todoist by one command, with the ID of the task they belong to
+ */
+interface BatchedTask {
+  id: string;
+  changes: ObsidianTaskChange[];
+}
+
+/**
+ * A queued Sync API command and the Obsidian lines it came from
+ */
+interface PendingCommand {
+  kind: 'complete' | 'update' | 'create';
+  description: string;
+  todoistId: string; // Temporary ID for creates
+  changes: ObsidianTaskChange[];
+}
+
+/**
+ * Placement of a task queued for creation, so subtasks below it can inherit it
+ */
+interface PlannedTask {
+  id: string;
+  projectId: string;
+  sectionId?: string;
 }
 
 /**
@@ -30,72 +83,57 @@ export interface SyncStats {
  */
 export class FileSyncManager {
   private plugin: TodoistPlugin;
-  private basePath: string;
   private lastSyncTime: Date | null = null;
   private mappingManager: TaskMappingManager;
   private conflictResolver: ConflictResolver;
   private safeSyncStrategy: SafeSyncStrategy;
   private backupManager: TodoistBackupManager;
+  private journal: SyncJournal;
+  private run: SyncRun | null = null; // Journal entry of the run in progress
+  private openTaskIds = new Set<string>(); // Tasks open in Todoist as of the pull in progress
   private incrementalSyncManager: IncrementalSyncManager;
+  private templates: TaskTemplates | null = null;
 
   constructor(plugin: TodoistPlugin) {
     this.plugin = plugin;
-    this.basePath = '📋 01-PRODUCTIVITY/todoist-integration';
     this.mappingManager = new TaskMappingManager(plugin);
     this.conflictResolver = new ConflictResolver(plugin);
     this.safeSyncStrategy = new SafeSyncStrategy(plugin);
     this.backupManager = new TodoistBackupManager(plugin);
     this.incrementalSyncManager = new IncrementalSyncManager(plugin);
+    this.journal = new SyncJournal(plugin);
   }
 
   /**
-   * Check if a file path should be included in sync operations
+   * Folder layout from the settings, resolved on every use so changes apply without a restart
    */
-  private shouldSyncFile(filePath: string): boolean {
-    const relativePath = filePath.replace(`${this.basePath}/`, '');
-
-    // Never sync System/ folder (plugin internals)
-    if (relativePath.startsWith('⚙️ System/')) {
-      return false;
-    }
-
-    // Never sync Local/ folder (user workspace - any structure allowed)
-    if (relativePath.startsWith('📁 Local/')) {
-      return false;
-    }
+  private get layout(): SyncLayout {
+    return SyncLayout.current();
+  }
 
-    // Never sync TODOIST-SPEC.md (LLM instructions)
-    if (relativePath === 'TODOIST-SPEC.md') {
-      return false;
-    }
+  private get basePath(): string {
+    return this.layout.basePath;
+  }
 
-    // Auto sync everything else in the integration directory
-    return true;
+  /**
+   * Check if a file path should be included in sync operations
+   */
+  shouldSyncFile(filePath: string): boolean {
+    // Never sync the System folder (plugin internals), the Local folder (user workspace - any
+    // structure allowed) or TODOIST-SPEC.md (LLM instructions); auto sync everything else
+    return this.layout.isSyncedFile(filePath);
   }
 
   /**
    * Initialize the directory structure including user workspace
    */
   async initializeDirectoryStructure(): Promise<void> {
-    const vault = this.plugin.app.vault;
+    // Files written with a previous layout move before anything new is created
+    await this.migrateLayout();
 
     // Core sync directories
-    const syncDirectories = [
-      `${this.basePath}/🗂️ Projects`,
-      `${this.basePath}/🏷️ Labels`,
-      `${this.basePath}/⚙️ System`,
-      `${this.basePath}/📁 Local`,
-    ];
-
-    for (const dir of syncDirectories) {
-      const exists = vault.getAbstractFileByPath(dir);
-      if (!exists) {
-        try {
-          await vault.createFolder(dir);
-        } catch (error) {
-          console.warn(`Could not create directory ${dir}:`, error);
-        }
-      }
+    for (const dir of this.layout.folders) {
+      await this.ensureFolder(dir);
     }
 
     // Create Todoist specification file
@@ -105,11 +143,84 @@ export class FileSyncManager {
     await this.createLocalWorkspaceWelcome();
   }
 
+  /**
+   * Move synced files when the folder layout changed since they were written, so changing the
+   * settings doesn't leave duplicate files behind. Task mappings follow the files they point to.
+   */
+  private async migrateLayout(): Promise<void> {
+    const next = this.layout;
+    const stored = usePluginStateStore.getState().syncLayout;
+
+    // Files written before layouts were configurable follow the defaults
+    const previous = new SyncLayout(stored);
+    if (stored && previous.equals(next)) return;
+
+    const vault = this.plugin.app.vault;
+    const moves = previous.planMoves(next, this.getLayoutEntries());
+    const movedFiles: LayoutMove[] = [];
+
+    for (const move of moves) {
+      const file = vault.getAbstractFileByPath(move.from);
+      if (!file) continue;
+
+      if (vault.getAbstractFileByPath(move.to)) {
+        console.warn(`Not moving ${move.from}: ${move.to} already exists`);
+        continue;
+      }
+
+      try {
+        await this.ensureFolder(move.to.substring(0, move.to.lastIndexOf('/')));
+        await this.plugin.app.fileManager.renameFile(file, move.to);
+        if (file instanceof TFile) movedFiles.push(move);
+      } catch (error) {
+        console.error(`Failed to move ${move.from} to ${move.to}:`, error);
+      }
+    }
+
+    if (movedFiles.length > 0) {
+      // Mappings are read from the new System folder, which moved first
+      await this.mappingManager.initialize();
+      for (const move of movedFiles) {
+        await this.mappingManager.renameFile(previous.toRelative(move.from), next.toRelative(move.to));
+      }
+
+      new Notice(`📁 Moved ${movedFiles.length} synced files to the new folder layout`, 4000);
+    }
+
+    await this.plugin.writeState({ syncLayout: next.settings });
+  }
+
+  /**
+   * Projects and labels that have a file in the layout
+   */
+  private getLayoutEntries(): LayoutEntries {
+    const data = this.plugin.services.todoist.data();
+
+    return {
+      projects: [...data.projects.iter()].map(project => this.getProjectLayoutEntry(project)),
+      labels: [...data.labels.iter()].map(label => this.sanitizeFileName(label.name)),
+    };
+  }
+
+  /**
+   * Create a folder if it doesn't exist yet
+   */
+  private async ensureFolder(path: string): Promise<void> {
+    const vault = this.plugin.app.vault;
+    if (!path || vault.getAbstractFileByPath(path)) return;
+
+    try {
+      await vault.createFolder(path);
+    } catch (error) {
+      console.warn(`Could not create directory ${path}:`, error);
+    }
+  }
+
   /**
    * Create the Todoist specification file in the integration directory
    */
   private async createTodoistSpecFile(): Promise<void> {
-    const filePath = `${this.basePath}/TODOIST-SPEC.md`;
+    const filePath = this.layout.specFilePath;
     const vault = this.plugin.app.vault;
 
     const exists = vault.getAbstractFileByPath(filePath);
@@ -369,7 +480,7 @@ Users can move tasks between any AUTO SYNC files. The plugin will sync changes t
    * Create welcome file in Local workspace
    */
   private async createLocalWorkspaceWelcome(): Promise<void> {
-    const filePath = `${this.basePath}/📁 Local/Welcome.md`;
+    const filePath = `${this.layout.localPath}/Welcome.md`;
     const vault = this.plugin.app.vault;
 
     const exists = vault.getAbstractFileByPath(filePath);
@@ -415,8 +526,9 @@ When you're ready to move something to Todoist, just copy it to one of the AUTO
 
   /**
    * Incremental sync method - only syncs tasks that have changed
+   * Background syncs pass `silent` to skip the notices
    */
-  async syncIncrementally(): Promise<SyncStats & { efficiency: number; report: string }> {
+  async syncIncrementally(options: SyncOptions = {}): Promise<SyncStats & { efficiency: number; report: string }> {
     const stats: SyncStats = {
       tasksProcessed: 0,
       filesUpdated: 0,
@@ -425,6 +537,10 @@ When you're ready to move something to Todoist, just copy it to one of the AUTO
       lastSyncTime: new Date(),
       errors: []
     };
+    if (options.dryRun) {
+      return { ...stats, ...(await this.planSync('pull')), efficiency: 0, report: '' };
+    }
+    const run = this.beginRun('pull', options.trigger);
 
     try {
       // Check if Todoist adapter is ready
@@ -435,7 +551,7 @@ When you're ready to move something to Todoist, just copy it to one of the AUTO
       // Initialize mapping manager
       await this.mappingManager.initialize();
 
-      // Fetch all tasks from Todoist
+      // Pull only what changed in Todoist since the last sync token
       const allTasks = await this.fetchAllTasks();
       stats.tasksProcessed = allTasks.length;
 
@@ -448,6 +564,15 @@ When you're ready to move something to Todoist, just copy it to one of the AUTO
 
       // Log incremental sync statistics
       this.incrementalSyncManager.logSyncStats(changes);
+      for (const task of changes.newTasks) {
+        this.recordOperation({ action: 'add', outcome: 'done', todoistId: task.id, content: task.content });
+      }
+      for (const task of changes.changedTasks) {
+        this.recordOperation({ action: 'change', outcome: 'done', todoistId: task.id, content: task.content });
+      }
+      for (const todoistId of changes.deletedTasks) {
+        this.recordOperation({ action: 'remove', outcome: 'done', todoistId });
+      }
 
       // Generate sync report
       const report = this.incrementalSyncManager.generateSyncReport(changes);
@@ -456,29 +581,43 @@ When you're ready to move something to Todoist, just copy it to one of the AUTO
       const total = changes.newTasks.length + changes.changedTasks.length + changes.unchangedTasks.length;
       const efficiency = total > 0 ? Math.round(((changes.unchangedTasks.length / total) * 100)) : 0;
 
-      // For now, use regular sync but with hash-based change tracking enabled
-      // The TaskFormatter now includes hashes, so future syncs will be more efficient
-      const regularStats = await this.syncAllTasks();
-      Object.assign(stats, regularStats);
+      const hasTaskChanges = changes.newTasks.length > 0 ||
+        changes.changedTasks.length > 0 ||
+        changes.deletedTasks.length > 0;
 
-      new Notice(`⚡ Smart sync: ${allTasks.length} tasks processed with ${efficiency}% efficiency (${changes.unchangedTasks.length} unchanged)`, 4000);
+      if (!hasTaskChanges && total > 0) {
+        // Files already match Todoist - nothing to rewrite
+        if (!options.silent) {
+          new Notice(`⚡ Smart sync: all ${allTasks.length} tasks already up to date 🌟`, 4000);
+        }
+        this.markSynced(new Date());
+        return { ...stats, efficiency, report };
+      }
 
-      // Update last sync time
-      this.lastSyncTime = new Date();
+      // Rewrite the files from the cached tasks without fetching them again
+      const regularStats = await this.syncAllTasks(allTasks, options);
+      Object.assign(stats, regularStats);
+
+      if (!options.silent) {
+        new Notice(`⚡ Smart sync: ${allTasks.length} tasks processed with ${efficiency}% efficiency (${changes.unchangedTasks.length} unchanged)`, 4000);
+      }
 
       return { ...stats, efficiency, report };
 
     } catch (error) {
       console.error('Incremental sync error:', error);
       stats.errors.push(error instanceof Error ? error.message : 'Unknown error');
+      useSyncStatusStore.setState({ lastError: stats.errors[stats.errors.length - 1] });
       throw error;
+    } finally {
+      await this.finishRun(run, stats.errors);
     }
   }
 
   /**
-   * Main sync method - fetches all tasks and organizes them into files
+   * Main sync method - fetches all tasks (unless given) and organizes them into files
    */
-  async syncAllTasks(): Promise<SyncStats> {
+  async syncAllTasks(prefetchedTasks?: Task[], options: SyncOptions = {}): Promise<SyncStats> {
     const stats: SyncStats = {
       tasksProcessed: 0,
       projectsProcessed: 0,
@@ -487,6 +626,10 @@ When you're ready to move something to Todoist, just copy it to one of the AUTO
       lastSyncTime: new Date(),
       errors: []
     };
+    if (options.dryRun) {
+      return { ...stats, ...(await this.planSync('pull', undefined, prefetchedTasks)) };
+    }
+    const run = this.beginRun('pull', options.trigger);
 
     try {
       // Check if Todoist adapter is ready
@@ -494,15 +637,20 @@ When you're ready to move something to Todoist, just copy it to one of the AUTO
         throw new Error('Todoist service not ready. Please check your API token.');
       }
 
+      // Read the page templates first, so an invalid template doesn't leave broken files
+      this.templates = await this.loadTemplates();
+
       // Initialize mapping manager
       await this.mappingManager.initialize();
 
       // Fetch all tasks from Todoist
-      const allTasks = await this.fetchAllTasks();
+      const allTasks = prefetchedTasks ?? await this.fetchAllTasks();
       stats.tasksProcessed = allTasks.length;
 
       // Organize tasks by category
       const organizedTasks = this.organizeTasks(allTasks);
+      this.openTaskIds = new Set(allTasks.map(task => task.id));
+      this.addEmptyFiles(organizedTasks);
 
       // Update Inbox file
       await this.updateInboxFile(organizedTasks.inbox);
@@ -522,6 +670,12 @@ When you're ready to move something to Todoist, just copy it to one of the AUTO
         console.log(`Cleaned up ${orphanedCount} orphaned task mappings`);
       }
 
+      // Tasks completed or deleted in Todoist no longer sync, whatever their lines show
+      const closedCount = await this.mappingManager.removeClosedMappings(this.openTaskIds);
+      if (closedCount > 0) {
+        console.log(`Removed ${closedCount} mappings of tasks closed in Todoist`);
+      }
+
       // Update project files
       for (const [projectName, tasks] of Object.entries(organizedTasks.projects)) {
         await this.updateProjectFile(projectName, tasks);
@@ -538,57 +692,46 @@ When you're ready to move something to Todoist, just copy it to one of the AUTO
       // Update sync status
       await this.updateSyncStatus(stats);
 
-      this.lastSyncTime = stats.lastSyncTime;
+      this.markSynced(stats.lastSyncTime);
 
       // Show ADHD-friendly success notification
-      new Notice(`✅ Sync complete! ${stats.tasksProcessed} tasks organized`, 3000);
+      if (!options.silent) {
+        new Notice(`✅ Sync complete! ${stats.tasksProcessed} tasks organized`, 3000);
+      }
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown sync error';
       stats.errors.push(errorMessage);
       console.error('FileSyncManager sync error:', error);
-      new Notice(`❌ Sync failed: ${errorMessage}`, 5000);
+      useSyncStatusStore.setState({ lastError: errorMessage });
+      if (!options.silent) {
+        new Notice(`❌ Sync failed: ${errorMessage}`, 5000);
+      }
     }
 
+    await this.finishRun(run, stats.errors);
     return stats;
   }
 
   /**
-   * Fetch all tasks using the subscription system with no filter
+   * Fetch all active tasks through the Sync API, which only downloads what changed
+   * since the last sync token and serves the rest from the local cache
    */
-  private async fetchAllTasks(): Promise<Task[]> {
+  private async fetchAllTasks(allowCached = false): Promise<Task[]> {
     try {
       // Wait for the Todoist service to be ready
       if (!this.plugin.services.todoist.isReady()) {
         throw new Error('Todoist service not ready');
       }
 
-      // Use the subscription system with no filter to get all tasks
-      return new Promise((resolve, reject) => {
-        const timeout = setTimeout(() => {
-          reject(new Error('Timeout waiting for tasks'));
-        }, 10000); // 10 second timeout
-
-        // Use a subscription with a filter that gets all tasks
-        const [unsubscribe, refresh] = this.plugin.services.todoist.subscribe(
-          'all', // Use 'all' filter to get all tasks
-          (result) => {
-            clearTimeout(timeout);
-            unsubscribe();
-
-            if (result.type === 'success') {
-              // The subscription result has 'tasks' property
-              const tasks = Array.isArray(result.tasks) ? result.tasks : [];
-              resolve(tasks);
-            } else {
-              reject(new Error('Failed to fetch tasks: ' + (result.type === 'error' ? result.kind : 'Unknown error')));
-            }
-          }
-        );
-
-        // Trigger a refresh to get the latest data
-        refresh();
-      });
+      try {
+        await this.plugin.services.todoist.fetchChanges();
+      } catch (error) {
+        // Offline changes can still be queued against the last known state
+        if (!allowCached) throw error;
+        console.warn('⚠️ Could not reach Todoist, using cached tasks:', error);
+      }
+      return this.plugin.services.todoist.tasks();
     } catch (error) {
       console.error('Error fetching tasks:', error);
       throw error;
@@ -598,89 +741,642 @@ When you're ready to move something to Todoist, just copy it to one of the AUTO
   /**
    * Sync changes from Obsidian back to Todoist with backup and safe metadata preservation
    * This method creates backups and only syncs safe changes to prevent data corruption
+   * When `onlyFiles` is given, only those files are checked for changes
    */
-  async syncObsidianChangesToTodoist(skipConflictDetection: boolean = false): Promise<{
+  async syncObsidianChangesToTodoist(skipConflictDetection: boolean = false, onlyFiles?: string[], options: SyncOptions = {}): Promise<{
     updated: number;
+    created: number;
     completed: number;
+    queued: number;
     conflicts: number;
     backupCreated: boolean;
     backupFile: string;
-    errors: string[]
+    errors: string[];
+    plan?: SyncJournalOperation[];
   }> {
     const result = {
       updated: 0,
+      created: 0,
       completed: 0,
+      queued: 0,
       conflicts: 0,
       backupCreated: false,
       backupFile: '',
       errors: [] as string[]
     };
+    if (options.dryRun) {
+      return { ...result, ...(await this.planSync('push', onlyFiles)) };
+    }
+    const run = this.beginRun('push', options.trigger);
 
     try {
       await this.mappingManager.initialize();
 
+      // Section headings of new tasks are matched using the page templates. An invalid template
+      // is reported when pulling, so pushing falls back to the built-in headings.
+      this.templates = await this.loadTemplates().catch(error => {
+        console.warn('Ignoring sync templates:', error);
+        return null;
+      });
+
+      // Send changes left over from earlier offline syncs first
+      await this.plugin.services.todoist.retryPending();
+
       // Get current Todoist tasks for backup and comparison
-      const todoistTasks = await this.fetchAllTasks();
+      const todoistTasks = await this.fetchAllTasks(true);
+      const todoistMap = new Map(todoistTasks.map(t => [t.id, t]));
 
-      // Get all markdown files for change detection (only AUTO SYNC files)
-      const files = await this.getAllMarkdownFiles();
+      // Get all markdown files for change detection (only AUTO SYNC files), or just the given ones
+      const files = (await this.getAllMarkdownFiles()).filter(file => !onlyFiles || onlyFiles.includes(file.path));
       const markdownFilePaths = files.map(f => f.path);
 
-      // Use incremental sync manager to detect Obsidian changes
+      // Lines created while offline carry a temporary ID until Todoist has created them
+      await this.resolveQueuedTaskIds(files, todoistMap, result.errors);
+
+      // Lines written by earlier versions carry hashes that can't tell which fields changed
+      await this.migrateTaskHashes(files, todoistMap, result.errors);
+
+      // Use incremental sync manager to detect Obsidian changes, merging lines with tasks
+      // changed in Todoist too using the snapshot taken when the line was last synced
       const obsidianChanges = await this.incrementalSyncManager.identifyObsidianChanges(
         todoistTasks,
-        markdownFilePaths
+        markdownFilePaths,
+        {
+          snapshots: (todoistId, hash) => this.mappingManager.getSnapshot(todoistId, hash),
+          lastSyncTime: this.lastSyncTime ?? new Date()
+        }
       );
 
       // Log Obsidian change statistics
       this.incrementalSyncManager.logObsidianChangeStats(obsidianChanges);
 
-      // Process only the tasks that actually changed in Obsidian
-      const changedObsidianTasks = [
-        ...obsidianChanges.completedTasks,
-        ...obsidianChanges.modifiedTasks,
-        ...obsidianChanges.newTasks
-      ];
+      // Only fields changed on both sides need the user. Skipped conflicts leave the line as it
+      // is, so they come back on the next sync.
+      const { resolutions, fieldResolutions } = obsidianChanges.conflicts.length > 0 && !skipConflictDetection
+        ? await this.showManualConflictResolution(obsidianChanges.conflicts.map(({ conflict }) => conflict))
+        : { resolutions: new Map<string, ConflictResolution>(), fieldResolutions: new Map<string, FieldResolutions>() };
+      const resolvedLines: ObsidianTaskChange[] = []; // Resolved in favor of Todoist, nothing to push
+
+      for (const { change, conflict } of obsidianChanges.conflicts) {
+        const resolution = resolutions.get(conflict.todoistId) ?? ConflictResolution.SKIP;
+        const values = ConflictResolver.resolveFields(conflict, resolution, fieldResolutions.get(conflict.todoistId));
+        if (!values) {
+          result.conflicts++;
+          this.recordOperation({ ...this.describeChange(change), action: 'conflict', outcome: 'skipped', fields: conflict.fields.map(f => f.field) });
+          continue;
+        }
+
+        await this.conflictResolver.logConflictResolution(conflict, resolution, values);
+        this.applyResolvedFields(change, conflict, values);
+        if (change.changedFields.length > 0) {
+          obsidianChanges.modifiedTasks.push(change);
+        } else {
+          resolvedLines.push(change);
+        }
+      }
+
+      // All changes are queued into one Sync API batch instead of one request per task
+      const batch = new CommandBatch();
+      const pending = new Map<string, PendingCommand>(); // command uuid -> what it does
 
-      // Apply changes to Todoist
       for (const obsidianTask of obsidianChanges.completedTasks) {
         if (obsidianTask.todoistId) {
-          try {
-            await this.plugin.services.todoist.actions.closeTask(obsidianTask.todoistId);
-            result.completed++;
-          } catch (error) {
-            result.errors.push(`Failed to complete task ${obsidianTask.todoistId}: ${error}`);
-          }
+          pending.set(batch.closeTask(obsidianTask.todoistId), {
+            kind: 'complete',
+            description: `complete task ${obsidianTask.todoistId}`,
+            todoistId: obsidianTask.todoistId,
+            changes: [obsidianTask]
+          });
         }
       }
 
-      // Log what would be updated (content/priority/due date changes)
+      // Push content/priority/due date/duration/label edits
+      const modifiedById = new Map<string, ObsidianTaskChange[]>();
       for (const obsidianTask of obsidianChanges.modifiedTasks) {
-        console.log(`Would update task ${obsidianTask.todoistId}: "${obsidianTask.content}"`);
-        result.updated++;
+        if (!obsidianTask.todoistId) continue;
+        const copies = modifiedById.get(obsidianTask.todoistId) ?? [];
+        copies.push(obsidianTask);
+        modifiedById.set(obsidianTask.todoistId, copies);
+      }
+
+      for (const [todoistId, copies] of modifiedById) {
+        const todoistTask = todoistMap.get(todoistId);
+        if (!todoistTask) continue;
+
+        const updates = copies.map(copy => this.buildTaskUpdate(copy, todoistTask));
+        const serialized = new Set(updates.map(update => JSON.stringify(update)));
+        if (serialized.size > 1) {
+          // The same task was edited differently in several files - let the user decide
+          console.warn(`⚠️ Task ${todoistId} was edited differently in ${copies.length} places, skipping`);
+          result.conflicts++;
+          this.recordOperation({
+            ...this.describeChange(copies[0]),
+            action: 'conflict',
+            outcome: 'skipped',
+            error: `Edited differently in ${copies.map(copy => copy.filePath).join(', ')}`
+          });
+          continue;
+        }
+
+        const update = updates[0];
+        if (Object.keys(update).length === 0) continue;
+
+        pending.set(batch.updateTask(todoistId, update), {
+          kind: 'update',
+          description: `update task ${todoistId}`,
+          todoistId,
+          changes: copies
+        });
+      }
+
+      // Create tasks for new checkbox lines (top to bottom so parents are queued before children)
+      const fileLines = new Map<string, string[]>();
+      const createdTasks = new Map<string, PlannedTask>(); // "file:line" -> queued task
+      const newTasks = obsidianChanges.newTasks
+        .filter(task => !task.completed)
+        .sort((a, b) => a.filePath.localeCompare(b.filePath) || a.lineNumber - b.lineNumber);
+
+      for (const obsidianTask of newTasks) {
+        try {
+          let lines = fileLines.get(obsidianTask.filePath);
+          if (!lines) {
+            lines = await this.readFileLines(obsidianTask.filePath);
+            fileLines.set(obsidianTask.filePath, lines);
+          }
+
+          const params = this.buildNewTaskParams(obsidianTask, lines, todoistMap, createdTasks);
+          const [uuid, tempId] = batch.createTask(obsidianTask.content, params);
+
+          createdTasks.set(`${obsidianTask.filePath}:${obsidianTask.lineNumber}`, {
+            id: tempId,
+            projectId: params.projectId,
+            sectionId: params.sectionId
+          });
+          pending.set(uuid, {
+            kind: 'create',
+            description: `create task "${obsidianTask.content}"`,
+            todoistId: tempId,
+            changes: [obsidianTask]
+          });
+        } catch (error) {
+          result.errors.push(`Failed to create task "${obsidianTask.content}": ${error}`);
+        }
+      }
+
+      const { pushed: pushedIds, queued } = await this.executeBatch(batch, pending, result);
+
+      const writeBacks: TaskWriteBack[] = [];
+      for (const change of resolvedLines) {
+        const task = change.todoistId ? todoistMap.get(change.todoistId) : undefined;
+        if (task) {
+          writeBacks.push({ change, task });
+        }
       }
+      for (const { id, changes } of queued) {
+        for (const change of changes) {
+          writeBacks.push({ change, queuedId: id });
+        }
+      }
+
+      if (pushedIds.length > 0) {
+        // Pull the accepted changes so the written hashes match what Todoist stored
+        await this.plugin.services.todoist.fetchChanges();
+        const refreshed = new Map(this.plugin.services.todoist.tasks().map(t => [t.id, t]));
 
-      // Log new tasks that would be created
-      for (const obsidianTask of obsidianChanges.newTasks) {
-        console.log(`Would create new task: "${obsidianTask.content}"`);
-        result.updated++;
+        for (const { id, changes } of pushedIds) {
+          const task = refreshed.get(id);
+          if (!task) continue;
+          for (const change of changes) {
+            writeBacks.push({ change, task });
+          }
+        }
+      }
+
+      // Record Todoist IDs and fresh hashes in the markdown files
+      await this.writeBackTaskMetadata(writeBacks, result.errors);
+
+      if (result.updated > 0 || result.created > 0) {
+        // Refresh query blocks so they reflect the pushed changes
+        try {
+          await this.plugin.services.todoist.sync();
+        } catch (error) {
+          console.warn('Failed to refresh Todoist data after pushing changes:', error);
+        }
       }
 
       // Skip conflict detection for incremental sync efficiency
       console.log(`⏭️ Conflict detection skipped for incremental sync efficiency`);
 
       // Update last sync time
-      this.lastSyncTime = new Date();
+      this.markSynced(new Date(), result.errors[0]);
 
     } catch (error) {
       const errorMsg = `Failed to sync Obsidian changes: ${error}`;
+      useSyncStatusStore.setState({ lastError: errorMsg });
       result.errors.push(errorMsg);
       console.error(errorMsg);
+    } finally {
+      await this.finishRun(run, result.errors);
     }
 
     return result;
   }
 
+  /**
+   * Send a command batch and tally per-command results into the sync result.
+   * Returns the real IDs of updated and created tasks along with the lines they came from,
+   * and the temporary IDs of creates that were queued because Todoist could not be reached.
+   */
+  private async executeBatch(
+    batch: CommandBatch,
+    pending: Map<string, PendingCommand>,
+    result: { updated: number; created: number; completed: number; queued: number; errors: string[] }
+  ): Promise<{ pushed: BatchedTask[]; queued: BatchedTask[] }> {
+    const pushed: BatchedTask[] = [];
+    const queued: BatchedTask[] = [];
+    if (batch.size === 0) return { pushed, queued };
+
+    let outcome: Delivery;
+    try {
+      outcome = await this.plugin.services.todoist.actions.executeCommands(batch);
+    } catch (error) {
+      result.errors.push(`Failed to send ${batch.size} changes to Todoist: ${error}`);
+      for (const command of pending.values()) {
+        this.recordCommand(command, 'failed', String(error));
+      }
+      return { pushed, queued };
+    }
+
+    for (const [uuid, command] of pending) {
+      if (outcome.queued.has(uuid)) {
+        // Saved in the outbox - it is sent once Todoist can be reached again
+        result.queued++;
+        this.recordCommand(command, 'queued');
+        if (command.kind === 'create') {
+          queued.push({ id: command.todoistId, changes: command.changes });
+        }
+        continue;
+      }
+
+      const status = outcome.statuses.get(uuid);
+      if (!status?.ok) {
+        const error = status?.error ?? 'no response from Todoist';
+        result.errors.push(`Failed to ${command.description}: ${error}`);
+        this.recordCommand(command, 'failed', error);
+        continue;
+      }
+
+      this.recordCommand(command, 'done');
+
+      switch (command.kind) {
+        case 'complete':
+          result.completed++;
+          continue;
+        case 'update':
+          result.updated++;
+          break;
+        case 'create':
+          result.created++;
+          break;
+      }
+
+      const id = outcome.tempIdMapping.get(command.todoistId) ?? command.todoistId;
+      pushed.push({ id, changes: command.changes });
+    }
+
+    return { pushed, queued };
+  }
+
+  /**
+   * Replace the 32-bit hashes written by earlier versions with current hashes. Only lines whose
+   * hash still matches their Todoist task are migrated, so edits made in Obsidian are pushed
+   * as before. The other lines are rewritten with current hashes by the next Todoist → Obsidian sync.
+   */
+  private async migrateTaskHashes(files: TFile[], todoistMap: Map<string, Task>, errors: string[]): Promise<void> {
+    let migrated = 0;
+
+    for (const file of files) {
+      try {
+        const lines = (await this.plugin.app.vault.read(file)).split('\n');
+        let changed = false;
+
+        for (let lineNumber = 0; lineNumber < lines.length; lineNumber++) {
+          const metadata = TaskFormatter.extractTodoistMetadata(lines[lineNumber]);
+          if (!metadata || !TaskHash.isLegacy(metadata.hash)) continue;
+
+          const task = todoistMap.get(metadata.id);
+          if (!task || TaskHash.legacyHash(task) !== metadata.hash) continue;
+
+          lines[lineNumber] = TaskFormatter.updateTaskHash(lines[lineNumber], task);
+          changed = true;
+          migrated++;
+        }
+
+        if (changed) {
+          await OwnWrites.modify(this.plugin.app.vault, file, lines.join('\n'));
+        }
+      } catch (error) {
+        errors.push(`Failed to migrate task hashes in ${file.path}: ${error}`);
+      }
+    }
+
+    if (migrated > 0) {
+      console.log(`🔑 Migrated ${migrated} task hashes to the current format`);
+    }
+  }
+
+  /**
+   * Swap temporary IDs of tasks queued for creation for their real IDs once Todoist created them
+   */
+  private async resolveQueuedTaskIds(files: TFile[], todoistMap: Map<string, Task>, errors: string[]): Promise<void> {
+    for (const file of files) {
+      try {
+        const lines = (await this.plugin.app.vault.read(file)).split('\n');
+        const relativePath = this.layout.toRelative(file.path);
+        let changed = false;
+
+        for (let lineNumber = 0; lineNumber < lines.length; lineNumber++) {
+          const id = TaskFormatter.extractTodoistId(lines[lineNumber]);
+          if (!id || todoistMap.has(id)) continue;
+
+          const task = todoistMap.get(this.plugin.services.todoist.resolveQueuedId(id) ?? '');
+          if (!task) continue;
+
+          lines[lineNumber] = TaskFormatter.updateTaskHash(lines[lineNumber], task);
+          await this.mappingManager.createMapping(task, relativePath, lineNumber);
+          changed = true;
+        }
+
+        if (changed) {
+          await OwnWrites.modify(this.plugin.app.vault, file, lines.join('\n'));
+        }
+      } catch (error) {
+        errors.push(`Failed to record Todoist IDs in ${file.path}: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Take the values a conflict resolution kept. Values that differ from Todoist are pushed, and
+   * the line is written again from the Todoist task once the sync is done.
+   */
+  private applyResolvedFields(change: ObsidianTaskChange, conflict: TaskConflict, values: Partial<TaskSnapshot>): void {
+    for (const { field, todoist } of conflict.fields) {
+      change.todoistFields.push(field);
+      if (!(field in values) || JSON.stringify(values[field]) === JSON.stringify(todoist)) continue;
+
+      change.changedFields.push(field);
+      switch (field) {
+        case 'content':
+          change.content = values.content ?? change.content;
+          break;
+        case 'priority':
+          change.priority = values.priority ?? change.priority;
+          break;
+        case 'due':
+          change.dueDate = values.due ?? null;
+          break;
+        case 'duration':
+          change.duration = values.duration ?? null;
+          break;
+        case 'recurring':
+          change.recurring = values.recurring ?? null;
+          break;
+        case 'labels':
+          change.labels = values.labels ?? change.labels;
+          break;
+      }
+    }
+  }
+
+  /**
+   * Build the Todoist update for the fields edited in Obsidian
+   */
+  private buildTaskUpdate(change: ObsidianTaskChange, todoistTask: Task): UpdateTaskParams {
+    const update: UpdateTaskParams = {};
+    const changed = new Set(change.changedFields);
+
+    if (changed.has('content')) {
+      update.content = change.content;
+    }
+
+    if (changed.has('priority') && change.priority !== null) {
+      update.priority = change.priority;
+    }
+
+    if (changed.has('recurring') && change.recurring) {
+      // Todoist derives the next occurrence from the recurring pattern
+      update.dueString = change.recurring;
+    } else if (changed.has('due') || changed.has('recurring')) {
+      if (todoistTask.due?.isRecurring && change.recurring) {
+        // Setting a plain date would drop the recurrence in Todoist
+        console.warn(`⚠️ Skipping due date edit for recurring task ${todoistTask.id}`);
+      } else if (change.dueDate) {
+        const dueDate = TaskFormatter.toTodoistDate(change.dueDate);
+        if (dueDate) {
+          update.dueDate = dueDate;
+        }
+      } else {
+        update.dueString = 'no date';
+      }
+    }
+
+    if (changed.has('duration') && change.duration) {
+      update.duration = change.duration.amount;
+      update.durationUnit = change.duration.unit;
+    }
+
+    if (changed.has('labels')) {
+      update.labels = change.labels;
+    }
+
+    return update;
+  }
+
+  /**
+   * Build create parameters for a new Obsidian task, placing it according to where it was written:
+   * under its parent task, in the project/section of a project file, with the label of a label
+   * file, due today in Today.md, and in the Inbox otherwise
+   */
+  private buildNewTaskParams(
+    change: ObsidianTaskChange,
+    lines: string[],
+    todoistMap: Map<string, Task>,
+    createdTasks: Map<string, PlannedTask>
+  ): CreateTaskParams {
+    const data = this.plugin.services.todoist.data();
+    const labels = [...change.labels];
+    let projectId: string | undefined;
+    let sectionId: string | undefined;
+    let parentId: string | undefined;
+    let dueString: string | undefined;
+
+    // Parent task: nearest less-indented task line above this one
+    const parent = this.findParentTaskLine(lines, change.lineNumber);
+    if (parent !== null) {
+      const existing = todoistMap.get(TaskFormatter.extractTodoistId(lines[parent]) ?? '');
+      const parentTask = createdTasks.get(`${change.filePath}:${parent}`)
+        ?? (existing && { id: existing.id, projectId: existing.project.id, sectionId: existing.section?.id });
+      if (parentTask) {
+        parentId = parentTask.id;
+        projectId = parentTask.projectId;
+        sectionId = parentTask.sectionId;
+      }
+    }
+
+    if (!projectId) {
+      const projectFile = [...data.projects.iter()]
+        .find(project => this.getProjectFilePath(project) === change.filePath);
+
+      if (projectFile) {
+        projectId = projectFile.id;
+        const sectionPattern = this.templates?.forView('project').sectionPattern() ?? /^## 📂 (.+?)(?: \(\d+\))?\s*$/;
+        const sectionName = this.findHeadingAbove(lines, change.lineNumber, sectionPattern);
+        const section = sectionName
+          ? [...data.sections.iter()].find(s => s.projectId === projectFile.id && s.name === sectionName)
+          : undefined;
+        sectionId = section?.id;
+      } else if (this.layout.labelNameFromPath(change.filePath) !== null) {
+        const fileName = this.layout.labelNameFromPath(change.filePath) ?? '';
+        const label = [...data.labels.iter()].find(l => this.sanitizeFileName(l.name) === fileName);
+        const labelName = label?.name ?? fileName;
+        if (labelName && !labels.includes(labelName)) {
+          labels.push(labelName);
+        }
+
+        const projectPattern = this.templates?.forView('label').sectionPattern() ?? /^### 🗂️ (.+?)\s*$/;
+        const projectName = this.findHeadingAbove(lines, change.lineNumber, projectPattern);
+        projectId = projectName ? this.getProjectByName(projectName)?.id : undefined;
+      } else if (change.filePath === this.layout.todayPath && !change.dueDate) {
+        dueString = 'today';
+      }
+    }
+
+    if (!projectId) {
+      const inbox = [...data.projects.iter()].find(project => project.isInboxProject);
+      if (!inbox) {
+        throw new Error('Inbox project not found');
+      }
+      projectId = inbox.id;
+    }
+
+    const params: CreateTaskParams = {
+      priority: change.priority ?? 1,
+      projectId,
+    };
+
+    if (sectionId) params.sectionId = sectionId;
+    if (parentId) params.parentId = parentId;
+    if (labels.length > 0) params.labels = labels;
+
+    if (change.recurring) {
+      params.dueString = change.recurring;
+    } else if (change.dueDate) {
+      params.dueDate = TaskFormatter.toTodoistDate(change.dueDate);
+    } else if (dueString) {
+      params.dueString = dueString;
+    }
+
+    if (change.duration) {
+      params.duration = change.duration.amount;
+      params.durationUnit = change.duration.unit;
+    }
+
+    return params;
+  }
+
+  /**
+   * Find the line number of the nearest less-indented task line above a task
+   */
+  private findParentTaskLine(lines: string[], lineNumber: number): number | null {
+    const indentOf = (line: string) => line.match(/^\s*/)?.[0].length ?? 0;
+    const indent = indentOf(lines[lineNumber] ?? '');
+    if (indent === 0) return null;
+
+    for (let i = lineNumber - 1; i >= 0; i--) {
+      const line = lines[i];
+      if (line.startsWith('#')) return null;
+      if (TaskFormatter.isTaskLine(line) && indentOf(line) < indent) {
+        return i;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the nearest heading above a line that matches the pattern and return its first group
+   */
+  private findHeadingAbove(lines: string[], lineNumber: number, pattern: RegExp): string | null {
+    for (let i = lineNumber - 1; i >= 0; i--) {
+      const match = lines[i].match(pattern);
+      if (match) return match[1];
+    }
+    return null;
+  }
+
+  /**
+   * Read a vault file as lines (empty if the file is missing)
+   */
+  private async readFileLines(filePath: string): Promise<string[]> {
+    const file = this.plugin.app.vault.getAbstractFileByPath(filePath);
+    if (!(file instanceof TFile)) return [];
+    const content = await this.plugin.app.vault.read(file);
+    return content.split('\n');
+  }
+
+  /**
+   * Rewrite the todoist metadata comment of pushed lines with the Todoist ID and current hash,
+   * modifying each file once
+   */
+  private async writeBackTaskMetadata(writeBacks: TaskWriteBack[], errors: string[]): Promise<void> {
+    const byFile = new Map<string, TaskWriteBack[]>();
+    for (const writeBack of writeBacks) {
+      const entries = byFile.get(writeBack.change.filePath) ?? [];
+      entries.push(writeBack);
+      byFile.set(writeBack.change.filePath, entries);
+    }
+
+    for (const [filePath, entries] of byFile) {
+      try {
+        const file = this.plugin.app.vault.getAbstractFileByPath(filePath);
+        if (!(file instanceof TFile)) continue;
+
+        const lines = (await this.plugin.app.vault.read(file)).split('\n');
+        const relativePath = this.layout.toRelative(filePath);
+
+        for (const writeBack of entries) {
+          const { change } = writeBack;
+          // The file may have shifted since it was analyzed - fall back to searching for the line
+          let lineNumber = change.lineNumber;
+          if (lines[lineNumber] !== change.originalLine) {
+            lineNumber = lines.indexOf(change.originalLine);
+          }
+          if (lineNumber === -1) {
+            errors.push(`Could not find "${change.content}" in ${filePath} to record its Todoist ID`);
+            continue;
+          }
+
+          if ('queuedId' in writeBack) {
+            lines[lineNumber] = TaskFormatter.setTodoistId(lines[lineNumber], writeBack.queuedId);
+            continue;
+          }
+
+          // Lines merged with changes made in Todoist are written again so they show them. The
+          // page template applies to them again on the next Todoist → Obsidian sync.
+          lines[lineNumber] = change.todoistFields.length > 0
+            ? `${lines[lineNumber].match(/^\s*/)?.[0] ?? ''}${TaskFormatter.formatTaskAsMarkdown(writeBack.task, true).split('\n')[0]}`
+            : TaskFormatter.updateTaskHash(lines[lineNumber], writeBack.task);
+          await this.mappingManager.createMapping(writeBack.task, relativePath, lineNumber);
+        }
+
+        await OwnWrites.modify(this.plugin.app.vault, file, lines.join('\n'));
+      } catch (error) {
+        errors.push(`Failed to record Todoist IDs in ${filePath}: ${error}`);
+      }
+    }
+  }
+
   /**
    * Extract tasks from markdown content with their metadata
    */
@@ -703,31 +1399,22 @@ When you're ready to move something to Todoist, just copy it to one of the AUTO
   }
 
   /**
-   * Show manual conflict resolution modal for complex conflicts
+   * Ask the user how to resolve conflicts, resolving with their choice per task and per field,
+   * or none if cancelled
    */
-  private async showManualConflictResolution(conflicts: TaskConflict[]): Promise<void> {
+  private async showManualConflictResolution(conflicts: TaskConflict[]): Promise<{
+    resolutions: Map<string, ConflictResolution>;
+    fieldResolutions: Map<string, FieldResolutions>;
+  }> {
     return new Promise((resolve) => {
       const modal = new ConflictResolutionModal(
         this.plugin,
         conflicts,
-        async (resolutions) => {
-          // Apply manual resolutions
-          for (const [todoistId, resolution] of resolutions) {
-            const conflict = conflicts.find(c => c.todoistId === todoistId);
-            if (conflict) {
-              try {
-                await this.conflictResolver.resolveConflicts([conflict]);
-              } catch (error) {
-                console.error(`Failed to apply manual resolution for ${todoistId}:`, error);
-              }
-            }
-          }
-          resolve();
-        },
+        (resolutions, fieldResolutions) => resolve({ resolutions, fieldResolutions }),
         () => {
           // User cancelled - skip manual conflicts
           new Notice('⏭️ Manual conflicts skipped. They will appear again on next sync.', 3000);
-          resolve();
+          resolve({ resolutions: new Map(), fieldResolutions: new Map() });
         }
       );
       modal.open();
@@ -815,12 +1502,36 @@ When you're ready to move something to Todoist, just copy it to one of the AUTO
     return organized;
   }
 
+  /**
+   * Add the projects and labels without open tasks that still have a file, so the lines of
+   * their last tasks are handled once those are closed
+   */
+  private addEmptyFiles(organized: { projects: Record<string, Task[]>; labels: Record<string, Task[]> }): void {
+    const vault = this.plugin.app.vault;
+    const data = this.plugin.services.todoist.data();
+
+    for (const project of data.projects.iter()) {
+      if (project.isInboxProject || organized.projects[project.name]) continue;
+      if (vault.getAbstractFileByPath(this.getProjectFilePath(project)) instanceof TFile) {
+        organized.projects[project.name] = [];
+      }
+    }
+
+    for (const label of data.labels.iter()) {
+      if (organized.labels[label.name]) continue;
+      const filePath = this.layout.labelPath(this.sanitizeFileName(label.name));
+      if (filePath && vault.getAbstractFileByPath(filePath) instanceof TFile) {
+        organized.labels[label.name] = [];
+      }
+    }
+  }
+
   /**
    * Update the Inbox.md file with inbox tasks
    */
   private async updateInboxFile(tasks: Task[]): Promise<void> {
-    const filePath = `${this.basePath}/📥 Inbox.md`;
-    const content = this.generateInboxContent(tasks);
+    const filePath = this.layout.inboxPath;
+    const content = await this.keepClosedTasks(filePath, 'inbox', this.generateInboxContent(tasks));
     await this.updateFile(filePath, content, tasks);
   }
 
@@ -828,8 +1539,8 @@ When you're ready to move something to Todoist, just copy it to one of the AUTO
    * Update the Today.md file with today's tasks
    */
   private async updateTodayFile(tasks: Task[]): Promise<void> {
-    const filePath = `${this.basePath}/📅 Today.md`;
-    const content = this.generateTodayContent(tasks);
+    const filePath = this.layout.todayPath;
+    const content = await this.keepClosedTasks(filePath, 'today', this.generateTodayContent(tasks));
     await this.updateFile(filePath, content, tasks);
   }
 
@@ -837,8 +1548,8 @@ When you're ready to move something to Todoist, just copy it to one of the AUTO
    * Update the Upcoming.md file with upcoming tasks
    */
   private async updateUpcomingFile(tasks: Task[]): Promise<void> {
-    const filePath = `${this.basePath}/📆 Upcoming.md`;
-    const content = this.generateUpcomingContent(tasks);
+    const filePath = this.layout.upcomingPath;
+    const content = await this.keepClosedTasks(filePath, 'upcoming', this.generateUpcomingContent(tasks));
     await this.updateFile(filePath, content, tasks);
   }
 
@@ -855,38 +1566,43 @@ When you're ready to move something to Todoist, just copy it to one of the AUTO
     }
 
     const filePath = this.getProjectFilePath(project);
-    const content = this.generateProjectContent(projectName, tasks);
+    const content = await this.keepClosedTasks(filePath, 'projects', this.generateProjectContent(projectName, tasks));
     await this.updateFile(filePath, content, tasks);
   }
 
   /**
    * Get project file path based on hierarchy
    */
-  private getProjectFilePath(project: any): string {
-    const sanitizedName = this.sanitizeFileName(project.name);
-
-    if (project.parentId === null) {
-      // Top-level project
-      const hasSubprojects = this.hasSubprojects(project.id);
+  private getProjectFilePath(project: any, layout: SyncLayout = this.layout): string {
+    const entry = this.getProjectLayoutEntry(project);
+    return layout.projectPath(entry.name, entry.ancestors, entry.hasSubprojects);
+  }
 
-      if (hasSubprojects) {
-        // Parent project with children - create folder with dedicated file
-        return `${this.basePath}/🗂️ Projects/${sanitizedName}/${sanitizedName}.md`;
-      } else {
-        // Simple project - flat file
-        return `${this.basePath}/🗂️ Projects/${sanitizedName}.md`;
-      }
-    } else {
-      // Subproject - place in parent folder
-      const parentProject = this.getProjectById(project.parentId);
-      if (parentProject) {
-        const parentName = this.sanitizeFileName(parentProject.name);
-        return `${this.basePath}/🗂️ Projects/${parentName}/${sanitizedName}.md`;
-      } else {
-        // Fallback if parent not found
-        return `${this.basePath}/🗂️ Projects/${sanitizedName}.md`;
-      }
+  /**
+   * Sanitized names placing a project in the layout. Parent projects with children get a folder
+   * with a dedicated file, and subprojects are placed in the folders of their ancestors.
+   */
+  private getProjectLayoutEntry(project: Project): LayoutEntries['projects'][number] {
+    const ancestors: string[] = [];
+    const seen = new Set<string>([project.id]);
+    let parentId = project.parentId;
+
+    while (parentId) {
+      const parentProject = this.getProjectById(parentId);
+      // Fall back to a flat file if a parent is missing
+      if (!parentProject || seen.has(parentProject.id)) break;
+
+      seen.add(parentProject.id);
+      ancestors.unshift(this.sanitizeFileName(parentProject.name));
+      parentId = parentProject.parentId;
     }
+
+    return {
+      name: this.sanitizeFileName(project.name),
+      ancestors,
+      // Only top-level projects get a folder of their own, like before layouts were configurable
+      hasSubprojects: ancestors.length === 0 && this.hasSubprojects(project.id),
+    };
   }
 
   /**
@@ -944,16 +1660,63 @@ When you're ready to move something to Todoist, just copy it to one of the AUTO
    * Update a label file with labeled tasks
    */
   private async updateLabelFile(labelName: string, tasks: Task[]): Promise<void> {
-    const filePath = `${this.basePath}/🏷️ Labels/${this.sanitizeFileName(labelName)}.md`;
-    const content = this.generateLabelContent(labelName, tasks);
+    const filePath = this.layout.labelPath(this.sanitizeFileName(labelName));
+    if (!filePath) return; // Label files are turned off
+
+    const content = await this.keepClosedTasks(filePath, 'labels', this.generateLabelContent(labelName, tasks));
     await this.updateFile(filePath, content, tasks);
   }
 
+  /**
+   * Keep the lines of tasks closed in Todoist that a file held, as the closed task policy for
+   * its kind of file says. Archived lines are moved to the archive file.
+   */
+  private async keepClosedTasks(filePath: string, kind: keyof ClosedTaskSettings, content: string): Promise<string> {
+    const policy = { ...defaultClosedTasks, ...useSettingsStore.getState().closedTasks }[kind];
+    if (policy === 'remove') return content;
+
+    const file = this.plugin.app.vault.getAbstractFileByPath(filePath);
+    if (!(file instanceof TFile)) return content;
+
+    const previous = await this.plugin.app.vault.read(file);
+    const result = ClosedTasks.apply(previous, content, id => this.openTaskIds.has(id), policy, this.formatDate(new Date()));
+    if (result.archived.length > 0) {
+      await this.archiveTasks(result.archived);
+    }
+    return result.content;
+  }
+
+  /**
+   * Append the lines of closed tasks to the archive file, once per task
+   */
+  private async archiveTasks(lines: string[]): Promise<void> {
+    const vault = this.plugin.app.vault;
+    const filePath = this.layout.archivePath;
+    const file = vault.getAbstractFileByPath(filePath);
+
+    const existing = file instanceof TFile
+      ? await vault.read(file)
+      : '# ✅ Completed Tasks\n\n*Tasks completed or deleted in Todoist*\n\n';
+    const archivedIds = new Set(existing.split('\n').map(line => TaskFormatter.extractTodoistId(line)));
+    const added = lines.filter(line => !archivedIds.has(TaskFormatter.extractTodoistId(line)));
+    if (added.length === 0) return;
+
+    this.recordOperation({ action: 'write', outcome: 'done', file: filePath });
+
+    const content = `${existing}${existing.endsWith('\n') ? '' : '\n'}${added.join('\n')}\n`;
+    if (file instanceof TFile) {
+      await OwnWrites.modify(vault, file, content);
+    } else {
+      await this.ensureFolder(this.layout.systemPath);
+      await vault.create(filePath, content);
+    }
+  }
+
   /**
    * Update sync status file
    */
   private async updateSyncStatus(stats: SyncStats): Promise<void> {
-    const filePath = `${this.basePath}/⚙️ System/Sync Status.md`;
+    const filePath = this.layout.syncStatusPath;
     const content = this.generateSyncStatusContent(stats);
     await this.updateFile(filePath, content);
   }
@@ -969,7 +1732,10 @@ When you're ready to move something to Todoist, just copy it to one of the AUTO
 
       if (existingFile && existingFile instanceof TFile) {
         // Update existing file
-        await vault.modify(existingFile, content);
+        if (this.run && await vault.read(existingFile) !== content) {
+          this.recordOperation({ action: 'write', outcome: 'done', file: filePath });
+        }
+        await OwnWrites.modify(vault, existingFile, content);
       } else {
         // Create new file (ensure directory exists)
         const dirPath = filePath.substring(0, filePath.lastIndexOf('/'));
@@ -980,6 +1746,7 @@ When you're ready to move something to Todoist, just copy it to one of the AUTO
         }
 
         await vault.create(filePath, content);
+        this.recordOperation({ action: 'write', outcome: 'done', file: filePath });
       }
 
       // Create mappings for tasks if provided
@@ -997,22 +1764,18 @@ When you're ready to move something to Todoist, just copy it to one of the AUTO
    */
   private async createTaskMappings(filePath: string, content: string, tasks: Task[]): Promise<void> {
     const lines = content.split('\n');
-    const relativePath = filePath.replace(`${this.basePath}/`, '');
+    const relativePath = this.layout.toRelative(filePath);
 
-    let taskIndex = 0;
+    // Lines of closed tasks kept in the file have no task to map
+    const tasksById = new Map(tasks.map(task => [task.id, task]));
     for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
       const line = lines[lineIndex];
+      if (!TaskFormatter.isTaskLine(line)) continue;
 
-      if (TaskFormatter.isTaskLine(line)) {
-        const todoistId = TaskFormatter.extractTodoistId(line);
-
-        if (todoistId && taskIndex < tasks.length) {
-          const task = tasks.find(t => t.id === todoistId);
-          if (task) {
-            await this.mappingManager.createMapping(task, relativePath, lineIndex);
-          }
-        }
-        taskIndex++;
+      const todoistId = TaskFormatter.extractTodoistId(line);
+      const task = todoistId ? tasksById.get(todoistId) : undefined;
+      if (task) {
+        await this.mappingManager.createMapping(task, relativePath, lineIndex);
       }
     }
   }
@@ -1028,32 +1791,30 @@ When you're ready to move something to Todoist, just copy it to one of the AUTO
    * Generate content for Inbox.md
    */
   private generateInboxContent(tasks: Task[]): string {
-    const timestamp = new Date().toISOString();
+    const vars = this.pageVariables('inbox', 'Inbox', tasks.length);
+    const template = this.templates?.forView('inbox');
 
-    let content = `# 📥 Inbox
+    let content = this.renderPageHeader('inbox', vars, `# 📥 Inbox
 
 *Tasks without a specific project*
 
-<!-- This file is automatically updated by the ADHD-Optimized Todoist Plugin -->
-<!-- Last sync: ${timestamp} -->
-
-`;
+`);
 
     if (tasks.length === 0) {
-      content += `## Tasks
+      content += template?.empty(vars) ?? `## Tasks
 *No tasks in inbox* ✨
 
 Great job keeping your inbox clean! 🎉
 `;
     } else {
-      content += `## Tasks (${tasks.length})\n\n`;
+      content += template?.section({ section: 'Tasks', count: tasks.length }) ?? `## Tasks (${tasks.length})\n\n`;
 
       // Build task tree to handle subtasks properly
       const taskTrees = buildTaskTree(tasks);
       const sortedTrees = this.sortTaskTrees(taskTrees);
 
       for (const taskTree of sortedTrees) {
-        content += this.formatTaskTreeAsMarkdown(taskTree);
+        content += this.formatTaskTreeAsMarkdown(taskTree, '', template);
       }
     }
 
@@ -1064,26 +1825,27 @@ Great job keeping your inbox clean! 🎉
    * Generate content for Today.md
    */
   private generateTodayContent(tasks: Task[]): string {
-    const timestamp = new Date().toISOString();
     const today = new Date().toLocaleDateString();
+    const vars = this.pageVariables('today', 'Today', tasks.length);
+    const template = this.templates?.forView('today');
 
-    let content = `# 📅 Today - ${today}
+    let content = this.renderPageHeader('today', vars, `# 📅 Today - ${today}
 
 *Tasks due today*
 
-<!-- This file is automatically updated by the ADHD-Optimized Todoist Plugin -->
-<!-- Last sync: ${timestamp} -->
-
-`;
+`);
 
     if (tasks.length === 0) {
-      content += `## Tasks
+      content += template?.empty(vars) ?? `## Tasks
 *No tasks due today* ✨
 
 Enjoy your free day or tackle some upcoming tasks! 🌟
 `;
     } else {
-      content += `## Tasks (${tasks.length})\n\n`;
+      // With a section template, each priority group is a section of its own
+      if (!template?.hasSections) {
+        content += `## Tasks (${tasks.length})\n\n`;
+      }
 
       // Build task tree and group by priority for ADHD focus
       const taskTrees = buildTaskTree(tasks);
@@ -1091,10 +1853,12 @@ Enjoy your free day or tackle some upcoming tasks! 🌟
 
       for (const [priority, priorityTrees] of Object.entries(priorityGroups)) {
         if (priorityTrees.length > 0) {
-          content += `### ${this.getPriorityEmoji(Number(priority))} ${this.getPriorityName(Number(priority))}\n\n`;
+          const name = this.getPriorityName(Number(priority));
+          content += template?.section({ section: name, count: priorityTrees.length })
+            ?? `### ${this.getPriorityEmoji(Number(priority))} ${name}\n\n`;
 
           for (const taskTree of priorityTrees) {
-            content += this.formatTaskTreeAsMarkdown(taskTree);
+            content += this.formatTaskTreeAsMarkdown(taskTree, '', template);
           }
           content += '\n';
         }
@@ -1108,34 +1872,35 @@ Enjoy your free day or tackle some upcoming tasks! 🌟
    * Generate content for Upcoming.md
    */
   private generateUpcomingContent(tasks: Task[]): string {
-    const timestamp = new Date().toISOString();
+    const vars = this.pageVariables('upcoming', 'Upcoming', tasks.length);
+    const template = this.templates?.forView('upcoming');
 
-    let content = `# 📆 Upcoming
+    let content = this.renderPageHeader('upcoming', vars, `# 📆 Upcoming
 
 *Tasks due in the next 7 days*
 
-<!-- This file is automatically updated by the ADHD-Optimized Todoist Plugin -->
-<!-- Last sync: ${timestamp} -->
-
-`;
+`);
 
     if (tasks.length === 0) {
-      content += `## Tasks
+      content += template?.empty(vars) ?? `## Tasks
 *No upcoming tasks* ✨
 
 Your schedule looks clear ahead! 🎯
 `;
     } else {
-      content += `## Tasks (${tasks.length})\n\n`;
+      // With a section template, each date is a section of its own
+      if (!template?.hasSections) {
+        content += `## Tasks (${tasks.length})\n\n`;
+      }
 
       // Group by due date
       const dateGroups = this.groupTasksByDate(tasks);
 
       for (const [date, dateTasks] of Object.entries(dateGroups)) {
-        content += `### 📅 ${date}\n\n`;
+        content += template?.section({ section: date, count: dateTasks.length }) ?? `### 📅 ${date}\n\n`;
 
         for (const task of dateTasks) {
-          content += this.formatTaskAsMarkdown(task);
+          content += this.formatTaskAsMarkdown(task, '', template);
         }
         content += '\n';
       }
@@ -1148,17 +1913,15 @@ Your schedule looks clear ahead! 🎯
    * Generate content for project files with hierarchy information
    */
   private generateProjectContent(projectName: string, tasks: Task[]): string {
-    const timestamp = new Date().toISOString();
     const project = this.getProjectByName(projectName);
+    const vars = this.pageVariables('project', projectName, tasks.length);
+    const template = this.templates?.forView('project');
 
-    let content = `# 🗂️ ${projectName}
+    let content = this.renderPageHeader('project', vars, `# 🗂️ ${projectName}
 
 *Project tasks organized by sections*
 
-<!-- This file is automatically updated by the ADHD-Optimized Todoist Plugin -->
-<!-- Last sync: ${timestamp} -->
-
-`;
+`);
 
     // Add hierarchy information
     if (project) {
@@ -1181,7 +1944,7 @@ Your schedule looks clear ahead! 🎯
     }
 
     if (tasks.length === 0) {
-      content += `## Tasks
+      content += template?.empty(vars) ?? `## Tasks
 *No tasks in this project* ✨
 
 Ready for new tasks! 🚀
@@ -1192,10 +1955,11 @@ Ready for new tasks! 🚀
 
       // Show tasks without sections first
       if (sectionGroups['No Section'] && sectionGroups['No Section'].length > 0) {
-        content += `## 📋 Tasks (${sectionGroups['No Section'].length})\n\n`;
+        const count = sectionGroups['No Section'].length;
+        content += template?.section({ section: 'Tasks', count }) ?? `## 📋 Tasks (${count})\n\n`;
 
         for (const task of sectionGroups['No Section']) {
-          content += this.formatTaskAsMarkdown(task);
+          content += this.formatTaskAsMarkdown(task, '', template);
         }
         content += '\n';
       }
@@ -1203,10 +1967,11 @@ Ready for new tasks! 🚀
       // Show sectioned tasks
       for (const [sectionName, sectionTasks] of Object.entries(sectionGroups)) {
         if (sectionName !== 'No Section' && sectionTasks.length > 0) {
-          content += `## 📂 ${sectionName} (${sectionTasks.length})\n\n`;
+          content += template?.section({ section: sectionName, count: sectionTasks.length })
+            ?? `## 📂 ${sectionName} (${sectionTasks.length})\n\n`;
 
           for (const task of sectionTasks) {
-            content += this.formatTaskAsMarkdown(task);
+            content += this.formatTaskAsMarkdown(task, '', template);
           }
           content += '\n';
         }
@@ -1220,33 +1985,35 @@ Ready for new tasks! 🚀
    * Generate content for label files
    */
   private generateLabelContent(labelName: string, tasks: Task[]): string {
-    const timestamp = new Date().toISOString();
+    const vars = this.pageVariables('label', labelName, tasks.length);
+    const template = this.templates?.forView('label');
 
-    let content = `# 🏷️ ${labelName}
+    let content = this.renderPageHeader('label', vars, `# 🏷️ ${labelName}
 
 *Tasks with the "${labelName}" label*
 
-<!-- This file is automatically updated by the ADHD-Optimized Todoist Plugin -->
-<!-- Last sync: ${timestamp} -->
-
-`;
+`);
 
     if (tasks.length === 0) {
-      content += `## Tasks
+      content += template?.empty(vars) ?? `## Tasks
 *No tasks with this label* ✨
 `;
     } else {
-      content += `## Tasks (${tasks.length})\n\n`;
+      // With a section template, each project is a section of its own
+      if (!template?.hasSections) {
+        content += `## Tasks (${tasks.length})\n\n`;
+      }
 
       // Group by project for context
       const projectGroups = this.groupTasksByProject(tasks);
 
       for (const [projectName, projectTasks] of Object.entries(projectGroups)) {
         if (projectTasks.length > 0) {
-          content += `### 🗂️ ${projectName}\n\n`;
+          content += template?.section({ section: projectName, count: projectTasks.length })
+            ?? `### 🗂️ ${projectName}\n\n`;
 
           for (const task of projectTasks) {
-            content += this.formatTaskAsMarkdown(task);
+            content += this.formatTaskAsMarkdown(task, '', template);
           }
           content += '\n';
         }
@@ -1256,6 +2023,50 @@ Ready for new tasks! 🚀
     return content;
   }
 
+  /**
+   * Placeholder values for the page templates
+   */
+  private pageVariables(view: TemplateView, title: string, count: number): PageVariables {
+    const now = new Date();
+    return { title, view, count, date: this.formatDate(now), timestamp: now.toISOString() };
+  }
+
+  /**
+   * A date as YYYY-MM-DD in local time
+   */
+  private formatDate(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+
+  /**
+   * Frontmatter and header of a generated page from the templates, or the built-in header
+   */
+  private renderPageHeader(view: TemplateView, vars: PageVariables, builtInHeader: string): string {
+    const template = this.templates?.forView(view);
+    const frontmatter = template?.frontmatter(vars) ?? '';
+    const header = template?.header(vars) ?? builtInHeader;
+
+    return `${frontmatter}${header}<!-- This file is automatically updated by the ADHD-Optimized Todoist Plugin -->
+<!-- Last sync: ${vars.timestamp} -->
+
+`;
+  }
+
+  /**
+   * Read the page templates file from the settings, if one is set
+   */
+  private async loadTemplates(): Promise<TaskTemplates | null> {
+    const path = useSettingsStore.getState().syncTemplateFile.trim();
+    if (!path) return null;
+
+    const file = this.plugin.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      throw new TemplateError(path, ['the file does not exist']);
+    }
+
+    return TaskTemplates.parse(path, await this.plugin.app.vault.read(file));
+  }
+
   /**
    * Generate content for sync status file
    */
@@ -1309,53 +2120,50 @@ Ready for new tasks! 🚀
    * Format a task as markdown checkbox with ADHD-friendly styling and mapping metadata
    * Handles both parent tasks and subtasks with proper indentation
    */
-  private formatTaskAsMarkdown(task: Task, indent: string = ''): string {
-    return TaskFormatter.formatTaskAsMarkdown(task, true);
+  private formatTaskAsMarkdown(task: Task, indent: string = '', template?: ViewTemplate): string {
+    return template?.task(task, indent) ?? TaskFormatter.formatTaskAsMarkdown(task, true);
   }
 
   /**
    * Format a task tree (parent + children) with proper hierarchical indentation
    */
-  private formatTaskTreeAsMarkdown(taskTree: TaskTree, indent: string = ''): string {
+  private formatTaskTreeAsMarkdown(taskTree: TaskTree, indent: string = '', template?: ViewTemplate): string {
     let result = '';
 
     // Format the parent task
-    result += this.formatTaskAsMarkdown(taskTree, indent);
+    result += this.formatTaskAsMarkdown(taskTree, indent, template);
 
     // Format children with increased indentation
     if (taskTree.children && taskTree.children.length > 0) {
       const childIndent = indent + '  '; // Add 2 spaces for each level
 
       for (const child of taskTree.children) {
-        // Format child as subtask with indentation
-        result += `${childIndent}- [ ] ${child.content}`;
-
-        // Add priority indicator for child
-        if (child.priority > 1) {
-          result += ` ${this.getPriorityEmoji(child.priority)}`;
+        // Subtasks use the task template too, with their grandchildren below them
+        const templated = template?.task(child, childIndent);
+        if (templated) {
+          result += templated;
+          for (const grandchild of child.children) {
+            result += this.formatTaskTreeAsMarkdown(grandchild, `${childIndent}  `, template);
+          }
+          continue;
         }
 
-        // Add due date for child
-        if (child.due) {
-          const dueDate = new Date(child.due.date);
-          const isOverdue = dueDate < new Date();
-          const dateStr = dueDate.toLocaleDateString();
+        // Format child as subtask with indentation, with its priority, due date and labels in
+        // the configured line format. Other formats keep their fields at the end of the line.
+        const format = TaskFormatter.lineFormat;
+        const fields = TaskFormatter.formatTaskFields(child, format);
+        const metadata = `<!-- todoist:${child.id} -->`;
+        const parts = format === 'default'
+          ? [fields.priority, fields.due, fields.labels, metadata]
+          : [fields.time, metadata, fields.labels, fields.priority, fields.due];
 
-          if (isOverdue) {
-            result += ` 🔴 **OVERDUE: ${dateStr}**`;
-          } else {
-            result += ` 📅 ${dateStr}`;
+        result += `${childIndent}- [ ] ${child.content}`;
+        for (const part of parts) {
+          if (part) {
+            result += ` ${part}`;
           }
         }
-
-        // Add labels for child
-        if (child.labels.length > 0) {
-          const labelStr = child.labels.map(l => `#${l.name}`).join(' ');
-          result += ` ${labelStr}`;
-        }
-
-        // Add hidden metadata for child
-        result += ` <!-- todoist:${child.id} -->\n`;
+        result += '\n';
 
         // Add child description with deeper indentation
         if (child.description && child.description.trim()) {
@@ -1367,7 +2175,7 @@ Ready for new tasks! 🚀
 
         // Recursively format grandchildren
         if (child.children && child.children.length > 0) {
-          result += this.formatTaskTreeAsMarkdown(child, childIndent);
+          result += this.formatTaskTreeAsMarkdown(child, childIndent, template);
         }
       }
     }
@@ -1545,6 +2353,98 @@ Ready for new tasks! 🚀
     }
   }
 
+  /**
+   * Work out what a sync would do without changing files or Todoist, from the task lines of the
+   * synced files (or just the given ones), see SafeSyncStrategy.previewSync
+   */
+  private async planSync(
+    direction: SyncRun['direction'],
+    onlyFiles?: string[],
+    prefetchedTasks?: Task[]
+  ): Promise<{ plan: SyncJournalOperation[]; errors: string[] }> {
+    try {
+      if (!this.plugin.services.todoist.isReady()) {
+        throw new Error('Todoist service not ready. Please check your API token.');
+      }
+
+      // Pushes can be planned against the last known tasks while offline, like they are queued
+      const todoistTasks = prefetchedTasks ?? await this.fetchAllTasks(direction === 'push');
+      const files = (await this.getAllMarkdownFiles()).filter(file => !onlyFiles || onlyFiles.includes(file.path));
+
+      const lines: PlannedLine[] = [];
+      for (const file of files) {
+        const fileLines = await this.readFileLines(file.path);
+        fileLines.forEach((line, lineNumber) => {
+          const parsed = TaskFormatter.parseTaskLine(line);
+          if (parsed) {
+            const hash = TaskFormatter.extractTodoistMetadata(line)?.hash ?? null;
+            lines.push({ ...parsed, filePath: file.path, lineNumber, hash });
+          }
+        });
+      }
+
+      return { plan: this.safeSyncStrategy.previewSync(direction, lines, todoistTasks), errors: [] };
+    } catch (error) {
+      return { plan: [], errors: [error instanceof Error ? error.message : String(error)] };
+    }
+  }
+
+  /**
+   * Start a journal entry, unless this is part of a run already in progress
+   */
+  private beginRun(direction: SyncRun['direction'], trigger: SyncTrigger = 'command'): SyncRun | null {
+    if (this.run) return null;
+    this.run = this.journal.begin(trigger, direction);
+    return this.run;
+  }
+
+  /**
+   * Save a journal entry started by `beginRun`. Runs that changed nothing aren't kept.
+   */
+  private async finishRun(run: SyncRun | null, errors: string[]): Promise<void> {
+    if (!run) return;
+    this.run = null;
+
+    run.errors.push(...errors);
+    if (run.operations.length > 0 || run.errors.length > 0) {
+      await this.journal.finish(run);
+    }
+  }
+
+  private recordOperation(operation: SyncJournalOperation): void {
+    this.run?.operations.push(operation);
+  }
+
+  private recordCommand(command: PendingCommand, outcome: SyncJournalOperation['outcome'], error?: string): void {
+    for (const change of command.changes) {
+      this.recordOperation({
+        ...this.describeChange(change),
+        action: command.kind,
+        outcome,
+        todoistId: command.kind === 'create' ? change.todoistId ?? undefined : command.todoistId,
+        fields: command.kind === 'update' ? change.changedFields : undefined,
+        error
+      });
+    }
+  }
+
+  private describeChange(change: ObsidianTaskChange): Pick<SyncJournalOperation, 'todoistId' | 'content' | 'file' | 'line'> {
+    return {
+      todoistId: change.todoistId ?? undefined,
+      content: change.content,
+      file: change.filePath,
+      line: change.lineNumber + 1
+    };
+  }
+
+  /**
+   * Record a finished sync for the status bar
+   */
+  private markSynced(time: Date, error?: string): void {
+    this.lastSyncTime = time;
+    useSyncStatusStore.setState({ lastSyncAt: time, lastError: error ?? null });
+  }
+
   /**
    * Get last sync time for external access
    */
@@ -1,6 +1,11 @@
-import type TodoistPlugin from '@/index';
+import type { Duration } from '@/api/domain/task';
 import type { Task } from '@/data/task';
+import type TodoistPlugin from '@/index';
+import { ClosedTasks } from './ClosedTasks';
+import { ConflictResolver, type SnapshotLookup, type TaskConflict } from './ConflictResolver';
+import { DurationParser } from './DurationParser';
 import { TaskFormatter } from './TaskFormatter';
+import { TaskHash } from './TaskHash';
 
 /**
  * Manages incremental sync by tracking task changes through hashes
@@ -78,8 +83,9 @@ export class IncrementalSyncManager {
         const lines = content.split('\n');
 
         for (const line of lines) {
+          // Lines of closed tasks kept by the closed task policy aren't synced any more
           const metadata = TaskFormatter.extractTodoistMetadata(line);
-          if (metadata) {
+          if (metadata && !ClosedTasks.isKept(line)) {
             taskHashes.set(metadata.id, metadata.hash);
           }
         }
@@ -213,21 +219,28 @@ export class IncrementalSyncManager {
 
   /**
    * Identify Obsidian tasks that have changed and need to sync back to Todoist
+   *
+   * When Todoist changed a task too, its line is merged field by field with the snapshot
+   * taken when the line was written. Lines without a snapshot are left for the next
+   * Todoist → Obsidian sync to refresh.
    */
   async identifyObsidianChanges(
     todoistTasks: Task[],
-    markdownFiles: string[]
+    markdownFiles: string[],
+    merge?: { snapshots: SnapshotLookup; lastSyncTime: Date }
   ): Promise<{
     completedTasks: ObsidianTaskChange[];
     modifiedTasks: ObsidianTaskChange[];
     newTasks: ObsidianTaskChange[];
     unchangedTasks: string[];
+    conflicts: ConflictedTask[];
   }> {
     const result = {
       completedTasks: [] as ObsidianTaskChange[],
       modifiedTasks: [] as ObsidianTaskChange[],
       newTasks: [] as ObsidianTaskChange[],
-      unchangedTasks: [] as string[]
+      unchangedTasks: [] as string[],
+      conflicts: [] as ConflictedTask[]
     };
 
     // Create a map of Todoist tasks for quick lookup
@@ -258,20 +271,48 @@ export class IncrementalSyncManager {
           }
 
           // Check for content changes by comparing with expected hash
-          if (obsidianTask.storedHash) {
-            const currentTodoistHash = TaskFormatter.calculateTaskHash(todoistTask);
-
-            if (obsidianTask.storedHash !== currentTodoistHash) {
-              // Hash mismatch - either Todoist changed or Obsidian changed
-              // Need to determine which one changed by comparing content
-              if (this.hasObsidianTaskChanged(obsidianTask, todoistTask)) {
-                result.modifiedTasks.push(obsidianTask);
-              } else {
-                // Todoist changed, Obsidian didn't - mark as unchanged for this direction
-                result.unchangedTasks.push(obsidianTask.todoistId);
-              }
+          const currentTodoistHash = TaskFormatter.calculateTaskHash(todoistTask);
+
+          if (obsidianTask.storedHash && (
+            obsidianTask.storedHash === currentTodoistHash ||
+            !this.changedOnLine(obsidianTask.storedHash, todoistTask)
+          )) {
+            // Todoist hasn't changed the fields on this line since it was written, so any
+            // difference between the line and the Todoist task was made in Obsidian
+            const changedFields = this.getChangedFields(obsidianTask, todoistTask);
+            if (changedFields.length > 0) {
+              obsidianTask.changedFields = changedFields;
+              result.modifiedTasks.push(obsidianTask);
+            } else {
+              result.unchangedTasks.push(obsidianTask.todoistId);
+            }
+          } else {
+            const snapshot = merge?.snapshots(obsidianTask.todoistId, obsidianTask.storedHash);
+            if (!snapshot || !merge) {
+              // Todoist changed (or the line has no hash) - the next Todoist → Obsidian
+              // sync refreshes this line, so there is nothing to push
+              result.unchangedTasks.push(obsidianTask.todoistId);
+              continue;
+            }
+
+            // Both sides may have changed - fields changed in Obsidian only are pushed,
+            // fields changed on both sides are conflicts for the user to resolve
+            const fields = ConflictResolver.mergeFields(
+              snapshot,
+              ConflictResolver.snapshotLine(obsidianTask, snapshot),
+              ConflictResolver.snapshotTask(todoistTask)
+            );
+            obsidianTask.changedFields = fields.obsidianFields;
+            obsidianTask.todoistFields = fields.todoistFields;
+
+            if (fields.conflicts.length > 0) {
+              result.conflicts.push({
+                change: obsidianTask,
+                conflict: ConflictResolver.createConflict(obsidianTask, todoistTask, fields.conflicts, merge.lastSyncTime)
+              });
+            } else if (fields.obsidianFields.length > 0) {
+              result.modifiedTasks.push(obsidianTask);
             } else {
-              // Hashes match - no changes
               result.unchangedTasks.push(obsidianTask.todoistId);
             }
           }
@@ -284,6 +325,17 @@ export class IncrementalSyncManager {
     return result;
   }
 
+  /**
+   * Whether Todoist changed fields shown on a task line since its hash was written. Changes
+   * to the description, project or section leave the line as it was.
+   */
+  private changedOnLine(storedHash: string, todoistTask: Task): boolean {
+    const changed = TaskHash.changedFields(storedHash, todoistTask);
+    if (!changed) return true;
+
+    return changed.some(field => (LINE_FIELDS as readonly string[]).includes(field));
+  }
+
   /**
    * Extract Obsidian tasks from a markdown file with their metadata
    */
@@ -301,13 +353,17 @@ export class IncrementalSyncManager {
         const metadata = TaskFormatter.extractTodoistMetadata(line);
 
         tasks.push({
-          todoistId: metadata?.id || null,
+          todoistId: parsed.todoistId,
           storedHash: metadata?.hash || null,
           content: parsed.content,
           completed: parsed.completed,
           priority: parsed.priority,
           dueDate: parsed.dueDate,
           labels: parsed.labels,
+          duration: parsed.duration,
+          recurring: parsed.recurring,
+          changedFields: [],
+          todoistFields: [],
           filePath,
           lineNumber,
           originalLine: line
@@ -319,38 +375,43 @@ export class IncrementalSyncManager {
   }
 
   /**
-   * Check if an Obsidian task has been modified compared to its Todoist counterpart
+   * List the fields where an Obsidian task differs from its Todoist counterpart.
+   * The Todoist task is rendered and parsed the same way as the line, so formatting
+   * differences (overdue markers, hidden P4 priority, label order) don't count as edits.
    */
-  private hasObsidianTaskChanged(obsidianTask: ObsidianTaskChange, todoistTask: Task): boolean {
-    // Compare key fields to see if Obsidian version differs from Todoist
-
-    // Content comparison (normalize whitespace and remove metadata)
-    const obsidianContent = obsidianTask.content.trim();
-    const todoistContent = todoistTask.content.trim();
-    if (obsidianContent !== todoistContent) {
-      return true;
+  private getChangedFields(obsidianTask: ObsidianTaskChange, todoistTask: Task): ObsidianTaskField[] {
+    const renderedLine = TaskFormatter.formatTaskAsMarkdown(todoistTask, false).split('\n')[0];
+    const expected = TaskFormatter.parseTaskLine(renderedLine);
+    const changed: ObsidianTaskField[] = [];
+
+    if (obsidianTask.content.trim() !== (expected?.content ?? todoistTask.content).trim()) {
+      changed.push('content');
+    }
+
+    // A missing priority emoji means "preserve the Todoist priority"
+    if (obsidianTask.priority !== null && obsidianTask.priority !== todoistTask.priority) {
+      changed.push('priority');
     }
 
-    // Priority comparison
-    if (obsidianTask.priority !== todoistTask.priority) {
-      return true;
+    if (obsidianTask.dueDate !== (expected?.dueDate ?? null)) {
+      changed.push('due');
     }
 
-    // Due date comparison
-    const obsidianDue = obsidianTask.dueDate ? new Date(obsidianTask.dueDate).toDateString() : null;
-    const todoistDue = todoistTask.due ? new Date(todoistTask.due.date).toDateString() : null;
-    if (obsidianDue !== todoistDue) {
-      return true;
+    if (!DurationParser.durationsEqual(obsidianTask.duration, expected?.duration ?? null)) {
+      changed.push('duration');
     }
 
-    // Labels comparison
-    const obsidianLabels = obsidianTask.labels.sort();
-    const todoistLabels = todoistTask.labels.map(l => l.name).sort();
+    if (obsidianTask.recurring !== (expected?.recurring ?? null)) {
+      changed.push('recurring');
+    }
+
+    const obsidianLabels = [...obsidianTask.labels].sort();
+    const todoistLabels = [...(expected?.labels ?? [])].sort();
     if (JSON.stringify(obsidianLabels) !== JSON.stringify(todoistLabels)) {
-      return true;
+      changed.push('labels');
     }
 
-    return false;
+    return changed;
   }
 
   /**
@@ -417,10 +478,29 @@ export interface ObsidianTaskChange {
   storedHash: string | null;
   content: string;
   completed: boolean;
-  priority: number;
+  priority: number | null; // null means "preserve original priority"
   dueDate: string | null;
   labels: string[];
+  duration: Duration | null;
+  recurring: string | null;
+  changedFields: ObsidianTaskField[]; // Fields edited in Obsidian (modified tasks only)
+  todoistFields: ObsidianTaskField[]; // Fields Todoist changed since the line was written
   filePath: string;
   lineNumber: number;
   originalLine: string;
 }
+
+/**
+ * A line whose fields were changed on both sides since it was last synced
+ */
+export interface ConflictedTask {
+  change: ObsidianTaskChange;
+  conflict: TaskConflict;
+}
+
+/**
+ * Task fields written on a task line, which can be edited in Obsidian and pushed back to Todoist
+ */
+const LINE_FIELDS = ['content', 'priority', 'due', 'duration', 'recurring', 'labels'] as const;
+
+export type ObsidianTaskField = typeof LINE_FIELDS[number];
@@ -0,0 +1,27 @@
+import type { TFile, Vault } from "obsidian";
+
+const contents = new Map<string, string>();
+
+/**
+ * Modify a file, recording the content as written by the plugin
+ */
+async function modify(vault: Vault, file: TFile, content: string): Promise<void> {
+  contents.set(file.path, content);
+  await vault.modify(file, content);
+}
+
+/**
+ * Whether a file still holds exactly what the plugin last wrote to it
+ */
+function isOwn(path: string, content: string): boolean {
+  return contents.get(path) === content;
+}
+
+/**
+ * OwnWrites - Remembers what the plugin last wrote to each synced file, so the vault watcher
+ * can tell the plugin's own writes from edits made by the user
+ */
+export const OwnWrites = {
+  modify,
+  isOwn,
+};
@@ -31,6 +31,12 @@ export class RecurringTaskParser {
     // 🔄 followed by any Todoist pattern: "🔄 every day", "🔄 every saturday", etc.
     withEmoji: /🔄\s+(.+?)(?=\s+(?:🔴|🟡|🔵|⚪|📅|#|⏱️)|$)/i,
 
+    // Obsidian Tasks plugin format: "🔁 every day", followed by other Tasks fields
+    tasksEmoji: /🔁\s+(.+?)(?=\s+(?:⏫|🔼|🔽|🔺|⏬|📅|⏳|🛫|✅|➕|#|⏱️|<!--)|\s*$)/i,
+
+    // Dataview inline field: "[repeat:: every day]"
+    inlineField: /\[repeat::\s*([^\]]+)\]/i,
+
     // Fallback: Todoist patterns without emoji (for compatibility)
     withoutEmoji: /\b(every\s+(?:\d+\s+)?(?:day|days|week|weeks|month|months|year|years|monday|tuesday|wednesday|thursday|friday|saturday|sunday|weekday|weekend)(?:\s+at\s+\d{1,2}(?::\d{2})?(?:am|pm)?)?)\b/i
   };
@@ -42,23 +48,34 @@ export class RecurringTaskParser {
    * - "🔄 every day" -> Todoist pattern "every day"
    * - "🔄 every saturday" -> Todoist pattern "every saturday"
    * - "🔄 every 2 weeks" -> Todoist pattern "every 2 weeks"
+   * - "🔁 every day" (Tasks plugin) and "[repeat:: every day]" (Dataview) -> "every day"
    *
    * @param markdownLine The markdown task line to parse
    * @returns RecurringInfo if recurring pattern found, null otherwise
    */
   static parseRecurring(markdownLine: string): RecurringInfo | null {
-    // Try emoji-based patterns first (preferred for ADHD visual clarity)
-    let match = markdownLine.match(this.RECURRING_PATTERNS.withEmoji);
-    if (match) {
-      const todoistPattern = match[1].trim();
-      return {
-        todoistPattern,
-        originalText: match[0]
-      };
+    // Try emoji-based patterns first (preferred for ADHD visual clarity), then the
+    // Tasks plugin and Dataview formats
+    const explicitPatterns = [
+      RecurringTaskParser.RECURRING_PATTERNS.withEmoji,
+      RecurringTaskParser.RECURRING_PATTERNS.tasksEmoji,
+      RecurringTaskParser.RECURRING_PATTERNS.inlineField,
+    ];
+
+    let match: RegExpMatchArray | null = null;
+    for (const pattern of explicitPatterns) {
+      match = markdownLine.match(pattern);
+      if (match) {
+        const todoistPattern = match[1].trim();
+        return {
+          todoistPattern,
+          originalText: match[0]
+        };
+      }
     }
 
     // Fallback to text-only patterns (for compatibility)
-    match = markdownLine.match(this.RECURRING_PATTERNS.withoutEmoji);
+    match = markdownLine.match(RecurringTaskParser.RECURRING_PATTERNS.withoutEmoji);
     if (match) {
       const todoistPattern = match[1].trim();
       return {
@@ -90,8 +107,10 @@ export class RecurringTaskParser {
     let cleaned = markdownLine;
 
     // Remove recurring patterns
-    cleaned = cleaned.replace(this.RECURRING_PATTERNS.withEmoji, '');
-    cleaned = cleaned.replace(this.RECURRING_PATTERNS.withoutEmoji, '');
+    cleaned = cleaned.replace(RecurringTaskParser.RECURRING_PATTERNS.withEmoji, '');
+    cleaned = cleaned.replace(RecurringTaskParser.RECURRING_PATTERNS.tasksEmoji, '');
+    cleaned = cleaned.replace(RecurringTaskParser.RECURRING_PATTERNS.inlineField, '');
+    cleaned = cleaned.replace(RecurringTaskParser.RECURRING_PATTERNS.withoutEmoji, '');
 
     // Clean up extra whitespace
     return cleaned.replace(/\s+/g, ' ').trim();
@@ -1,6 +1,7 @@
 import type TodoistPlugin from '@/index';
 import type { Task } from '@/data/task';
-import type { ParsedTask } from './TaskFormatter';
+import type { SyncJournalOperation, SyncRun } from './SyncJournal';
+import { type ParsedTask, TaskFormatter } from './TaskFormatter';
 import { TodoistBackupManager } from '../backup/TodoistBackupManager';
 
 /**
@@ -75,6 +76,75 @@ export class SafeSyncStrategy {
     }
   }
 
+  /**
+   * Work out what a sync would do without changing files or Todoist, for sync previews.
+   * Pushes send the safe operations of `createSafeSyncPlan`, create tasks for lines without a
+   * Todoist ID and hold back edits of tasks changed in Todoist too. Pulls add, change and remove
+   * the lines of tasks changed in Todoist and rewrite their files.
+   */
+  previewSync(direction: SyncRun['direction'], lines: PlannedLine[], todoistTasks: Task[]): SyncJournalOperation[] {
+    const todoistMap = new Map(todoistTasks.map(t => [t.id, t]));
+    const describe = (line: PlannedLine): Pick<SyncJournalOperation, 'todoistId' | 'content' | 'file' | 'line'> => ({
+      todoistId: line.todoistId ?? undefined,
+      content: line.content,
+      file: line.filePath,
+      line: line.lineNumber + 1
+    });
+    // Whether the task changed in Todoist since the line was written
+    const changedInTodoist = (line: PlannedLine, task: Task) =>
+      line.hash !== null && TaskFormatter.hasTaskChanged(task, line.hash);
+
+    if (direction === 'pull') {
+      const plan: SyncJournalOperation[] = [];
+      const files = new Set<string>();
+      const linedIds = new Set(lines.map(line => line.todoistId));
+
+      for (const line of lines) {
+        if (!line.todoistId) continue;
+        const task = todoistMap.get(line.todoistId);
+        if (task && !changedInTodoist(line, task)) continue;
+
+        plan.push({ ...describe(line), action: task ? 'change' : 'remove', outcome: 'planned' });
+        files.add(line.filePath);
+      }
+      for (const task of todoistTasks) {
+        if (!linedIds.has(task.id)) {
+          plan.push({ action: 'add', outcome: 'planned', todoistId: task.id, content: task.content });
+        }
+      }
+      for (const file of files) {
+        plan.push({ action: 'write', outcome: 'planned', file });
+      }
+      return plan;
+    }
+
+    const plan: SyncJournalOperation[] = [];
+    const fields = new Map<PlannedLine, string[]>();
+    const lineOf = new Map<ParsedTask, PlannedLine>(lines.map(line => [line, line]));
+
+    for (const operation of this.createSafeSyncPlan(lines, todoistTasks)) {
+      const line = lineOf.get(operation.obsidianData);
+      if (!line) continue;
+
+      if (operation.type === 'complete') {
+        plan.push({ ...describe(line), action: 'complete', outcome: 'planned' });
+      } else {
+        fields.set(line, [...(fields.get(line) ?? []), SAFE_UPDATE_FIELDS[operation.type]]);
+      }
+    }
+    for (const [line, changed] of fields) {
+      const task = line.todoistId ? todoistMap.get(line.todoistId) : undefined;
+      const action = task && changedInTodoist(line, task) ? 'conflict' : 'update';
+      plan.push({ ...describe(line), action, outcome: 'planned', fields: changed });
+    }
+    for (const line of lines) {
+      if (!line.todoistId && !line.completed) {
+        plan.push({ ...describe(line), action: 'create', outcome: 'planned' });
+      }
+    }
+    return plan;
+  }
+
   /**
    * Create a safe sync plan that only includes operations that preserve metadata
    */
@@ -126,7 +196,7 @@ export class SafeSyncStrategy {
     }
 
     // Safe operation 3: Priority update (only if higher priority)
-    if (obsidian.priority > todoist.priority) {
+    if (obsidian.priority !== null && obsidian.priority > todoist.priority) {
       operations.push({
         type: 'updatePriority',
         taskId: todoist.id,
@@ -201,23 +271,29 @@ export class SafeSyncStrategy {
         break;
 
       case 'updateContent':
-        // Note: This would require a new API method for updating task content
-        // For now, we log the intended change
-        console.log(`Would update content for ${operation.taskId}: "${operation.newValue}"`);
+        await this.plugin.services.todoist.actions.updateTask(operation.taskId, {
+          content: operation.newValue
+        });
         result.operations.contentUpdated++;
         break;
 
       case 'updatePriority':
-        // Note: This would require a new API method for updating priority
-        console.log(`Would update priority for ${operation.taskId}: ${operation.newValue}`);
+        await this.plugin.services.todoist.actions.updateTask(operation.taskId, {
+          priority: operation.newValue
+        });
         result.operations.priorityUpdated++;
         break;
 
-      case 'updateDueDate':
-        // Note: This would require a new API method for updating due date
-        console.log(`Would update due date for ${operation.taskId}: ${operation.newValue}`);
+      case 'updateDueDate': {
+        // Obsidian renders dates as M/D/YYYY, Todoist expects YYYY-MM-DD
+        const dueDate = TaskFormatter.toTodoistDate(operation.newValue);
+        if (!dueDate) {
+          throw new Error(`Unrecognized due date "${operation.newValue}"`);
+        }
+        await this.plugin.services.todoist.actions.updateTask(operation.taskId, { dueDate });
         result.operations.dueDateUpdated++;
         break;
+      }
 
       default:
         result.operations.skipped++;
@@ -296,6 +372,24 @@ export class SafeSyncStrategy {
   }
 }
 
+/**
+ * Task fields changed by the safe update operations
+ */
+const SAFE_UPDATE_FIELDS: Record<Exclude<SafeSyncOperation['type'], 'complete'>, string> = {
+  updateContent: 'content',
+  updatePriority: 'priority',
+  updateDueDate: 'due'
+};
+
+/**
+ * A task line read for a sync preview, with where it is and the hash of its metadata comment
+ */
+export interface PlannedLine extends ParsedTask {
+  filePath: string;
+  lineNumber: number; // Zero-based
+  hash: string | null;
+}
+
 /**
  * Safe sync operation definition
  */
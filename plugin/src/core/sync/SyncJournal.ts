@@ -0,0 +1,144 @@
+import type TodoistPlugin from "@/index";
+import { TFile } from "obsidian";
+import { SyncLayout } from "./SyncLayout";
+
+/**
+ * What started a sync run
+ */
+export type SyncTrigger =
+  | "command"
+  | "quick-sync"
+  | "smart-sync"
+  | "file-change"
+  | "schedule"
+  | "setup";
+
+/**
+ * One thing a sync run did to a task or file. Pushes create, update and complete tasks or skip
+ * conflicts; pulls add, change and remove task lines and write files.
+ */
+export interface SyncJournalOperation {
+  action: "create" | "update" | "complete" | "conflict" | "add" | "change" | "remove" | "write";
+  outcome: "done" | "queued" | "failed" | "skipped" | "planned";
+  todoistId?: string;
+  content?: string;
+  file?: string;
+  line?: number;
+  fields?: string[];
+  error?: string;
+}
+
+/**
+ * A sync run as kept in the journal
+ */
+export interface SyncRun {
+  id: string;
+  trigger: SyncTrigger;
+  direction: "pull" | "push";
+  startedAt: string;
+  durationMs: number;
+  operations: SyncJournalOperation[];
+  errors: string[];
+}
+
+/**
+ * SyncJournal - Keeps a structured record of what each sync run changed
+ *
+ * Runs live in a JSON file in the system folder, newest last, and only the most recent ones
+ * are kept.
+ */
+export class SyncJournal {
+  private static readonly MAX_RUNS = 100;
+
+  private plugin: TodoistPlugin;
+
+  constructor(plugin: TodoistPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Start recording a run. Operations are added to it as they happen, and `finish` saves it.
+   */
+  begin(trigger: SyncTrigger, direction: SyncRun["direction"]): SyncRun {
+    const startedAt = new Date().toISOString();
+    return {
+      id: `${Date.parse(startedAt)}-${direction}`,
+      trigger,
+      direction,
+      startedAt,
+      durationMs: 0,
+      operations: [],
+      errors: [],
+    };
+  }
+
+  /**
+   * Save a finished run
+   */
+  async finish(run: SyncRun): Promise<void> {
+    run.durationMs = Date.now() - Date.parse(run.startedAt);
+
+    const runs = await this.load();
+    runs.push(run);
+    await this.save(runs.slice(-SyncJournal.MAX_RUNS));
+  }
+
+  /**
+   * The most recent runs, newest first
+   */
+  async recent(limit = SyncJournal.MAX_RUNS): Promise<SyncRun[]> {
+    const runs = await this.load();
+    return runs.slice(-limit).reverse();
+  }
+
+  /**
+   * Runs that touched a task or file, with only the operations on it. Tasks are matched on
+   * their Todoist ID or content and files on their path, ignoring case.
+   */
+  static filter(runs: SyncRun[], query: string): SyncRun[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return runs;
+
+    const matches = (operation: SyncJournalOperation) =>
+      [operation.todoistId, operation.content, operation.file].some((value) =>
+        value?.toLowerCase().includes(needle),
+      );
+
+    return runs
+      .map((run) => ({ ...run, operations: run.operations.filter(matches) }))
+      .filter((run) => run.operations.length > 0);
+  }
+
+  private async load(): Promise<SyncRun[]> {
+    try {
+      const file = this.plugin.app.vault.getAbstractFileByPath(
+        SyncLayout.current().syncJournalPath,
+      );
+      if (!file || !(file instanceof TFile)) {
+        return [];
+      }
+
+      const data = JSON.parse(await this.plugin.app.vault.read(file));
+      return Array.isArray(data.runs) ? data.runs : [];
+    } catch (error) {
+      console.warn("Failed to load sync journal, starting fresh:", error);
+      return [];
+    }
+  }
+
+  private async save(runs: SyncRun[]): Promise<void> {
+    try {
+      const journalPath = SyncLayout.current().syncJournalPath;
+      const content = JSON.stringify({ version: "1.0", runs });
+
+      const file = this.plugin.app.vault.getAbstractFileByPath(journalPath);
+      if (file && file instanceof TFile) {
+        await this.plugin.app.vault.modify(file, content);
+      } else {
+        await this.plugin.app.vault.create(journalPath, content);
+      }
+    } catch (error) {
+      console.error("Failed to save sync journal:", error);
+    }
+  }
+}
@@ -0,0 +1,235 @@
+import { type SyncLayoutSettings, defaultSyncLayout, useSettingsStore } from "@/settings";
+
+const projectPlaceholder = "{{project}}";
+const labelPlaceholder = "{{label}}";
+
+/**
+ * A synced file that moves when the layout changes
+ */
+export interface LayoutMove {
+  from: string;
+  to: string;
+}
+
+/**
+ * Names of the Todoist data that has a file in the layout
+ */
+export interface LayoutEntries {
+  projects: { name: string; ancestors: string[]; hasSubprojects: boolean }[];
+  labels: string[];
+}
+
+/**
+ * SyncLayout - Resolves where synced files live in the vault
+ *
+ * All paths come from the sync layout settings, so the folder structure can follow the vault's
+ * own conventions. File templates are vault paths relative to the base folder, without `.md`.
+ */
+export class SyncLayout {
+  readonly settings: SyncLayoutSettings;
+
+  constructor(settings: Partial<SyncLayoutSettings> = {}) {
+    const merged = { ...defaultSyncLayout, ...settings };
+
+    this.settings = {
+      ...merged,
+      baseFolder: normalizePath(merged.baseFolder) || defaultSyncLayout.baseFolder,
+      inboxFile: normalizePath(merged.inboxFile) || defaultSyncLayout.inboxFile,
+      todayFile: normalizePath(merged.todayFile) || defaultSyncLayout.todayFile,
+      upcomingFile: normalizePath(merged.upcomingFile) || defaultSyncLayout.upcomingFile,
+      projectFile: withPlaceholder(merged.projectFile, projectPlaceholder),
+      labelFile: withPlaceholder(merged.labelFile, labelPlaceholder),
+      systemFolder: normalizePath(merged.systemFolder) || defaultSyncLayout.systemFolder,
+      localFolder: normalizePath(merged.localFolder) || defaultSyncLayout.localFolder,
+    };
+  }
+
+  /**
+   * The layout from the current settings
+   */
+  static current(): SyncLayout {
+    return new SyncLayout(useSettingsStore.getState().syncLayout);
+  }
+
+  get basePath(): string {
+    return this.settings.baseFolder;
+  }
+
+  get systemPath(): string {
+    return `${this.basePath}/${this.settings.systemFolder}`;
+  }
+
+  get localPath(): string {
+    return `${this.basePath}/${this.settings.localFolder}`;
+  }
+
+  get backupPath(): string {
+    return `${this.systemPath}/Backups`;
+  }
+
+  get mappingFilePath(): string {
+    return `${this.systemPath}/Task Mappings.json`;
+  }
+
+  get conflictLogPath(): string {
+    return `${this.systemPath}/Conflict Log.json`;
+  }
+
+  get syncJournalPath(): string {
+    return `${this.systemPath}/Sync Journal.json`;
+  }
+
+  get archivePath(): string {
+    return `${this.systemPath}/Completed Tasks.md`;
+  }
+
+  get syncStatusPath(): string {
+    return `${this.systemPath}/Sync Status.md`;
+  }
+
+  get specFilePath(): string {
+    return `${this.basePath}/TODOIST-SPEC.md`;
+  }
+
+  get inboxPath(): string {
+    return this.toAbsolute(`${this.settings.inboxFile}.md`);
+  }
+
+  get todayPath(): string {
+    return this.toAbsolute(`${this.settings.todayFile}.md`);
+  }
+
+  get upcomingPath(): string {
+    return this.toAbsolute(`${this.settings.upcomingFile}.md`);
+  }
+
+  /**
+   * Folders holding project and label files, created up front so users can find them
+   */
+  get folders(): string[] {
+    const folders = [this.systemPath, this.localPath];
+
+    const projectFolder = folderOf(this.settings.projectFile);
+    if (projectFolder) folders.unshift(this.toAbsolute(projectFolder));
+
+    const labelFolder = folderOf(this.settings.labelFile);
+    if (this.settings.labelFiles && labelFolder) folders.splice(1, 0, this.toAbsolute(labelFolder));
+
+    return folders;
+  }
+
+  /**
+   * Path of a project file. Names must already be safe to use in file names.
+   * With nested subprojects, a project lives in the folders of its ancestors, and a project
+   * with subprojects gets a folder of its own holding its file.
+   */
+  projectPath(name: string, ancestors: string[] = [], hasSubprojects = false): string {
+    let projectPath = name;
+    if (this.settings.nestSubprojects) {
+      const folders = hasSubprojects ? [...ancestors, name] : ancestors;
+      projectPath = [...folders, name].join("/");
+    }
+
+    return this.toAbsolute(
+      `${this.settings.projectFile.split(projectPlaceholder).join(projectPath)}.md`,
+    );
+  }
+
+  /**
+   * Path of a label file, or null when label files are turned off
+   */
+  labelPath(name: string): string | null {
+    if (!this.settings.labelFiles) return null;
+    return this.toAbsolute(`${this.settings.labelFile.split(labelPlaceholder).join(name)}.md`);
+  }
+
+  /**
+   * The (sanitized) label name a path belongs to, or null if it is not a label file
+   */
+  labelNameFromPath(path: string): string | null {
+    if (!this.settings.labelFiles) return null;
+
+    const [before, after] = this.settings.labelFile.split(labelPlaceholder);
+    const pattern = new RegExp(`^${escapeRegExp(before)}([^/]+)${escapeRegExp(after ?? "")}\\.md$`);
+    const match = pattern.exec(this.toRelative(path));
+    return match ? match[1] : null;
+  }
+
+  toRelative(path: string): string {
+    return path.startsWith(`${this.basePath}/`) ? path.slice(this.basePath.length + 1) : path;
+  }
+
+  toAbsolute(relativePath: string): string {
+    return `${this.basePath}/${relativePath}`;
+  }
+
+  /**
+   * Whether a file takes part in sync: everything in the base folder except plugin internals,
+   * the user's local workspace and the specification file
+   */
+  isSyncedFile(path: string): boolean {
+    if (!path.startsWith(`${this.basePath}/`)) return false;
+
+    return (
+      !path.startsWith(`${this.systemPath}/`) &&
+      !path.startsWith(`${this.localPath}/`) &&
+      path !== this.specFilePath
+    );
+  }
+
+  equals(other: SyncLayout): boolean {
+    return JSON.stringify(this.settings) === JSON.stringify(other.settings);
+  }
+
+  /**
+   * Files that have to move for existing files to follow the new layout.
+   * Folders that only changed location (system, local) move as a whole.
+   */
+  planMoves(next: SyncLayout, entries: LayoutEntries): LayoutMove[] {
+    const moves: LayoutMove[] = [
+      { from: this.systemPath, to: next.systemPath },
+      { from: this.localPath, to: next.localPath },
+      { from: this.specFilePath, to: next.specFilePath },
+      { from: this.inboxPath, to: next.inboxPath },
+      { from: this.todayPath, to: next.todayPath },
+      { from: this.upcomingPath, to: next.upcomingPath },
+    ];
+
+    for (const project of entries.projects) {
+      moves.push({
+        from: this.projectPath(project.name, project.ancestors, project.hasSubprojects),
+        to: next.projectPath(project.name, project.ancestors, project.hasSubprojects),
+      });
+    }
+
+    for (const label of entries.labels) {
+      const from = this.labelPath(label);
+      const to = next.labelPath(label);
+      // Label files stay where they are when they are turned off
+      if (from && to) moves.push({ from, to });
+    }
+
+    return moves.filter((move) => move.from !== move.to);
+  }
+}
+
+const normalizePath = (path: string): string =>
+  path
+    .trim()
+    .replace(/\\/g, "/")
+    .replace(/\/+/g, "/")
+    .replace(/^\/|\/$/g, "")
+    .replace(/\.md$/, "");
+
+const withPlaceholder = (template: string, placeholder: string): string => {
+  const normalized = normalizePath(template);
+  if (normalized.includes(placeholder)) return normalized;
+  return normalized ? `${normalized}/${placeholder}` : placeholder;
+};
+
+const folderOf = (template: string): string => {
+  const beforePlaceholder = template.slice(0, template.indexOf("{{"));
+  return beforePlaceholder.slice(0, beforePlaceholder.lastIndexOf("/") + 1).replace(/\/$/, "");
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
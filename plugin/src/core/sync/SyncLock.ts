@@ -0,0 +1,33 @@
+import { useSyncStatusStore } from "./SyncStatus";
+
+// Settles once every sync taken so far has finished
+let queue: Promise<void> = Promise.resolve();
+let holders = 0;
+
+/**
+ * Run a push or pull once the syncs started before it have finished. The file watcher, the
+ * background scheduler and the sync commands all read and write the same files and task
+ * mappings, so they take turns through this lock.
+ */
+export function withSyncLock<T>(sync: () => Promise<T>): Promise<T> {
+  holders++;
+  useSyncStatusStore.setState({ running: true });
+
+  const result = queue.then(sync);
+  queue = result.then(release, release);
+  return result;
+}
+
+/**
+ * Whether a sync holds the lock or is waiting for it
+ */
+export function isSyncRunning(): boolean {
+  return holders > 0;
+}
+
+function release(): void {
+  holders--;
+  if (holders === 0) {
+    useSyncStatusStore.setState({ running: false });
+  }
+}
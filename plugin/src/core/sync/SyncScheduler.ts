@@ -0,0 +1,112 @@
+import type TodoistPlugin from "@/index";
+import { type BackgroundSyncSettings, defaultBackgroundSync, useSettingsStore } from "@/settings";
+import { FileSyncManager } from "./FileSyncManager";
+import { isSyncRunning, withSyncLock } from "./SyncLock";
+import { type SyncStatus, useSyncStatusStore } from "./SyncStatus";
+
+// How often the scheduler checks whether a sync is due
+const CHECK_INTERVAL = 60 * 1000;
+
+// Without keyboard or pointer input for this long, the app counts as idle
+const IDLE_AFTER = 10 * 60 * 1000;
+
+/**
+ * Network Information API, only available in Chromium - which Obsidian runs on
+ */
+interface NetworkInformation {
+  saveData?: boolean;
+  type?: string;
+}
+
+/**
+ * SyncScheduler - Runs file sync in the background at the configured interval
+ * Edits are pushed first so the pull that follows doesn't overwrite them. Syncs pause while
+ * the app is idle, offline or on a metered connection, and resume once that changes.
+ */
+export class SyncScheduler {
+  private plugin: TodoistPlugin;
+  private lastRunAt = 0;
+  private lastActivityAt = Date.now();
+
+  constructor(plugin: TodoistPlugin) {
+    this.plugin = plugin;
+  }
+
+  private get settings(): BackgroundSyncSettings {
+    return { ...defaultBackgroundSync, ...useSettingsStore.getState().backgroundSync };
+  }
+
+  /**
+   * Start checking for due syncs until the plugin unloads
+   */
+  register(): void {
+    const onActivity = () => {
+      this.lastActivityAt = Date.now();
+    };
+    for (const event of ["keydown", "pointerdown", "wheel"] as const) {
+      this.plugin.registerDomEvent(document, event, onActivity);
+    }
+
+    this.plugin.registerInterval(window.setInterval(() => this.tick(), CHECK_INTERVAL));
+  }
+
+  /**
+   * Sync if background sync is enabled, a sync is due and nothing pauses it
+   */
+  async tick(now = Date.now()): Promise<void> {
+    const settings = this.settings;
+    // A sync already running or waiting covers this one
+    if (!settings.enabled || isSyncRunning()) return;
+    if (now - this.lastRunAt < settings.intervalMinutes * 60 * 1000) return;
+
+    const pausedReason = this.pausedReason(settings, now);
+    useSyncStatusStore.setState({ pausedReason });
+    if (pausedReason || !this.plugin.services.todoist.isReady()) return;
+
+    this.lastRunAt = now;
+    await this.run();
+  }
+
+  /**
+   * Push edits to Todoist, then pull what changed there
+   */
+  async run(): Promise<void> {
+    await withSyncLock(() => this.pushThenPull());
+  }
+
+  private async pushThenPull(): Promise<void> {
+    try {
+      const fileSyncManager = new FileSyncManager(this.plugin);
+      await fileSyncManager.initializeDirectoryStructure();
+
+      // Conflicts need the user, so they are left for the next manual sync
+      const pushed = await fileSyncManager.syncObsidianChangesToTodoist(true, undefined, {
+        trigger: "schedule",
+      });
+      const pulled = await fileSyncManager.syncIncrementally({ silent: true, trigger: "schedule" });
+
+      const errors = [...pushed.errors, ...pulled.errors];
+      if (errors.length > 0) {
+        console.warn("Background sync errors:", errors);
+        useSyncStatusStore.setState({ lastError: errors[0] });
+      }
+    } catch (error) {
+      console.error("Background sync failed:", error);
+      useSyncStatusStore.setState({
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private pausedReason(settings: BackgroundSyncSettings, now: number): SyncStatus["pausedReason"] {
+    if (!navigator.onLine) return "offline";
+
+    const connection = (navigator as Navigator & { connection?: NetworkInformation }).connection;
+    if (settings.pauseOnMetered && (connection?.saveData || connection?.type === "cellular"))
+      return "metered";
+
+    if (settings.pauseWhenIdle && now - this.lastActivityAt > IDLE_AFTER) return "idle";
+
+    return null;
+  }
+}
@@ -0,0 +1,19 @@
+import { create } from "zustand";
+
+/**
+ * Outcome of the latest file sync, shown in the status bar. Kept in memory only.
+ */
+export type SyncStatus = {
+  lastSyncAt: Date | null;
+  lastError: string | null;
+  running: boolean;
+  // Why background sync is currently paused, if it is
+  pausedReason: "idle" | "metered" | "offline" | null;
+};
+
+export const useSyncStatusStore = create<SyncStatus>(() => ({
+  lastSyncAt: null,
+  lastError: null,
+  running: false,
+  pausedReason: null,
+}));
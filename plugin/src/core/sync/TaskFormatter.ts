@@ -1,7 +1,10 @@
+import type { DueDate } from '@/api/domain/dueDate';
 import type { Duration } from '@/api/domain/task';
 import type { Task } from '@/data/task';
+import { type TaskLineFormat, useSettingsStore } from '@/settings';
 import { DurationParser } from './DurationParser';
 import { RecurringTaskParser } from './RecurringTaskParser';
+import { TaskHash } from './TaskHash';
 
 /**
  * Handles formatting tasks as markdown with embedded metadata for mapping
@@ -10,90 +13,168 @@ export class TaskFormatter {
   /**
    * Format a task as markdown checkbox with hidden metadata for mapping and change tracking
    */
-  static formatTaskAsMarkdown(task: Task, includeMetadata: boolean = true): string {
+  static formatTaskAsMarkdown(
+    task: Task,
+    includeMetadata: boolean = true,
+    format: TaskLineFormat = TaskFormatter.lineFormat
+  ): string {
     let line = `- [ ] ${task.content}`;
 
-    // Add duration if present (NEW: Duration support)
+    // Hidden metadata comment for mapping and change tracking (if enabled)
+    const metadata = includeMetadata ? `<!-- todoist:${task.id}:${TaskFormatter.calculateTaskHash(task)} -->` : '';
+
+    const fields = TaskFormatter.formatTaskFields(task, format);
+    const parts = format === 'default'
+      ? [fields.duration, fields.recurring, fields.priority, fields.due, fields.labels, metadata]
+      // The Tasks plugin reads its fields from the end of the line, so nothing may follow them
+      : [fields.duration, fields.time, metadata, fields.labels, fields.priority, fields.recurring, fields.due];
+
+    for (const part of parts) {
+      if (part) {
+        line += ` ${part}`;
+      }
+    }
+
+    // Add properly formatted description if present
+    if (task.description && task.description.trim()) {
+      line += '\n' + TaskFormatter.formatDescription(task.description);
+    }
+
+    line += '\n';
+    return line;
+  }
+
+  /**
+   * Line format from the settings: the plugin's own, the Obsidian Tasks plugin's emoji format
+   * or Dataview inline fields
+   */
+  static get lineFormat(): TaskLineFormat {
+    return useSettingsStore.getState().taskLineFormat ?? 'default';
+  }
+
+  /**
+   * Format the metadata of a task line, empty for metadata the task doesn't have
+   */
+  static formatTaskFields(task: Task, format: TaskLineFormat = TaskFormatter.lineFormat): TaskFields {
+    if (format !== 'default') {
+      return TaskFormatter.formatInteropFields(task, format);
+    }
+
+    const fields: TaskFields = { duration: '', recurring: '', priority: '', due: '', time: '', labels: '' };
+
+    // Duration (NEW: Duration support)
     if (task.duration) {
-      line += ` ${DurationParser.formatDuration(task.duration)}`;
+      fields.duration = DurationParser.formatDuration(task.duration);
     }
 
-    // Add recurring indicator if present (NEW: Recurring support)
+    // Recurring indicator (NEW: Recurring support)
     if (task.due?.isRecurring) {
       // Use Todoist's due string directly if it contains recurring pattern
       if (task.due.string && RecurringTaskParser.isRecurringPattern(task.due.string)) {
-        line += ` ${RecurringTaskParser.formatRecurring(task.due.string)}`;
+        fields.recurring = RecurringTaskParser.formatRecurring(task.due.string);
       } else {
         // Fallback to basic recurring indicator
-        line += ` 🔄 recurring`;
+        fields.recurring = '🔄 recurring';
       }
     }
 
-    // Add priority indicator
+    // Priority indicator
     if (task.priority > 1) {
-      line += ` ${this.getPriorityEmoji(task.priority)}`;
+      fields.priority = TaskFormatter.getPriorityEmoji(task.priority);
     }
 
-    // Add due date if present
+    // Due date
     if (task.due) {
       const dueDate = new Date(task.due.date);
       const isOverdue = dueDate < new Date();
       const dateStr = dueDate.toLocaleDateString();
 
-      if (isOverdue) {
-        line += ` 🔴 **OVERDUE: ${dateStr}**`;
-      } else {
-        line += ` 📅 ${dateStr}`;
-      }
+      fields.due = isOverdue ? `🔴 **OVERDUE: ${dateStr}**` : `📅 ${dateStr}`;
     }
 
-    // Add labels
+    // Labels
     if (task.labels.length > 0) {
-      const labelStr = task.labels.map(l => `#${l.name}`).join(' ');
-      line += ` ${labelStr}`;
+      fields.labels = task.labels.map(l => `#${l.name}`).join(' ');
     }
 
-    // Add hidden metadata comment for mapping and change tracking (if enabled)
-    if (includeMetadata) {
-      const taskHash = this.calculateTaskHash(task);
-      line += ` <!-- todoist:${task.id}:${taskHash} -->`;
+    return fields;
+  }
+
+  /**
+   * Format task metadata for the Obsidian Tasks plugin or Dataview. Dates are ISO dates, so
+   * lines read the same on every machine, and overdue tasks are left for those tools to flag.
+   */
+  private static formatInteropFields(task: Task, format: Exclude<TaskLineFormat, 'default'>): TaskFields {
+    const fields: TaskFields = { duration: '', recurring: '', priority: '', due: '', time: '', labels: '' };
+    const field = (name: string, value: string) => `[${name}:: ${value}]`;
+
+    // The Tasks plugin has no duration field, so it keeps the ⏱️ syntax
+    if (task.duration) {
+      const duration = DurationParser.formatDuration(task.duration);
+      fields.duration = format === 'tasks' ? duration : field('duration', duration.replace(/^⏱️ /, ''));
     }
 
-    // Add properly formatted description if present
-    if (task.description && task.description.trim()) {
-      line += '\n' + this.formatDescription(task.description);
+    // Only patterns Todoist understands are written, to be read back as the recurrence
+    if (task.due?.isRecurring && task.due.string && RecurringTaskParser.isRecurringPattern(task.due.string)) {
+      fields.recurring = format === 'tasks' ? `🔁 ${task.due.string}` : field('repeat', task.due.string);
     }
 
-    line += '\n';
-    return line;
+    const priority = interopPriorities[task.priority];
+    if (priority) {
+      fields.priority = format === 'tasks' ? priority.emoji : field('priority', priority.name);
+    }
+
+    // The Tasks plugin has no due time, so the time goes in a ⏰ field it leaves alone
+    if (task.due) {
+      const { date, time } = TaskFormatter.isoDue(task.due);
+      if (format === 'tasks') {
+        fields.due = `📅 ${date}`;
+        fields.time = time ? `⏰ ${time}` : '';
+      } else {
+        fields.due = field('due', time ? `${date}T${time}` : date);
+      }
+    }
+
+    if (task.labels.length > 0) {
+      fields.labels = task.labels.map(l => `#${l.name}`).join(' ');
+    }
+
+    return fields;
   }
 
   /**
-   * Calculate a hash of the task content for change detection
+   * A due date the way `toTodoistDate` reads it back from a task line: the day, or the day and
+   * local time of timed due dates
    */
-  static calculateTaskHash(task: Task): string {
-    const hashData = {
-      content: task.content,
-      description: task.description || '',
-      priority: task.priority,
-      due: task.due?.date || null,
-      duration: task.duration || null, // NEW: Include duration in hash
-      isRecurring: task.due?.isRecurring || false, // NEW: Include recurring status in hash
-      labels: task.labels.map(l => l.name).sort(),
-      project: task.project.id,
-      section: task.section?.id || null,
-      order: task.order
-    };
+  static toTodoistDue(due: DueDate): string {
+    const { date, time } = TaskFormatter.isoDue(due);
+    return time ? `${date}T${time}:00` : date;
+  }
+
+  /**
+   * ISO date and HH:MM time of a due date, in local time for due dates fixed to a timezone
+   */
+  private static isoDue(due: DueDate): { date: string; time: string | null } {
+    if (!due.datetime) return { date: due.date, time: null };
 
-    // Create a simple hash from the JSON string
-    const jsonString = JSON.stringify(hashData);
-    let hash = 0;
-    for (let i = 0; i < jsonString.length; i++) {
-      const char = jsonString.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
+    if (!due.datetime.endsWith('Z')) {
+      const [date, time] = due.datetime.split('T');
+      return { date, time: time.slice(0, 5) };
     }
-    return Math.abs(hash).toString(36);
+
+    const local = new Date(due.datetime);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return {
+      date: `${local.getFullYear()}-${pad(local.getMonth() + 1)}-${pad(local.getDate())}`,
+      time: `${pad(local.getHours())}:${pad(local.getMinutes())}`,
+    };
+  }
+
+  /**
+   * Calculate a hash of the task content for change detection, see TaskHash
+   */
+  static calculateTaskHash(task: Task): string {
+    return TaskHash.calculate(task);
   }
 
   /**
@@ -233,39 +314,96 @@ export class TaskFormatter {
    * Update the hash in a markdown line
    */
   static updateTaskHash(markdownLine: string, task: Task): string {
-    const newHash = this.calculateTaskHash(task);
-    const metadata = this.extractTodoistMetadata(markdownLine);
+    const newHash = TaskFormatter.calculateTaskHash(task);
 
-    if (metadata) {
-      // Replace existing hash
+    if (TaskFormatter.extractTodoistId(markdownLine)) {
+      // Replace existing metadata (with or without a hash)
       return markdownLine.replace(
-        `<!-- todoist:${metadata.id}:${metadata.hash} -->`,
+        /<!-- todoist:[^>]+ -->/,
         `<!-- todoist:${task.id}:${newHash} -->`
       );
     } else {
       // Add new metadata
-      return `${markdownLine} <!-- todoist:${task.id}:${newHash} -->`;
+      return TaskFormatter.addMetadata(markdownLine, `<!-- todoist:${task.id}:${newHash} -->`);
     }
   }
 
+  /**
+   * Record a Todoist ID without a hash, e.g. the temporary ID of a task queued for creation
+   */
+  static setTodoistId(markdownLine: string, id: string): string {
+    if (TaskFormatter.extractTodoistId(markdownLine)) {
+      return markdownLine.replace(/<!-- todoist:[^>]+ -->/, `<!-- todoist:${id} -->`);
+    }
+    return TaskFormatter.addMetadata(markdownLine, `<!-- todoist:${id} -->`);
+  }
+
+  /**
+   * Add a metadata comment to a line without one. Lines in the Tasks plugin and Dataview formats
+   * get it before their date, recurrence and priority fields, which the Tasks plugin only reads
+   * at the end of the line, the way formatTaskAsMarkdown writes them.
+   */
+  private static addMetadata(markdownLine: string, metadata: string): string {
+    const fields = TaskFormatter.lineFormat === 'default'
+      ? null
+      : markdownLine.match(/\s+(?:📅|⏳|🛫|➕|✅|❌|🔁|⏫|🔼|🔽|🔺|⏬|\[\w+::)/u);
+    if (fields?.index === undefined) {
+      return `${markdownLine} ${metadata}`;
+    }
+    return `${markdownLine.slice(0, fields.index)} ${metadata}${markdownLine.slice(fields.index)}`;
+  }
+
   /**
    * Parse a markdown task line to extract task content
    */
   static extractTaskContent(markdownLine: string): string | null {
-    // More comprehensive regex to handle all metadata patterns including recurring
-    const match = markdownLine.match(/^- \[([ x])\] (.+?)(?:\s+(?:⏱️|🔄|🔴|🟡|🔵|⚪|📅|#)|\s*<!--|$)/);
+    // More comprehensive regex to handle all metadata patterns including recurring, in all line formats
+    const match = markdownLine.match(/^\s*- \[([ x])\] (.+?)(?:\s+(?:⏱️|🔄|🔴|🟡|🔵|⚪|📅|⏰|#|⏳|🔁|⏫|🔼|🔽|🔺|⏬|\[\w+::)|\s*<!--|$)/);
     if (!match) return null;
 
     let content = match[2].trim();
 
+    // Remove links back to Todoist added by task templates
+    content = content.replace(/\s*(?:\[[^\]]*\]\()?https:\/\/(?:app\.)?todoist\.com\/[^\s)]*\)?/g, '');
+
     // Remove any remaining metadata that might be in the content
     content = DurationParser.removeDuration(content);
     content = RecurringTaskParser.removeRecurring(content);
-    content = content.replace(/\s*(🔴|🟡|🔵|⚪|📅|#\w+)\s*.*$/, '').trim();
+    content = content.replace(/\s*(🔴|🟡|🔵|⚪|📅|⏰|#\w+|⏳|🔁|⏫|🔼|🔽|🔺|⏬|\[\w+::)\s*.*$/, '').trim();
 
     return content || null;
   }
 
+  /**
+   * Convert a locale date from a task line (M/D/YYYY) to Todoist's YYYY-MM-DD format, or
+   * YYYY-MM-DDTHH:MM:SS for due dates with a time. Undefined for anything that isn't a date.
+   */
+  static toTodoistDate(localDate: string): string | undefined {
+    // ISO dates from the Tasks plugin and Dataview formats already are
+    const iso = localDate.match(/^(\d{4})-(\d{2})-(\d{2})(T\d{2}:\d{2})?$/);
+    if (iso) {
+      const [, year, month, day, time] = iso;
+      if (!TaskFormatter.isValidDate(Number(year), Number(month), Number(day))) return undefined;
+      return time ? `${localDate}:00` : localDate;
+    }
+
+    const match = localDate.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+    if (!match) return undefined;
+
+    const [, month, day, year] = match;
+    if (!TaskFormatter.isValidDate(Number(year), Number(month), Number(day))) return undefined;
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+
+  /**
+   * Whether a day exists in a month, e.g. not 2/30 or 13/1
+   */
+  private static isValidDate(year: number, month: number, day: number): boolean {
+    // Day 0 of the next month is the last day of this one
+    const daysInMonth = new Date(year, month, 0).getDate();
+    return month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth;
+  }
+
   /**
    * Check if a markdown line represents a task checkbox
    */
@@ -311,9 +449,18 @@ export class TaskFormatter {
       return null;
     }
 
-    // Extract due date
-    const dueDateMatch = markdownLine.match(/📅 (\d{1,2}\/\d{1,2}\/\d{4})/);
-    const dueDate = dueDateMatch ? dueDateMatch[1] : null;
+    // Extract due date, as a locale date or an ISO date from the Tasks plugin or Dataview
+    // formats. Todoist has no scheduled dates, so those are only used for tasks without a due date.
+    const dueDateMatch = markdownLine.match(/📅 (\d{1,2}\/\d{1,2}\/\d{4}|\d{4}-\d{2}-\d{2})/)
+      ?? markdownLine.match(/\[due::\s*(\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2})?)\]/)
+      ?? markdownLine.match(/⏳ (\d{4}-\d{2}-\d{2})/)
+      ?? markdownLine.match(/\[scheduled::\s*(\d{4}-\d{2}-\d{2})\]/);
+    // Due times of the Tasks plugin format, read back as an ISO date and time
+    const dueTime = markdownLine.match(/⏰ (\d{2}:\d{2})/)?.[1];
+    let dueDate = dueDateMatch ? dueDateMatch[1] : null;
+    if (dueDate && dueTime && /^\d{4}-\d{2}-\d{2}$/.test(dueDate)) {
+      dueDate = `${dueDate}T${dueTime}`;
+    }
 
     // Extract overdue date
     const overdueDateMatch = markdownLine.match(/🔴 \*\*OVERDUE: (\d{1,2}\/\d{1,2}\/\d{4})\*\*/);
@@ -333,6 +480,8 @@ export class TaskFormatter {
       priority = 2; // P3
     } else if (markdownLine.includes('⚪')) {
       priority = 1; // P4 - Explicitly low priority
+    } else {
+      priority = TaskFormatter.parseInteropPriority(markdownLine);
     }
     // null priority means "no change" - preserve original Todoist priority
 
@@ -359,6 +508,24 @@ export class TaskFormatter {
     };
   }
 
+  /**
+   * Priority from the Tasks plugin emojis or a Dataview priority field, null if there is none
+   */
+  private static parseInteropPriority(markdownLine: string): number | null {
+    const field = markdownLine.match(/\[priority::\s*(\w+)\s*\]/i);
+    const name = field?.[1].toLowerCase();
+
+    for (const [priority, { emoji, name: priorityName }] of Object.entries(interopPriorities)) {
+      if (name === priorityName || markdownLine.includes(emoji)) return Number(priority);
+    }
+
+    // Highest and lowest have no Todoist counterpart and map to the nearest priority
+    if (name === 'highest' || markdownLine.includes('🔺')) return 4;
+    if (name === 'lowest' || markdownLine.includes('⏬')) return 1;
+
+    return null;
+  }
+
   /**
    * Generate a task line with updated content while preserving metadata
    */
@@ -432,6 +599,28 @@ export class TaskFormatter {
   }
 }
 
+/**
+ * Todoist priorities in the Tasks plugin and Dataview formats. P4 is Todoist's default and
+ * has no marker, like normal priority in the Tasks plugin.
+ */
+const interopPriorities: Record<number, { emoji: string; name: string }> = {
+  4: { emoji: '⏫', name: 'high' },
+  3: { emoji: '🔼', name: 'medium' },
+  2: { emoji: '🔽', name: 'low' },
+};
+
+/**
+ * Markdown for each piece of task metadata in a task line
+ */
+export interface TaskFields {
+  duration: string;
+  recurring: string;
+  priority: string;
+  due: string;
+  time: string; // Due time for formats whose due field has none
+  labels: string;
+}
+
 /**
  * Represents a parsed task from markdown
  */
@@ -0,0 +1,192 @@
+import type { Task } from "@/data/task";
+
+/**
+ * Task fields covered by a task hash, in the order their sub-hashes are written
+ */
+export const HASHED_FIELDS = [
+  "content",
+  "description",
+  "priority",
+  "due",
+  "duration",
+  "recurring",
+  "labels",
+  "project",
+  "section",
+] as const;
+
+export type HashedField = (typeof HASHED_FIELDS)[number];
+
+const DIGEST_LENGTH = 12;
+const FIELD_LENGTH = 6;
+
+/**
+ * Hash of a task as written in the `<!-- todoist:id:hash -->` comment of its line
+ */
+const calculateHash = (task: Task): string => {
+  const values = fieldValues(task);
+  const digest = sha256(JSON.stringify(values)).slice(0, DIGEST_LENGTH);
+  const fields = HASHED_FIELDS.map((field) =>
+    sha256(`${field}:${JSON.stringify(values[field])}`).slice(0, FIELD_LENGTH),
+  ).join("");
+
+  return digest + fields;
+};
+
+/**
+ * Fields that changed since a hash was calculated, or null where that can't be told:
+ * for hashes without field sub-hashes (written by earlier versions), and when the
+ * digest changed but no sub-hash did because two values of a field collided
+ */
+const changedFields = (hash: string, task: Task): HashedField[] | null => {
+  if (isLegacyHash(hash)) return null;
+
+  const current = calculateHash(task);
+  const changed = HASHED_FIELDS.filter((_, i) => {
+    const start = DIGEST_LENGTH + i * FIELD_LENGTH;
+    return hash.slice(start, start + FIELD_LENGTH) !== current.slice(start, start + FIELD_LENGTH);
+  });
+
+  if (changed.length === 0 && hash !== current) return null;
+  return changed;
+};
+
+/**
+ * Whether a hash was written by an earlier version, before hashes were SHA-256 digests
+ */
+const isLegacyHash = (hash: string): boolean => {
+  // Earlier hashes are base 36 numbers of at most 7 digits
+  const length = DIGEST_LENGTH + HASHED_FIELDS.length * FIELD_LENGTH;
+  return !new RegExp(`^[0-9a-f]{${length}}$`).test(hash);
+};
+
+/**
+ * The 32-bit hash written by earlier versions, to migrate their comments
+ */
+const legacyHash = (task: Task): string => {
+  const jsonString = JSON.stringify({
+    content: task.content,
+    description: task.description || "",
+    priority: task.priority,
+    due: task.due?.date || null,
+    duration: task.duration || null,
+    isRecurring: task.due?.isRecurring || false,
+    labels: task.labels.map((l) => l.name).sort(),
+    project: task.project.id,
+    section: task.section?.id || null,
+    order: task.order,
+  });
+
+  let hash = 0;
+  for (let i = 0; i < jsonString.length; i++) {
+    hash = (hash << 5) - hash + jsonString.charCodeAt(i);
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  return Math.abs(hash).toString(36);
+};
+
+/**
+ * Hex encoded SHA-256 digest of the UTF-8 encoding of a string
+ */
+const sha256 = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+
+  // Pad to a multiple of 64 bytes: a 1 bit, zeros, and the message length in bits
+  const padded = new Uint8Array(Math.ceil((bytes.length + 9) / 64) * 64);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bytes.length / 0x20000000));
+  view.setUint32(padded.length - 4, (bytes.length * 8) >>> 0);
+
+  const hash = [...SHA256_INITIAL];
+  const w = new Uint32Array(64);
+
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const t1 =
+        (h +
+          (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) +
+          ((e & f) ^ (~e & g)) +
+          SHA256_ROUND[i] +
+          w[i]) >>>
+        0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) >>> 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+
+    [a, b, c, d, e, f, g, h].forEach((value, i) => {
+      hash[i] = (hash[i] + value) >>> 0;
+    });
+  }
+
+  return hash.map((value) => value.toString(16).padStart(8, "0")).join("");
+};
+
+/**
+ * Normalized values of the hashed fields
+ */
+const fieldValues = (task: Task): Record<HashedField, unknown> => ({
+  content: task.content,
+  description: task.description || "",
+  priority: task.priority,
+  due: task.due?.datetime || task.due?.date || null, // Moving a timed task to another time changes it
+  duration: task.duration || null,
+  recurring: task.due?.isRecurring ? task.due.string || true : false,
+  labels: task.labels.map((l) => l.name).sort(),
+  project: task.project.id,
+  section: task.section?.id || null,
+});
+
+/**
+ * TaskHash - Content digests for change detection
+ *
+ * A task hash is a truncated SHA-256 digest of the synced task fields, followed by a short
+ * sub-hash per field, all hex. The digest detects changes, the sub-hashes tell which fields
+ * changed. The order of a task is left out, so reordering tasks in Todoist doesn't mark
+ * them as changed.
+ *
+ * Web Crypto only offers an async digest while task lines are rendered synchronously, so
+ * SHA-256 is computed here.
+ */
+export const TaskHash = {
+  calculate: calculateHash,
+  changedFields,
+  isLegacy: isLegacyHash,
+  legacyHash,
+  sha256,
+};
+
+const rotr = (value: number, bits: number): number => (value >>> bits) | (value << (32 - bits));
+
+const SHA256_INITIAL = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+];
+
+const SHA256_ROUND = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
@@ -1,6 +1,9 @@
 import { TFile } from 'obsidian';
 import type TodoistPlugin from '@/index';
 import type { Task } from '@/data/task';
+import { ConflictResolver, type TaskSnapshot } from './ConflictResolver';
+import { SyncLayout } from './SyncLayout';
+import { TaskHash } from './TaskHash';
 
 /**
  * Represents the mapping between an Obsidian task and a Todoist task
@@ -12,6 +15,7 @@ export interface TaskMapping {
   content: string;
   lastSyncTime: string;
   checksum: string; // For detecting changes
+  snapshot?: TaskSnapshot; // The task as last synced, for three-way merges
 }
 
 /**
@@ -22,7 +26,6 @@ export class TaskMappingManager {
   private plugin: TodoistPlugin;
   private mappings: Map<string, TaskMapping> = new Map(); // todoistId -> mapping
   private reverseMap: Map<string, string> = new Map(); // obsidianKey -> todoistId
-  private mappingFile = '⚙️ System/Task Mappings.json';
 
   constructor(plugin: TodoistPlugin) {
     this.plugin = plugin;
@@ -53,6 +56,7 @@ export class TaskMappingManager {
       content: todoistTask.content,
       lastSyncTime: new Date().toISOString(),
       checksum,
+      snapshot: ConflictResolver.snapshotTask(todoistTask),
     };
 
     // Update mappings
@@ -70,6 +74,17 @@ export class TaskMappingManager {
     return this.reverseMap.get(obsidianKey) || null;
   }
 
+  /**
+   * The task as it was when a line with the given hash was written, or null if the stored
+   * snapshot belongs to another version of the task
+   */
+  getSnapshot(todoistId: string, hash: string | null): TaskSnapshot | null {
+    const mapping = this.mappings.get(todoistId);
+    if (!mapping?.snapshot || !hash || mapping.checksum !== hash) return null;
+
+    return mapping.snapshot;
+  }
+
   /**
    * Find the Obsidian location for a given Todoist task ID
    */
@@ -96,6 +111,26 @@ export class TaskMappingManager {
     }
   }
 
+  /**
+   * Remove the mappings of tasks that are no longer open in Todoist, after they were completed
+   * or deleted there. Their lines no longer sync, whatever happens to them in the files.
+   */
+  async removeClosedMappings(openTaskIds: Set<string>): Promise<number> {
+    let removed = 0;
+    for (const [todoistId, mapping] of this.mappings) {
+      if (openTaskIds.has(todoistId)) continue;
+
+      this.reverseMap.delete(this.getObsidianKey(mapping.obsidianFile, mapping.obsidianLineNumber));
+      this.mappings.delete(todoistId);
+      removed++;
+    }
+
+    if (removed > 0) {
+      await this.saveMappings();
+    }
+    return removed;
+  }
+
   /**
    * Update mapping when a task moves to a different line or file
    */
@@ -123,6 +158,28 @@ export class TaskMappingManager {
     await this.saveMappings();
   }
 
+  /**
+   * Point mappings to a file's new location after it moved, e.g. when the sync layout changed
+   */
+  async renameFile(oldFile: string, newFile: string): Promise<number> {
+    let renamed = 0;
+
+    for (const mapping of this.mappings.values()) {
+      if (mapping.obsidianFile !== oldFile) continue;
+
+      this.reverseMap.delete(this.getObsidianKey(oldFile, mapping.obsidianLineNumber));
+      mapping.obsidianFile = newFile;
+      this.reverseMap.set(this.getObsidianKey(newFile, mapping.obsidianLineNumber), mapping.todoistId);
+      renamed++;
+    }
+
+    if (renamed > 0) {
+      await this.saveMappings();
+    }
+
+    return renamed;
+  }
+
   /**
    * Detect if a task has been modified by comparing checksums
    */
@@ -141,6 +198,7 @@ export class TaskMappingManager {
     const mapping = this.mappings.get(todoistTask.id);
     if (mapping) {
       mapping.checksum = this.calculateChecksum(todoistTask);
+      mapping.snapshot = ConflictResolver.snapshotTask(todoistTask);
       mapping.lastSyncTime = new Date().toISOString();
       await this.saveMappings();
     }
@@ -154,7 +212,7 @@ export class TaskMappingManager {
 
     for (const mapping of this.mappings.values()) {
       const file = this.plugin.app.vault.getAbstractFileByPath(
-        `📋 01-PRODUCTIVITY/todoist-integration/${mapping.obsidianFile}`
+        SyncLayout.current().toAbsolute(mapping.obsidianFile)
       );
 
       if (!file || !(file instanceof TFile)) {
@@ -211,52 +269,10 @@ export class TaskMappingManager {
   }
 
   /**
-   * Calculate a checksum for a task to detect changes
-   * Uses Unicode-safe encoding to handle emojis and special characters
+   * Calculate a checksum for a task to detect changes, the same hash as in task line comments
    */
   private calculateChecksum(task: Task): string {
-    const data = {
-      content: task.content,
-      description: task.description,
-      priority: task.priority,
-      due: task.due?.date,
-      labels: task.labels.map(l => l.name).sort(),
-      project: task.project.id,
-      section: task.section?.id,
-    };
-
-    // Use Unicode-safe encoding instead of btoa
-    const jsonString = JSON.stringify(data);
-    return this.unicodeSafeEncode(jsonString);
-  }
-
-  /**
-   * Unicode-safe base64 encoding that handles emojis and special characters
-   */
-  private unicodeSafeEncode(str: string): string {
-    try {
-      // Convert to UTF-8 bytes first, then encode
-      const utf8Bytes = new TextEncoder().encode(str);
-      const binaryString = Array.from(utf8Bytes, byte => String.fromCharCode(byte)).join('');
-      return btoa(binaryString);
-    } catch (error) {
-      // Fallback to simple hash if encoding fails
-      console.warn('Failed to encode checksum, using simple hash:', error);
-      return this.simpleHash(str);
-    }
-  }
-
-  /**
-   * Simple hash function as fallback for checksum calculation
-   */
-  private simpleHash(str: string): string {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return hash.toString(36);
+    return TaskHash.calculate(task);
   }
 
   /**
@@ -264,7 +280,8 @@ export class TaskMappingManager {
    */
   private async loadMappings(): Promise<void> {
     try {
-      const mappingPath = `📋 01-PRODUCTIVITY/todoist-integration/${this.mappingFile}`;
+      const layout = SyncLayout.current();
+      const mappingPath = layout.mappingFilePath;
       const file = this.plugin.app.vault.getAbstractFileByPath(mappingPath);
 
       if (!file || !(file instanceof TFile)) {
@@ -281,7 +298,7 @@ export class TaskMappingManager {
         console.warn('Corrupted mappings file detected, attempting recovery:', jsonError);
 
         // Try to recover by creating backup and starting fresh
-        const backupPath = `📋 01-PRODUCTIVITY/todoist-integration/⚙️ System/corrupted-mappings-backup-${Date.now()}.json`;
+        const backupPath = `${layout.systemPath}/corrupted-mappings-backup-${Date.now()}.json`;
         try {
           await this.plugin.app.vault.create(backupPath, content);
           console.log(`Corrupted mappings backed up to: ${backupPath}`);
@@ -323,7 +340,7 @@ export class TaskMappingManager {
    */
   private async saveMappings(): Promise<void> {
     try {
-      const mappingPath = `📋 01-PRODUCTIVITY/todoist-integration/${this.mappingFile}`;
+      const mappingPath = SyncLayout.current().mappingFilePath;
 
       const data = {
         version: '1.0',
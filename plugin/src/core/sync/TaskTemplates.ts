@@ -0,0 +1,308 @@
+import type { Task } from "@/data/task";
+import YAML from "yaml";
+import { z } from "zod";
+import { TaskFormatter } from "./TaskFormatter";
+
+/**
+ * Thrown for template files that can't be used, with a message meant for users
+ */
+export class TemplateError extends Error {
+  constructor(file: string, problems: string[]) {
+    super(`Invalid sync template in ${file}: ${problems.join("; ")}`);
+    this.name = "TemplateError";
+  }
+}
+
+export type TemplateView = "inbox" | "today" | "upcoming" | "project" | "label";
+
+/**
+ * Values for the page level placeholders in frontmatter, header and empty templates
+ */
+export interface PageVariables {
+  title: string;
+  view: TemplateView;
+  count: number;
+  date: string;
+  timestamp: string;
+}
+
+/**
+ * Values for the placeholders in section templates
+ */
+export interface SectionVariables {
+  section: string;
+  count: number;
+}
+
+const pagePlaceholders = ["title", "view", "count", "date", "timestamp"];
+const sectionPlaceholders = ["section", "count"];
+const taskPlaceholders = [
+  "content",
+  "due",
+  "priority",
+  "labels",
+  "url",
+  "project",
+  "section",
+  "duration",
+  "recurring",
+  "id",
+];
+
+const placeholderPattern = /\{\{\s*(\w+)\s*\}\}/g;
+
+const viewTemplateSchema = z
+  .object({
+    frontmatter: z.string().optional(),
+    header: z.string().optional(),
+    section: z.string().optional(),
+    task: z.string().optional(),
+    empty: z.string().optional(),
+  })
+  .strict();
+
+const templateFileSchema = viewTemplateSchema
+  .extend({
+    views: z
+      .object({
+        inbox: viewTemplateSchema.optional(),
+        today: viewTemplateSchema.optional(),
+        upcoming: viewTemplateSchema.optional(),
+        project: viewTemplateSchema.optional(),
+        label: viewTemplateSchema.optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+type ViewTemplateFields = z.infer<typeof viewTemplateSchema>;
+
+/**
+ * Templates for one kind of generated page. Parts without a template return null, so the
+ * built-in markdown is used for them.
+ */
+export class ViewTemplate {
+  private fields: ViewTemplateFields;
+
+  constructor(fields: ViewTemplateFields) {
+    this.fields = fields;
+  }
+
+  /**
+   * Frontmatter block including its `---` fences
+   */
+  frontmatter(vars: PageVariables): string | null {
+    if (this.fields.frontmatter === undefined) return null;
+
+    const yaml = substitute(this.fields.frontmatter, { ...vars }).trim();
+    return `---\n${yaml}\n---\n\n`;
+  }
+
+  header(vars: PageVariables): string | null {
+    if (this.fields.header === undefined) return null;
+    return `${substitute(this.fields.header, { ...vars }).trim()}\n\n`;
+  }
+
+  empty(vars: PageVariables): string | null {
+    if (this.fields.empty === undefined) return null;
+    return `${substitute(this.fields.empty, { ...vars }).trim()}\n`;
+  }
+
+  /**
+   * Whether section headings come from a template
+   */
+  get hasSections(): boolean {
+    return this.fields.section !== undefined;
+  }
+
+  section(vars: SectionVariables): string | null {
+    if (this.fields.section === undefined) return null;
+    return `${substitute(this.fields.section, { ...vars }).trim()}\n\n`;
+  }
+
+  /**
+   * Pattern matching headings written by the section template, capturing the section name
+   */
+  sectionPattern(): RegExp | null {
+    if (this.fields.section === undefined) return null;
+
+    const source = this.fields.section
+      .trim()
+      .split(placeholderPattern)
+      .map((part, i) => {
+        // Split keeps captured placeholder names at odd indices
+        if (i % 2 === 0) return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        return part === "section" ? "(.+?)" : ".*?";
+      })
+      .join("");
+
+    return new RegExp(`^${source}\\s*$`);
+  }
+
+  /**
+   * A task checkbox line with the mapping metadata and description sync relies on
+   */
+  task(task: Task, indent = ""): string | null {
+    if (this.fields.task === undefined) return null;
+
+    const text = substitute(this.fields.task, taskVariables(task)).replace(/ {2,}/g, " ").trim();
+    let line = `${indent}- [ ] ${text} <!-- todoist:${task.id}:${TaskFormatter.calculateTaskHash(task)} -->`;
+
+    if (task.description?.trim()) {
+      const description = TaskFormatter.formatDescription(task.description)
+        .split("\n")
+        .map((descriptionLine) => (descriptionLine ? `${indent}${descriptionLine}` : ""))
+        .join("\n");
+      line += `\n${description}`;
+    }
+
+    return `${line}\n`;
+  }
+}
+
+/**
+ * TaskTemplates - User-defined markdown for the pages written by file sync
+ *
+ * Templates are read from a YAML file in the vault, or from the first ```yaml block of a note.
+ * Top-level templates apply to every page and `views` overrides them per page kind.
+ */
+export class TaskTemplates {
+  private templates: ViewTemplateFields;
+  private views: Partial<Record<TemplateView, ViewTemplateFields>>;
+
+  private constructor(fields: z.infer<typeof templateFileSchema>) {
+    const { views, ...templates } = fields;
+    this.templates = templates;
+    this.views = views ?? {};
+  }
+
+  /**
+   * Parse and validate a template file, throwing a TemplateError describing every problem
+   */
+  static parse(file: string, raw: string): TaskTemplates {
+    const fenced = raw.match(/```ya?ml\s*\n([\s\S]*?)```/);
+
+    let obj: unknown;
+    try {
+      obj = YAML.parse(fenced ? fenced[1] : raw);
+    } catch (error) {
+      throw new TemplateError(file, [
+        `not valid YAML (${error instanceof Error ? error.message : error})`,
+      ]);
+    }
+
+    const out = templateFileSchema.safeParse(obj ?? {});
+    if (!out.success) {
+      throw new TemplateError(
+        file,
+        out.error.errors.map((err) => {
+          const field = err.path.join(".") || "template";
+          switch (err.code) {
+            case "unrecognized_keys":
+              return `unknown key${err.keys.length > 1 ? "s" : ""} ${err.keys.map((k) => `'${k}'`).join(", ")} in '${field}'`;
+            case "invalid_type":
+              return `'${field}' must be ${err.expected === "string" ? "text" : `a ${err.expected}`}`;
+            default:
+              return `'${field}': ${err.message}`;
+          }
+        }),
+      );
+    }
+
+    const problems = [
+      ...validateView("", out.data),
+      ...Object.entries(out.data.views ?? {}).flatMap(([view, fields]) =>
+        validateView(`views.${view}.`, fields ?? {}),
+      ),
+    ];
+    if (problems.length > 0) {
+      throw new TemplateError(file, problems);
+    }
+
+    return new TaskTemplates(out.data);
+  }
+
+  /**
+   * Templates for a page kind, with its overrides applied
+   */
+  forView(view: TemplateView): ViewTemplate {
+    return new ViewTemplate({ ...this.templates, ...this.views[view] });
+  }
+}
+
+/**
+ * Check placeholders and that rendered pages stay valid markdown for sync
+ */
+const validateView = (prefix: string, fields: ViewTemplateFields): string[] => {
+  const problems: string[] = [];
+
+  const checkPlaceholders = (key: keyof ViewTemplateFields, allowed: string[]) => {
+    const template = fields[key];
+    if (template === undefined) return;
+
+    for (const [, name] of template.matchAll(placeholderPattern)) {
+      if (!allowed.includes(name)) {
+        problems.push(
+          `'${prefix}${key}' uses unknown placeholder {{${name}}}, valid placeholders are ${allowed.map((p) => `{{${p}}}`).join(", ")}`,
+        );
+      }
+    }
+  };
+
+  checkPlaceholders("frontmatter", pagePlaceholders);
+  checkPlaceholders("header", pagePlaceholders);
+  checkPlaceholders("empty", pagePlaceholders);
+  checkPlaceholders("section", sectionPlaceholders);
+  checkPlaceholders("task", taskPlaceholders);
+
+  if (fields.task !== undefined) {
+    if (!/\{\{\s*content\s*\}\}/.test(fields.task)) {
+      problems.push(`'${prefix}task' must contain {{content}}`);
+    }
+    if (fields.task.trim().includes("\n")) {
+      problems.push(`'${prefix}task' must be a single line`);
+    }
+    if (/^\s*- \[[ x]\]/.test(fields.task)) {
+      problems.push(`'${prefix}task' must not start with a checkbox, it is added automatically`);
+    }
+  }
+
+  if (fields.section?.trim().includes("\n")) {
+    problems.push(`'${prefix}section' must be a single line`);
+  }
+
+  if (fields.frontmatter !== undefined) {
+    const sample: PageVariables = {
+      title: "Title",
+      view: "inbox",
+      count: 1,
+      date: "2024-01-01",
+      timestamp: "2024-01-01T00:00:00.000Z",
+    };
+    try {
+      const parsed = YAML.parse(substitute(fields.frontmatter, { ...sample }));
+      if (parsed !== null && (typeof parsed !== "object" || Array.isArray(parsed))) {
+        problems.push(`'${prefix}frontmatter' must be a list of 'key: value' properties`);
+      }
+    } catch (error) {
+      problems.push(
+        `'${prefix}frontmatter' is not valid YAML (${error instanceof Error ? error.message : error})`,
+      );
+    }
+  }
+
+  return problems;
+};
+
+const substitute = (template: string, vars: Record<string, string | number>): string =>
+  template.replace(placeholderPattern, (_, name: string) => `${vars[name] ?? ""}`);
+
+const taskVariables = (task: Task): Record<string, string> => ({
+  ...TaskFormatter.formatTaskFields(task),
+  content: task.content,
+  url: `https://todoist.com/app/project/${task.project.id}/task/${task.id}`,
+  project: task.project.name,
+  section: task.section?.name ?? "",
+  id: task.id,
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { ClosedTasks } from "../ClosedTasks";
+
+const previous = [
+  "# 🗂️ Work",
+  "",
+  "## Tasks (3)",
+  "",
+  "- [ ] Write report <!-- todoist:1:aaa -->",
+  "- [ ] Call client <!-- todoist:2:bbb -->",
+  "  - [ ] Send invoice <!-- todoist:3:ccc -->",
+  "- [ ] Book venue <!-- todoist:4:ddd -->",
+  "- [ ] Buy milk <!-- todoist:tmp-1 -->",
+  "",
+].join("\n");
+
+const generated = [
+  "# 🗂️ Work",
+  "",
+  "## Tasks (2)",
+  "",
+  "- [ ] Write report <!-- todoist:1:aaa -->",
+  "- [ ] Book venue <!-- todoist:4:ddd -->",
+  "",
+].join("\n");
+
+const open = new Set(["1", "4"]);
+const isOpen = (id: string) => open.has(id);
+
+describe("ClosedTasks", () => {
+  it("should check off closed tasks where they were", () => {
+    const result = ClosedTasks.apply(previous, generated, isOpen, "check", "2024-06-15", "default");
+
+    expect(result.content).toBe(
+      [
+        "# 🗂️ Work",
+        "",
+        "## Tasks (2)",
+        "",
+        "- [ ] Write report <!-- todoist:1:aaa -->",
+        "- [x] Call client ✅ 2024-06-15 <!-- todoist:2:bbb -->",
+        "  - [x] Send invoice ✅ 2024-06-15 <!-- todoist:3:ccc -->",
+        "- [ ] Book venue <!-- todoist:4:ddd -->",
+        "",
+      ].join("\n"),
+    );
+    expect(result.archived).toEqual([]);
+
+    // Kept lines keep their date on the next sync
+    const again = ClosedTasks.apply(
+      result.content,
+      generated,
+      isOpen,
+      "check",
+      "2024-06-20",
+      "default",
+    );
+    expect(again.content).toBe(result.content);
+  });
+
+  it("should move closed tasks to a Completed section or hand them back for the archive", () => {
+    const section = ClosedTasks.apply(
+      previous,
+      generated,
+      isOpen,
+      "section",
+      "2024-06-15",
+      "dataview",
+    );
+    expect(section.content).toBe(`${generated}
+## ✅ Completed
+
+- [x] Call client [completion:: 2024-06-15] <!-- todoist:2:bbb -->
+- [x] Send invoice [completion:: 2024-06-15] <!-- todoist:3:ccc -->
+`);
+
+    const archive = ClosedTasks.apply(
+      previous,
+      generated,
+      isOpen,
+      "archive",
+      "2024-06-15",
+      "default",
+    );
+    expect(archive.content).toBe(generated);
+    expect(archive.archived).toEqual([
+      "- [x] Call client ✅ 2024-06-15 <!-- todoist:2:bbb -->",
+      "- [x] Send invoice ✅ 2024-06-15 <!-- todoist:3:ccc -->",
+    ]);
+    expect(ClosedTasks.isKept(archive.archived[0])).toBe(true);
+  });
+});
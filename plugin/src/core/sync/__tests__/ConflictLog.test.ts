@@ -0,0 +1,89 @@
+import type TodoistPlugin from "@/index";
+import { TFile } from "obsidian";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ConflictLog } from "../ConflictLog";
+import { ConflictResolution, ConflictType, type TaskSnapshot } from "../ConflictResolver";
+
+vi.mock("obsidian", () => ({
+  TFile: class TFile {},
+}));
+
+const obsidianVersion: TaskSnapshot = {
+  content: "Write final report",
+  priority: 1,
+  due: "2024-01-12",
+  duration: null,
+  recurring: null,
+  labels: ["work"],
+};
+
+const todoistVersion: TaskSnapshot = {
+  ...obsidianVersion,
+  content: "Write the report",
+  due: "2024-01-11",
+};
+
+const entry = {
+  todoistId: "1",
+  content: "Write final report",
+  obsidianFile: "📥 Inbox.md",
+  obsidianLine: 0,
+  conflictType: ConflictType.BOTH_MODIFIED,
+  resolution: ConflictResolution.MANUAL,
+  obsidianVersion,
+  todoistVersion,
+  kept: { content: "Write final report", due: "2024-01-11" },
+};
+
+describe("ConflictLog", () => {
+  let files: Map<string, string>;
+  let updateTask: ReturnType<typeof vi.fn>;
+  let log: ConflictLog;
+
+  beforeEach(() => {
+    files = new Map();
+    updateTask = vi.fn();
+
+    const vault = {
+      getAbstractFileByPath: (path: string) =>
+        files.has(path) ? Object.assign(new TFile(), { path }) : null,
+      read: async (file: { path: string }) => files.get(file.path) ?? "",
+      modify: async (file: { path: string }, content: string) => {
+        files.set(file.path, content);
+      },
+      create: async (path: string, content: string) => {
+        files.set(path, content);
+      },
+    };
+
+    log = new ConflictLog({
+      app: { vault },
+      services: { todoist: { actions: { updateTask } } },
+    } as unknown as TodoistPlugin);
+  });
+
+  it("should keep resolutions in the vault", async () => {
+    await log.record(entry);
+
+    expect([...files.keys()]).toEqual([
+      "📋 01-PRODUCTIVITY/todoist-integration/⚙️ System/Conflict Log.json",
+    ]);
+    expect(await log.recent()).toEqual([
+      expect.objectContaining({ todoistId: "1", kept: entry.kept }),
+    ]);
+  });
+
+  it("should revert a resolution by applying the discarded values to Todoist", async () => {
+    await log.record(entry);
+    const [recorded] = await log.recent();
+
+    const reverted = await log.revert(recorded.id);
+
+    expect(updateTask).toHaveBeenCalledWith("1", {
+      content: "Write the report",
+      dueDate: "2024-01-12",
+    });
+    expect(reverted.revertedAt).toBeDefined();
+    await expect(log.revert(recorded.id)).rejects.toThrow("already reverted");
+  });
+});
@@ -0,0 +1,104 @@
+import type { Task } from '@/data/task';
+import { describe, expect, it, vi } from 'vitest';
+
+import { ConflictResolution, ConflictResolver, type TaskConflict, type TaskSnapshot } from '../ConflictResolver';
+import { TaskFormatter } from '../TaskFormatter';
+
+vi.mock('obsidian', () => ({
+  Notice: vi.fn(),
+}));
+
+const base: TaskSnapshot = {
+  content: 'Write report',
+  priority: 1,
+  due: '2024-01-10',
+  duration: null,
+  recurring: null,
+  labels: ['work'],
+};
+
+describe('ConflictResolver', () => {
+  describe('Three-Way Merge', () => {
+    it('should take fields changed on one side from that side', () => {
+      const obsidian = { ...base, content: 'Write final report' };
+      const todoist = { ...base, priority: 4, labels: ['focus', 'work'] };
+
+      expect(ConflictResolver.mergeFields(base, obsidian, todoist)).toEqual({
+        obsidianFields: ['content'],
+        todoistFields: ['priority', 'labels'],
+        conflicts: [],
+      });
+    });
+
+    it('should only report fields changed on both sides as conflicts', () => {
+      const obsidian = { ...base, due: '2024-01-12', priority: 3 };
+      const todoist = { ...base, due: '2024-01-11', priority: 3 };
+
+      expect(ConflictResolver.mergeFields(base, obsidian, todoist).conflicts).toEqual([
+        { field: 'due', base: '2024-01-10', obsidian: '2024-01-12', todoist: '2024-01-11' },
+      ]);
+    });
+
+    it('should keep the base priority for lines without a priority', () => {
+      const line = { content: 'Write report', priority: null, dueDate: '2024-01-10', duration: null, recurring: null, labels: ['work'] };
+
+      expect(ConflictResolver.snapshotLine(line, { ...base, priority: 3 }).priority).toBe(3);
+    });
+
+    it('should not take the due time of timed tasks for an edit', () => {
+      const task = {
+        id: '1',
+        content: 'Call mom',
+        description: '',
+        priority: 1,
+        due: { date: '2024-05-27', datetime: '2024-05-27T10:00:00', isRecurring: false, string: 'may 27 10am' },
+        labels: [],
+        project: { id: 'inbox', name: 'Inbox' },
+        order: 1,
+      } as unknown as Task;
+      const todoist = ConflictResolver.snapshotTask(task);
+
+      for (const format of ['tasks', 'dataview'] as const) {
+        const parsed = TaskFormatter.parseTaskLine(TaskFormatter.formatTaskAsMarkdown(task, true, format).split('\n')[0]);
+        const obsidian = ConflictResolver.snapshotLine(parsed as NonNullable<typeof parsed>, todoist);
+
+        expect(obsidian.due).toBe('2024-05-27T10:00:00');
+        expect(ConflictResolver.mergeFields(todoist, obsidian, todoist).obsidianFields).toEqual([]);
+      }
+
+      // Snapshots written before due times were kept only hold the day
+      const earlier = { ...todoist, due: '2024-05-27' };
+      expect(ConflictResolver.mergeFields(earlier, earlier, todoist)).toMatchObject({ obsidianFields: [], todoistFields: [] });
+    });
+  });
+
+  describe('Resolutions', () => {
+    const conflict = {
+      fields: [
+        { field: 'due', base: '2024-01-10', obsidian: '2024-01-12', todoist: '2024-01-11' },
+        { field: 'labels', base: ['work'], obsidian: ['errand'], todoist: ['focus'] },
+      ],
+    } as TaskConflict;
+
+    it('should combine both sides when merging', () => {
+      expect(ConflictResolver.resolveFields(conflict, ConflictResolution.MERGE)).toEqual({
+        due: '2024-01-11',
+        labels: ['errand', 'focus'],
+      });
+    });
+
+    it('should take each field from its own side when resolved per field', () => {
+      expect(ConflictResolver.resolveFields(conflict, ConflictResolution.MANUAL, {
+        due: ConflictResolution.TODOIST_WINS,
+        labels: ConflictResolution.OBSIDIAN_WINS,
+      })).toEqual({
+        due: '2024-01-11',
+        labels: ['errand'],
+      });
+    });
+
+    it('should leave skipped conflicts unresolved', () => {
+      expect(ConflictResolver.resolveFields(conflict, ConflictResolution.SKIP)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import type TodoistPlugin from "@/index";
+import { useSettingsStore } from "@/settings";
+import { TFile } from "obsidian";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FileChangeWatcher } from "../FileChangeWatcher";
+import { OwnWrites } from "../OwnWrites";
+
+vi.mock("obsidian", () => ({
+  Notice: vi.fn(),
+  TFile: class TFile {},
+}));
+
+const push = vi.fn();
+
+vi.mock("../FileSyncManager", () => ({
+  FileSyncManager: class {
+    shouldSyncFile(path: string) {
+      return path.startsWith("Todoist/") && !path.startsWith("Todoist/System/");
+    }
+
+    syncObsidianChangesToTodoist(skipConflictDetection: boolean, onlyFiles: string[]) {
+      push(skipConflictDetection, onlyFiles);
+      return { completed: 1, updated: 0, created: 0, queued: 0, errors: [] };
+    }
+  },
+}));
+
+describe("FileChangeWatcher", () => {
+  let contents: Map<string, string>;
+  let modify: (file: TFile) => void;
+
+  const fileAt = (path: string) => Object.assign(new TFile(), { path, extension: "md" });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    push.mockClear();
+    contents = new Map();
+    useSettingsStore.setState({ enableBidirectionalSync: true, syncLatencyTarget: 5000 });
+
+    const plugin = {
+      app: {
+        vault: {
+          on: (_event: string, callback: (file: TFile) => void) => {
+            modify = callback;
+          },
+          read: async (file: TFile) => contents.get(file.path) ?? "",
+          modify: async (file: TFile, content: string) => contents.set(file.path, content),
+        },
+      },
+      registerEvent: vi.fn(),
+      register: vi.fn(),
+    } as unknown as TodoistPlugin;
+
+    new FileChangeWatcher(plugin).register();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should push each edited file once it settles, within the latency target", async () => {
+    const inbox = fileAt("Todoist/Inbox.md");
+    contents.set(inbox.path, "- [x] Plan trip");
+
+    // Keeps changing every half second for six seconds
+    for (let i = 0; i < 12; i++) {
+      modify(inbox);
+      await vi.advanceTimersByTimeAsync(500);
+    }
+    modify(fileAt("Todoist/System/Sync Status.md"));
+
+    expect(push).toHaveBeenCalledTimes(1); // Once the latency target was reached
+    expect(push).toHaveBeenCalledWith(true, ["Todoist/Inbox.md"]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(push).toHaveBeenCalledTimes(2); // Once the later changes settled
+  });
+
+  it("should ignore files holding the plugin's own writes", async () => {
+    const inbox = fileAt("Todoist/Inbox.md");
+    await OwnWrites.modify(
+      { modify: async (file: TFile, content: string) => contents.set(file.path, content) } as never,
+      inbox,
+      "- [ ] Plan trip",
+    );
+
+    modify(inbox);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(push).not.toHaveBeenCalled();
+
+    contents.set(inbox.path, "- [x] Plan trip");
+    modify(inbox);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(push).toHaveBeenCalledWith(true, ["Todoist/Inbox.md"]);
+  });
+});
@@ -0,0 +1,442 @@
+import type { CommandBatch, SyncCommand } from "@/api/commands";
+import type { Project } from "@/api/domain/project";
+import type { Section } from "@/api/domain/section";
+import type { Priority } from "@/api/domain/task";
+import type { Delivery } from "@/data/outbox";
+import type { Task } from "@/data/task";
+import type TodoistPlugin from "@/index";
+import { TFile, TFolder } from "obsidian";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ConflictResolver } from "../ConflictResolver";
+import { FileSyncManager } from "../FileSyncManager";
+import { TaskFormatter } from "../TaskFormatter";
+import { TaskHash } from "../TaskHash";
+
+vi.mock("obsidian", () => ({
+  Notice: vi.fn(),
+  TFile: class TFile {},
+  TFolder: class TFolder {},
+  Modal: class Modal {},
+}));
+
+const basePath = "📋 01-PRODUCTIVITY/todoist-integration";
+
+const inbox: Project = {
+  id: "inbox",
+  parentId: null,
+  name: "Inbox",
+  order: 0,
+  isInboxProject: true,
+  color: "grey",
+};
+const work: Project = {
+  id: "work",
+  parentId: null,
+  name: "Work",
+  order: 1,
+  isInboxProject: false,
+  color: "blue",
+};
+const planning: Section = { id: "planning", projectId: "work", name: "Planning", order: 0 };
+
+const makeTask = (overrides: Partial<Task>): Task => ({
+  id: "1",
+  createdAt: "2024-05-26T10:00:00Z",
+  content: "Task",
+  description: "",
+  project: inbox,
+  section: undefined,
+  parentId: undefined,
+  labels: [],
+  priority: 1,
+  due: undefined,
+  duration: undefined,
+  order: 1,
+  ...overrides,
+});
+
+// The arguments of the item commands these tests apply, as `CommandBatch` writes them
+type ItemArgs = {
+  id?: string;
+  content?: string;
+  priority?: Priority;
+  project_id?: string;
+  section_id?: string;
+  parent_id?: string;
+  labels?: string[];
+};
+
+const firstLine = (task: Task) => TaskFormatter.formatTaskAsMarkdown(task, true).split("\n")[0];
+
+describe("FileSyncManager Obsidian → Todoist write-back", () => {
+  let files: Map<string, string>;
+  let todoistTasks: Task[];
+  let actions: { executeCommands: ReturnType<typeof vi.fn> };
+  let sent: SyncCommand[];
+  let resolvedIds: Map<string, string>;
+  let manager: FileSyncManager;
+  let nextId: number;
+
+  const makeFile = (path: string) => Object.assign(new TFile(), { path, extension: "md" });
+
+  // Records a task as synced, the way writing its line does
+  const seedSnapshot = (task: Task) => {
+    files.set(
+      `${basePath}/⚙️ System/Task Mappings.json`,
+      JSON.stringify({
+        mappings: [
+          {
+            todoistId: task.id,
+            obsidianFile: "📥 Inbox.md",
+            obsidianLineNumber: 0,
+            checksum: TaskFormatter.calculateTaskHash(task),
+            snapshot: ConflictResolver.snapshotTask(task),
+          },
+        ],
+      }),
+    );
+  };
+
+  const buildTree = () => {
+    const root = Object.assign(new TFolder(), { path: basePath, children: [] as unknown[] });
+    for (const path of files.keys()) {
+      if (path.endsWith(".md")) {
+        root.children.push(makeFile(path));
+      }
+    }
+    return root;
+  };
+
+  beforeEach(() => {
+    files = new Map();
+    todoistTasks = [];
+    nextId = 100;
+
+    sent = [];
+    resolvedIds = new Map();
+
+    // Applies commands to `todoistTasks` the way the Sync API would
+    actions = {
+      executeCommands: vi.fn(async (batch: CommandBatch): Promise<Delivery> => {
+        const results: Delivery = {
+          statuses: new Map(),
+          tempIdMapping: new Map(),
+          queued: new Set(),
+        };
+        for (const command of batch.commands) {
+          sent.push(command);
+          const args = command.args as ItemArgs;
+          if (command.type === "item_add") {
+            const id = String(nextId++);
+            results.tempIdMapping.set(command.temp_id ?? "", id);
+            todoistTasks.push(
+              makeTask({
+                id,
+                content: args.content ?? "",
+                priority: args.priority ?? 1,
+                project: args.project_id === "work" ? work : inbox,
+                section: args.section_id === "planning" ? planning : undefined,
+                parentId:
+                  (args.parent_id && results.tempIdMapping.get(args.parent_id)) || args.parent_id,
+                labels: (args.labels ?? []).map((name) => ({ id: name, name, color: "grey" })),
+              }),
+            );
+          } else if (command.type === "item_update") {
+            todoistTasks = todoistTasks.map((t) =>
+              t.id === args.id
+                ? {
+                    ...t,
+                    ...(args.content ? { content: args.content } : {}),
+                    ...(args.priority ? { priority: args.priority } : {}),
+                  }
+                : t,
+            );
+          }
+          results.statuses.set(command.uuid, { ok: true });
+        }
+        return results;
+      }),
+    };
+
+    const vault = {
+      getAbstractFileByPath: vi.fn((path: string) => {
+        if (path === basePath) return buildTree();
+        return files.has(path) ? makeFile(path) : null;
+      }),
+      read: vi.fn(async (file: { path: string }) => files.get(file.path) ?? ""),
+      modify: vi.fn(async (file: { path: string }, content: string) => {
+        files.set(file.path, content);
+      }),
+      create: vi.fn(async (path: string, content: string) => {
+        files.set(path, content);
+      }),
+      createFolder: vi.fn(),
+    };
+
+    const plugin = {
+      app: { vault },
+      services: {
+        todoist: {
+          actions,
+          isReady: () => true,
+          retryPending: vi.fn(),
+          resolveQueuedId: (tempId: string) => resolvedIds.get(tempId),
+          sync: vi.fn(),
+          fetchChanges: vi.fn(),
+          tasks: () => todoistTasks,
+          data: () => ({
+            projects: {
+              iter: () => [inbox, work].values(),
+              byId: (id: string) => [inbox, work].find((p) => p.id === id),
+            },
+            sections: { iter: () => [planning].values(), byId: () => planning },
+            labels: { iter: () => [].values(), byId: () => undefined },
+          }),
+        },
+      },
+    } as unknown as TodoistPlugin;
+
+    manager = new FileSyncManager(plugin);
+  });
+
+  it("pushes content and priority edits made in Obsidian", async () => {
+    const task = makeTask({ id: "1", content: "Write report", priority: 2 });
+    todoistTasks = [task];
+    const edited = firstLine(task)
+      .replace("Write report", "Write final report")
+      .replace("🔵", "🟡");
+    files.set(`${basePath}/📥 Inbox.md`, `# Inbox\n\n${edited}\n`);
+
+    const result = await manager.syncObsidianChangesToTodoist();
+
+    expect(actions.executeCommands).toHaveBeenCalledTimes(1);
+    expect(sent).toEqual([
+      expect.objectContaining({
+        type: "item_update",
+        args: { id: "1", content: "Write final report", priority: 3 },
+      }),
+    ]);
+    expect(result.updated).toBe(1);
+    expect(result.created).toBe(0);
+    expect(result.errors).toEqual([]);
+  });
+
+  it("does not push lines that only differ because Todoist changed", async () => {
+    const task = makeTask({ id: "1", content: "Write report" });
+    files.set(`${basePath}/📥 Inbox.md`, `${firstLine(task)}\n`);
+    todoistTasks = [{ ...task, content: "Renamed in Todoist" }];
+
+    const result = await manager.syncObsidianChangesToTodoist();
+
+    expect(actions.executeCommands).not.toHaveBeenCalled();
+    expect(result.updated).toBe(0);
+  });
+
+  it("pushes edits when Todoist only changed fields that are not on the line", async () => {
+    const task = makeTask({ id: "1", content: "Write report" });
+    const edited = firstLine(task).replace("Write report", "Write final report");
+    files.set(`${basePath}/📥 Inbox.md`, `${edited}\n`);
+    todoistTasks = [{ ...task, description: "Added in Todoist", order: 7 }];
+
+    const result = await manager.syncObsidianChangesToTodoist();
+
+    expect(sent).toEqual([
+      expect.objectContaining({
+        type: "item_update",
+        args: { id: "1", content: "Write final report" },
+      }),
+    ]);
+    expect(result.updated).toBe(1);
+  });
+
+  it("merges fields changed on one side only using the snapshot of the last sync", async () => {
+    const task = makeTask({ id: "1", content: "Write report" });
+    seedSnapshot(task);
+    files.set(
+      `${basePath}/📥 Inbox.md`,
+      `${firstLine(task).replace("Write report", "Write final report")}\n`,
+    );
+    todoistTasks = [{ ...task, priority: 4 }];
+
+    const result = await manager.syncObsidianChangesToTodoist();
+
+    expect(sent).toEqual([
+      expect.objectContaining({
+        type: "item_update",
+        args: { id: "1", content: "Write final report" },
+      }),
+    ]);
+    expect(result.updated).toBe(1);
+    expect(files.get(`${basePath}/📥 Inbox.md`)).toBe(
+      `${firstLine({ ...task, content: "Write final report", priority: 4 })}\n`,
+    );
+  });
+
+  it("leaves fields changed on both sides for the user to resolve", async () => {
+    const task = makeTask({ id: "1", content: "Write report" });
+    seedSnapshot(task);
+    const line = firstLine(task).replace("Write report", "Write final report");
+    files.set(`${basePath}/📥 Inbox.md`, `${line}\n`);
+    todoistTasks = [{ ...task, content: "Write the report" }];
+
+    const result = await manager.syncObsidianChangesToTodoist(true);
+
+    expect(actions.executeCommands).not.toHaveBeenCalled();
+    expect(result.conflicts).toBe(1);
+    expect(files.get(`${basePath}/📥 Inbox.md`)).toBe(`${line}\n`);
+  });
+
+  it("migrates hashes written by earlier versions", async () => {
+    const task = makeTask({ id: "1", content: "Write report" });
+    todoistTasks = [task];
+    files.set(
+      `${basePath}/📥 Inbox.md`,
+      `- [ ] Write final report <!-- todoist:1:${TaskHash.legacyHash(task)} -->\n`,
+    );
+
+    const result = await manager.syncObsidianChangesToTodoist();
+
+    expect(sent).toEqual([
+      expect.objectContaining({
+        type: "item_update",
+        args: { id: "1", content: "Write final report" },
+      }),
+    ]);
+    expect(result.updated).toBe(1);
+    expect(files.get(`${basePath}/📥 Inbox.md`)).toBe(
+      `- [ ] Write final report <!-- todoist:1:${TaskFormatter.calculateTaskHash({ ...task, content: "Write final report" })} -->\n`,
+    );
+  });
+
+  it("creates new lines in the project and section they were written under", async () => {
+    const projectFile = `${basePath}/🗂️ Projects/Work.md`;
+    files.set(projectFile, "# 🗂️ Work\n\n## 📂 Planning (1)\n\n- [ ] Draft roadmap 🔴 #focus\n");
+
+    const result = await manager.syncObsidianChangesToTodoist();
+
+    expect(sent[0]).toMatchObject({
+      type: "item_add",
+      args: {
+        content: "Draft roadmap",
+        priority: 4,
+        project_id: "work",
+        section_id: "planning",
+        labels: ["focus"],
+      },
+    });
+    expect(result.created).toBe(1);
+    expect(files.get(projectFile)).toMatch(
+      /- \[ \] Draft roadmap 🔴 #focus <!-- todoist:100:[a-z0-9]+ -->/,
+    );
+  });
+
+  it("creates indented lines as subtasks of the task above", async () => {
+    files.set(`${basePath}/📥 Inbox.md`, "- [ ] Plan trip\n  - [ ] Book hotel\n");
+
+    const result = await manager.syncObsidianChangesToTodoist();
+
+    expect(result.created).toBe(2);
+    expect(actions.executeCommands).toHaveBeenCalledTimes(1);
+    expect(sent[1]).toMatchObject({
+      type: "item_add",
+      args: { content: "Book hotel", project_id: "inbox", parent_id: sent[0].temp_id },
+    });
+    const content = files.get(`${basePath}/📥 Inbox.md`) ?? "";
+    expect(content).toContain("  - [ ] Book hotel <!-- todoist:101:");
+  });
+
+  it("reports failed commands as errors without dropping the rest of the batch", async () => {
+    const task = makeTask({ id: "1", content: "Write report" });
+    todoistTasks = [task];
+    files.set(
+      `${basePath}/📥 Inbox.md`,
+      `${firstLine(task).replace("Write report", "Write final report")}\n- [ ] Call mom\n`,
+    );
+
+    const apply = actions.executeCommands.getMockImplementation();
+    actions.executeCommands.mockImplementationOnce(async (batch: CommandBatch) => {
+      const results = (await apply?.(batch)) as Delivery;
+      for (const command of batch.commands.filter((c) => c.type === "item_add")) {
+        results.statuses.set(command.uuid, { ok: false, error: "Invalid argument value" });
+      }
+      return results;
+    });
+
+    const result = await manager.syncObsidianChangesToTodoist();
+
+    expect(result.updated).toBe(1);
+    expect(result.created).toBe(0);
+    expect(result.errors).toEqual(['Failed to create task "Call mom": Invalid argument value']);
+    expect(files.get(`${basePath}/📥 Inbox.md`)).toContain("\n- [ ] Call mom\n");
+  });
+
+  it("reports a failed request once for the whole batch", async () => {
+    actions.executeCommands.mockRejectedValueOnce(new Error("Network error"));
+    files.set(`${basePath}/📥 Inbox.md`, "- [ ] Call mom\n- [ ] Buy milk\n");
+
+    const result = await manager.syncObsidianChangesToTodoist();
+
+    expect(result.created).toBe(0);
+    expect(result.errors).toEqual(["Failed to send 2 changes to Todoist: Error: Network error"]);
+    expect(files.get(`${basePath}/📥 Inbox.md`)).toBe("- [ ] Call mom\n- [ ] Buy milk\n");
+  });
+
+  it("plans changes in a dry run without sending them or writing files", async () => {
+    const task = makeTask({ id: "1", content: "Write report" });
+    todoistTasks = [task];
+    const content = `${firstLine(task).replace("Write report", "Write final report")}\n- [ ] Call mom\n`;
+    files.set(`${basePath}/📥 Inbox.md`, content);
+
+    const result = await manager.syncObsidianChangesToTodoist(false, undefined, { dryRun: true });
+
+    expect(actions.executeCommands).not.toHaveBeenCalled();
+    expect(result.plan).toEqual([
+      expect.objectContaining({
+        action: "update",
+        outcome: "planned",
+        todoistId: "1",
+        content: "Write final report",
+      }),
+      expect.objectContaining({
+        action: "create",
+        outcome: "planned",
+        content: "Call mom",
+        line: 2,
+      }),
+    ]);
+    expect(files.get(`${basePath}/📥 Inbox.md`)).toBe(content);
+    expect(files.has(`${basePath}/⚙️ System/Sync Journal.json`)).toBe(false);
+  });
+
+  it("marks creates queued while offline with their temporary ID and resolves it later", async () => {
+    actions.executeCommands.mockImplementationOnce(
+      async (batch: CommandBatch): Promise<Delivery> => {
+        sent.push(...batch.commands);
+        return {
+          statuses: new Map(),
+          tempIdMapping: new Map(),
+          queued: new Set(batch.commands.map((c) => c.uuid)),
+        };
+      },
+    );
+    const inboxFile = `${basePath}/📥 Inbox.md`;
+    files.set(inboxFile, "- [ ] Call mom\n");
+
+    const offline = await manager.syncObsidianChangesToTodoist();
+
+    const tempId = sent[0].temp_id ?? "";
+    expect(offline.queued).toBe(1);
+    expect(offline.created).toBe(0);
+    expect(files.get(inboxFile)).toBe(`- [ ] Call mom <!-- todoist:${tempId} -->\n`);
+
+    // The outbox delivered the create once the network came back
+    todoistTasks = [makeTask({ id: "100", content: "Call mom" })];
+    resolvedIds.set(tempId, "100");
+
+    const online = await manager.syncObsidianChangesToTodoist();
+
+    expect(online.created).toBe(0);
+    expect(actions.executeCommands).toHaveBeenCalledTimes(1);
+    expect(files.get(inboxFile)).toMatch(/- \[ \] Call mom <!-- todoist:100:[a-z0-9]+ -->/);
+  });
+});
@@ -0,0 +1,129 @@
+import type { Task } from "@/data/task";
+import type TodoistPlugin from "@/index";
+import { describe, expect, it, vi } from "vitest";
+
+import { type PlannedLine, SafeSyncStrategy } from "../SafeSyncStrategy";
+import { TaskFormatter } from "../TaskFormatter";
+
+vi.mock("obsidian", () => ({
+  Notice: vi.fn(),
+  TFile: class TFile {},
+}));
+
+const makeTask = (overrides: Partial<Task>): Task => ({
+  id: "1",
+  createdAt: "2024-05-26T10:00:00Z",
+  content: "Task",
+  description: "",
+  project: {
+    id: "inbox",
+    parentId: null,
+    name: "Inbox",
+    order: 0,
+    isInboxProject: true,
+    color: "grey",
+  },
+  section: undefined,
+  parentId: undefined,
+  labels: [],
+  priority: 1,
+  due: undefined,
+  duration: undefined,
+  order: 1,
+  ...overrides,
+});
+
+// Reads the lines of a file the way a sync preview does
+const readLines = (filePath: string, content: string): PlannedLine[] =>
+  content.split("\n").flatMap((line, lineNumber) => {
+    const parsed = TaskFormatter.parseTaskLine(line);
+    const hash = TaskFormatter.extractTodoistMetadata(line)?.hash ?? null;
+    return parsed ? [{ ...parsed, filePath, lineNumber, hash }] : [];
+  });
+
+const written = (task: Task) => TaskFormatter.formatTaskAsMarkdown(task, true).split("\n")[0];
+
+describe("SafeSyncStrategy", () => {
+  const strategy = new SafeSyncStrategy({} as TodoistPlugin);
+
+  describe("Sync Preview", () => {
+    it("should plan safe edits, completions and new tasks of a push", () => {
+      const report = makeTask({ id: "1", content: "Write report" });
+      const milk = makeTask({ id: "2", content: "Buy milk" });
+      const lines = readLines(
+        "Inbox.md",
+        [
+          written(report).replace("Write report", "Write the final report"),
+          written(milk).replace("- [ ]", "- [x]"),
+          "- [ ] Call mom",
+        ].join("\n"),
+      );
+
+      expect(strategy.previewSync("push", lines, [report, milk])).toEqual([
+        {
+          action: "complete",
+          outcome: "planned",
+          todoistId: "2",
+          content: "Buy milk",
+          file: "Inbox.md",
+          line: 2,
+        },
+        {
+          action: "update",
+          outcome: "planned",
+          todoistId: "1",
+          content: "Write the final report",
+          file: "Inbox.md",
+          line: 1,
+          fields: ["content"],
+        },
+        { action: "create", outcome: "planned", content: "Call mom", file: "Inbox.md", line: 3 },
+      ]);
+    });
+
+    it("should hold back edits of tasks changed in Todoist too as conflicts", () => {
+      const task = makeTask({ id: "1", content: "Write report" });
+      const lines = readLines(
+        "Inbox.md",
+        written(task).replace("Write report", "Write the final report"),
+      );
+
+      expect(strategy.previewSync("push", lines, [{ ...task, priority: 4 }])).toEqual([
+        expect.objectContaining({ action: "conflict", todoistId: "1", fields: ["content"] }),
+      ]);
+    });
+
+    it("should plan the lines and files a pull rewrites", () => {
+      const changed = makeTask({ id: "1", content: "Write report" });
+      const unchanged = makeTask({ id: "2", content: "Buy milk" });
+      const lines = readLines(
+        "Inbox.md",
+        [written(changed), written(unchanged), written(makeTask({ id: "3" }))].join("\n"),
+      );
+      const added = makeTask({ id: "4", content: "Call mom" });
+
+      expect(
+        strategy.previewSync("pull", lines, [{ ...changed, priority: 4 }, unchanged, added]),
+      ).toEqual([
+        {
+          action: "change",
+          outcome: "planned",
+          todoistId: "1",
+          content: "Write report",
+          file: "Inbox.md",
+          line: 1,
+        },
+        {
+          action: "remove",
+          outcome: "planned",
+          todoistId: "3",
+          content: "Task",
+          file: "Inbox.md",
+          line: 3,
+        },
+        { action: "add", outcome: "planned", todoistId: "4", content: "Call mom" },
+        { action: "write", outcome: "planned", file: "Inbox.md" },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import type TodoistPlugin from "@/index";
+import { TFile } from "obsidian";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { SyncJournal } from "../SyncJournal";
+
+vi.mock("obsidian", () => ({
+  TFile: class TFile {},
+}));
+
+describe("SyncJournal", () => {
+  let files: Map<string, string>;
+  let journal: SyncJournal;
+
+  beforeEach(() => {
+    files = new Map();
+
+    const vault = {
+      getAbstractFileByPath: (path: string) =>
+        files.has(path) ? Object.assign(new TFile(), { path }) : null,
+      read: async (file: { path: string }) => files.get(file.path) ?? "",
+      modify: async (file: { path: string }, content: string) => files.set(file.path, content),
+      create: async (path: string, content: string) => files.set(path, content),
+    };
+
+    journal = new SyncJournal({ app: { vault } } as unknown as TodoistPlugin);
+  });
+
+  it("should keep the most recent runs, newest first", async () => {
+    for (let i = 0; i < 102; i++) {
+      const run = journal.begin("schedule", "pull");
+      run.operations.push({ action: "write", outcome: "done", file: `File ${i}.md` });
+      await journal.finish(run);
+    }
+
+    const runs = await journal.recent();
+
+    expect(runs).toHaveLength(100);
+    expect(runs[0].operations[0].file).toBe("File 101.md");
+    expect(runs[99].operations[0].file).toBe("File 2.md");
+  });
+
+  it("should filter runs down to the operations on a task or file", async () => {
+    const push = journal.begin("file-change", "push");
+    push.operations.push(
+      {
+        action: "complete",
+        outcome: "done",
+        todoistId: "1",
+        content: "Plan trip",
+        file: "Todoist/📥 Inbox.md",
+        line: 3,
+      },
+      {
+        action: "update",
+        outcome: "queued",
+        todoistId: "2",
+        content: "Book hotel",
+        file: "Todoist/Travel.md",
+        line: 5,
+        fields: ["due"],
+      },
+    );
+    await journal.finish(push);
+
+    const pull = journal.begin("schedule", "pull");
+    pull.operations.push({ action: "write", outcome: "done", file: "Todoist/📥 Inbox.md" });
+    await journal.finish(pull);
+
+    const runs = await journal.recent();
+
+    expect(
+      SyncJournal.filter(runs, "plan TRIP").map((run) => run.operations.map((op) => op.todoistId)),
+    ).toEqual([["1"]]);
+    expect(SyncJournal.filter(runs, "inbox").map((run) => run.direction)).toEqual(["pull", "push"]);
+    expect(SyncJournal.filter(runs, "")).toHaveLength(2);
+  });
+});
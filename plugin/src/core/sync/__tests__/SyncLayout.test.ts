@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+
+import { SyncLayout } from "../SyncLayout";
+
+const defaultBase = "📋 01-PRODUCTIVITY/todoist-integration";
+
+describe("SyncLayout", () => {
+  describe("Default Layout", () => {
+    it("should keep the paths used before layouts were configurable", () => {
+      const layout = new SyncLayout();
+
+      expect(layout.inboxPath).toBe(`${defaultBase}/📥 Inbox.md`);
+      expect(layout.mappingFilePath).toBe(`${defaultBase}/⚙️ System/Task Mappings.json`);
+      expect(layout.labelPath("errand")).toBe(`${defaultBase}/🏷️ Labels/errand.md`);
+      expect(layout.projectPath("Personal", [], true)).toBe(
+        `${defaultBase}/🗂️ Projects/Personal/Personal.md`,
+      );
+      expect(layout.projectPath("Health", ["Personal"])).toBe(
+        `${defaultBase}/🗂️ Projects/Personal/Health.md`,
+      );
+    });
+
+    it("should only sync files outside the System and Local folders", () => {
+      const layout = new SyncLayout();
+
+      expect(layout.isSyncedFile(`${defaultBase}/📥 Inbox.md`)).toBe(true);
+      expect(layout.isSyncedFile(`${defaultBase}/⚙️ System/Sync Status.md`)).toBe(false);
+      expect(layout.isSyncedFile(`${defaultBase}/📁 Local/Notes.md`)).toBe(false);
+      expect(layout.isSyncedFile(`${defaultBase}/TODOIST-SPEC.md`)).toBe(false);
+      expect(layout.isSyncedFile("Daily/2024-01-10.md")).toBe(false);
+    });
+  });
+
+  describe("Custom Layout", () => {
+    const layout = new SyncLayout({
+      baseFolder: "/Tasks/",
+      inboxFile: "Inbox.md",
+      projectFile: "Projects",
+      labelFile: "Contexts/@{{label}}",
+      nestSubprojects: false,
+    });
+
+    it("should normalize folders and file templates", () => {
+      expect(layout.inboxPath).toBe("Tasks/Inbox.md");
+      expect(layout.projectPath("Health", ["Personal"], true)).toBe("Tasks/Projects/Health.md");
+      expect(layout.folders).toEqual([
+        "Tasks/Projects",
+        "Tasks/Contexts",
+        "Tasks/⚙️ System",
+        "Tasks/📁 Local",
+      ]);
+    });
+
+    it("should find the label of a label file", () => {
+      expect(layout.labelNameFromPath("Tasks/Contexts/@errand.md")).toBe("errand");
+      expect(layout.labelNameFromPath("Tasks/Projects/errand.md")).toBeNull();
+    });
+
+    it("should not emit label files when they are turned off", () => {
+      const withoutLabels = new SyncLayout({ labelFiles: false });
+
+      expect(withoutLabels.labelPath("errand")).toBeNull();
+      expect(withoutLabels.folders).not.toContain(`${defaultBase}/🏷️ Labels`);
+    });
+  });
+
+  describe("Layout Migration", () => {
+    it("should plan moves for files whose path changed", () => {
+      const previous = new SyncLayout();
+      const next = new SyncLayout({ baseFolder: "Tasks", nestSubprojects: false });
+
+      const moves = previous.planMoves(next, {
+        projects: [{ name: "Health", ancestors: ["Personal"], hasSubprojects: false }],
+        labels: ["errand"],
+      });
+
+      expect(moves).toContainEqual({
+        from: `${defaultBase}/⚙️ System`,
+        to: "Tasks/⚙️ System",
+      });
+      expect(moves).toContainEqual({
+        from: `${defaultBase}/🗂️ Projects/Personal/Health.md`,
+        to: "Tasks/🗂️ Projects/Health.md",
+      });
+      expect(moves).toContainEqual({
+        from: `${defaultBase}/🏷️ Labels/errand.md`,
+        to: "Tasks/🏷️ Labels/errand.md",
+      });
+    });
+
+    it("should not move anything when the layout is unchanged", () => {
+      const layout = new SyncLayout();
+
+      expect(layout.planMoves(new SyncLayout(), { projects: [], labels: ["errand"] })).toEqual([]);
+      expect(layout.equals(new SyncLayout())).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { isSyncRunning, withSyncLock } from "../SyncLock";
+import { useSyncStatusStore } from "../SyncStatus";
+
+describe("SyncLock", () => {
+  it("should run syncs one at a time, in the order they were started", async () => {
+    const events: string[] = [];
+    let finishPush: () => void = () => {};
+
+    const push = withSyncLock(async () => {
+      events.push("push started");
+      await new Promise<void>((resolve) => {
+        finishPush = resolve;
+      });
+      events.push("push finished");
+    });
+    const pull = withSyncLock(async () => {
+      events.push("pull started");
+      return "pulled";
+    });
+
+    await Promise.resolve();
+    expect(events).toEqual(["push started"]);
+    expect(isSyncRunning()).toBe(true);
+    expect(useSyncStatusStore.getState().running).toBe(true);
+
+    finishPush();
+    await push;
+    expect(await pull).toBe("pulled");
+    expect(events).toEqual(["push started", "push finished", "pull started"]);
+    expect(isSyncRunning()).toBe(false);
+    expect(useSyncStatusStore.getState().running).toBe(false);
+  });
+
+  it("should release the lock when a sync fails", async () => {
+    await expect(
+      withSyncLock(async () => {
+        throw new Error("Offline");
+      }),
+    ).rejects.toThrow("Offline");
+
+    expect(isSyncRunning()).toBe(false);
+    await expect(withSyncLock(async () => "next")).resolves.toBe("next");
+  });
+});
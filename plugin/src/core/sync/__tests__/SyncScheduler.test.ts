@@ -0,0 +1,99 @@
+import type TodoistPlugin from "@/index";
+import { defaultBackgroundSync, useSettingsStore } from "@/settings";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { withSyncLock } from "../SyncLock";
+import { SyncScheduler } from "../SyncScheduler";
+import { useSyncStatusStore } from "../SyncStatus";
+
+vi.mock("obsidian", () => ({
+  Notice: vi.fn(),
+}));
+
+const calls: string[] = [];
+
+vi.mock("../FileSyncManager", () => ({
+  FileSyncManager: class {
+    async initializeDirectoryStructure() {}
+
+    async syncObsidianChangesToTodoist(skipConflictDetection: boolean) {
+      calls.push(`push${skipConflictDetection ? " (skip conflicts)" : ""}`);
+      return { errors: [] };
+    }
+
+    async syncIncrementally(options: { silent?: boolean }) {
+      calls.push(`pull${options.silent ? " (silent)" : ""}`);
+      return { errors: ["Rate limited"] };
+    }
+  },
+}));
+
+const MINUTE = 60 * 1000;
+
+describe("SyncScheduler", () => {
+  let scheduler: SyncScheduler;
+  let start: number;
+
+  beforeEach(() => {
+    calls.length = 0;
+    start = Date.now();
+    useSettingsStore.setState({
+      backgroundSync: { ...defaultBackgroundSync, enabled: true, intervalMinutes: 5 },
+    });
+    useSyncStatusStore.setState({ lastError: null, pausedReason: null, running: false });
+
+    const plugin = {
+      services: { todoist: { isReady: () => true } },
+    } as unknown as TodoistPlugin;
+    scheduler = new SyncScheduler(plugin);
+  });
+
+  afterEach(() => {
+    Object.defineProperty(navigator, "connection", { value: undefined, configurable: true });
+  });
+
+  it("should push and then pull once per interval, reporting errors", async () => {
+    await scheduler.tick(start);
+    await scheduler.tick(start + 3 * MINUTE);
+
+    expect(calls).toEqual(["push (skip conflicts)", "pull (silent)"]);
+    expect(useSyncStatusStore.getState()).toMatchObject({
+      lastError: "Rate limited",
+      running: false,
+    });
+
+    await scheduler.tick(start + 5 * MINUTE);
+    expect(calls).toHaveLength(4);
+  });
+
+  it("should skip a tick while another sync holds the lock", async () => {
+    let finishManual: () => void = () => {};
+    const manual = withSyncLock(
+      () =>
+        new Promise<void>((resolve) => {
+          finishManual = resolve;
+        }),
+    );
+
+    await scheduler.tick(start);
+    expect(calls).toEqual([]);
+
+    finishManual();
+    await manual;
+    await scheduler.tick(start);
+    expect(calls).toEqual(["push (skip conflicts)", "pull (silent)"]);
+  });
+
+  it("should pause while idle and on metered connections", async () => {
+    await scheduler.tick(start + 11 * MINUTE);
+    expect(useSyncStatusStore.getState().pausedReason).toBe("idle");
+
+    Object.defineProperty(navigator, "connection", {
+      value: { type: "cellular" },
+      configurable: true,
+    });
+    await scheduler.tick(start);
+    expect(useSyncStatusStore.getState().pausedReason).toBe("metered");
+
+    expect(calls).toEqual([]);
+  });
+});
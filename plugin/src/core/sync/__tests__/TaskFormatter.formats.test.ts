@@ -0,0 +1,135 @@
+import type { Task } from '@/data/task';
+import { useSettingsStore } from '@/settings';
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { TaskFormatter } from '../TaskFormatter';
+
+const task = {
+  id: '123',
+  content: 'Water plants',
+  description: '',
+  priority: 4,
+  due: { date: '2024-01-10', isRecurring: true, string: 'every week' },
+  duration: { amount: 30, unit: 'minute' },
+  labels: [{ name: 'home' }],
+  project: { id: 'p1', name: 'Personal' },
+  order: 1,
+} as Task;
+
+const hash = TaskFormatter.calculateTaskHash(task);
+
+const timed = {
+  ...task,
+  due: { date: '2024-01-10', datetime: '2024-01-10T09:30:00', isRecurring: false, string: 'jan 10 9:30' },
+  duration: undefined,
+} as Task;
+
+describe('TaskFormatter - Line Formats', () => {
+  afterEach(() => {
+    useSettingsStore.setState({ taskLineFormat: 'default' });
+  });
+
+  describe('Tasks Plugin Format', () => {
+    it('should write ISO dates and Tasks plugin emojis after the metadata comment', () => {
+      expect(TaskFormatter.formatTaskAsMarkdown(task, true, 'tasks')).toBe(
+        `- [ ] Water plants ⏱️ 30min <!-- todoist:123:${hash} --> #home ⏫ 🔁 every week 📅 2024-01-10\n`
+      );
+    });
+
+    it('should read its own lines back', () => {
+      const line = TaskFormatter.formatTaskAsMarkdown(task, true, 'tasks').trim();
+
+      expect(TaskFormatter.parseTaskLine(line)).toMatchObject({
+        todoistId: '123',
+        content: 'Water plants',
+        dueDate: '2024-01-10',
+        priority: 4,
+        labels: ['home'],
+        duration: { amount: 30, unit: 'minute' },
+        recurring: 'every week',
+      });
+    });
+
+    it('should keep the due time in a field of its own and read it back', () => {
+      const line = TaskFormatter.formatTaskAsMarkdown(timed, false, 'tasks').trim();
+
+      expect(line).toBe('- [ ] Water plants ⏰ 09:30 #home ⏫ 📅 2024-01-10');
+      expect(TaskFormatter.parseTaskLine(line)).toMatchObject({ content: 'Water plants', dueDate: '2024-01-10T09:30' });
+      expect(TaskFormatter.toTodoistDate('2024-01-10T09:30')).toBe('2024-01-10T09:30:00');
+    });
+
+    it('should keep the fields of new lines at the end when recording their ID', () => {
+      useSettingsStore.setState({ taskLineFormat: 'tasks' });
+      const line = TaskFormatter.setTodoistId('- [ ] Call mom #family 🔼 🔁 every week 📅 2024-02-01', 'tmp-1');
+
+      expect(line).toBe('- [ ] Call mom #family <!-- todoist:tmp-1 --> 🔼 🔁 every week 📅 2024-02-01');
+      expect(TaskFormatter.parseTaskLine(line)).toMatchObject({
+        todoistId: 'tmp-1',
+        content: 'Call mom',
+        dueDate: '2024-02-01',
+        priority: 3,
+        labels: ['family'],
+        recurring: 'every week',
+      });
+      expect(TaskFormatter.updateTaskHash(line, task)).toBe(
+        `- [ ] Call mom #family <!-- todoist:123:${hash} --> 🔼 🔁 every week 📅 2024-02-01`
+      );
+    });
+
+    it('should read lines written by the Tasks plugin', () => {
+      const parsed = TaskFormatter.parseTaskLine('- [ ] Call mom 🔽 ⏳ 2024-02-01');
+
+      expect(parsed).toMatchObject({ content: 'Call mom', dueDate: '2024-02-01', priority: 2 });
+      expect(TaskFormatter.toTodoistDate(parsed?.dueDate ?? '')).toBe('2024-02-01');
+    });
+  });
+
+  describe('Dataview Format', () => {
+    it('should write inline fields', () => {
+      expect(TaskFormatter.formatTaskAsMarkdown(task, false, 'dataview')).toBe(
+        '- [ ] Water plants [duration:: 30min] #home [priority:: high] [repeat:: every week] [due:: 2024-01-10]\n'
+      );
+    });
+
+    it('should read its own lines back', () => {
+      const line = TaskFormatter.formatTaskAsMarkdown(task, true, 'dataview').trim();
+
+      expect(TaskFormatter.parseTaskLine(line)).toMatchObject({
+        todoistId: '123',
+        content: 'Water plants',
+        dueDate: '2024-01-10',
+        priority: 4,
+        labels: ['home'],
+        duration: { amount: 30, unit: 'minute' },
+        recurring: 'every week',
+      });
+    });
+
+    it('should write and read back due times', () => {
+      const line = TaskFormatter.formatTaskAsMarkdown(timed, false, 'dataview').trim();
+
+      expect(line).toBe('- [ ] Water plants #home [priority:: high] [due:: 2024-01-10T09:30]');
+      expect(TaskFormatter.parseTaskLine(line)?.dueDate).toBe('2024-01-10T09:30');
+    });
+
+    it('should map priorities without a Todoist counterpart to the nearest one', () => {
+      expect(TaskFormatter.parseTaskLine('- [ ] Plan trip [priority:: highest]')?.priority).toBe(4);
+      expect(TaskFormatter.parseTaskLine('- [ ] Plan trip [priority:: lowest]')?.priority).toBe(1);
+    });
+  });
+
+  describe('Due Dates', () => {
+    it('should convert locale dates to Todoist dates', () => {
+      expect(TaskFormatter.toTodoistDate('1/5/2025')).toBe('2025-01-05');
+      expect(TaskFormatter.toTodoistDate('2/29/2024')).toBe('2024-02-29');
+    });
+
+    it('should not convert dates that don\'t exist', () => {
+      expect(TaskFormatter.toTodoistDate('13/45/2025')).toBeUndefined();
+      expect(TaskFormatter.toTodoistDate('2/29/2025')).toBeUndefined();
+      expect(TaskFormatter.toTodoistDate('0/10/2025')).toBeUndefined();
+      expect(TaskFormatter.toTodoistDate('2025-04-31')).toBeUndefined();
+      expect(TaskFormatter.toTodoistDate('tomorrow')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import type { Task } from "@/data/task";
+import { describe, expect, it } from "vitest";
+
+import { TaskHash } from "../TaskHash";
+
+const task = {
+  id: "123",
+  content: "Buy groceries",
+  description: "",
+  priority: 2,
+  due: { date: "2024-01-15" },
+  labels: [{ name: "shopping" }],
+  project: { id: "proj1", name: "Personal" },
+  order: 5,
+} as Task;
+
+describe("TaskHash", () => {
+  it("should compute SHA-256 digests of UTF-8 text", () => {
+    expect(TaskHash.sha256("abc")).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+    );
+    expect(TaskHash.sha256("")).toBe(
+      "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855",
+    );
+    expect(TaskHash.sha256("📅")).toBe(
+      "22cc56622d22c2d579ba343d1355dc291f853f9a951321d43d440e616cef77f7",
+    );
+    // Spans two blocks once padded
+    expect(TaskHash.sha256("abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq")).toBe(
+      "248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1",
+    );
+  });
+
+  it("should not change when a task is reordered", () => {
+    expect(TaskHash.calculate({ ...task, order: 9 })).toBe(TaskHash.calculate(task));
+  });
+
+  it("should change when a timed task moves to another time", () => {
+    const timed = { ...task, due: { date: "2024-01-15", datetime: "2024-01-15T10:00:00" } } as Task;
+    const later = { ...task, due: { date: "2024-01-15", datetime: "2024-01-15T14:00:00" } } as Task;
+
+    expect(TaskHash.changedFields(TaskHash.calculate(timed), later)).toEqual(["due"]);
+  });
+
+  it("should tell which fields changed", () => {
+    const hash = TaskHash.calculate(task);
+
+    expect(TaskHash.changedFields(hash, task)).toEqual([]);
+    expect(
+      TaskHash.changedFields(hash, { ...task, priority: 4, description: "From the shop" }),
+    ).toEqual(["description", "priority"]);
+  });
+
+  it("should not tell which fields changed when the digest changed but no field hash did", () => {
+    const hash = TaskHash.calculate(task);
+    // As if an edit collided with the earlier value in its field hash
+    const collided = (hash[0] === "0" ? "1" : "0") + hash.slice(1);
+
+    expect(TaskHash.changedFields(collided, task)).toBeNull();
+  });
+
+  it("should recognize hashes written by earlier versions", () => {
+    const legacy = TaskHash.legacyHash(task);
+
+    expect(TaskHash.isLegacy(legacy)).toBe(true);
+    expect(TaskHash.isLegacy(TaskHash.calculate(task))).toBe(false);
+    expect(TaskHash.changedFields(legacy, task)).toBeNull();
+  });
+});
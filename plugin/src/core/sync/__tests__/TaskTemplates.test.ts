@@ -0,0 +1,102 @@
+import type { Task } from "@/data/task";
+import { describe, expect, it } from "vitest";
+
+import { TaskFormatter } from "../TaskFormatter";
+import { TaskTemplates, TemplateError } from "../TaskTemplates";
+
+const task = {
+  id: "123",
+  content: "Buy groceries",
+  description: "",
+  priority: 4,
+  labels: [{ name: "errand" }],
+  project: { id: "p1", name: "Personal" },
+  order: 1,
+} as Task;
+
+const vars = {
+  title: "Inbox",
+  view: "inbox" as const,
+  count: 2,
+  date: "2024-01-10",
+  timestamp: "2024-01-10T09:00:00.000Z",
+};
+
+describe("TaskTemplates", () => {
+  describe("Template Parsing", () => {
+    it("should read templates from a YAML code block in a note", () => {
+      const templates = TaskTemplates.parse(
+        "Templates/Todoist.md",
+        [
+          "# Todoist templates",
+          "",
+          "```yaml",
+          'header: "# {{title}}"',
+          "views:",
+          "  today:",
+          '    header: "# Due {{date}}"',
+          "```",
+        ].join("\n"),
+      );
+
+      expect(templates.forView("inbox").header(vars)).toBe("# Inbox\n\n");
+      expect(templates.forView("today").header(vars)).toBe("# Due 2024-01-10\n\n");
+      expect(templates.forView("inbox").task(task)).toBeNull();
+    });
+
+    it("should name unknown keys", () => {
+      const parse = () => TaskTemplates.parse("todoist.yaml", 'footer: "---"');
+
+      expect(parse).toThrow(TemplateError);
+      expect(parse).toThrow("unknown key 'footer' in 'template'");
+    });
+
+    it("should reject task templates that sync could not read back", () => {
+      expect(() => TaskTemplates.parse("todoist.yaml", 'task: "{{priority}} {{dew}}"')).toThrow(
+        /unknown placeholder \{\{dew\}\}.*must contain \{\{content\}\}/,
+      );
+      expect(() => TaskTemplates.parse("todoist.yaml", 'task: "- [ ] {{content}}"')).toThrow(
+        "must not start with a checkbox",
+      );
+    });
+
+    it("should reject frontmatter that is not YAML properties", () => {
+      expect(() => TaskTemplates.parse("todoist.yaml", 'frontmatter: "just text"')).toThrow(
+        "'frontmatter' must be a list of 'key: value' properties",
+      );
+    });
+  });
+
+  describe("Rendering", () => {
+    const template = TaskTemplates.parse(
+      "todoist.yaml",
+      [
+        "frontmatter: |",
+        "  type: todoist",
+        "  tasks: {{count}}",
+        'section: "## {{section}} ({{count}})"',
+        'task: "{{content}} {{priority}} {{labels}} {{due}} [open]({{url}})"',
+      ].join("\n"),
+    ).forView("project");
+
+    it("should render frontmatter and sections", () => {
+      expect(template.frontmatter(vars)).toBe("---\ntype: todoist\ntasks: 2\n---\n\n");
+      expect(template.section({ section: "Errands", count: 3 })).toBe("## Errands (3)\n\n");
+      expect("## Errands (3)".match(template.sectionPattern() as RegExp)?.[1]).toBe("Errands");
+    });
+
+    it("should render task lines that sync can read back", () => {
+      const line = template.task(task, "  ") ?? "";
+
+      expect(line).toBe(
+        `  - [ ] Buy groceries 🔴 #errand [open](https://todoist.com/app/project/p1/task/123) <!-- todoist:123:${TaskFormatter.calculateTaskHash(task)} -->\n`,
+      );
+      expect(TaskFormatter.parseTaskLine(line.trim())).toMatchObject({
+        todoistId: "123",
+        content: "Buy groceries",
+        priority: 4,
+        labels: ["errand"],
+      });
+    });
+  });
+});
@@ -1,11 +1,35 @@
 import { type TodoistApiClient, TodoistApiError } from "@/api";
-import type { Label, LabelId } from "@/api/domain/label";
-import type { Project, ProjectId } from "@/api/domain/project";
-import type { Section, SectionId } from "@/api/domain/section";
-import type { Task as ApiTask, CreateTaskParams, TaskId } from "@/api/domain/task";
+import { CommandBatch, type CommandId, CommandRejectedError } from "@/api/commands";
+import type { CreateLabelParams, Label, LabelId, UpdateLabelParams } from "@/api/domain/label";
+import type {
+  CreateProjectParams,
+  Project,
+  ProjectId,
+  UpdateProjectParams,
+} from "@/api/domain/project";
+import type {
+  CreateSectionParams,
+  Section,
+  SectionId,
+  UpdateSectionParams,
+} from "@/api/domain/section";
+import { type SyncResourceType, fullSyncToken } from "@/api/domain/sync";
+import type {
+  Task as ApiTask,
+  CreateTaskParams,
+  MoveTaskParams,
+  TaskId,
+  UpdateTaskParams,
+} from "@/api/domain/task";
+import { type Delivery, Outbox, type OutboxStorage } from "@/data/outbox";
 import { Repository, type RepositoryReader } from "@/data/repository";
 import { SubscriptionManager, type UnsubscribeCallback } from "@/data/subscriptions";
+import { SyncCache, type SyncDelta, type SyncStateStorage, hasChanges } from "@/data/syncCache";
 import type { Task } from "@/data/task";
+import { now, today } from "@/infra/time";
+import debug from "@/log";
+import { type Filter, FilterParseError, parseFilter } from "@/query/filter";
+import { useSettingsStore } from "@/settings";
 import { Maybe } from "@/utils/maybe";
 
 export enum QueryErrorKind {
@@ -23,12 +47,17 @@ export type SubscriptionResult =
 export type OnSubscriptionChange = (result: SubscriptionResult) => void;
 export type Refresh = () => Promise<void>;
 
+// Whether a change reached Todoist, or was saved to be sent once Todoist can be reached.
+export type Submission = "sent" | "queued";
+
 type DataAccessor = {
   projects: RepositoryReader<ProjectId, Project>;
   sections: RepositoryReader<SectionId, Section>;
   labels: RepositoryReader<LabelId, Label>;
 };
 
+const syncResourceTypes: SyncResourceType[] = ["items", "projects", "sections", "labels"];
+
 class LabelsRepository extends Repository<LabelId, Label> {
   byName(name: string): Label | undefined {
     return [...this.iter()].find((label) => label.name === name);
@@ -39,7 +68,32 @@ export class TodoistAdapter {
   public actions = {
     closeTask: async (id: TaskId) => await this.closeTask(id),
     createTask: async (content: string, params: CreateTaskParams) =>
-      await this.api.withInner((api) => api.createTask(content, params)),
+      await this.submitOne((batch) => batch.createTask(content, params)[0]),
+    updateTask: async (id: TaskId, params: UpdateTaskParams) =>
+      await this.submitOne((batch) => batch.updateTask(id, params)),
+    reopenTask: async (id: TaskId) => await this.reopenTask(id),
+    deleteTask: async (id: TaskId) => await this.removeTask(id, (batch) => batch.deleteTask(id)),
+    moveTask: async (id: TaskId, destination: MoveTaskParams) =>
+      await this.submitOne((batch) => batch.moveTask(id, destination)),
+    executeCommands: async (batch: CommandBatch) => await this.submit(batch),
+
+    createProject: async (params: CreateProjectParams) =>
+      await this.mutate((api) => api.createProject(params)),
+    updateProject: async (id: ProjectId, params: UpdateProjectParams) =>
+      await this.mutate((api) => api.updateProject(id, params)),
+    deleteProject: async (id: ProjectId) => await this.mutate((api) => api.deleteProject(id)),
+
+    createSection: async (params: CreateSectionParams) =>
+      await this.mutate((api) => api.createSection(params)),
+    updateSection: async (id: SectionId, params: UpdateSectionParams) =>
+      await this.mutate((api) => api.updateSection(id, params)),
+    deleteSection: async (id: SectionId) => await this.mutate((api) => api.deleteSection(id)),
+
+    createLabel: async (params: CreateLabelParams) =>
+      await this.mutate((api) => api.createLabel(params)),
+    updateLabel: async (id: LabelId, params: UpdateLabelParams) =>
+      await this.mutate((api) => api.updateLabel(id, params)),
+    deleteLabel: async (id: LabelId) => await this.mutate((api) => api.deleteLabel(id)),
   };
 
   private readonly api: Maybe<TodoistApiClient> = Maybe.Empty();
@@ -48,16 +102,22 @@ export class TodoistAdapter {
   private readonly labels: LabelsRepository;
   private readonly subscriptions: SubscriptionManager<Subscription>;
 
-  private readonly tasksPendingClose: TaskId[];
+  private readonly outbox: Outbox;
+
+  private readonly cache: SyncCache;
+  private readonly storage: SyncStateStorage | undefined;
+  private pendingFetch: Promise<SyncDelta> | undefined;
 
   private hasSynced = false;
 
-  constructor() {
-    this.projects = new Repository(() => this.api.withInner((api) => api.getProjects()));
-    this.sections = new Repository(() => this.api.withInner((api) => api.getSections()));
-    this.labels = new LabelsRepository(() => this.api.withInner((api) => api.getLabels()));
+  constructor(storage?: SyncStateStorage, outboxStorage?: OutboxStorage) {
+    this.cache = new SyncCache();
+    this.storage = storage;
+    this.outbox = new Outbox(outboxStorage);
+    this.projects = new Repository(async () => this.cache.allProjects());
+    this.sections = new Repository(async () => this.cache.allSections());
+    this.labels = new LabelsRepository(async () => this.cache.allLabels());
     this.subscriptions = new SubscriptionManager<Subscription>();
-    this.tasksPendingClose = [];
   }
 
   public isReady(): boolean {
@@ -66,17 +126,52 @@ export class TodoistAdapter {
 
   public async initialize(api: TodoistApiClient) {
     this.api.insert(api);
+
+    const snapshot = this.storage?.load();
+    if (snapshot !== undefined) {
+      this.cache.restore(snapshot);
+    }
+
+    this.outbox.load();
+    await this.retryPending();
     await this.sync();
   }
 
+  // The real ID of a task that was queued for creation while offline, once Todoist created it.
+  public resolveQueuedId(tempId: string): TaskId | undefined {
+    return this.outbox.resolveId(tempId);
+  }
+
+  // Sends queued changes whose backoff has elapsed, or all of them when `force` is set. Returns
+  // whether anything was delivered.
+  public async retryPending(force = false): Promise<boolean> {
+    if (!this.api.hasValue() || this.outbox.size === 0) {
+      return false;
+    }
+
+    const delivery = await this.flushOutbox(force);
+    if (delivery.statuses.size === 0) {
+      return false;
+    }
+
+    for (const [uuid, status] of delivery.statuses) {
+      if (!status.ok) {
+        console.error(`Todoist rejected queued change ${uuid}: ${status.error}`);
+      }
+    }
+
+    if (this.hasSynced) {
+      await this.sync();
+    }
+    return true;
+  }
+
   public async sync(): Promise<void> {
     if (!this.api.hasValue()) {
       return;
     }
 
-    await this.projects.sync();
-    await this.sections.sync();
-    await this.labels.sync();
+    await this.fetchChanges();
 
     for (const subscription of this.subscriptions.list()) {
       await subscription.update();
@@ -85,6 +180,23 @@ export class TodoistAdapter {
     this.hasSynced = true;
   }
 
+  // Pulls everything that changed since the last sync token into the local cache. Concurrent
+  // callers share a single request.
+  public async fetchChanges(): Promise<SyncDelta> {
+    if (this.pendingFetch === undefined) {
+      this.pendingFetch = this.doFetchChanges().finally(() => {
+        this.pendingFetch = undefined;
+      });
+    }
+
+    return await this.pendingFetch;
+  }
+
+  // All active tasks as of the last call to `fetchChanges`.
+  public tasks(): Task[] {
+    return this.cache.allTasks().map((t) => this.hydrate(t));
+  }
+
   public data(): DataAccessor {
     return {
       projects: this.projects,
@@ -93,10 +205,56 @@ export class TodoistAdapter {
     };
   }
 
-  public subscribe(query: string, callback: OnSubscriptionChange): [UnsubscribeCallback, Refresh] {
+  // Returns the unsubscribe callback, a refresh that always refetches the query, and an
+  // auto-refresh that only refetches when the Sync API reports changes (or the day rolled over).
+  public subscribe(
+    query: string,
+    callback: OnSubscriptionChange,
+  ): [UnsubscribeCallback, Refresh, Refresh] {
     const fetcher = this.buildQueryFetcher(query);
-    const subscription = new Subscription(callback, fetcher, () => true);
-    return [this.subscriptions.subscribe(subscription), subscription.update];
+    const subscription = new Subscription(
+      callback,
+      fetcher,
+      (task) => !this.outbox.isRemovingTask(task.id),
+    );
+
+    const refresh = async () => {
+      subscription.markFresh(this.cache.revision);
+      await subscription.update();
+    };
+
+    const autoRefresh = async () => {
+      try {
+        await this.fetchChanges();
+      } catch (error: unknown) {
+        console.error(`Failed to check Todoist for changes: ${error}`);
+      }
+
+      if (subscription.isStale(this.cache.revision)) {
+        await refresh();
+      }
+    };
+
+    return [this.subscriptions.subscribe(subscription), refresh, autoRefresh];
+  }
+
+  private async doFetchChanges(): Promise<SyncDelta> {
+    const response = await this.api.withInner((api) =>
+      api.sync(this.cache.syncToken, syncResourceTypes),
+    );
+    const delta = this.cache.apply(response);
+
+    if (delta.metadataChanged) {
+      await this.projects.sync();
+      await this.sections.sync();
+      await this.labels.sync();
+    }
+
+    if (hasChanges(delta) && this.storage !== undefined) {
+      await this.storage.save(this.cache.snapshot());
+    }
+
+    return delta;
   }
 
   private buildQueryFetcher(query: string): SubscriptionFetcher {
@@ -104,12 +262,43 @@ export class TodoistAdapter {
       if (!this.api.hasValue()) {
         return undefined;
       }
+
+      const filter = this.parseLocalFilter(query);
+      if (filter !== undefined) {
+        // Concurrent refreshes share one sync request, so many queries cost a single fetch.
+        await this.fetchChangesForQuery();
+        const ctx = { projects: this.projects, today: today(), now: now() };
+        return this.tasks().filter((task) => filter(task, ctx));
+      }
+
       const data = await this.api.withInner((api) => api.getTasks(query));
       const hydrated = data.map((t) => this.hydrate(t));
       return hydrated;
     };
   }
 
+  // Filters are evaluated against the local cache when enabled in the settings. Ones using syntax
+  // the local evaluator doesn't support are still sent to Todoist.
+  private parseLocalFilter(query: string): Filter | undefined {
+    if (!useSettingsStore.getState().evaluateFiltersLocally) {
+      return undefined;
+    }
+
+    try {
+      return parseFilter(query);
+    } catch (error: unknown) {
+      if (!(error instanceof FilterParseError)) {
+        throw error;
+      }
+
+      debug({
+        msg: "Falling back to Todoist for filter",
+        context: { query, reason: error.message },
+      });
+      return undefined;
+    }
+  }
+
   private hydrate(apiTask: ApiTask): Task {
     const project = this.projects.byId(apiTask.projectId);
     const section = apiTask.sectionId
@@ -138,23 +327,33 @@ export class TodoistAdapter {
     };
   }
 
-  private async closeTask(id: TaskId): Promise<void> {
-    this.tasksPendingClose.push(id);
+  private async closeTask(id: TaskId): Promise<Submission> {
+    return await this.removeTask(id, (batch) => batch.closeTask(id));
+  }
+
+  // Queued closes and deletes hide the task straight away, and it stays hidden until the change
+  // is sent. If Todoist rejects the change the task is shown again.
+  private async removeTask(
+    id: TaskId,
+    add: (batch: CommandBatch) => CommandId,
+  ): Promise<Submission> {
+    const batch = new CommandBatch();
+    const uuid = add(batch);
+    await this.outbox.enqueue(batch.commands);
 
     for (const subscription of this.subscriptions.list()) {
       subscription.callback();
     }
 
     try {
-      this.api.withInner((api) => api.closeTask(id));
-      this.tasksPendingClose.remove(id);
-
-      for (const subscription of this.subscriptions.list()) {
-        subscription.remove(id);
+      const submission = await this.deliver(uuid);
+      if (submission === "sent") {
+        for (const subscription of this.subscriptions.list()) {
+          subscription.remove(id);
+        }
       }
+      return submission;
     } catch (error: unknown) {
-      this.tasksPendingClose.remove(id);
-
       for (const subscription of this.subscriptions.list()) {
         subscription.callback();
       }
@@ -162,6 +361,102 @@ export class TodoistAdapter {
       throw error;
     }
   }
+
+  // Undoing a close that hasn't been sent yet only needs to drop it from the outbox. Otherwise
+  // the task is reopened in Todoist and queries are refetched so it shows up again.
+  private async reopenTask(id: TaskId): Promise<Submission> {
+    if (await this.outbox.cancel("item_close", id)) {
+      for (const subscription of this.subscriptions.list()) {
+        subscription.callback();
+      }
+      return "sent";
+    }
+
+    const submission = await this.submitOne((batch) => batch.reopenTask(id));
+    if (submission === "sent") {
+      for (const subscription of this.subscriptions.list()) {
+        await subscription.update();
+      }
+    }
+    return submission;
+  }
+
+  // Records a single command in the outbox and tries to send it. Resolves to "queued" if it could
+  // not be sent yet, and throws if Todoist rejected it.
+  private async submitOne(add: (batch: CommandBatch) => CommandId): Promise<Submission> {
+    const batch = new CommandBatch();
+    const uuid = add(batch);
+    await this.outbox.enqueue(batch.commands);
+    return await this.deliver(uuid);
+  }
+
+  private async deliver(uuid: CommandId): Promise<Submission> {
+    let delivery = await this.flushOutbox();
+    if (!delivery.statuses.has(uuid) && this.missedFlush(uuid)) {
+      // The command was queued while a flush was already under way, so it wasn't part of it.
+      delivery = await this.flushOutbox();
+    }
+
+    const status = delivery.statuses.get(uuid);
+    if (status === undefined) {
+      return "queued";
+    }
+
+    if (!status.ok) {
+      throw new CommandRejectedError(status.error, status.httpCode);
+    }
+
+    await this.fetchChangesQuietly();
+    return "sent";
+  }
+
+  private missedFlush(uuid: CommandId): boolean {
+    return this.outbox
+      .entries()
+      .some((entry) => entry.command.uuid === uuid && entry.attempts === 0);
+  }
+
+  private async submit(batch: CommandBatch): Promise<Delivery> {
+    await this.outbox.enqueue(batch.commands);
+    return await this.flushOutbox();
+  }
+
+  private async flushOutbox(force = false): Promise<Delivery> {
+    return await this.outbox.flush(
+      (commands) => this.api.withInner((api) => api.executeCommands(commands)),
+      force,
+    );
+  }
+
+  // Tasks from an earlier sync are still shown when Todoist can't be reached. Without any, the
+  // error is passed on so the query shows it instead of an empty list.
+  private async fetchChangesForQuery() {
+    try {
+      await this.fetchChanges();
+    } catch (error: unknown) {
+      if (this.cache.syncToken === fullSyncToken) {
+        throw error;
+      }
+      console.error(`Failed to check Todoist for changes: ${error}`);
+    }
+  }
+
+  // The change was already applied in Todoist, so failing to pull it back is not an error.
+  private async fetchChangesQuietly() {
+    try {
+      await this.fetchChanges();
+    } catch (error: unknown) {
+      console.error(`Failed to check Todoist for changes: ${error}`);
+    }
+  }
+
+  // Applies a project, section, or label change and pulls it back through the Sync API so
+  // hydrated tasks pick it up straight away.
+  private async mutate<T>(action: (api: TodoistApiClient) => Promise<T>): Promise<T> {
+    const result = await this.api.withInner(action);
+    await this.fetchChanges();
+    return result;
+  }
 }
 
 const makeUnknownProject = (id: string): Project => {
@@ -197,14 +492,16 @@ type SubscriptionFetcher = () => Promise<Task[] | undefined>;
 class Subscription {
   private readonly userCallback: OnSubscriptionChange;
   private readonly fetch: SubscriptionFetcher;
-  private readonly filter: () => boolean;
+  private readonly filter: (task: Task) => boolean;
 
   private result: SubscriptionResult = { type: "success", tasks: [] };
+  private fetchedRevision: number | undefined;
+  private fetchedOn: string | undefined;
 
   constructor(
     userCallback: OnSubscriptionChange,
     fetch: SubscriptionFetcher,
-    filter: () => boolean,
+    filter: (task: Task) => boolean,
   ) {
     this.userCallback = userCallback;
     this.fetch = fetch;
@@ -244,6 +541,16 @@ class Subscription {
     this.callback();
   };
 
+  public markFresh(revision: number) {
+    this.fetchedRevision = revision;
+    this.fetchedOn = new Date().toDateString();
+  }
+
+  // Relative filters like "today" change meaning at midnight even if no task changed.
+  public isStale(revision: number): boolean {
+    return this.fetchedRevision !== revision || this.fetchedOn !== new Date().toDateString();
+  }
+
   public callback = () => {
     // Apply filtering, without mutating the actual state of the result.
     const result = { ...this.result };
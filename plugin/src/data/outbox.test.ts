@@ -0,0 +1,203 @@
+import { CommandBatch, type CommandResults, type SyncCommand } from "@/api/commands";
+import { Outbox, type OutboxState } from "@/data/outbox";
+import { describe, expect, it } from "vitest";
+
+const makeOutbox = (stored?: OutboxState) => {
+  let now = 0;
+  const saved: OutboxState[] = [];
+  const outbox = new Outbox(
+    {
+      load: () => stored,
+      save: async (state) => {
+        saved.push(state);
+      },
+    },
+    () => now,
+  );
+  outbox.load();
+
+  return {
+    outbox,
+    saved,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+};
+
+const accepting = (sent: SyncCommand[][] = []) => {
+  let nextId = 1;
+  return async (commands: SyncCommand[]): Promise<CommandResults> => {
+    sent.push(commands);
+    const results: CommandResults = { statuses: new Map(), tempIdMapping: new Map() };
+    for (const command of commands) {
+      results.statuses.set(command.uuid, { ok: true });
+      if (command.temp_id !== undefined) {
+        results.tempIdMapping.set(command.temp_id, String(nextId++));
+      }
+    }
+    return results;
+  };
+};
+
+const offline = async (): Promise<CommandResults> => {
+  throw new Error("Failed to fetch");
+};
+
+describe("Outbox", () => {
+  it("keeps commands that could not be sent and retries them with backoff", async () => {
+    const { outbox, saved, advance } = makeOutbox();
+    const batch = new CommandBatch();
+    const uuid = batch.closeTask("1");
+    await outbox.enqueue(batch.commands);
+
+    const first = await outbox.flush(offline);
+    expect(first.queued.has(uuid)).toBe(true);
+    expect(saved[saved.length - 1].entries[0]).toMatchObject({
+      attempts: 1,
+      nextAttemptAt: 10_000,
+      lastError: "Error: Failed to fetch",
+    });
+
+    // Not due yet, so nothing is sent
+    const sent: SyncCommand[][] = [];
+    await outbox.flush(accepting(sent));
+    expect(sent).toHaveLength(0);
+
+    advance(10_000);
+    await outbox.flush(offline);
+    expect(saved[saved.length - 1].entries[0].nextAttemptAt).toBe(30_000);
+
+    advance(20_000);
+    const delivered = await outbox.flush(accepting(sent));
+    expect(delivered.statuses.get(uuid)).toEqual({ ok: true });
+    expect(outbox.size).toBe(0);
+  });
+
+  it("sends stored commands after a restart and swaps in resolved temporary IDs", async () => {
+    const { outbox, saved } = makeOutbox();
+    const batch = new CommandBatch();
+    const [, parentId] = batch.createTask("Plan trip", { priority: 1, projectId: "p1" });
+    await outbox.enqueue(batch.commands);
+    await outbox.flush(accepting());
+    expect(outbox.resolveId(parentId)).toBe("1");
+
+    const { outbox: restarted } = makeOutbox(saved[saved.length - 1]);
+    const child = new CommandBatch();
+    child.createTask("Book hotel", { priority: 1, projectId: "p1", parentId });
+    await restarted.enqueue(child.commands);
+
+    const sent: SyncCommand[][] = [];
+    await restarted.flush(accepting(sent));
+
+    expect(sent[0][0].args.parent_id).toBe("1");
+  });
+
+  it("drops commands Todoist rejects but retries server errors", async () => {
+    const { outbox } = makeOutbox();
+    const batch = new CommandBatch();
+    const rejected = batch.closeTask("1");
+    const unavailable = batch.closeTask("2");
+    await outbox.enqueue(batch.commands);
+
+    const delivery = await outbox.flush(async () => ({
+      statuses: new Map([
+        [rejected, { ok: false, error: "Item not found", httpCode: 404 }],
+        [unavailable, { ok: false, error: "Service unavailable", httpCode: 503 }],
+      ]),
+      tempIdMapping: new Map(),
+    }));
+
+    expect(delivery.statuses.get(rejected)).toMatchObject({ ok: false, error: "Item not found" });
+    expect(delivery.queued).toEqual(new Set([unavailable]));
+    expect(outbox.isRemovingTask("1")).toBe(false);
+    expect(outbox.isRemovingTask("2")).toBe(true);
+  });
+
+  it("leaves commands queued during a flush for the next one", async () => {
+    const { outbox } = makeOutbox();
+    const first = new CommandBatch();
+    first.closeTask("1");
+    await outbox.enqueue(first.commands);
+
+    const late = new CommandBatch();
+    const uuid = late.closeTask("2");
+    const delivery = await outbox.flush(async (commands) => {
+      await outbox.enqueue(late.commands);
+      return accepting()(commands);
+    });
+
+    expect(delivery.statuses.has(uuid)).toBe(false);
+    expect(outbox.entries()).toMatchObject([{ command: { uuid }, attempts: 0 }]);
+
+    const next = await outbox.flush(accepting());
+    expect(next.statuses.get(uuid)).toEqual({ ok: true });
+  });
+
+  it("merges repeated edits of the same task into one command", async () => {
+    const { outbox } = makeOutbox();
+    const first = new CommandBatch();
+    first.updateTask("1", { content: "Draft" });
+    await outbox.enqueue(first.commands);
+
+    const second = new CommandBatch();
+    second.updateTask("1", { priority: 4 });
+    await outbox.enqueue(second.commands);
+
+    expect(outbox.size).toBe(1);
+    expect(outbox.entries()[0].command.args).toEqual({ id: "1", content: "Draft", priority: 4 });
+  });
+
+  it("replaces an unsent move of the same task with the later destination", async () => {
+    const { outbox } = makeOutbox();
+    const first = new CommandBatch();
+    first.moveTask("1", { projectId: "p1" });
+    await outbox.enqueue(first.commands);
+
+    const second = new CommandBatch();
+    second.moveTask("1", { sectionId: "s1" });
+    await outbox.enqueue(second.commands);
+
+    expect(outbox.size).toBe(1);
+    expect(outbox.entries()[0].command.args).toEqual({ id: "1", section_id: "s1" });
+  });
+
+  it("holds back commands that depend on a task waiting to be created", async () => {
+    const { outbox } = makeOutbox();
+    const parent = new CommandBatch();
+    const [, parentId] = parent.createTask("Plan trip", { priority: 1, projectId: "p1" });
+    await outbox.enqueue(parent.commands);
+    await outbox.flush(offline);
+
+    const child = new CommandBatch();
+    child.createTask("Book hotel", { priority: 1, projectId: "p1", parentId });
+    await outbox.enqueue(child.commands);
+
+    const sent: SyncCommand[][] = [];
+    await outbox.flush(accepting(sent));
+    expect(sent).toHaveLength(0);
+
+    await outbox.flush(accepting(sent), true);
+    expect(sent[0].map((command) => command.args.content)).toEqual(["Plan trip", "Book hotel"]);
+    expect(outbox.size).toBe(0);
+  });
+
+  it("cancels unsent commands but not ones already being sent", async () => {
+    const { outbox } = makeOutbox();
+    const batch = new CommandBatch();
+    batch.closeTask("1");
+    await outbox.enqueue(batch.commands);
+
+    let cancelledWhileSending: boolean | undefined;
+    await outbox.flush(async (commands) => {
+      cancelledWhileSending = await outbox.cancel("item_close", "1");
+      return accepting()(commands);
+    });
+    expect(cancelledWhileSending).toBe(false);
+
+    await outbox.enqueue(batch.commands);
+    await outbox.flush(offline);
+    expect(await outbox.cancel("item_close", "1")).toBe(true);
+    expect(outbox.isRemovingTask("1")).toBe(false);
+  });
+});
@@ -0,0 +1,256 @@
+import type { CommandId, CommandResults, CommandStatus, SyncCommand } from "@/api/commands";
+import type { TaskId } from "@/api/domain/task";
+
+export type OutboxEntry = {
+  command: SyncCommand;
+  queuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+};
+
+export type OutboxState = {
+  entries: OutboxEntry[];
+  // Real IDs of tasks created through the outbox, keyed by the temporary ID they were queued with.
+  resolvedIds: Record<string, TaskId>;
+};
+
+export type OutboxStorage = {
+  load: () => OutboxState | undefined;
+  save: (state: OutboxState) => Promise<void>;
+};
+
+// Statuses are only present for commands that reached a final outcome. Commands still waiting
+// for a retry are listed in `queued`.
+export type Delivery = CommandResults & {
+  queued: Set<CommandId>;
+};
+
+export type CommandSender = (commands: SyncCommand[]) => Promise<CommandResults>;
+
+const baseRetryDelay = 10 * 1000;
+const maxRetryDelay = 30 * 60 * 1000;
+const maxResolvedIds = 500;
+
+// Commands whose effect is to remove the task from the active task list.
+const removingCommands = new Set(["item_close", "item_delete"]);
+
+// Durable queue of Todoist mutations. Every mutation is recorded here before it is sent, so
+// changes made while offline (or while Todoist is unavailable) survive restarts and are retried
+// with exponential backoff until Todoist either accepts or rejects them.
+export class Outbox {
+  private readonly storage: OutboxStorage | undefined;
+  private readonly now: () => number;
+
+  private state: OutboxState = { entries: [], resolvedIds: {} };
+  private pendingFlush: Promise<Delivery> | undefined;
+  private readonly sending: Set<OutboxEntry> = new Set();
+
+  constructor(storage?: OutboxStorage, now: () => number = Date.now) {
+    this.storage = storage;
+    this.now = now;
+  }
+
+  public get size(): number {
+    return this.state.entries.length;
+  }
+
+  public entries(): OutboxEntry[] {
+    return [...this.state.entries];
+  }
+
+  public load() {
+    const stored = this.storage?.load();
+    if (stored !== undefined) {
+      this.state = { entries: [...stored.entries], resolvedIds: { ...stored.resolvedIds } };
+    }
+  }
+
+  // The real ID of a task that was queued for creation, once Todoist has created it.
+  public resolveId(tempId: string): TaskId | undefined {
+    return this.state.resolvedIds[tempId];
+  }
+
+  // Whether a queued close or delete should hide the task until it is sent.
+  public isRemovingTask(id: TaskId): boolean {
+    return this.state.entries.some(
+      (entry) => removingCommands.has(entry.command.type) && entry.command.args.id === id,
+    );
+  }
+
+  // Drops unsent commands of the given type for a task, e.g. a queued close that was undone.
+  // Returns whether anything was dropped.
+  public async cancel(type: string, id: TaskId): Promise<boolean> {
+    const remaining = this.state.entries.filter(
+      (entry) =>
+        this.sending.has(entry) || entry.command.type !== type || entry.command.args.id !== id,
+    );
+    if (remaining.length === this.state.entries.length) {
+      return false;
+    }
+
+    this.state.entries = remaining;
+    await this.save();
+    return true;
+  }
+
+  // Queues commands to be sent on the next flush. A command replaces any unsent command of the
+  // same type for the same task, so repeated edits made offline are sent once. Moves take a
+  // single destination, so a later move replaces the earlier one instead of adding to it.
+  public async enqueue(commands: SyncCommand[]): Promise<void> {
+    const now = this.now();
+    for (const command of commands) {
+      const superseded = this.state.entries.find((entry) => supersedes(command, entry.command));
+      const args =
+        superseded && command.type !== "item_move"
+          ? { ...superseded.command.args, ...command.args }
+          : command.args;
+
+      this.state.entries = this.state.entries.filter((entry) => entry !== superseded);
+      this.state.entries.push({
+        command: { ...command, args },
+        queuedAt: superseded?.queuedAt ?? now,
+        attempts: 0,
+        nextAttemptAt: now,
+      });
+    }
+
+    await this.save();
+  }
+
+  // Sends every command that is due for an attempt, or all of them when `force` is set. Concurrent
+  // callers share a single flush.
+  public async flush(send: CommandSender, force = false): Promise<Delivery> {
+    if (this.pendingFlush === undefined) {
+      this.pendingFlush = this.doFlush(send, force).finally(() => {
+        this.pendingFlush = undefined;
+      });
+    }
+
+    return await this.pendingFlush;
+  }
+
+  private async doFlush(send: CommandSender, force: boolean): Promise<Delivery> {
+    const delivery: Delivery = { statuses: new Map(), tempIdMapping: new Map(), queued: new Set() };
+    const now = this.now();
+
+    // Commands that depend on a task which hasn't been created yet must wait for it.
+    const waitingFor = new Set<string>();
+    const due: OutboxEntry[] = [];
+    for (const entry of this.state.entries) {
+      const isDue = force || entry.nextAttemptAt <= now;
+      if (isDue && !referencesAny(entry.command, waitingFor)) {
+        due.push(entry);
+      } else if (entry.command.temp_id !== undefined) {
+        waitingFor.add(entry.command.temp_id);
+      }
+    }
+
+    if (due.length > 0) {
+      let results: CommandResults | undefined;
+      try {
+        for (const entry of due) {
+          this.sending.add(entry);
+        }
+        results = await send(due.map((entry) => this.withResolvedIds(entry.command)));
+      } catch (error: unknown) {
+        for (const entry of due) {
+          this.scheduleRetry(entry, String(error), now);
+        }
+      } finally {
+        this.sending.clear();
+      }
+
+      if (results !== undefined) {
+        this.applyResults(due, results, delivery, now);
+      }
+
+      await this.save();
+    }
+
+    for (const entry of this.state.entries) {
+      delivery.queued.add(entry.command.uuid);
+    }
+
+    return delivery;
+  }
+
+  private applyResults(
+    sent: OutboxEntry[],
+    results: CommandResults,
+    delivery: Delivery,
+    now: number,
+  ) {
+    const failedCreates = new Set<string>();
+    const settled = new Set<OutboxEntry>();
+
+    for (const entry of sent) {
+      const { command } = entry;
+      const status: CommandStatus = results.statuses.get(command.uuid) ?? {
+        ok: false,
+        error: "No status returned for command",
+      };
+
+      if (!status.ok && (isRetryable(status) || referencesAny(command, failedCreates))) {
+        this.scheduleRetry(entry, status.error, now);
+        if (command.temp_id !== undefined) {
+          failedCreates.add(command.temp_id);
+        }
+        continue;
+      }
+
+      settled.add(entry);
+      delivery.statuses.set(command.uuid, status);
+    }
+
+    for (const [tempId, id] of results.tempIdMapping) {
+      delivery.tempIdMapping.set(tempId, id);
+      this.state.resolvedIds[tempId] = id;
+    }
+
+    const resolved = Object.entries(this.state.resolvedIds);
+    if (resolved.length > maxResolvedIds) {
+      this.state.resolvedIds = Object.fromEntries(resolved.slice(-maxResolvedIds));
+    }
+
+    this.state.entries = this.state.entries.filter((entry) => !settled.has(entry));
+  }
+
+  private scheduleRetry(entry: OutboxEntry, error: string, now: number) {
+    entry.attempts++;
+    entry.lastError = error;
+    entry.nextAttemptAt = now + Math.min(baseRetryDelay * 2 ** (entry.attempts - 1), maxRetryDelay);
+  }
+
+  // Temporary IDs resolved in an earlier flush are unknown to the Sync API, so they are swapped
+  // for the real IDs before sending.
+  private withResolvedIds(command: SyncCommand): SyncCommand {
+    const args = Object.fromEntries(
+      Object.entries(command.args).map(([key, value]) => [
+        key,
+        typeof value === "string" ? (this.state.resolvedIds[value] ?? value) : value,
+      ]),
+    );
+    return { ...command, args };
+  }
+
+  private async save() {
+    await this.storage?.save({
+      entries: this.state.entries.map((entry) => ({ ...entry })),
+      resolvedIds: { ...this.state.resolvedIds },
+    });
+  }
+}
+
+const supersedes = (command: SyncCommand, queued: SyncCommand): boolean =>
+  command.type === queued.type &&
+  command.temp_id === undefined &&
+  command.args.id !== undefined &&
+  command.args.id === queued.args.id;
+
+const referencesAny = (command: SyncCommand, ids: Set<string>): boolean =>
+  Object.values(command.args).some((value) => typeof value === "string" && ids.has(value));
+
+// Rate limits and server errors are worth retrying; anything else is a problem with the command.
+const isRetryable = (status: CommandStatus & { ok: false }): boolean =>
+  status.httpCode === undefined || status.httpCode === 429 || status.httpCode >= 500;
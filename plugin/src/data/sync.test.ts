@@ -0,0 +1,171 @@
+import { TodoistApiClient } from "@/api";
+import { FixtureFetcher, type Recording } from "@/api/fixtures/fetcher";
+import { fullThenDelta } from "@/api/fixtures/sync";
+import { type SubscriptionResult, TodoistAdapter } from "@/data";
+import { DueDate } from "@/data/dueDate";
+import { SyncCache, type SyncSnapshot } from "@/data/syncCache";
+import { useSettingsStore } from "@/settings";
+import { afterEach, describe, expect, it } from "vitest";
+
+const makeAdapter = (recordings: Recording[], stored?: SyncSnapshot) => {
+  const fetcher = new FixtureFetcher(recordings);
+  const saved: SyncSnapshot[] = [];
+  const adapter = new TodoistAdapter({
+    load: () => stored,
+    save: async (snapshot) => {
+      saved.push(snapshot);
+    },
+  });
+  return { adapter, fetcher, saved, client: new TodoistApiClient("token", fetcher) };
+};
+
+describe("TodoistAdapter incremental sync", () => {
+  it("hydrates tasks and metadata from a full sync", async () => {
+    const { adapter, client } = makeAdapter(fullThenDelta.slice(0, 1));
+
+    await adapter.initialize(client);
+
+    const tasks = adapter.tasks();
+    expect(tasks.map((t) => t.id).sort()).toEqual(["1", "2", "3"]);
+
+    const work = tasks.find((t) => t.id === "3");
+    expect(work?.project.name).toBe("Work");
+    expect(work?.section?.name).toBe("Planning");
+    expect(tasks.find((t) => t.id === "1")?.labels[0].name).toBe("errand");
+    expect(tasks.find((t) => t.id === "2")?.due?.isRecurring).toBe(false);
+  });
+
+  it("is not ready when the first sync fails", async () => {
+    const { adapter, client } = makeAdapter([
+      {
+        request: { ...fullThenDelta[0].request },
+        response: { statusCode: 401, body: "Unauthorized" },
+      },
+    ]);
+
+    await expect(adapter.initialize(client)).rejects.toThrow();
+    expect(adapter.isReady()).toBe(false);
+  });
+
+  it("splits the time of timed tasks out of the due date", () => {
+    const cache = new SyncCache();
+    cache.apply({
+      syncToken: "token-1",
+      fullSync: true,
+      items: [
+        {
+          id: "1",
+          addedAt: "2024-05-26T10:00:00Z",
+          content: "Call mom",
+          description: "",
+          projectId: "inbox",
+          sectionId: null,
+          parentId: null,
+          labels: [],
+          priority: 1,
+          due: { date: "2024-05-27T10:00:00", isRecurring: false, string: "tomorrow at 10" },
+          duration: null,
+          childOrder: 1,
+          checked: false,
+          isDeleted: false,
+        },
+      ],
+    });
+
+    const [task] = cache.allTasks();
+    expect(task.due).toEqual({
+      date: "2024-05-27",
+      datetime: "2024-05-27T10:00:00",
+      isRecurring: false,
+      string: "tomorrow at 10",
+    });
+    expect(task.due && DueDate.parse(task.due).start.hasTime).toBe(true);
+  });
+
+  it("applies deltas and persists the new sync token", async () => {
+    const { adapter, client, saved } = makeAdapter(fullThenDelta.slice(0, 2));
+    await adapter.initialize(client);
+
+    const delta = await adapter.fetchChanges();
+
+    expect(delta.fullSync).toBe(false);
+    expect(delta.updatedTasks).toEqual(["1"]);
+    expect(delta.removedTasks).toEqual(["2"]);
+    expect(adapter.tasks().find((t) => t.id === "1")?.content).toBe("Buy milk");
+    expect([...adapter.data().labels.iter()].map((l) => l.name)).toEqual(["errand", "focus"]);
+
+    const snapshot = saved[saved.length - 1];
+    expect(snapshot.syncToken).toBe("token-2");
+    expect(snapshot.tasks.map((t) => t.id).sort()).toEqual(["1", "3"]);
+  });
+
+  it("resumes from the stored sync token instead of doing a full sync", async () => {
+    const { adapter: first, client: firstClient, saved } = makeAdapter(fullThenDelta.slice(0, 1));
+    await first.initialize(firstClient);
+
+    const { adapter, client, fetcher } = makeAdapter(fullThenDelta.slice(1, 2), saved[0]);
+    await adapter.initialize(client);
+
+    expect(fetcher.isDone()).toBe(true);
+    expect(
+      adapter
+        .tasks()
+        .map((t) => t.id)
+        .sort(),
+    ).toEqual(["1", "3"]);
+  });
+
+  it("only refetches subscribed queries on auto-refresh when something changed", async () => {
+    const query: Recording = {
+      request: {
+        method: "GET",
+        url: "https://api.todoist.com/rest/v2/tasks?filter=today",
+      },
+      response: { statusCode: 200, body: "[]" },
+    };
+    const { adapter, client, fetcher } = makeAdapter([
+      fullThenDelta[0],
+      query,
+      fullThenDelta[1],
+      query,
+      fullThenDelta[2],
+    ]);
+    await adapter.initialize(client);
+
+    const [, refresh, autoRefresh] = adapter.subscribe("today", () => {});
+    await refresh();
+
+    // token-1 -> token-2 contains changes, so the query is refetched
+    await autoRefresh();
+    // token-2 -> token-2 is empty, so only the sync request is made
+    await autoRefresh();
+
+    expect(fetcher.isDone()).toBe(true);
+    expect(fetcher.requests.filter((r) => r.method === "GET")).toHaveLength(2);
+  });
+
+  describe("with filters evaluated locally", () => {
+    afterEach(() => {
+      useSettingsStore.setState({ evaluateFiltersLocally: false });
+    });
+
+    it("answers queries from the synced tasks", async () => {
+      useSettingsStore.setState({ evaluateFiltersLocally: true });
+      const { adapter, client, fetcher } = makeAdapter(fullThenDelta.slice(0, 2));
+      await adapter.initialize(client);
+
+      let result: SubscriptionResult | undefined;
+      const [, refresh] = adapter.subscribe("#Work | @errand", (r) => {
+        result = r;
+      });
+      await refresh();
+
+      expect(fetcher.isDone()).toBe(true);
+      expect(fetcher.requests.filter((r) => r.method === "GET")).toHaveLength(0);
+      expect(result?.type === "success" && result.tasks.map((t) => t.id).sort()).toEqual([
+        "1",
+        "3",
+      ]);
+    });
+  });
+});
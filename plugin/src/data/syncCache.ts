@@ -0,0 +1,221 @@
+import type { DueDate } from "@/api/domain/dueDate";
+import type { Label, LabelId } from "@/api/domain/label";
+import type { Project, ProjectId } from "@/api/domain/project";
+import type { Section, SectionId } from "@/api/domain/section";
+import {
+  type SyncItem,
+  type SyncLabel,
+  type SyncProject,
+  type SyncResponse,
+  type SyncSection,
+  type SyncToken,
+  fullSyncToken,
+} from "@/api/domain/sync";
+import type { Task, TaskId } from "@/api/domain/task";
+
+export type SyncSnapshot = {
+  syncToken: SyncToken;
+  tasks: Task[];
+  projects: Project[];
+  sections: Section[];
+  labels: Label[];
+};
+
+export type SyncStateStorage = {
+  load: () => SyncSnapshot | undefined;
+  save: (snapshot: SyncSnapshot) => Promise<void>;
+};
+
+export type SyncDelta = {
+  fullSync: boolean;
+  updatedTasks: TaskId[];
+  removedTasks: TaskId[];
+  metadataChanged: boolean;
+};
+
+export const hasChanges = (delta: SyncDelta): boolean =>
+  delta.fullSync ||
+  delta.updatedTasks.length > 0 ||
+  delta.removedTasks.length > 0 ||
+  delta.metadataChanged;
+
+// Mirror of the Todoist account built from Sync API responses. Applying a delta keeps it
+// identical to what a full fetch would return, without downloading unchanged resources.
+export class SyncCache {
+  private token: SyncToken = fullSyncToken;
+  private taskRevision = 0;
+
+  private readonly tasks: Map<TaskId, Task> = new Map();
+  private readonly projects: Map<ProjectId, Project> = new Map();
+  private readonly sections: Map<SectionId, Section> = new Map();
+  private readonly labels: Map<LabelId, Label> = new Map();
+
+  public get syncToken(): SyncToken {
+    return this.token;
+  }
+
+  // Incremented whenever the set of tasks changes, so readers can tell if they are stale.
+  public get revision(): number {
+    return this.taskRevision;
+  }
+
+  public apply(response: SyncResponse): SyncDelta {
+    if (response.fullSync) {
+      this.tasks.clear();
+      this.projects.clear();
+      this.sections.clear();
+      this.labels.clear();
+    }
+
+    const delta: SyncDelta = {
+      fullSync: response.fullSync,
+      updatedTasks: [],
+      removedTasks: [],
+      metadataChanged: false,
+    };
+
+    for (const item of response.items ?? []) {
+      if (item.isDeleted || item.checked) {
+        if (this.tasks.delete(item.id)) {
+          delta.removedTasks.push(item.id);
+        }
+        continue;
+      }
+
+      this.tasks.set(item.id, toTask(item));
+      delta.updatedTasks.push(item.id);
+    }
+
+    for (const project of response.projects ?? []) {
+      applyResource(this.projects, project, project.isDeleted || project.isArchived, toProject);
+      delta.metadataChanged = true;
+    }
+
+    for (const section of response.sections ?? []) {
+      applyResource(this.sections, section, section.isDeleted || section.isArchived, toSection);
+      delta.metadataChanged = true;
+    }
+
+    for (const label of response.labels ?? []) {
+      applyResource(this.labels, label, label.isDeleted, toLabel);
+      delta.metadataChanged = true;
+    }
+
+    if (delta.fullSync || delta.updatedTasks.length > 0 || delta.removedTasks.length > 0) {
+      this.taskRevision++;
+    }
+
+    this.token = response.syncToken;
+    return delta;
+  }
+
+  public snapshot(): SyncSnapshot {
+    return {
+      syncToken: this.token,
+      tasks: this.allTasks(),
+      projects: this.allProjects(),
+      sections: this.allSections(),
+      labels: this.allLabels(),
+    };
+  }
+
+  public restore(snapshot: SyncSnapshot) {
+    this.token = snapshot.syncToken;
+    this.taskRevision++;
+    fill(
+      this.tasks,
+      snapshot.tasks.map((task) => ({ ...task, due: toDueDate(task.due) })),
+    );
+    fill(this.projects, snapshot.projects);
+    fill(this.sections, snapshot.sections);
+    fill(this.labels, snapshot.labels);
+  }
+
+  public allTasks(): Task[] {
+    return [...this.tasks.values()];
+  }
+
+  public allProjects(): Project[] {
+    return [...this.projects.values()];
+  }
+
+  public allSections(): Section[] {
+    return [...this.sections.values()];
+  }
+
+  public allLabels(): Label[] {
+    return [...this.labels.values()];
+  }
+}
+
+const applyResource = <T extends { id: string }, U>(
+  map: Map<string, U>,
+  resource: T,
+  removed: boolean,
+  convert: (resource: T) => U,
+) => {
+  if (removed) {
+    map.delete(resource.id);
+  } else {
+    map.set(resource.id, convert(resource));
+  }
+};
+
+const fill = <T extends { id: string }>(map: Map<string, T>, values: T[]) => {
+  map.clear();
+  for (const value of values) {
+    map.set(value.id, value);
+  }
+};
+
+const toTask = (item: SyncItem): Task => ({
+  id: item.id,
+  createdAt: item.addedAt,
+  content: item.content,
+  description: item.description,
+  projectId: item.projectId,
+  sectionId: item.sectionId,
+  parentId: item.parentId,
+  labels: item.labels,
+  priority: item.priority,
+  due: toDueDate(item.due),
+  duration: item.duration,
+  order: item.childOrder,
+});
+
+// The Sync API writes the time of timed tasks into `due.date`, as in "2024-05-27T10:00:00", while
+// due dates elsewhere keep the day in `date` and the full date and time in `datetime`.
+const toDueDate = (due: DueDate | null): DueDate | null => {
+  if (due === null) {
+    return null;
+  }
+
+  const [date, time] = due.date.split("T");
+  if (time === undefined) {
+    return due;
+  }
+
+  return { ...due, date, datetime: due.date };
+};
+
+const toProject = (project: SyncProject): Project => ({
+  id: project.id,
+  parentId: project.parentId,
+  name: project.name,
+  order: project.childOrder,
+  isInboxProject: project.inboxProject ?? false,
+  color: project.color,
+});
+
+const toSection = (section: SyncSection): Section => ({
+  id: section.id,
+  projectId: section.projectId,
+  name: section.name,
+  order: section.sectionOrder,
+});
+
+const toLabel = (label: SyncLabel): Label => ({
+  id: label.id,
+  name: label.name,
+  color: label.color,
+});
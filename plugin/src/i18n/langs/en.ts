@@ -64,12 +64,162 @@ export const en: Translations = {
         },
       },
     },
+    syncLayout: {
+      header: "Sync folder layout",
+      description:
+        "Where synced files are written. When the layout changes, existing files are moved on the next sync.",
+      baseFolder: {
+        label: "Base folder",
+        description: "The folder in your vault which holds all synced files",
+      },
+      inboxFile: {
+        label: "Inbox file",
+        description: "File with the tasks in your Inbox, relative to the base folder",
+      },
+      todayFile: {
+        label: "Today file",
+        description: "File with the tasks due today or overdue, relative to the base folder",
+      },
+      upcomingFile: {
+        label: "Upcoming file",
+        description: "File with the tasks due in the next week, relative to the base folder",
+      },
+      projectFile: {
+        label: "Project files",
+        description: "Path of each project file, where {{project}} is replaced by the project name",
+      },
+      labelFile: {
+        label: "Label files",
+        description: "Path of each label file, where {{label}} is replaced by the label name",
+      },
+      systemFolder: {
+        label: "System folder",
+        description:
+          "Folder for the plugin's own files, like task mappings and backups. It is never synced.",
+      },
+      localFolder: {
+        label: "Local folder",
+        description: "Folder for your own notes next to the synced files. It is never synced.",
+      },
+      labelFiles: {
+        label: "Create label files",
+        description: "Whether to write a file for each label with the tasks that have it",
+      },
+      nestSubprojects: {
+        label: "Nest subprojects in folders",
+        description:
+          "Whether subprojects are placed in a folder named after their parent project, instead of next to it",
+      },
+      templateFile: {
+        label: "Page templates",
+        description:
+          "Path of a YAML file, or a note with a YAML code block, with templates for the generated pages. Leave empty for the built-in pages.",
+      },
+      taskLineFormat: {
+        label: "Task line format",
+        description:
+          "How due dates, priorities and recurrence are written in synced task lines. Sync reads all formats back.",
+        options: {
+          default: "Default",
+          tasks: "Tasks plugin",
+          dataview: "Dataview",
+        },
+      },
+      autoPush: {
+        label: "Push edits automatically",
+        description:
+          "Send edits to synced files to Todoist a few seconds after you make them. Conflicts are left for the next manual sync.",
+      },
+    },
+    closedTasks: {
+      header: "Completed and deleted tasks",
+      description:
+        "What happens to the lines of tasks completed or deleted in Todoist when a synced file is written again. Kept lines are checked off with the date the sync noticed the change and are no longer synced.",
+      options: {
+        remove: "Remove the line",
+        check: "Check it off in place",
+        section: "Move to a Completed section",
+        archive: "Move to the archive file",
+      },
+      inbox: {
+        label: "Inbox file",
+        description: "Tasks closed in the Inbox file",
+      },
+      today: {
+        label: "Today file",
+        description: "Tasks closed in the Today file",
+      },
+      upcoming: {
+        label: "Upcoming file",
+        description: "Tasks closed in the Upcoming file",
+      },
+      projects: {
+        label: "Project files",
+        description: "Tasks closed in project files",
+      },
+      labels: {
+        label: "Label files",
+        description: "Tasks closed in label files",
+      },
+    },
+    backgroundSync: {
+      header: "Background sync",
+      description:
+        "Sync synced files with Todoist on a schedule: edits are pushed to Todoist first, then changes made in Todoist are pulled.",
+      enabled: {
+        label: "Sync in the background",
+        description: "Run a sync at a regular interval while Obsidian is open",
+      },
+      interval: {
+        label: "Sync interval",
+        description: "The number of minutes between background syncs",
+      },
+      pauseWhenIdle: {
+        label: "Pause while idle",
+        description: "Don't sync after 10 minutes without using Obsidian",
+      },
+      pauseOnMetered: {
+        label: "Pause on metered connections",
+        description: "Don't sync on mobile data or with data saver turned on",
+      },
+    },
+    backups: {
+      header: "Backups",
+      description:
+        "A backup of your Todoist data is taken before each sync. A backup is kept as long as any of the rules below keeps it.",
+      keepLast: {
+        label: "Keep latest backups",
+        description: "Number of most recent backups to always keep",
+      },
+      keepDaily: {
+        label: "Daily backups",
+        description: "Keep the last backup of each day for this many days",
+      },
+      keepWeekly: {
+        label: "Weekly backups",
+        description: "Keep the last backup of each week for this many weeks",
+      },
+      compress: {
+        label: "Compress backups",
+        description: "Write new backups as gzip-compressed files, which take far less space",
+      },
+      skipUnchanged: {
+        label: "Skip unchanged backups",
+        description:
+          "Don't write a new backup when nothing changed in Todoist since the latest one",
+      },
+    },
     advanced: {
       header: "Advanced",
       debugLogging: {
         label: "Enable debug logging",
         description: "Whether debug logging should be enabled",
       },
+      localFilters: {
+        label: "Evaluate filters locally",
+        description:
+          "Evaluate query filters against the synced tasks instead of asking Todoist for each query. Filters using unsupported syntax are still sent to Todoist",
+      },
       buildStamp: {
         label: "Build stamp",
         description: "Stamp for the build of this plugin",
@@ -83,6 +233,7 @@ export const en: Translations = {
     loadingMessage: "Loading Todoist data...",
     successNotice: "Task created successfully",
     errorNotice: "Failed to create task",
+    queuedNotice: "Todoist is unreachable, the task will be created once you are back online",
     taskNamePlaceholder: "Task name",
     descriptionPlaceholder: "Description",
     appendedLinkToContentMessage: "A link to this page will be appended to the task name",
@@ -90,6 +241,10 @@ export const en: Translations = {
       "A link to this page will be appended to the task description",
     cancelButtonLabel: "Cancel",
     addTaskButtonLabel: "Add task",
+    saveTaskButtonLabel: "Save",
+    updatedNotice: "Task updated",
+    queuedUpdateNotice: "Todoist is unreachable, the task will be updated once you are back online",
+    updateErrorNotice: "Failed to update task",
     failedToFindInboxNotice: "Error: could not find inbox project",
     dateSelector: {
       buttonLabel: "Set due date",
@@ -149,6 +304,11 @@ export const en: Translations = {
       empty: {
         label: "The query returned no tasks",
       },
+      list: {
+        showMoreLabel: (count: number) => {
+          return `Show ${count} more`;
+        },
+      },
       error: {
         header: "Error",
         badRequest:
@@ -170,8 +330,26 @@ export const en: Translations = {
       completeTaskLabel: "Complete task",
       openTaskInAppLabel: "Open task in Todoist (app)",
       openTaskInBrowserLabel: "Open task in Todoist (web)",
+      editTaskLabel: "Edit task…",
+      rescheduleLabel: "Reschedule",
+      pickDateLabel: "Pick date…",
+      changePriorityLabel: "Change priority",
+      moveTaskLabel: "Move to project/section…",
+      addLabelLabel: "Add label",
+      noLabelsToAddLabel: "No other labels",
+      copyTaskLinkLabel: "Copy task link",
+      copiedTaskLinkNotice: "Task link copied",
+      deleteTaskLabel: "Delete task",
     },
     failedCloseMessage: "Failed to close task",
+    taskRow: {
+      completedNotice: "Task completed",
+      undoButtonLabel: "Undo",
+      failedUndoMessage: "Failed to reopen task",
+      failedUpdateMessage: "Failed to update task",
+      setPriorityLabel: "Set priority",
+      setDueDateLabel: "Set due date",
+    },
     header: {
       errorPostfix: "(Error)",
       refreshTooltip: {
@@ -190,6 +368,45 @@ export const en: Translations = {
       overdue: "Overdue",
     },
   },
+  taskActionModals: {
+    rescheduleTitle: "Reschedule task",
+    moveTitle: "Move task",
+    deleteTitle: "Delete task",
+    deleteConfirmation: (content: string) => `Are you sure you want to delete "${content}"?`,
+    deleteWarning: "Its sub-tasks will be deleted as well. This can't be undone.",
+    cancelButtonLabel: "Cancel",
+    saveButtonLabel: "Save",
+    moveButtonLabel: "Move",
+    deleteButtonLabel: "Delete",
+    failedMoveMessage: "Failed to move task",
+    failedDeleteMessage: "Failed to delete task",
+  },
+  statusBar: {
+    pendingChanges: (count: number) => {
+      return count === 1 ? "Todoist: 1 change pending" : `Todoist: ${count} changes pending`;
+    },
+    lastError: (error: string) => {
+      return `Last error: ${error}`;
+    },
+    retryHint: "Click to retry now",
+    syncing: "Todoist: syncing…",
+    syncFailed: "Todoist: sync failed",
+    syncedAgo: (minutes: number) => {
+      return minutes < 1 ? "Todoist: synced just now" : `Todoist: synced ${minutes} min ago`;
+    },
+    lastSync: (time: string) => {
+      return `Last sync: ${time}`;
+    },
+    paused: (reason: "idle" | "metered" | "offline") => {
+      const reasons = {
+        idle: "while Obsidian is idle",
+        metered: "on a metered connection",
+        offline: "while offline",
+      };
+      return `Background sync paused ${reasons[reason]}`;
+    },
+    openLogHint: "Click to show the sync history",
+  },
   commands: {
     sync: "Sync with Todoist",
     addTask: "Add task",
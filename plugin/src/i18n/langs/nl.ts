@@ -65,12 +65,167 @@ export const nl: DeepPartial<Translations> = {
         },
       },
     },
+    syncLayout: {
+      header: "Indeling van de synchronisatiemap",
+      description:
+        "Waar gesynchroniseerde bestanden worden geschreven. Als de indeling verandert, worden bestaande bestanden bij de volgende synchronisatie verplaatst.",
+      baseFolder: {
+        label: "Basismap",
+        description: "De map in je kluis met alle gesynchroniseerde bestanden",
+      },
+      inboxFile: {
+        label: "Inbox-bestand",
+        description: "Bestand met de taken in je Inbox, relatief aan de basismap",
+      },
+      todayFile: {
+        label: "Vandaag-bestand",
+        description:
+          "Bestand met de taken die vandaag of eerder verlopen, relatief aan de basismap",
+      },
+      upcomingFile: {
+        label: "Binnenkort-bestand",
+        description: "Bestand met de taken voor de komende week, relatief aan de basismap",
+      },
+      projectFile: {
+        label: "Projectbestanden",
+        description:
+          "Pad van elk projectbestand, waarbij {{project}} wordt vervangen door de projectnaam",
+      },
+      labelFile: {
+        label: "Labelbestanden",
+        description:
+          "Pad van elk labelbestand, waarbij {{label}} wordt vervangen door de labelnaam",
+      },
+      systemFolder: {
+        label: "Systeemmap",
+        description:
+          "Map voor de bestanden van de plugin, zoals taakkoppelingen en back-ups. Deze wordt nooit gesynchroniseerd.",
+      },
+      localFolder: {
+        label: "Lokale map",
+        description:
+          "Map voor je eigen notities naast de gesynchroniseerde bestanden. Deze wordt nooit gesynchroniseerd.",
+      },
+      labelFiles: {
+        label: "Labelbestanden aanmaken",
+        description:
+          "Of er voor elk label een bestand wordt geschreven met de taken die het label hebben",
+      },
+      nestSubprojects: {
+        label: "Subprojecten in mappen plaatsen",
+        description:
+          "Of subprojecten in een map met de naam van hun hoofdproject worden geplaatst, in plaats van ernaast",
+      },
+      templateFile: {
+        label: "Paginasjablonen",
+        description:
+          "Pad van een YAML-bestand, of een notitie met een YAML-codeblok, met sjablonen voor de gegenereerde pagina's. Laat leeg voor de ingebouwde pagina's.",
+      },
+      taskLineFormat: {
+        label: "Opmaak van taakregels",
+        description:
+          "Hoe deadlines, prioriteiten en herhalingen in gesynchroniseerde taakregels worden geschreven. Synchronisatie leest alle opmaken terug.",
+        options: {
+          default: "Standaard",
+          tasks: "Tasks-plugin",
+          dataview: "Dataview",
+        },
+      },
+      autoPush: {
+        label: "Wijzigingen automatisch versturen",
+        description:
+          "Stuur wijzigingen in gesynchroniseerde bestanden een paar seconden nadat je ze maakt naar Todoist. Conflicten blijven liggen tot de volgende handmatige synchronisatie.",
+      },
+    },
+    closedTasks: {
+      header: "Voltooide en verwijderde taken",
+      description:
+        "Wat er met de regels van in Todoist voltooide of verwijderde taken gebeurt wanneer een gesynchroniseerd bestand opnieuw wordt geschreven. Bewaarde regels worden afgevinkt met de datum waarop de synchronisatie de wijziging zag en worden niet meer gesynchroniseerd.",
+      options: {
+        remove: "Regel verwijderen",
+        check: "Ter plekke afvinken",
+        section: "Naar een sectie Voltooid verplaatsen",
+        archive: "Naar het archiefbestand verplaatsen",
+      },
+      inbox: {
+        label: "Inbox-bestand",
+        description: "Gesloten taken in het Inbox-bestand",
+      },
+      today: {
+        label: "Vandaag-bestand",
+        description: "Gesloten taken in het Vandaag-bestand",
+      },
+      upcoming: {
+        label: "Binnenkort-bestand",
+        description: "Gesloten taken in het Binnenkort-bestand",
+      },
+      projects: {
+        label: "Projectbestanden",
+        description: "Gesloten taken in projectbestanden",
+      },
+      labels: {
+        label: "Labelbestanden",
+        description: "Gesloten taken in labelbestanden",
+      },
+    },
+    backgroundSync: {
+      header: "Synchronisatie op de achtergrond",
+      description:
+        "Synchroniseer de gesynchroniseerde bestanden volgens een schema met Todoist: wijzigingen worden eerst naar Todoist gestuurd, daarna worden wijzigingen uit Todoist opgehaald.",
+      enabled: {
+        label: "Op de achtergrond synchroniseren",
+        description: "Synchroniseer met een vaste tussenpoos zolang Obsidian open is",
+      },
+      interval: {
+        label: "Synchronisatie-interval",
+        description: "Het aantal minuten tussen synchronisaties op de achtergrond",
+      },
+      pauseWhenIdle: {
+        label: "Pauzeren bij inactiviteit",
+        description: "Niet synchroniseren nadat Obsidian 10 minuten niet is gebruikt",
+      },
+      pauseOnMetered: {
+        label: "Pauzeren op verbindingen met datalimiet",
+        description: "Niet synchroniseren via mobiele data of met databesparing ingeschakeld",
+      },
+    },
+    backups: {
+      header: "Back-ups",
+      description:
+        "Voor elke synchronisatie wordt een back-up van je Todoist-gegevens gemaakt. Een back-up blijft bewaard zolang een van de onderstaande regels hem bewaart.",
+      keepLast: {
+        label: "Laatste back-ups bewaren",
+        description: "Aantal meest recente back-ups dat altijd bewaard blijft",
+      },
+      keepDaily: {
+        label: "Dagelijkse back-ups",
+        description: "Bewaar de laatste back-up van elke dag gedurende dit aantal dagen",
+      },
+      keepWeekly: {
+        label: "Wekelijkse back-ups",
+        description: "Bewaar de laatste back-up van elke week gedurende dit aantal weken",
+      },
+      compress: {
+        label: "Back-ups comprimeren",
+        description: "Schrijf nieuwe back-ups als gzip-bestanden, die veel minder ruimte innemen",
+      },
+      skipUnchanged: {
+        label: "Ongewijzigde back-ups overslaan",
+        description:
+          "Schrijf geen nieuwe back-up als er sinds de laatste niets in Todoist is veranderd",
+      },
+    },
     advanced: {
       header: "Geavanceerd",
       debugLogging: {
         label: "Debug-logboek inschakelen",
         description: "Of debug-logboeken moeten worden ingeschakeld",
       },
+      localFilters: {
+        label: "Filters lokaal evalueren",
+        description:
+          "Evalueer queryfilters tegen de gesynchroniseerde taken in plaats van Todoist voor elke query te bevragen. Filters met niet-ondersteunde syntaxis worden nog steeds naar Todoist gestuurd",
+      },
     },
     deprecation: {
       warningMessage:
@@ -81,6 +236,7 @@ export const nl: DeepPartial<Translations> = {
     loadingMessage: "Todoist-gegevens laden...",
     successNotice: "Taak succesvol aangemaakt",
     errorNotice: "Kan taak niet aanmaken",
+    queuedNotice: "Todoist is onbereikbaar, de taak wordt aangemaakt zodra u weer online bent",
     taskNamePlaceholder: "Taaknaam",
     descriptionPlaceholder: "Beschrijving",
     appendedLinkToContentMessage: "Een link naar deze pagina wordt toegevoegd aan de taaknaam",
@@ -88,6 +244,11 @@ export const nl: DeepPartial<Translations> = {
       "Een link naar deze pagina wordt toegevoegd aan de taakbeschrijving",
     cancelButtonLabel: "Annuleren",
     addTaskButtonLabel: "Taak toevoegen",
+    saveTaskButtonLabel: "Opslaan",
+    updatedNotice: "Taak bijgewerkt",
+    queuedUpdateNotice:
+      "Todoist is onbereikbaar, de taak wordt bijgewerkt zodra u weer online bent",
+    updateErrorNotice: "Kan taak niet bijwerken",
     failedToFindInboxNotice: "Fout: inbox-project niet gevonden",
     dateSelector: {
       buttonLabel: "Vervaldatum instellen",
@@ -147,6 +308,11 @@ export const nl: DeepPartial<Translations> = {
       empty: {
         label: "De query retourneerde geen taken",
       },
+      list: {
+        showMoreLabel: (count: number) => {
+          return `Toon ${count} meer`;
+        },
+      },
       error: {
         header: "Fout",
         badRequest:
@@ -166,8 +332,26 @@ export const nl: DeepPartial<Translations> = {
       completeTaskLabel: "Taak voltooien",
       openTaskInAppLabel: "Open taak in Todoist (app)",
       openTaskInBrowserLabel: "Open taak in Todoist (web)",
+      editTaskLabel: "Taak bewerken…",
+      rescheduleLabel: "Verplaatsen naar datum",
+      pickDateLabel: "Datum kiezen…",
+      changePriorityLabel: "Prioriteit wijzigen",
+      moveTaskLabel: "Verplaatsen naar project/sectie…",
+      addLabelLabel: "Label toevoegen",
+      noLabelsToAddLabel: "Geen andere labels",
+      copyTaskLinkLabel: "Link naar taak kopiëren",
+      copiedTaskLinkNotice: "Link naar taak gekopieerd",
+      deleteTaskLabel: "Taak verwijderen",
     },
     failedCloseMessage: "Kan taak niet sluiten",
+    taskRow: {
+      completedNotice: "Taak voltooid",
+      undoButtonLabel: "Ongedaan maken",
+      failedUndoMessage: "Kan taak niet heropenen",
+      failedUpdateMessage: "Kan taak niet bijwerken",
+      setPriorityLabel: "Prioriteit instellen",
+      setDueDateLabel: "Vervaldatum instellen",
+    },
     header: {
       errorPostfix: "(Fout)",
       refreshTooltip: {
@@ -187,6 +371,49 @@ export const nl: DeepPartial<Translations> = {
       overdue: "Achterstallig",
     },
   },
+  taskActionModals: {
+    rescheduleTitle: "Taak verplaatsen naar datum",
+    moveTitle: "Taak verplaatsen",
+    deleteTitle: "Taak verwijderen",
+    deleteConfirmation: (content: string) => `Weet u zeker dat u "${content}" wilt verwijderen?`,
+    deleteWarning: "De subtaken worden ook verwijderd. Dit kan niet ongedaan worden gemaakt.",
+    cancelButtonLabel: "Annuleren",
+    saveButtonLabel: "Opslaan",
+    moveButtonLabel: "Verplaatsen",
+    deleteButtonLabel: "Verwijderen",
+    failedMoveMessage: "Kan taak niet verplaatsen",
+    failedDeleteMessage: "Kan taak niet verwijderen",
+  },
+  statusBar: {
+    pendingChanges: (count: number) => {
+      return count === 1
+        ? "Todoist: 1 wijziging in de wachtrij"
+        : `Todoist: ${count} wijzigingen in de wachtrij`;
+    },
+    lastError: (error: string) => {
+      return `Laatste fout: ${error}`;
+    },
+    retryHint: "Klik om nu opnieuw te proberen",
+    syncing: "Todoist: synchroniseren…",
+    syncFailed: "Todoist: synchronisatie mislukt",
+    syncedAgo: (minutes: number) => {
+      return minutes < 1
+        ? "Todoist: zojuist gesynchroniseerd"
+        : `Todoist: ${minutes} min geleden gesynchroniseerd`;
+    },
+    lastSync: (time: string) => {
+      return `Laatste synchronisatie: ${time}`;
+    },
+    paused: (reason: "idle" | "metered" | "offline") => {
+      const reasons = {
+        idle: "zolang Obsidian niet wordt gebruikt",
+        metered: "op een verbinding met datalimiet",
+        offline: "zolang je offline bent",
+      };
+      return `Achtergrondsynchronisatie gepauzeerd ${reasons[reason]}`;
+    },
+    openLogHint: "Klik om de synchronisatiegeschiedenis te tonen",
+  },
   commands: {
     sync: "Synchroniseer met Todoist",
     addTask: "Taak toevoegen",
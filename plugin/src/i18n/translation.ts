@@ -60,12 +60,151 @@ export type Translations = {
         };
       };
     };
+    syncLayout: {
+      header: string;
+      description: string;
+      baseFolder: {
+        label: string;
+        description: string;
+      };
+      inboxFile: {
+        label: string;
+        description: string;
+      };
+      todayFile: {
+        label: string;
+        description: string;
+      };
+      upcomingFile: {
+        label: string;
+        description: string;
+      };
+      projectFile: {
+        label: string;
+        description: string;
+      };
+      labelFile: {
+        label: string;
+        description: string;
+      };
+      systemFolder: {
+        label: string;
+        description: string;
+      };
+      localFolder: {
+        label: string;
+        description: string;
+      };
+      labelFiles: {
+        label: string;
+        description: string;
+      };
+      nestSubprojects: {
+        label: string;
+        description: string;
+      };
+      templateFile: {
+        label: string;
+        description: string;
+      };
+      taskLineFormat: {
+        label: string;
+        description: string;
+        options: {
+          default: string;
+          tasks: string;
+          dataview: string;
+        };
+      };
+      autoPush: {
+        label: string;
+        description: string;
+      };
+    };
+    closedTasks: {
+      header: string;
+      description: string;
+      options: {
+        remove: string;
+        check: string;
+        section: string;
+        archive: string;
+      };
+      inbox: {
+        label: string;
+        description: string;
+      };
+      today: {
+        label: string;
+        description: string;
+      };
+      upcoming: {
+        label: string;
+        description: string;
+      };
+      projects: {
+        label: string;
+        description: string;
+      };
+      labels: {
+        label: string;
+        description: string;
+      };
+    };
+    backgroundSync: {
+      header: string;
+      description: string;
+      enabled: {
+        label: string;
+        description: string;
+      };
+      interval: {
+        label: string;
+        description: string;
+      };
+      pauseWhenIdle: {
+        label: string;
+        description: string;
+      };
+      pauseOnMetered: {
+        label: string;
+        description: string;
+      };
+    };
+    backups: {
+      header: string;
+      description: string;
+      keepLast: {
+        label: string;
+        description: string;
+      };
+      keepDaily: {
+        label: string;
+        description: string;
+      };
+      keepWeekly: {
+        label: string;
+        description: string;
+      };
+      compress: {
+        label: string;
+        description: string;
+      };
+      skipUnchanged: {
+        label: string;
+        description: string;
+      };
+    };
     advanced: {
       header: string;
       debugLogging: {
         label: string;
         description: string;
       };
+      localFilters: {
+        label: string;
+        description: string;
+      };
       buildStamp: {
         label: string;
         description: string;
@@ -79,12 +218,17 @@ export type Translations = {
     loadingMessage: string;
     successNotice: string;
     errorNotice: string;
+    queuedNotice: string;
     taskNamePlaceholder: string;
     descriptionPlaceholder: string;
     appendedLinkToContentMessage: string;
     appendedLinkToDescriptionMessage: string;
     cancelButtonLabel: string;
     addTaskButtonLabel: string;
+    saveTaskButtonLabel: string;
+    updatedNotice: string;
+    queuedUpdateNotice: string;
+    updateErrorNotice: string;
     failedToFindInboxNotice: string;
     dateSelector: {
       buttonLabel: string;
@@ -141,6 +285,9 @@ export type Translations = {
       empty: {
         label: string;
       };
+      list: {
+        showMoreLabel: (count: number) => string;
+      };
       error: {
         header: string;
         badRequest: string;
@@ -157,8 +304,26 @@ export type Translations = {
       completeTaskLabel: string;
       openTaskInAppLabel: string;
       openTaskInBrowserLabel: string;
+      editTaskLabel: string;
+      rescheduleLabel: string;
+      pickDateLabel: string;
+      changePriorityLabel: string;
+      moveTaskLabel: string;
+      addLabelLabel: string;
+      noLabelsToAddLabel: string;
+      copyTaskLinkLabel: string;
+      copiedTaskLinkNotice: string;
+      deleteTaskLabel: string;
     };
     failedCloseMessage: string;
+    taskRow: {
+      completedNotice: string;
+      undoButtonLabel: string;
+      failedUndoMessage: string;
+      failedUpdateMessage: string;
+      setPriorityLabel: string;
+      setDueDateLabel: string;
+    };
     header: {
       errorPostfix: string;
       refreshTooltip: {
@@ -176,6 +341,30 @@ export type Translations = {
       overdue: string;
     };
   };
+  taskActionModals: {
+    rescheduleTitle: string;
+    moveTitle: string;
+    deleteTitle: string;
+    deleteConfirmation: (content: string) => string;
+    deleteWarning: string;
+    cancelButtonLabel: string;
+    saveButtonLabel: string;
+    moveButtonLabel: string;
+    deleteButtonLabel: string;
+    failedMoveMessage: string;
+    failedDeleteMessage: string;
+  };
+  statusBar: {
+    pendingChanges: (count: number) => string;
+    lastError: (error: string) => string;
+    retryHint: string;
+    syncing: string;
+    syncFailed: string;
+    syncedAgo: (minutes: number) => string;
+    lastSync: (time: string) => string;
+    paused: (reason: "idle" | "metered" | "offline") => string;
+    openLogHint: string;
+  };
   commands: {
     sync: string;
     addTask: string;
@@ -2,14 +2,24 @@ import { setLanguage } from "@/i18n";
 import "@/styles/main.scss";
 import { TodoistApiClient } from "@/api";
 import { ObsidianFetcher } from "@/api/fetcher";
+import { withDefaultMiddleware } from "@/api/middleware";
 import { registerCommands } from "@/commands";
+import { FileChangeWatcher } from "@/core/sync/FileChangeWatcher";
+import { SyncScheduler } from "@/core/sync/SyncScheduler";
 import { QueryInjector } from "@/query/injector";
 import { type Services, makeServices } from "@/services";
 import { type Settings, useSettingsStore } from "@/settings";
+import { type PluginState, usePluginStateStore } from "@/state";
 import { SettingsTab } from "@/ui/settings";
+import { registerStatusBar } from "@/ui/statusBar";
 import { type App, Plugin } from "obsidian";
 import type { PluginManifest } from "obsidian";
 
+const outboxRetryInterval = 15 * 1000;
+
+const makeApiClient = (token: string) =>
+  new TodoistApiClient(token, withDefaultMiddleware(new ObsidianFetcher()));
+
 export default class TodoistPlugin extends Plugin {
   public readonly services: Services;
 
@@ -30,6 +40,18 @@ export default class TodoistPlugin extends Plugin {
     setLanguage(document.documentElement.lang);
 
     await this.loadOptions();
+    registerStatusBar(this);
+
+    // Queued changes are retried as their backoff elapses, and straight away once the
+    // network comes back.
+    this.registerInterval(
+      window.setInterval(() => this.services.todoist.retryPending(), outboxRetryInterval),
+    );
+    this.registerDomEvent(window, "online", () => this.services.todoist.retryPending(true));
+
+    // Edits to synced files are pushed to Todoist in the background
+    new FileChangeWatcher(this).register();
+    new SyncScheduler(this).register();
 
     this.app.workspace.onLayoutReady(async () => {
       await this.loadApiClient();
@@ -42,7 +64,7 @@ export default class TodoistPlugin extends Plugin {
 
     if (await accessor.exists()) {
       const token = await accessor.read();
-      await this.services.todoist.initialize(new TodoistApiClient(token, new ObsidianFetcher()));
+      await this.services.todoist.initialize(makeApiClient(token));
       return;
     }
 
@@ -53,7 +75,7 @@ export default class TodoistPlugin extends Plugin {
         onTokenSubmit: async (token) => {
           // Token is already saved by SetupOrchestrator
           // Just initialize the API client
-          await this.services.todoist.initialize(new TodoistApiClient(token, new ObsidianFetcher()));
+          await this.services.todoist.initialize(makeApiClient(token));
         },
       });
     } else {
@@ -61,14 +83,14 @@ export default class TodoistPlugin extends Plugin {
       this.services.modals.onboarding({
         onTokenSubmit: async (token) => {
           await accessor.write(token);
-          await this.services.todoist.initialize(new TodoistApiClient(token, new ObsidianFetcher()));
+          await this.services.todoist.initialize(makeApiClient(token));
         },
       });
     }
   }
 
   async loadOptions(): Promise<void> {
-    const options = await this.loadData();
+    const { state, ...options } = (await this.loadData()) ?? {};
 
     useSettingsStore.setState((old) => {
       return {
@@ -76,12 +98,22 @@ export default class TodoistPlugin extends Plugin {
         ...options,
       };
     }, true);
+    usePluginStateStore.setState(state ?? {}, true);
 
-    await this.saveData(useSettingsStore.getState());
+    await this.persist();
   }
 
   async writeOptions(update: Partial<Settings>): Promise<void> {
     useSettingsStore.setState(update);
-    await this.saveData(useSettingsStore.getState());
+    await this.persist();
+  }
+
+  async writeState(update: Partial<PluginState>): Promise<void> {
+    usePluginStateStore.setState(update);
+    await this.persist();
+  }
+
+  private async persist(): Promise<void> {
+    await this.saveData({ ...useSettingsStore.getState(), state: usePluginStateStore.getState() });
   }
 }
@@ -0,0 +1,123 @@
+import type { Project } from "@/api/domain/project";
+import { Repository } from "@/data/repository";
+import type { Task } from "@/data/task";
+import { FilterParseError, parseFilter } from "@/query/filter";
+import { CalendarDate, ZonedDateTime } from "@internationalized/date";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+
+vi.mock("../infra/time.ts", () => {
+  return {
+    timezone: () => "Etc/UTC",
+  };
+});
+
+const makeProject = (id: string, name: string, parentId: string | null = null): Project => ({
+  id,
+  parentId,
+  name,
+  order: 0,
+  isInboxProject: false,
+  color: "grey",
+});
+
+const work = makeProject("1", "Work");
+const planning = makeProject("2", "Planning", "1");
+const home = makeProject("3", "Home & Garden");
+
+const projects = new Repository<string, Project>(async () => [work, planning, home]);
+
+const ctx = {
+  projects,
+  today: new CalendarDate(2024, 1, 10),
+  now: new ZonedDateTime(2024, 1, 10, "Etc/UTC", 0, 12),
+};
+
+beforeAll(async () => {
+  await projects.sync();
+});
+
+const makeTask = (id: string, opts: Partial<Task> = {}): Task => ({
+  id,
+  createdAt: "",
+  content: `Task ${id}`,
+  description: "",
+  project: work,
+  labels: [],
+  priority: 1,
+  order: 0,
+  ...opts,
+});
+
+const tasks: Task[] = [
+  makeTask("overdue", { due: { isRecurring: false, date: "2024-01-09" }, priority: 4 }),
+  makeTask("today", {
+    due: { isRecurring: false, date: "2024-01-10" },
+    labels: [{ id: "1", name: "errand", color: "grey" }],
+  }),
+  makeTask("earlier-today", {
+    due: { isRecurring: false, date: "2024-01-10", datetime: "2024-01-10T09:00:00Z" },
+  }),
+  makeTask("tomorrow", {
+    due: { isRecurring: true, date: "2024-01-11", string: "every day" },
+    project: planning,
+    section: { id: "1", projectId: "2", name: "Backlog", order: 0 },
+  }),
+  makeTask("no-date", { project: home, content: "Water the plants", priority: 2 }),
+];
+
+const evaluate = (filter: string): string[] => {
+  const matches = parseFilter(filter);
+  return tasks.filter((task) => matches(task, ctx)).map((task) => task.id);
+};
+
+describe("parseFilter", () => {
+  type TestCase = {
+    filter: string;
+    expected: string[];
+  };
+
+  const testcases: TestCase[] = [
+    { filter: "today", expected: ["today", "earlier-today"] },
+    { filter: "overdue", expected: ["overdue", "earlier-today"] },
+    { filter: "today | overdue", expected: ["overdue", "today", "earlier-today"] },
+    { filter: "(today | overdue) & !@errand", expected: ["overdue", "earlier-today"] },
+    { filter: "no date", expected: ["no-date"] },
+    { filter: "p1", expected: ["overdue"] },
+    { filter: "p3 | p4", expected: ["today", "earlier-today", "tomorrow", "no-date"] },
+    { filter: "#work", expected: ["overdue", "today", "earlier-today"] },
+    { filter: "##Work", expected: ["overdue", "today", "earlier-today", "tomorrow"] },
+    { filter: "#Home \\& Garden", expected: ["no-date"] },
+    { filter: "#Home*", expected: ["no-date"] },
+    { filter: "/Backlog", expected: ["tomorrow"] },
+    { filter: "@err*", expected: ["today"] },
+    { filter: "due before: today", expected: ["overdue"] },
+    { filter: "due after: 2024-01-10", expected: ["tomorrow"] },
+    { filter: "2 days", expected: ["today", "earlier-today", "tomorrow"] },
+    { filter: "recurring", expected: ["tomorrow"] },
+    { filter: "search: plants", expected: ["no-date"] },
+  ];
+
+  for (const tc of testcases) {
+    it(`should evaluate '${tc.filter}'`, () => {
+      expect(evaluate(tc.filter)).toEqual(tc.expected);
+    });
+  }
+
+  it("should give & precedence over |", () => {
+    expect(evaluate("p1 | today & @errand")).toEqual(["overdue", "today"]);
+  });
+
+  const unsupported = [
+    "today, overdue",
+    "assigned to: me",
+    "due before: next monday",
+    "(today",
+    "",
+  ];
+
+  for (const filter of unsupported) {
+    it(`should reject '${filter}'`, () => {
+      expect(() => parseFilter(filter)).toThrow(FilterParseError);
+    });
+  }
+});
@@ -0,0 +1,301 @@
+import type { Project, ProjectId } from "@/api/domain/project";
+import type { RepositoryReader } from "@/data/repository";
+import type { Task } from "@/data/task";
+import { timezone } from "@/infra/time";
+import {
+  type CalendarDate,
+  type ZonedDateTime,
+  parseAbsolute,
+  parseDate,
+  parseDateTime,
+  toCalendarDate,
+  toZoned,
+} from "@internationalized/date";
+
+export class FilterParseError extends Error {}
+
+export type FilterContext = {
+  projects: RepositoryReader<ProjectId, Project>;
+  today: CalendarDate;
+  now: ZonedDateTime;
+};
+
+export type Filter = (task: Task, ctx: FilterContext) => boolean;
+
+// Parses the subset of the Todoist filter syntax that can be evaluated against the local task
+// cache. Throws a `FilterParseError` for anything else, so the caller can ask Todoist instead.
+export function parseFilter(raw: string): Filter {
+  const parser = new Parser(raw);
+  const filter = parser.parseExpression();
+  parser.expectEnd();
+  return filter;
+}
+
+// Characters which end a term. Names can contain spaces, e.g. `#Work projects & today`.
+const terminators = new Set(["&", "|", "(", ")"]);
+
+class Parser {
+  private readonly input: string;
+  private pos = 0;
+
+  constructor(input: string) {
+    this.input = input;
+  }
+
+  // expression := and ('|' and)*
+  public parseExpression(): Filter {
+    let filter = this.parseAnd();
+    while (this.consume("|")) {
+      const left = filter;
+      const right = this.parseAnd();
+      filter = (task, ctx) => left(task, ctx) || right(task, ctx);
+    }
+    return filter;
+  }
+
+  public expectEnd() {
+    this.skipWhitespace();
+    if (this.pos < this.input.length) {
+      throw new FilterParseError(`Unexpected '${this.input[this.pos]}' at position ${this.pos}`);
+    }
+  }
+
+  // and := unary ('&' unary)*
+  private parseAnd(): Filter {
+    let filter = this.parseUnary();
+    while (this.consume("&")) {
+      const left = filter;
+      const right = this.parseUnary();
+      filter = (task, ctx) => left(task, ctx) && right(task, ctx);
+    }
+    return filter;
+  }
+
+  // unary := '!' unary | '(' expression ')' | term
+  private parseUnary(): Filter {
+    if (this.consume("!")) {
+      const inner = this.parseUnary();
+      return (task, ctx) => !inner(task, ctx);
+    }
+
+    if (this.consume("(")) {
+      const inner = this.parseExpression();
+      if (!this.consume(")")) {
+        throw new FilterParseError("Missing closing parenthesis");
+      }
+      return inner;
+    }
+
+    return parseTerm(this.readTerm());
+  }
+
+  private readTerm(): string {
+    this.skipWhitespace();
+
+    let term = "";
+    while (this.pos < this.input.length && !terminators.has(this.input[this.pos])) {
+      // A backslash escapes operators in names, e.g. `#Home \& garden`.
+      if (this.input[this.pos] === "\\" && this.pos + 1 < this.input.length) {
+        this.pos++;
+      }
+      term += this.input[this.pos];
+      this.pos++;
+    }
+
+    term = term.trim();
+    if (term === "") {
+      throw new FilterParseError(`Expected a filter at position ${this.pos}`);
+    }
+    return term;
+  }
+
+  private consume(token: string): boolean {
+    this.skipWhitespace();
+    if (this.input[this.pos] !== token) {
+      return false;
+    }
+
+    this.pos++;
+    return true;
+  }
+
+  private skipWhitespace() {
+    while (this.pos < this.input.length && /\s/.test(this.input[this.pos])) {
+      this.pos++;
+    }
+  }
+}
+
+const parseTerm = (term: string): Filter => {
+  if (term.includes(",")) {
+    throw new FilterParseError("Multiple filters separated by ',' are not supported");
+  }
+
+  if (term.startsWith("##")) {
+    const matches = nameMatcher(term.slice(2));
+    return (task, ctx) => projectAndAncestors(task.project, ctx).some((p) => matches(p.name));
+  }
+
+  if (term.startsWith("#")) {
+    const matches = nameMatcher(term.slice(1));
+    return (task) => matches(task.project.name);
+  }
+
+  if (term.startsWith("@")) {
+    const matches = nameMatcher(term.slice(1));
+    return (task) => task.labels.some((label) => matches(label.name));
+  }
+
+  if (term.startsWith("/")) {
+    const matches = nameMatcher(term.slice(1));
+    return (task) => task.section !== undefined && matches(task.section.name);
+  }
+
+  const normalized = term.toLowerCase().replace(/\s+/g, " ");
+
+  const priority = /^p([1-4])$/.exec(normalized);
+  if (priority !== null) {
+    // p1 is the most urgent priority, which is 4 in the API.
+    const value = 5 - Number(priority[1]);
+    return (task) => task.priority === value;
+  }
+
+  const days = /^(?:next )?(\d+) days$/.exec(normalized);
+  if (days !== null) {
+    const count = Number(days[1]);
+    return dueMatcher(
+      (due, ctx) =>
+        due.date.compare(ctx.today) >= 0 && due.date.compare(ctx.today.add({ days: count })) < 0,
+    );
+  }
+
+  const dueComparison = /^(?:due|date)(?: (before|after))?: ?(.+)$/.exec(normalized);
+  if (dueComparison !== null) {
+    const [, comparison, value] = dueComparison;
+    const target = parseRelativeDate(value);
+    return dueMatcher((due, ctx) => {
+      const order = due.date.compare(target(ctx));
+      switch (comparison) {
+        case "before":
+          return order < 0;
+        case "after":
+          return order > 0;
+        default:
+          return order === 0;
+      }
+    });
+  }
+
+  const search = /^search: ?(.+)$/i.exec(term);
+  if (search !== null) {
+    const text = search[1].toLowerCase();
+    return (task) => task.content.toLowerCase().includes(text);
+  }
+
+  const keyword = keywords[normalized];
+  if (keyword !== undefined) {
+    return keyword;
+  }
+
+  throw new FilterParseError(`Unsupported filter '${term}'`);
+};
+
+const keywords: Record<string, Filter> = {
+  today: dueOn(0),
+  tomorrow: dueOn(1),
+  yesterday: dueOn(-1),
+  overdue: dueMatcher(isOverdue),
+  od: dueMatcher(isOverdue),
+  "no date": (task) => task.due === undefined,
+  "no labels": (task) => task.labels.length === 0,
+  "no priority": (task) => task.priority === 1,
+  recurring: (task) => task.due?.isRecurring ?? false,
+  subtask: (task) => task.parentId !== undefined,
+};
+
+type TaskDue = {
+  date: CalendarDate;
+  datetime: ZonedDateTime | undefined;
+};
+
+function dueMatcher(predicate: (due: TaskDue, ctx: FilterContext) => boolean): Filter {
+  return (task, ctx) => {
+    const due = getTaskDue(task);
+    return due !== undefined && predicate(due, ctx);
+  };
+}
+
+function dueOn(offset: number): Filter {
+  return dueMatcher((due, ctx) => due.date.compare(ctx.today.add({ days: offset })) === 0);
+}
+
+function isOverdue(due: TaskDue, ctx: FilterContext): boolean {
+  if (due.datetime !== undefined) {
+    return due.datetime.compare(ctx.now) < 0;
+  }
+
+  return due.date.compare(ctx.today) < 0;
+}
+
+// Fixed timezone datetimes are compared in the local timezone, like they are rendered.
+const getTaskDue = (task: Task): TaskDue | undefined => {
+  if (task.due === undefined) {
+    return undefined;
+  }
+
+  if (task.due.datetime === undefined) {
+    return { date: parseDate(task.due.date), datetime: undefined };
+  }
+
+  const datetime = task.due.datetime.endsWith("Z")
+    ? parseAbsolute(task.due.datetime, timezone())
+    : toZoned(parseDateTime(task.due.datetime), timezone());
+  return { date: toCalendarDate(datetime), datetime };
+};
+
+const parseRelativeDate = (value: string): ((ctx: FilterContext) => CalendarDate) => {
+  switch (value.trim()) {
+    case "today":
+      return (ctx) => ctx.today;
+    case "tomorrow":
+      return (ctx) => ctx.today.add({ days: 1 });
+    case "yesterday":
+      return (ctx) => ctx.today.add({ days: -1 });
+  }
+
+  try {
+    const date = parseDate(value.trim());
+    return () => date;
+  } catch {
+    throw new FilterParseError(`Unsupported date '${value}'`);
+  }
+};
+
+// Names are matched case-insensitively, and `*` matches any number of characters.
+const nameMatcher = (pattern: string): ((name: string) => boolean) => {
+  const expected = pattern.trim();
+  if (expected === "") {
+    throw new FilterParseError("Expected a name");
+  }
+
+  const source = expected
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  const regex = new RegExp(`^${source}$`, "i");
+  return (name) => regex.test(name);
+};
+
+const projectAndAncestors = (project: Project, ctx: FilterContext): Project[] => {
+  const chain = [project];
+  let parentId = project.parentId;
+  while (parentId !== null) {
+    const parent = ctx.projects.byId(parentId);
+    if (parent === undefined || chain.includes(parent)) {
+      break;
+    }
+    chain.push(parent);
+    parentId = parent.parentId;
+  }
+  return chain;
+};
@@ -83,6 +83,27 @@ describe("parseQuery - rejections", () => {
         groupBy: "something else",
       },
     },
+    {
+      description: "limit must be a positive number",
+      input: {
+        filter: "foobar",
+        limit: 0,
+      },
+    },
+    {
+      description: "limit must be an integer",
+      input: {
+        filter: "foobar",
+        limit: 2.5,
+      },
+    },
+    {
+      description: "offset must not be negative",
+      input: {
+        filter: "foobar",
+        offset: -1,
+      },
+    },
     {
       description: "show must be an array of strings",
       input: {
@@ -133,6 +154,8 @@ function makeQuery(opts?: Partial<Query>): Query {
         ShowMetadataVariant.Labels,
       ]),
     groupBy: opts?.groupBy ?? GroupVariant.None,
+    limit: opts?.limit,
+    offset: opts?.offset ?? 0,
   };
 }
 
@@ -186,6 +209,19 @@ describe("parseQuery", () => {
         groupBy: GroupVariant.Section,
       }),
     },
+    {
+      description: "with limit and offset",
+      input: {
+        filter: "bar",
+        limit: 10,
+        offset: 5,
+      },
+      expectedOutput: makeQuery({
+        filter: "bar",
+        limit: 10,
+        offset: 5,
+      }),
+    },
     {
       description: "with sorting",
       input: {
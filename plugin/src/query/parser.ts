@@ -129,6 +129,8 @@ const querySchema = z.object({
     .optional()
     .transform((val) => val ?? defaults.show),
   groupBy: groupBySchema.optional().transform((val) => val ?? defaults.groupBy),
+  limit: z.number().int().positive().optional(),
+  offset: z.number().int().nonnegative().optional().default(0),
 });
 
 const validQueryKeys: string[] = querySchema.keyof().options;
@@ -156,6 +158,8 @@ function parseObjectZod(query: Record<string, unknown>): [Query, QueryWarning[]]
       sorting: out.data.sorting,
       show: new Set(out.data.show),
       groupBy: out.data.groupBy,
+      limit: out.data.limit,
+      offset: out.data.offset,
     },
     warnings,
   ];
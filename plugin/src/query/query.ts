@@ -31,4 +31,8 @@ export type Query = {
   sorting: SortingVariant[];
   show: Set<ShowMetadataVariant>;
   groupBy: GroupVariant;
+  // Maximum number of top-level tasks shown at first, per group when grouping. Unlimited if unset.
+  limit: number | undefined;
+  // Number of top-level tasks skipped, before grouping.
+  offset: number;
 };
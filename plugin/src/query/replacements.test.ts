@@ -61,6 +61,8 @@ describe("applyReplacements", () => {
           groupBy: GroupVariant.None,
           sorting: [],
           show: new Set(),
+          limit: undefined,
+          offset: 0,
         };
 
         applyReplacements(query, new FakeContext(tc.filePath ?? ""));
@@ -5,6 +5,7 @@ import { VaultTokenAccessor } from "@/services/tokenAccessor";
 import { SetupOrchestrator } from "@/core/setup/SetupOrchestrator";
 import { DopamineFeedbackSystem } from "@/core/adhd/DopamineFeedbackSystem";
 import { useSettingsStore } from "@/settings";
+import { usePluginStateStore } from "@/state";
 
 export type Services = {
   modals: ModalHandler;
@@ -30,7 +31,16 @@ export const makeServices = (plugin: TodoistPlugin): Services => {
   return {
     modals: new ModalHandler(plugin),
     token: new VaultTokenAccessor(plugin.app.vault),
-    todoist: new TodoistAdapter(),
+    todoist: new TodoistAdapter(
+      {
+        load: () => usePluginStateStore.getState().syncState,
+        save: (syncState) => plugin.writeState({ syncState }),
+      },
+      {
+        load: () => usePluginStateStore.getState().outbox,
+        save: (outbox) => plugin.writeState({ outbox }),
+      },
+    ),
     setup: new SetupOrchestrator(plugin),
     dopamineFeedback,
   };
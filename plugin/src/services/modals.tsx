@@ -1,3 +1,5 @@
+import type { Task } from "@/data/task";
+import { t } from "@/i18n";
 import { ModalContext, type ModalInfo, PluginContext } from "@/ui/context";
 import { Modal, Platform } from "obsidian";
 import type React from "react";
@@ -6,6 +8,9 @@ import type TodoistPlugin from "..";
 import { CreateTaskModal } from "../ui/createTaskModal";
 import { OnboardingModal } from "../ui/onboardingModal";
 import { ADHDOnboardingModal } from "../ui/onboardingModal/ADHDOnboardingModal";
+import { DeleteTaskModal } from "../ui/taskActionModals/DeleteTaskModal";
+import { MoveTaskModal } from "../ui/taskActionModals/MoveTaskModal";
+import { RescheduleTaskModal } from "../ui/taskActionModals/RescheduleTaskModal";
 
 type ModalOptions = {
   title?: string;
@@ -86,4 +91,38 @@ export class ModalHandler {
       dontCloseOnExternalClick: Platform.isMobileApp,
     }).open();
   }
+
+  public taskEditing(task: Task) {
+    new ReactModal(
+      this.plugin,
+      CreateTaskModal,
+      {
+        initialContent: task.content,
+        fileContext: undefined,
+        options: { appendLinkToContent: false, appendLinkToDescription: false },
+        task,
+      },
+      {
+        dontCloseOnExternalClick: Platform.isMobileApp,
+      },
+    ).open();
+  }
+
+  public taskRescheduling(props: React.ComponentProps<typeof RescheduleTaskModal>) {
+    new ReactModal(this.plugin, RescheduleTaskModal, props, {
+      title: t().taskActionModals.rescheduleTitle,
+    }).open();
+  }
+
+  public taskMoving(props: React.ComponentProps<typeof MoveTaskModal>) {
+    new ReactModal(this.plugin, MoveTaskModal, props, {
+      title: t().taskActionModals.moveTitle,
+    }).open();
+  }
+
+  public taskDeletion(props: React.ComponentProps<typeof DeleteTaskModal>) {
+    new ReactModal(this.plugin, DeleteTaskModal, props, {
+      title: t().taskActionModals.deleteTitle,
+    }).open();
+  }
 }
@@ -3,6 +3,87 @@ import { create } from "zustand";
 export type AddPageLinkSetting = "off" | "description" | "content";
 export type CognitiveLoadLevel = "minimal" | "reduced" | "standard";
 export type FeedbackIntensity = "subtle" | "moderate" | "enthusiastic";
+export type TaskLineFormat = "default" | "tasks" | "dataview";
+
+// Where synced files live. File names are relative to the base folder and `{{project}}` and
+// `{{label}}` are replaced by the project or label name.
+export type SyncLayoutSettings = {
+  baseFolder: string;
+  inboxFile: string;
+  todayFile: string;
+  upcomingFile: string;
+  projectFile: string;
+  labelFile: string;
+  systemFolder: string;
+  localFolder: string;
+  labelFiles: boolean;
+  nestSubprojects: boolean;
+};
+
+export const defaultSyncLayout: SyncLayoutSettings = {
+  baseFolder: "📋 01-PRODUCTIVITY/todoist-integration",
+  inboxFile: "📥 Inbox",
+  todayFile: "📅 Today",
+  upcomingFile: "📆 Upcoming",
+  projectFile: "🗂️ Projects/{{project}}",
+  labelFile: "🏷️ Labels/{{label}}",
+  systemFolder: "⚙️ System",
+  localFolder: "📁 Local",
+  labelFiles: true,
+  nestSubprojects: true,
+};
+
+// Which backups are kept: the `keepLast` newest, plus the newest of each day for `keepDaily`
+// days and the newest of each week for `keepWeekly` weeks.
+export type BackupSettings = {
+  keepLast: number;
+  keepDaily: number;
+  keepWeekly: number;
+  compress: boolean;
+  skipUnchanged: boolean;
+};
+
+export const defaultBackupSettings: BackupSettings = {
+  keepLast: 5,
+  keepDaily: 7,
+  keepWeekly: 4,
+  compress: false,
+  skipUnchanged: true,
+};
+
+export type BackgroundSyncSettings = {
+  enabled: boolean;
+  intervalMinutes: number;
+  pauseWhenIdle: boolean;
+  pauseOnMetered: boolean;
+};
+
+export const defaultBackgroundSync: BackgroundSyncSettings = {
+  enabled: false,
+  intervalMinutes: 15,
+  pauseWhenIdle: true,
+  pauseOnMetered: true,
+};
+
+// What happens to the line of a task completed or deleted in Todoist, per kind of synced file:
+// removed, checked off where it was, moved to a Completed section or moved to the archive file.
+export type ClosedTaskPolicy = "remove" | "check" | "section" | "archive";
+
+export type ClosedTaskSettings = {
+  inbox: ClosedTaskPolicy;
+  today: ClosedTaskPolicy;
+  upcoming: ClosedTaskPolicy;
+  projects: ClosedTaskPolicy;
+  labels: ClosedTaskPolicy;
+};
+
+export const defaultClosedTasks: ClosedTaskSettings = {
+  inbox: "remove",
+  today: "remove",
+  upcoming: "remove",
+  projects: "remove",
+  labels: "remove",
+};
 
 const defaultSettings: Settings = {
   // Existing settings with ADHD-optimized defaults
@@ -15,6 +96,7 @@ const defaultSettings: Settings = {
   shouldWrapLinksInParens: false,
   addTaskButtonAddsPageLink: "content",
   debugLogging: false,
+  evaluateFiltersLocally: false,
 
   // ADHD-specific settings
   enableDopamineFeedback: true,
@@ -28,6 +110,12 @@ const defaultSettings: Settings = {
   preserveP0Workflow: true,
   enableBidirectionalSync: true,
   syncLatencyTarget: 5000, // 5 seconds max
+  syncLayout: defaultSyncLayout,
+  syncTemplateFile: "",
+  taskLineFormat: "default",
+  closedTasks: defaultClosedTasks,
+  backups: defaultBackupSettings,
+  backgroundSync: defaultBackgroundSync,
 };
 
 export type Settings = {
@@ -41,6 +129,7 @@ export type Settings = {
   shouldWrapLinksInParens: boolean;
   addTaskButtonAddsPageLink: AddPageLinkSetting;
   debugLogging: boolean;
+  evaluateFiltersLocally: boolean;
 
   // ADHD-specific settings
   enableDopamineFeedback: boolean;
@@ -54,6 +143,12 @@ export type Settings = {
   preserveP0Workflow: boolean;
   enableBidirectionalSync: boolean;
   syncLatencyTarget: number;
+  syncLayout: SyncLayoutSettings;
+  syncTemplateFile: string;
+  taskLineFormat: TaskLineFormat;
+  closedTasks: ClosedTaskSettings;
+  backups: BackupSettings;
+  backgroundSync: BackgroundSyncSettings;
 };
 
 export const useSettingsStore = create<Settings>((set) => ({
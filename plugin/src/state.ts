@@ -0,0 +1,15 @@
+import type { OutboxState } from "@/data/outbox";
+import type { SyncSnapshot } from "@/data/syncCache";
+import type { SyncLayoutSettings } from "@/settings";
+import { create } from "zustand";
+
+// Plugin state that isn't user-facing settings but must survive restarts. It is stored
+// alongside the settings in the plugin's data file under the `state` key.
+export type PluginState = {
+  syncState?: SyncSnapshot;
+  outbox?: OutboxState;
+  // The layout the synced files in the vault currently follow, to move them when it changes.
+  syncLayout?: SyncLayoutSettings;
+};
+
+export const usePluginStateStore = create<PluginState>(() => ({}));
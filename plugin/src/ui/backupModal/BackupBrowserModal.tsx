@@ -0,0 +1,241 @@
+import { type BackupChanges, BackupDiff } from "@/core/backup/BackupDiff";
+import {
+  type BackupInfo,
+  type SafeTaskBackup,
+  TodoistBackupManager,
+} from "@/core/backup/TodoistBackupManager";
+import type TodoistPlugin from "@/index";
+import { FuzzySuggestModal, Modal, Notice } from "obsidian";
+import { RestorePreviewModal } from "./RestorePreviewModal";
+
+/**
+ * Picks a task out of all backups, to export its history
+ */
+class BackupTaskSuggestModal extends FuzzySuggestModal<SafeTaskBackup> {
+  private tasks: SafeTaskBackup[];
+  private onChoose: (task: SafeTaskBackup) => void;
+
+  constructor(
+    plugin: TodoistPlugin,
+    tasks: SafeTaskBackup[],
+    onChoose: (task: SafeTaskBackup) => void,
+  ) {
+    super(plugin.app);
+    this.tasks = tasks;
+    this.onChoose = onChoose;
+    this.setPlaceholder("Choose a task to export its history");
+  }
+
+  getItems(): SafeTaskBackup[] {
+    return this.tasks;
+  }
+
+  getItemText(task: SafeTaskBackup): string {
+    return `${task.content} (${task.projectName})`;
+  }
+
+  onChooseItem(task: SafeTaskBackup): void {
+    this.onChoose(task);
+  }
+}
+
+/**
+ * Lists backups with their size, compares any two of them, exports the history of a task
+ * across backups, and restores or deletes a backup
+ */
+export class BackupBrowserModal extends Modal {
+  private plugin: TodoistPlugin;
+  private backupManager: TodoistBackupManager;
+  private backups: BackupInfo[] = [];
+  private from = "";
+  private to = "";
+  private confirmingDelete: string | null = null;
+
+  constructor(plugin: TodoistPlugin) {
+    super(plugin.app);
+    this.plugin = plugin;
+    this.backupManager = new TodoistBackupManager(plugin);
+  }
+
+  async onOpen() {
+    this.backups = await this.backupManager.listBackups();
+
+    // Compare the two most recent backups to start with
+    this.to = this.backups[0]?.filePath ?? "";
+    this.from = this.backups[1]?.filePath ?? this.to;
+    this.render();
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h2", { text: "🛡️ Todoist Backups" });
+
+    if (this.backups.length === 0) {
+      contentEl.createEl("p", {
+        text: "📁 No backups found. Backups are created automatically before sync operations.",
+      });
+      return;
+    }
+
+    const totalSize = this.backups.reduce((sum, backup) => sum + backup.size, 0);
+    contentEl.createEl("p", {
+      text: `${this.backups.length} backups, ${(totalSize / 1024).toFixed(1)}KB in total. Backups are stored in the System folder of the sync folder.`,
+    });
+
+    this.createBackupList();
+    this.createComparison();
+
+    const historyBtn = contentEl.createEl("button", { text: "📜 Export a Task's History" });
+    historyBtn.addEventListener("click", () => this.chooseTaskForHistory());
+  }
+
+  private createBackupList() {
+    const listEl = this.contentEl.createEl("table");
+    const header = listEl.createEl("tr");
+    for (const title of ["Backup", "Tasks", "Projects", "Size", ""]) {
+      header.createEl("th", { text: title });
+    }
+
+    for (const backup of this.backups) {
+      const row = listEl.createEl("tr");
+      row.createEl("td", { text: this.backupLabel(backup) });
+      row.createEl("td", { text: String(backup.taskCount) });
+      row.createEl("td", { text: String(backup.projectCount) });
+      row.createEl("td", { text: `${(backup.size / 1024).toFixed(1)}KB` });
+
+      const actionsEl = row.createEl("td");
+      actionsEl.createEl("button", { text: "♻️ Restore" }).addEventListener("click", () => {
+        this.close();
+        new RestorePreviewModal(this.plugin, backup.filePath).open();
+      });
+
+      // Deleting takes a second click to confirm
+      const confirming = this.confirmingDelete === backup.filePath;
+      const deleteBtn = actionsEl.createEl("button", {
+        text: confirming ? "Confirm Delete" : "🗑️ Delete",
+        cls: confirming ? "mod-warning" : undefined,
+      });
+      deleteBtn.addEventListener("click", async () => {
+        if (!confirming) {
+          this.confirmingDelete = backup.filePath;
+          this.render();
+          return;
+        }
+
+        try {
+          await this.backupManager.deleteBackup(backup.filePath);
+          new Notice(`🗑️ Deleted backup ${backup.fileName}`, 3000);
+        } catch (error) {
+          new Notice(`❌ Failed to delete backup: ${error}`, 5000);
+        }
+        this.confirmingDelete = null;
+        await this.onOpen();
+      });
+    }
+  }
+
+  private createComparison() {
+    const { contentEl } = this;
+    contentEl.createEl("h3", { text: "🔍 Compare Backups" });
+
+    const pickersEl = contentEl.createDiv();
+    const picker = (label: string, value: string, onChange: (path: string) => void) => {
+      pickersEl.appendText(`${label} `);
+      const select = pickersEl.createEl("select", { cls: "dropdown" });
+      for (const backup of this.backups) {
+        select.createEl("option", { text: this.backupLabel(backup), value: backup.filePath });
+      }
+      select.value = value;
+      select.addEventListener("change", () => onChange(select.value));
+    };
+
+    const resultEl = contentEl.createDiv();
+    const compare = async () => {
+      resultEl.empty();
+      const [from, to] = [this.from, this.to].sort(); // Older first, file names hold the time
+      try {
+        const changes = BackupDiff.compare(
+          await this.backupManager.loadBackup(from),
+          await this.backupManager.loadBackup(to),
+        );
+        this.renderChanges(resultEl, changes);
+      } catch (error) {
+        resultEl.createEl("p", { text: `❌ Failed to compare backups: ${error}` });
+      }
+    };
+
+    picker("From", this.from, (path) => {
+      this.from = path;
+      compare();
+    });
+    picker(" to", this.to, (path) => {
+      this.to = path;
+      compare();
+    });
+    compare();
+  }
+
+  private renderChanges(parent: HTMLElement, changes: BackupChanges) {
+    const sections: [string, string[]][] = [
+      ["➕ Tasks added", changes.addedTasks.map((task) => task.content)],
+      ["➖ Tasks removed", changes.removedTasks.map((task) => task.content)],
+      [
+        "✏️ Tasks edited",
+        changes.editedTasks.map(
+          ({ before, after, fields }) =>
+            `${before.content === after.content ? after.content : `${before.content} → ${after.content}`} (${fields.join(", ")})`,
+        ),
+      ],
+      [
+        "🗂️ Projects renamed",
+        changes.renamedProjects.map((project) => `${project.from} → ${project.to}`),
+      ],
+      ["🆕 Projects added", changes.addedProjects],
+      ["🗑️ Projects removed", changes.removedProjects],
+    ];
+
+    const nonEmpty = sections.filter(([, items]) => items.length > 0);
+    if (nonEmpty.length === 0) {
+      parent.createEl("p", { text: "✅ No changes between these backups." });
+      return;
+    }
+
+    for (const [title, items] of nonEmpty) {
+      parent.createEl("h4", { text: `${title} (${items.length})` });
+      const listEl = parent.createEl("ul");
+      for (const item of items) {
+        listEl.createEl("li", { text: item });
+      }
+    }
+  }
+
+  private async chooseTaskForHistory() {
+    // Every task found in any backup, in its latest version
+    const tasks = new Map<string, SafeTaskBackup>();
+    for (const backup of await this.backupManager.loadBackups()) {
+      for (const task of backup.data.data.tasks) {
+        tasks.set(task.id, task);
+      }
+    }
+
+    new BackupTaskSuggestModal(this.plugin, [...tasks.values()], async (task) => {
+      try {
+        const historyPath = await this.backupManager.exportTaskHistory(task.id);
+        new Notice(`📜 History of "${task.content}" exported`, 3000);
+        await this.app.workspace.openLinkText(historyPath, "");
+        this.close();
+      } catch (error) {
+        new Notice(`❌ Failed to export task history: ${error}`, 5000);
+      }
+    }).open();
+  }
+
+  private backupLabel(backup: BackupInfo): string {
+    return backup.timestamp ? new Date(backup.timestamp).toLocaleString() : backup.fileName;
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,125 @@
+import { BackupRetention } from "@/core/backup/BackupRetention";
+import type { RestoreOperation } from "@/core/backup/RestorePlanner";
+import { TodoistBackupManager } from "@/core/backup/TodoistBackupManager";
+import type TodoistPlugin from "@/index";
+import { FuzzySuggestModal, Modal, Notice } from "obsidian";
+
+const OPERATION_GROUPS: { kind: RestoreOperation["kind"]; title: string }[] = [
+  { kind: "recreate", title: "➕ Recreate" },
+  { kind: "reopen", title: "🔓 Reopen" },
+  { kind: "update", title: "↩️ Revert changes" },
+  { kind: "move", title: "📦 Move back" },
+];
+
+/**
+ * Picks a backup file to restore
+ */
+export class BackupSuggestModal extends FuzzySuggestModal<string> {
+  private backups: string[];
+  private onChoose: (backupFile: string) => void;
+
+  constructor(plugin: TodoistPlugin, backups: string[], onChoose: (backupFile: string) => void) {
+    super(plugin.app);
+    this.backups = backups;
+    this.onChoose = onChoose;
+    this.setPlaceholder("Choose a backup to restore");
+  }
+
+  getItems(): string[] {
+    return [...this.backups].reverse(); // Newest first
+  }
+
+  getItemText(backupFile: string): string {
+    const time = BackupRetention.backupTime(backupFile);
+    return time !== null
+      ? `${new Date(time).toLocaleString()} (${backupFile.split("/").pop()})`
+      : backupFile;
+  }
+
+  onChooseItem(backupFile: string): void {
+    this.onChoose(backupFile);
+  }
+}
+
+/**
+ * Dry run of a restore: lists every operation restoring a backup would send, and sends them
+ * once confirmed
+ */
+export class RestorePreviewModal extends Modal {
+  private backupManager: TodoistBackupManager;
+  private backupFile: string;
+  private reopenClosed = false;
+
+  constructor(plugin: TodoistPlugin, backupFile: string) {
+    super(plugin.app);
+    this.backupManager = new TodoistBackupManager(plugin);
+    this.backupFile = backupFile;
+  }
+
+  async onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h2", { text: "♻️ Restore Backup" });
+
+    const statusEl = contentEl.createEl("p", { text: "Comparing the backup with Todoist…" });
+    const result = await this.backupManager.restoreFromBackup(this.backupFile, {
+      dryRun: true,
+      reopenClosed: this.reopenClosed,
+    });
+    if (!result.plan) {
+      statusEl.setText(`❌ ${result.error ?? "The backup could not be read"}`);
+      return;
+    }
+
+    const { operations, timestamp } = result.plan;
+    statusEl.setText(
+      operations.length === 0
+        ? `✅ Todoist already matches the backup from ${new Date(timestamp).toLocaleString()}.`
+        : `Restoring the backup from ${new Date(timestamp).toLocaleString()} sends ${operations.length} changes to Todoist. Tasks created since then are kept.`,
+    );
+
+    const reopenEl = contentEl.createEl("label");
+    const reopenToggle = reopenEl.createEl("input", { type: "checkbox" });
+    reopenToggle.checked = this.reopenClosed;
+    reopenEl.appendText(" Reopen tasks closed since the backup instead of recreating them");
+    reopenToggle.addEventListener("change", () => {
+      this.reopenClosed = reopenToggle.checked;
+      this.onOpen();
+    });
+
+    for (const group of OPERATION_GROUPS) {
+      const ofKind = operations.filter((op) => op.kind === group.kind);
+      if (ofKind.length === 0) continue;
+
+      contentEl.createEl("h4", { text: `${group.title} (${ofKind.length})` });
+      const listEl = contentEl.createEl("ul");
+      for (const op of ofKind) {
+        listEl.createEl("li", { text: op.description });
+      }
+    }
+
+    const actionsEl = contentEl.createDiv("modal-button-container");
+    actionsEl.createEl("button", { text: "Cancel" }).addEventListener("click", () => this.close());
+
+    if (operations.length === 0) return;
+
+    const restoreBtn = actionsEl.createEl("button", {
+      text: `Restore ${operations.length} Changes`,
+      cls: "mod-warning",
+    });
+    restoreBtn.addEventListener("click", async () => {
+      restoreBtn.disabled = true;
+      const restored = await this.backupManager.restoreFromBackup(this.backupFile, {
+        reopenClosed: this.reopenClosed,
+      });
+      if (restored.error) {
+        new Notice(`❌ ${restored.error}`, 5000);
+      }
+      this.close();
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
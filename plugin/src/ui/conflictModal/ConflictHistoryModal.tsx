@@ -0,0 +1,91 @@
+import { ConflictLog, type ConflictLogEntry } from "@/core/sync/ConflictLog";
+import { ConflictResolution } from "@/core/sync/ConflictResolver";
+import type { ObsidianTaskField } from "@/core/sync/IncrementalSyncManager";
+import type TodoistPlugin from "@/index";
+import { Modal, Notice } from "obsidian";
+import { FIELD_LABELS, formatFieldValue } from "./ConflictResolutionModal";
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  [ConflictResolution.OBSIDIAN_WINS]: "📝 Used Obsidian",
+  [ConflictResolution.TODOIST_WINS]: "☁️ Used Todoist",
+  [ConflictResolution.MERGE]: "🔄 Merged",
+  [ConflictResolution.MANUAL]: "✋ Per field",
+  [ConflictResolution.SKIP]: "⏭️ Skipped",
+};
+
+/**
+ * Lists recent conflict resolutions from the conflict log, each of which can be reverted
+ */
+export class ConflictHistoryModal extends Modal {
+  private log: ConflictLog;
+
+  constructor(plugin: TodoistPlugin) {
+    super(plugin.app);
+    this.log = new ConflictLog(plugin);
+  }
+
+  async onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl("h2", { text: "🕘 Recent Conflict Resolutions" });
+
+    const entries = await this.log.recent();
+    if (entries.length === 0) {
+      contentEl.createEl("p", { text: "No conflicts have been resolved yet." });
+      return;
+    }
+
+    contentEl.createEl("p", {
+      text: "Reverting a resolution sends the version it discarded to Todoist. Task files pick it up on the next sync.",
+    });
+
+    for (const entry of entries) {
+      this.renderEntry(contentEl.createDiv("conflict-item"), entry);
+    }
+  }
+
+  private renderEntry(entryEl: HTMLElement, entry: ConflictLogEntry) {
+    entryEl.empty();
+
+    entryEl.createDiv({
+      text: entry.content || `Task ${entry.todoistId}`,
+      cls: "conflict-task-title",
+    });
+    entryEl.createDiv({
+      text: `${new Date(entry.timestamp).toLocaleString()} · ${RESOLUTION_LABELS[entry.resolution]} · ${entry.obsidianFile}`,
+    });
+
+    const fieldsEl = entryEl.createEl("ul");
+    for (const field of Object.keys(entry.kept) as ObsidianTaskField[]) {
+      const obsidian = formatFieldValue(field, entry.obsidianVersion[field]);
+      const todoist = formatFieldValue(field, entry.todoistVersion[field]);
+      const kept = formatFieldValue(field, entry.kept[field]);
+      fieldsEl.createEl("li", {
+        text: `${FIELD_LABELS[field]}: 📝 ${obsidian} · ☁️ ${todoist} → kept ${kept}`,
+      });
+    }
+
+    if (entry.revertedAt) {
+      entryEl.createDiv({ text: `↩️ Reverted ${new Date(entry.revertedAt).toLocaleString()}` });
+      return;
+    }
+
+    const revertBtn = entryEl.createEl("button", { text: "↩️ Revert" });
+    revertBtn.addEventListener("click", async () => {
+      revertBtn.disabled = true;
+      try {
+        this.renderEntry(entryEl, await this.log.revert(entry.id));
+        new Notice(`↩️ Reverted the resolution of "${entry.content}"`, 3000);
+      } catch (error) {
+        console.error("Failed to revert conflict resolution:", error);
+        new Notice(`❌ Failed to revert: ${error instanceof Error ? error.message : error}`, 5000);
+        revertBtn.disabled = false;
+      }
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -1,13 +1,60 @@
 import React, { useState } from 'react';
 import { Modal, Setting } from 'obsidian';
 import type TodoistPlugin from '@/index';
-import type { TaskConflict } from '@/core/sync/ConflictResolver';
+import type { Duration } from '@/api/domain/task';
+import type { FieldConflict, FieldResolutions, TaskConflict } from '@/core/sync/ConflictResolver';
 import { ConflictResolution, ConflictType } from '@/core/sync/ConflictResolver';
+import { DurationParser } from '@/core/sync/DurationParser';
+import type { ObsidianTaskField } from '@/core/sync/IncrementalSyncManager';
+import { diffWords } from './wordDiff';
+
+export const FIELD_LABELS: Record<ObsidianTaskField, string> = {
+  content: 'Content',
+  priority: 'Priority',
+  due: 'Due',
+  duration: 'Duration',
+  recurring: 'Repeats',
+  labels: 'Labels',
+};
+
+/**
+ * A field value as shown to the user
+ */
+export function formatFieldValue(field: ObsidianTaskField, value: FieldConflict['base']): string {
+  switch (field) {
+    case 'content':
+      return `"${value}"`;
+    case 'priority':
+      return `P${5 - (value as number)}`;
+    case 'due':
+      return value ? new Date(`${value}T00:00:00`).toLocaleDateString() : 'No date';
+    case 'duration':
+      return value ? DurationParser.formatDuration(value as Duration) : 'None';
+    case 'recurring':
+      return (value as string | null) ?? 'Not recurring';
+    case 'labels':
+      return (value as string[]).length > 0 ? (value as string[]).map(label => `#${label}`).join(' ') : 'None';
+    default:
+      return String(value);
+  }
+}
+
+const RESOLUTION_OPTIONS = [
+  { value: ConflictResolution.OBSIDIAN_WINS, label: '📝 Use Obsidian', desc: 'Keep your local changes' },
+  { value: ConflictResolution.TODOIST_WINS, label: '☁️ Use Todoist', desc: 'Use the cloud version' },
+  { value: ConflictResolution.MERGE, label: '🔄 Smart Merge', desc: 'Combine both versions' },
+  { value: ConflictResolution.SKIP, label: '⏭️ Skip', desc: 'Resolve later' }
+];
+
+type ResolveCallback = (
+  resolutions: Map<string, ConflictResolution>,
+  fieldResolutions: Map<string, FieldResolutions>
+) => void;
 
 interface ConflictResolutionModalProps {
   plugin: TodoistPlugin;
   conflicts: TaskConflict[];
-  onResolve: (resolutions: Map<string, ConflictResolution>) => void;
+  onResolve: ResolveCallback;
   onCancel: () => void;
 }
 
@@ -18,13 +65,16 @@ interface ConflictResolutionModalProps {
 export class ConflictResolutionModal extends Modal {
   private conflicts: TaskConflict[];
   private resolutions: Map<string, ConflictResolution> = new Map();
-  private onResolve: (resolutions: Map<string, ConflictResolution>) => void;
+  private fieldResolutions: Map<string, FieldResolutions> = new Map(); // For MANUAL resolutions
+  private conflictEls: HTMLElement[] = [];
+  private focusedIndex = 0;
+  private onResolve: ResolveCallback;
   private onCancel: () => void;
 
   constructor(
     plugin: TodoistPlugin,
     conflicts: TaskConflict[],
-    onResolve: (resolutions: Map<string, ConflictResolution>) => void,
+    onResolve: ResolveCallback,
     onCancel: () => void
   ) {
     super(plugin.app);
@@ -53,14 +103,25 @@ export class ConflictResolutionModal extends Modal {
       cls: 'conflict-modal-description'
     });
 
+    contentEl.createEl('p', {
+      text: '↑/↓ or j/k move between conflicts, 1-4 pick a choice for the highlighted one, Ctrl/Cmd+Enter resolves.',
+      cls: 'conflict-keyboard-hint'
+    });
+
     // Add CSS for ADHD-friendly styling
     this.addConflictStyles();
 
+    // One choice for all conflicts of a type
+    this.createBulkActions();
+
     // Create conflict resolution interface
     this.createConflictList();
 
     // Action buttons
     this.createActionButtons();
+
+    this.registerKeyboardNavigation();
+    this.focusConflict(0);
   }
 
   private addConflictStyles() {
@@ -160,6 +221,84 @@ export class ConflictResolutionModal extends Modal {
         color: var(--text-on-accent);
       }
       
+      .conflict-keyboard-hint {
+        color: var(--text-faint);
+        font-size: 0.8rem;
+      }
+
+      .conflict-item.focused {
+        border-color: var(--interactive-accent);
+        box-shadow: 0 0 0 1px var(--interactive-accent);
+      }
+
+      .bulk-actions {
+        margin-bottom: 1.5rem;
+      }
+
+      .bulk-action-row {
+        display: flex;
+        align-items: center;
+        gap: 0.5rem;
+        flex-wrap: wrap;
+        margin-bottom: 0.5rem;
+      }
+
+      .bulk-action-label {
+        min-width: 12rem;
+        color: var(--text-muted);
+      }
+
+      .field-diff {
+        display: grid;
+        grid-template-columns: auto 1fr 1fr auto;
+        gap: 0.25rem 0.75rem;
+        align-items: center;
+        margin: 1rem 0;
+      }
+
+      .field-diff-header {
+        font-weight: bold;
+        font-size: 0.85rem;
+      }
+
+      .field-diff-label {
+        font-weight: bold;
+      }
+
+      .field-diff-base {
+        display: block;
+        font-weight: normal;
+        font-size: 0.75rem;
+        color: var(--text-faint);
+      }
+
+      .field-diff-value {
+        font-family: var(--font-monospace);
+        font-size: 0.9rem;
+        padding: 0.25rem 0.5rem;
+        border-radius: 4px;
+        border: 1px solid transparent;
+        background: var(--background-primary);
+      }
+
+      .field-diff-value.kept {
+        border-color: var(--interactive-accent);
+      }
+
+      .diff-word {
+        background: var(--text-highlight-bg);
+        border-radius: 2px;
+      }
+
+      .field-toggle {
+        display: flex;
+        gap: 0.25rem;
+      }
+
+      .field-toggle .resolution-button {
+        padding: 0.25rem 0.5rem;
+      }
+
       .action-buttons {
         display: flex;
         gap: 1rem;
@@ -191,31 +330,69 @@ export class ConflictResolutionModal extends Modal {
     document.head.appendChild(style);
   }
 
+  /**
+   * Buttons applying one resolution to every conflict of a type
+   */
+  private createBulkActions() {
+    if (this.conflicts.length < 2) return;
+
+    const bulkEl = this.contentEl.createDiv('bulk-actions');
+    const types = [...new Set(this.conflicts.map(conflict => conflict.conflictType))];
+
+    for (const type of types) {
+      const ofType = this.conflicts.filter(conflict => conflict.conflictType === type);
+      const rowEl = bulkEl.createDiv('bulk-action-row');
+      rowEl.createSpan({ text: `All ${this.getConflictTypeLabel(type)} (${ofType.length})`, cls: 'bulk-action-label' });
+
+      for (const option of RESOLUTION_OPTIONS) {
+        const button = rowEl.createDiv('resolution-button');
+        button.textContent = option.label;
+        button.title = `${option.desc}, for all ${ofType.length} conflicts of this type`;
+        button.addEventListener('click', () => {
+          ofType.forEach(conflict => this.setResolution(conflict, option.value));
+        });
+      }
+    }
+  }
+
   private createConflictList() {
     const { contentEl } = this;
+    this.conflictEls = [];
 
     this.conflicts.forEach((conflict, index) => {
       const conflictEl = contentEl.createDiv('conflict-item');
+      conflictEl.addEventListener('click', () => this.focusConflict(index));
+      this.conflictEls.push(conflictEl);
+      this.renderConflict(conflictEl, conflict);
+    });
+  }
 
-      // Task title
-      conflictEl.createDiv('conflict-task-title', {
-        text: conflict.obsidianVersion.content || `Task ${conflict.todoistId}`
-      });
+  private renderConflict(conflictEl: HTMLElement, conflict: TaskConflict) {
+    conflictEl.empty();
 
-      // Conflict type badge
-      const typeEl = conflictEl.createDiv('conflict-type');
-      typeEl.textContent = this.getConflictTypeLabel(conflict.conflictType);
-      typeEl.addClass(`conflict-type-${conflict.conflictType.replace('_', '-')}`);
+    // Task title
+    conflictEl.createDiv('conflict-task-title', {
+      text: conflict.obsidianVersion.content || `Task ${conflict.todoistId}`
+    });
 
-      // Version comparison
-      this.createVersionComparison(conflictEl, conflict);
+    // Conflict type badge
+    const typeEl = conflictEl.createDiv('conflict-type');
+    typeEl.textContent = this.getConflictTypeLabel(conflict.conflictType);
+    typeEl.addClass(`conflict-type-${conflict.conflictType.replace('_', '-')}`);
 
-      // Resolution options
-      this.createResolutionOptions(conflictEl, conflict);
-    });
+    // Version comparison
+    this.createVersionComparison(conflictEl, conflict);
+
+    // Resolution options
+    this.createResolutionOptions(conflictEl, conflict);
   }
 
   private createVersionComparison(parent: HTMLElement, conflict: TaskConflict) {
+    if (conflict.fields.length > 0) {
+      this.createFieldDiff(parent, conflict);
+      return;
+    }
+
     const versionsEl = parent.createDiv('conflict-versions');
 
     // Obsidian version
@@ -235,37 +412,148 @@ export class ConflictResolutionModal extends Modal {
     todoistContent.innerHTML = this.formatVersionInfo(conflict.todoistVersion);
   }
 
+  /**
+   * Side-by-side diff of the fields changed on both sides, with the value they had when last
+   * synced and a toggle choosing the side each field is taken from
+   */
+  private createFieldDiff(parent: HTMLElement, conflict: TaskConflict) {
+    const diffEl = parent.createDiv('field-diff');
+    for (const header of ['', '📝 Obsidian', '☁️ Todoist', 'Keep']) {
+      diffEl.createDiv({ text: header, cls: 'field-diff-header' });
+    }
+
+    for (const field of conflict.fields) {
+      const choice = this.getFieldResolution(conflict, field.field);
+
+      const labelEl = diffEl.createDiv({ text: FIELD_LABELS[field.field], cls: 'field-diff-label' });
+      if (field.base !== undefined) {
+        labelEl.createSpan({ text: `was ${formatFieldValue(field.field, field.base)}`, cls: 'field-diff-base' });
+      }
+
+      // Words only on one side are highlighted on that side
+      const parts = diffWords(
+        formatFieldValue(field.field, field.obsidian),
+        formatFieldValue(field.field, field.todoist)
+      );
+      const obsidianEl = diffEl.createDiv('field-diff-value');
+      const todoistEl = diffEl.createDiv('field-diff-value');
+      for (const part of parts) {
+        if (part.type !== 'added') {
+          obsidianEl.createSpan({ text: part.text, cls: part.type === 'same' ? undefined : 'diff-word' });
+        }
+        if (part.type !== 'removed') {
+          todoistEl.createSpan({ text: part.text, cls: part.type === 'same' ? undefined : 'diff-word' });
+        }
+      }
+      obsidianEl.toggleClass('kept', choice === ConflictResolution.OBSIDIAN_WINS);
+      todoistEl.toggleClass('kept', choice === ConflictResolution.TODOIST_WINS);
+
+      const toggleEl = diffEl.createDiv('field-toggle');
+      for (const [value, label] of [[ConflictResolution.OBSIDIAN_WINS, '📝'], [ConflictResolution.TODOIST_WINS, '☁️']] as const) {
+        const button = toggleEl.createDiv('resolution-button');
+        button.textContent = label;
+        button.title = `Take ${FIELD_LABELS[field.field].toLowerCase()} from ${value === ConflictResolution.OBSIDIAN_WINS ? 'Obsidian' : 'Todoist'}`;
+        button.toggleClass('selected', choice === value);
+        button.addEventListener('click', () => this.setFieldResolution(conflict, field.field, value));
+      }
+    }
+  }
+
   private createResolutionOptions(parent: HTMLElement, conflict: TaskConflict) {
     const buttonsEl = parent.createDiv('resolution-buttons');
 
-    const options = [
-      { value: ConflictResolution.OBSIDIAN_WINS, label: '📝 Use Obsidian', desc: 'Keep your local changes' },
-      { value: ConflictResolution.TODOIST_WINS, label: '☁️ Use Todoist', desc: 'Use the cloud version' },
-      { value: ConflictResolution.MERGE, label: '🔄 Smart Merge', desc: 'Combine both versions' },
-      { value: ConflictResolution.SKIP, label: '⏭️ Skip', desc: 'Resolve later' }
-    ];
-
-    options.forEach(option => {
+    RESOLUTION_OPTIONS.forEach(option => {
       const button = buttonsEl.createDiv('resolution-button');
       button.textContent = option.label;
       button.title = option.desc;
 
-      // Set initial selection
       if (this.resolutions.get(conflict.todoistId) === option.value) {
         button.addClass('selected');
       }
 
-      button.addEventListener('click', () => {
-        // Remove selection from siblings
-        buttonsEl.querySelectorAll('.resolution-button').forEach(btn => {
-          btn.removeClass('selected');
-        });
-        
-        // Select this button
-        button.addClass('selected');
-        this.resolutions.set(conflict.todoistId, option.value);
+      button.addEventListener('click', () => this.setResolution(conflict, option.value));
+    });
+
+    // Shown once fields are taken from different sides with the toggles above
+    if (this.resolutions.get(conflict.todoistId) === ConflictResolution.MANUAL) {
+      const button = buttonsEl.createDiv('resolution-button selected');
+      button.textContent = '✋ Per Field';
+      button.title = 'Each field is taken from the side chosen above';
+    }
+  }
+
+  private setResolution(conflict: TaskConflict, resolution: ConflictResolution) {
+    this.resolutions.set(conflict.todoistId, resolution);
+    this.fieldResolutions.delete(conflict.todoistId);
+    this.rerenderConflict(conflict);
+  }
+
+  /**
+   * Take one field from a side, switching the conflict to per-field resolution. The other
+   * fields keep what the conflict's resolution chose for them.
+   */
+  private setFieldResolution(conflict: TaskConflict, field: ObsidianTaskField, resolution: ConflictResolution) {
+    const fields: FieldResolutions = {};
+    for (const { field: other } of conflict.fields) {
+      const current = this.getFieldResolution(conflict, other);
+      fields[other] = current === ConflictResolution.SKIP ? this.getSmartDefault(conflict) : current;
+    }
+    fields[field] = resolution;
+
+    this.resolutions.set(conflict.todoistId, ConflictResolution.MANUAL);
+    this.fieldResolutions.set(conflict.todoistId, fields);
+    this.rerenderConflict(conflict);
+  }
+
+  private getFieldResolution(conflict: TaskConflict, field: ObsidianTaskField): ConflictResolution {
+    const resolution = this.resolutions.get(conflict.todoistId) ?? ConflictResolution.SKIP;
+    if (resolution !== ConflictResolution.MANUAL) return resolution;
+    return this.fieldResolutions.get(conflict.todoistId)?.[field] ?? ConflictResolution.SKIP;
+  }
+
+  private rerenderConflict(conflict: TaskConflict) {
+    const index = this.conflicts.indexOf(conflict);
+    this.renderConflict(this.conflictEls[index], conflict);
+  }
+
+  /**
+   * Arrow keys or j/k move between conflicts, 1-4 pick a resolution for the highlighted one
+   */
+  private registerKeyboardNavigation() {
+    const move = (step: number) => () => {
+      this.focusConflict(this.focusedIndex + step);
+      return false;
+    };
+    this.scope.register([], 'ArrowDown', move(1));
+    this.scope.register([], 'j', move(1));
+    this.scope.register([], 'ArrowUp', move(-1));
+    this.scope.register([], 'k', move(-1));
+
+    RESOLUTION_OPTIONS.forEach((option, index) => {
+      this.scope.register([], String(index + 1), () => {
+        const conflict = this.conflicts[this.focusedIndex];
+        if (conflict) this.setResolution(conflict, option.value);
+        return false;
       });
     });
+
+    this.scope.register(['Mod'], 'Enter', () => {
+      this.resolve();
+      return false;
+    });
+  }
+
+  private focusConflict(index: number) {
+    if (this.conflictEls.length === 0) return;
+
+    this.focusedIndex = Math.max(0, Math.min(index, this.conflictEls.length - 1));
+    this.conflictEls.forEach((el, i) => el.toggleClass('focused', i === this.focusedIndex));
+    this.conflictEls[this.focusedIndex].scrollIntoView({ block: 'nearest' });
+  }
+
+  private resolve() {
+    this.close();
+    this.onResolve(this.resolutions, this.fieldResolutions);
   }
 
   private createActionButtons() {
@@ -287,10 +575,7 @@ export class ConflictResolutionModal extends Modal {
       text: `Resolve ${this.conflicts.length} Conflicts`,
       cls: 'btn-primary'
     });
-    resolveBtn.addEventListener('click', () => {
-      this.close();
-      this.onResolve(this.resolutions);
-    });
+    resolveBtn.addEventListener('click', () => this.resolve());
   }
 
   private getConflictTypeLabel(type: ConflictType): string {
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+
+import { diffWords } from "./wordDiff";
+
+describe("diffWords", () => {
+  it("should mark changed words", () => {
+    expect(diffWords("Write the report today", "Write the final report")).toEqual([
+      { text: "Write the", type: "same" },
+      { text: " final", type: "added" },
+      { text: " report", type: "same" },
+      { text: " today", type: "removed" },
+    ]);
+  });
+
+  it("should give both texts back", () => {
+    const parts = diffWords("Call mom about the trip", "Call dad about  the trip tomorrow");
+
+    expect(
+      parts
+        .filter((part) => part.type !== "added")
+        .map((part) => part.text)
+        .join(""),
+    ).toBe("Call mom about the trip");
+    expect(
+      parts
+        .filter((part) => part.type !== "removed")
+        .map((part) => part.text)
+        .join(""),
+    ).toBe("Call dad about  the trip tomorrow");
+  });
+});
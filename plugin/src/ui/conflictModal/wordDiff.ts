@@ -0,0 +1,60 @@
+/**
+ * A run of text in a word diff: in both texts, only in the old one, or only in the new one
+ */
+export interface DiffPart {
+  text: string;
+  type: "same" | "removed" | "added";
+}
+
+/**
+ * Diff two texts word by word, keeping whitespace attached to the parts so joining the
+ * 'same' and 'removed' parts gives the old text back and 'same' and 'added' the new one
+ */
+export function diffWords(oldText: string, newText: string): DiffPart[] {
+  const a = tokenize(oldText);
+  const b = tokenize(newText);
+
+  // Longest common subsequence lengths of the suffixes of both token lists
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (text: string, type: DiffPart["type"]) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ text, type });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i++], "same");
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(a[i++], "removed");
+    } else {
+      push(b[j++], "added");
+    }
+  }
+  while (i < a.length) push(a[i++], "removed");
+  while (j < b.length) push(b[j++], "added");
+
+  return parts;
+}
+
+/**
+ * Words with the whitespace before them, so changed words take their own spacing along
+ */
+function tokenize(text: string): string[] {
+  return text.match(/\s*\S+|\s+/g) ?? [];
+}
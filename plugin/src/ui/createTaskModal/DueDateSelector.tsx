@@ -1,3 +1,5 @@
+import type { DueDate as TodoistDueDate } from "@/api/domain/dueDate";
+import type { UpdateTaskParams } from "@/api/domain/task";
 import { t } from "@/i18n";
 import { timezone } from "@/infra/time";
 import {
@@ -6,7 +8,13 @@ import {
   type Time,
   endOfWeek,
   isToday,
+  parseAbsolute,
+  parseDate,
+  parseDateTime,
+  toCalendarDate,
   toCalendarDateTime,
+  toTime,
+  toZoned,
   today,
 } from "@internationalized/date";
 import type React from "react";
@@ -50,6 +58,38 @@ export type DueDate = {
   time: Time | undefined;
 };
 
+// Converts a Todoist due date into the selector's value. Fixed timezone datetimes are shown in the
+// local timezone, floating ones as they are.
+export const fromTodoistDueDate = (due: TodoistDueDate | undefined): DueDate | undefined => {
+  if (due === undefined) {
+    return undefined;
+  }
+
+  if (due.datetime === undefined) {
+    return { date: parseDate(due.date), time: undefined };
+  }
+
+  const datetime = due.datetime.endsWith("Z")
+    ? parseAbsolute(due.datetime, timezone())
+    : parseDateTime(due.datetime);
+  return { date: toCalendarDate(datetime), time: toTime(datetime) };
+};
+
+export const toDueDateParams = (
+  dueDate: DueDate,
+): Pick<UpdateTaskParams, "dueDate" | "dueDatetime"> => {
+  if (dueDate.time === undefined) {
+    return { dueDate: dueDate.date.toString() };
+  }
+
+  return {
+    dueDatetime: toZoned(
+      toCalendarDateTime(dueDate.date, dueDate.time),
+      timezone(),
+    ).toAbsoluteString(),
+  };
+};
+
 type Props = {
   selected: DueDate | undefined;
   setSelected: (selected: DueDate | undefined) => void;
@@ -57,7 +97,7 @@ type Props = {
 
 export const DueDateSelector: React.FC<Props> = ({ selected, setSelected }) => {
   const label = getLabel(selected);
-  const suggestions = getSuggestions();
+  const suggestions = getDateSuggestions();
 
   const selectDate = (date: CalendarDate) => {
     if (selected === undefined) {
@@ -222,7 +262,7 @@ const DateSuggestion: React.FC<DateSuggestionProps> = ({ id, icon, label, target
   );
 };
 
-const getSuggestions = (): DateSuggestionProps[] => {
+export const getDateSuggestions = (): DateSuggestionProps[] => {
   const i18n = t().createTaskModal.dateSelector;
 
   const startOfNextWeek = endOfWeek(today(timezone()), "en-US").add({ days: 1 });
@@ -27,7 +27,7 @@ export const PrioritySelector: React.FC<Props> = ({ selected, setSelected }) =>
 
   const i18n = t().createTaskModal.prioritySelector;
 
-  const label = getLabel(selected, i18n);
+  const label = getPriorityLabel(selected, i18n);
   return (
     <MenuTrigger>
       <Button className="priority-selector" aria-label={i18n.buttonLabel}>
@@ -42,7 +42,7 @@ export const PrioritySelector: React.FC<Props> = ({ selected, setSelected }) =>
           onAction={onSelected}
         >
           {options.map((priority) => {
-            const label = getLabel(priority, i18n);
+            const label = getPriorityLabel(priority, i18n);
             const isSelected = priority === selected;
             const className = classNames("priority-option", { "is-selected": isSelected });
             return (
@@ -57,7 +57,7 @@ export const PrioritySelector: React.FC<Props> = ({ selected, setSelected }) =>
   );
 };
 
-const getLabel = (
+export const getPriorityLabel = (
   priority: Priority,
   i18n: Translations["createTaskModal"]["prioritySelector"],
 ): string => {
@@ -1,16 +1,21 @@
+import type { Submission } from "@/data";
+import type { Task } from "@/data/task";
 import { t } from "@/i18n";
-import { timezone } from "@/infra/time";
 import { useSettingsStore } from "@/settings";
 import { ModalContext, PluginContext } from "@/ui/context";
-import { toCalendarDateTime, toZoned } from "@internationalized/date";
 import { Notice, type TFile } from "obsidian";
 import type React from "react";
 import { useEffect, useState } from "react";
 import { Button } from "react-aria-components";
 import type TodoistPlugin from "../..";
 import type { Label } from "../../api/domain/label";
-import type { CreateTaskParams, Priority } from "../../api/domain/task";
-import { type DueDate, DueDateSelector } from "./DueDateSelector";
+import type { CreateTaskParams, Priority, UpdateTaskParams } from "../../api/domain/task";
+import {
+  type DueDate,
+  DueDateSelector,
+  fromTodoistDueDate,
+  toDueDateParams,
+} from "./DueDateSelector";
 import { LabelSelector } from "./LabelSelector";
 import { PrioritySelector } from "./PrioritySelector";
 import { type ProjectIdentifier, ProjectSelector } from "./ProjectSelector";
@@ -26,6 +31,8 @@ type CreateTaskProps = {
   initialContent: string;
   fileContext: TFile | undefined;
   options: TaskCreationOptions;
+  // When set, the modal is prefilled with this task and saves changes to it instead.
+  task?: Task;
 };
 
 export const CreateTaskModal: React.FC<CreateTaskProps> = (props) => {
@@ -61,23 +68,31 @@ const CreateTaskModalContent: React.FC<CreateTaskProps> = ({
   initialContent,
   fileContext,
   options: initialOptions,
+  task,
 }) => {
   const plugin = PluginContext.use();
   const settings = useSettingsStore();
   const modal = ModalContext.use();
 
+  const [initialDueDate] = useState(() => fromTodoistDueDate(task?.due));
+
   const [content, setContent] = useState(initialContent);
-  const [description, setDescription] = useState("");
-  const [dueDate, setDueDate] = useState<DueDate | undefined>(undefined);
-  const [priority, setPriority] = useState<Priority>(1);
-  const [labels, setLabels] = useState<Label[]>([]);
-  const [project, setProject] = useState<ProjectIdentifier>(getDefaultProject(plugin));
+  const [description, setDescription] = useState(task?.description ?? "");
+  const [dueDate, setDueDate] = useState<DueDate | undefined>(initialDueDate);
+  const [priority, setPriority] = useState<Priority>(task?.priority ?? 1);
+  const [labels, setLabels] = useState<Label[]>(task?.labels ?? []);
+  const [project, setProject] = useState<ProjectIdentifier>(() =>
+    task !== undefined
+      ? { projectId: task.project.id, sectionId: task.section?.id }
+      : getDefaultProject(plugin),
+  );
 
   const [options, setOptions] = useState<TaskCreationOptions>(initialOptions);
 
   const isSubmitButtonDisabled = content === "" && !options.appendLinkToContent;
 
   const i18n = t().createTaskModal;
+  const submitButtonLabel = task !== undefined ? i18n.saveTaskButtonLabel : i18n.addTaskButtonLabel;
 
   const buildWithLink = (initial: string, withLink: boolean) => {
     const builder = [initial];
@@ -111,28 +126,75 @@ const CreateTaskModalContent: React.FC<CreateTaskProps> = ({
     };
 
     if (dueDate !== undefined) {
-      if (dueDate.time !== undefined) {
-        params.dueDatetime = toZoned(
-          toCalendarDateTime(dueDate.date, dueDate.time),
-          timezone(),
-        ).toAbsoluteString();
-      } else {
-        params.dueDate = dueDate.date.toString();
-      }
+      Object.assign(params, toDueDateParams(dueDate));
     }
 
     try {
-      await plugin.services.todoist.actions.createTask(
+      const submission = await plugin.services.todoist.actions.createTask(
         buildWithLink(content, options.appendLinkToContent),
         params,
       );
-      new Notice(i18n.successNotice);
+      new Notice(submission === "sent" ? i18n.successNotice : i18n.queuedNotice);
     } catch (err) {
       new Notice(i18n.errorNotice);
       console.error("Failed to create task", err);
     }
   };
 
+  const saveTask = async (existing: Task) => {
+    if (isSubmitButtonDisabled) {
+      return;
+    }
+
+    modal.close();
+
+    // Only changed fields are sent, so that e.g. an untouched recurring due date is kept.
+    const params: UpdateTaskParams = {};
+    if (content !== existing.content) {
+      params.content = content;
+    }
+    if (description !== existing.description) {
+      params.description = description;
+    }
+    if (priority !== existing.priority) {
+      params.priority = priority;
+    }
+    const labelNames = labels.map((l) => l.name);
+    if (labelNames.join() !== existing.labels.map((l) => l.name).join()) {
+      params.labels = labelNames;
+    }
+    if (dueDate !== initialDueDate) {
+      Object.assign(
+        params,
+        dueDate !== undefined ? toDueDateParams(dueDate) : { dueString: "no date" },
+      );
+    }
+
+    const { todoist } = plugin.services;
+    try {
+      const submissions: Submission[] = [];
+      if (Object.keys(params).length > 0) {
+        submissions.push(await todoist.actions.updateTask(existing.id, params));
+      }
+      if (project.projectId !== existing.project.id || project.sectionId !== existing.section?.id) {
+        submissions.push(
+          await todoist.actions.moveTask(
+            existing.id,
+            project.sectionId !== undefined
+              ? { sectionId: project.sectionId }
+              : { projectId: project.projectId },
+          ),
+        );
+      }
+      new Notice(submissions.includes("queued") ? i18n.queuedUpdateNotice : i18n.updatedNotice);
+    } catch (err) {
+      new Notice(i18n.updateErrorNotice);
+      console.error("Failed to update task", err);
+    }
+  };
+
+  const submit = task !== undefined ? () => saveTask(task) : createTask;
+
   return (
     <div className="task-creation-modal-root">
       <TaskContentInput
@@ -141,7 +203,7 @@ const CreateTaskModalContent: React.FC<CreateTaskProps> = ({
         content={content}
         onChange={setContent}
         autofocus={true}
-        onEnterKey={createTask}
+        onEnterKey={submit}
       />
       <TaskContentInput
         className="task-description"
@@ -172,10 +234,10 @@ const CreateTaskModalContent: React.FC<CreateTaskProps> = ({
           <Button
             className="mod-cta"
             isDisabled={isSubmitButtonDisabled}
-            onPress={createTask}
-            aria-label={i18n.addTaskButtonLabel}
+            onPress={submit}
+            aria-label={submitButtonLabel}
           >
-            {i18n.addTaskButtonLabel}
+            {submitButtonLabel}
           </Button>
         </div>
       </div>
@@ -1,4 +1,6 @@
 import type { OnSubscriptionChange, Refresh, SubscriptionResult } from "@/data";
+import type { Task } from "@/data/task";
+import type { TaskTree } from "@/data/transformations/relationships";
 import { t } from "@/i18n";
 import type TodoistPlugin from "@/index";
 import type { QueryWarning } from "@/query/parser";
@@ -8,6 +10,7 @@ import { PluginContext, QueryContext } from "@/ui/context";
 import { QueryHeader } from "@/ui/query/QueryHeader";
 import { QueryWarnings } from "@/ui/query/QueryWarnings";
 import { Displays } from "@/ui/query/displays";
+import { getTaskTree } from "@/ui/query/displays/ListDisplay";
 import type React from "react";
 import { useCallback, useEffect, useState } from "react";
 import "./styles.scss";
@@ -16,39 +19,46 @@ const useSubscription = (
   plugin: TodoistPlugin,
   query: Query,
   callback: OnSubscriptionChange,
-): [Refresh, boolean, boolean, Date | undefined] => {
-  const [refresher, setRefresher] = useState<Refresh | undefined>(undefined);
+): [Refresh, Refresh, boolean, boolean, Date | undefined] => {
+  const [refreshers, setRefreshers] = useState<[Refresh, Refresh] | undefined>(undefined);
   const [isFetching, setIsFetching] = useState(false);
   const [hasFetchedOnce, setHasFetchedOnce] = useState(false);
   const [refreshedTimestamp, setRefreshedTimestamp] = useState<Date | undefined>(undefined);
 
   useEffect(() => {
-    const [unsub, refresh] = plugin.services.todoist.subscribe(query.filter, (results) => {
-      callback(results);
-      setRefreshedTimestamp(new Date());
-    });
-    setRefresher(() => {
-      return refresh;
-    });
+    const [unsub, refresh, autoRefresh] = plugin.services.todoist.subscribe(
+      query.filter,
+      (results) => {
+        callback(results);
+        setRefreshedTimestamp(new Date());
+      },
+    );
+    setRefreshers([refresh, autoRefresh]);
     return unsub;
   }, [query, plugin, callback]);
 
   const forceRefresh = useCallback(async () => {
-    if (refresher === undefined) {
+    if (refreshers === undefined) {
       return;
     }
 
     setIsFetching(true);
-    await refresher();
+    await refreshers[0]();
     setHasFetchedOnce(true);
     setIsFetching(false);
-  }, [refresher]);
+  }, [refreshers]);
+
+  // Auto-refreshes only refetch the query when the Sync API reports changes, so they stay
+  // cheap even for large accounts.
+  const autoRefresh = useCallback(async () => {
+    await refreshers?.[1]();
+  }, [refreshers]);
 
   useEffect(() => {
     forceRefresh();
   }, [forceRefresh]);
 
-  return [forceRefresh, isFetching, hasFetchedOnce, refreshedTimestamp];
+  return [forceRefresh, autoRefresh, isFetching, hasFetchedOnce, refreshedTimestamp];
 };
 
 type Props = {
@@ -60,7 +70,7 @@ export const QueryRoot: React.FC<Props> = ({ query, warnings }) => {
   const plugin = PluginContext.use();
   const settings = useSettingsStore();
   const [result, setResult] = useState<SubscriptionResult>({ type: "success", tasks: [] });
-  const [refresh, isFetching, hasFetchedOnce, refreshedTimestamp] = useSubscription(
+  const [refresh, autoRefresh, isFetching, hasFetchedOnce, refreshedTimestamp] = useSubscription(
     plugin,
     query,
     setResult,
@@ -74,11 +84,11 @@ export const QueryRoot: React.FC<Props> = ({ query, warnings }) => {
     }
 
     const id = window.setInterval(async () => {
-      await refresh();
+      await autoRefresh();
     }, interval * 1000);
 
     return () => window.clearInterval(id);
-  }, [query, settings, refresh]);
+  }, [query, settings, autoRefresh]);
 
   return (
     <>
@@ -139,7 +149,7 @@ const QueryResponseHandler: React.FC<{
     return <Displays.NotReady />;
   }
 
-  const tasks = result.tasks;
+  const tasks = skipTasks(result.tasks, query);
   if (tasks.length === 0) {
     return <Displays.Empty />;
   }
@@ -158,3 +168,14 @@ const QueryResponseHandler: React.FC<{
     </QueryContext.Provider>
   );
 };
+
+// Skips the first top-level tasks of the whole result, with their sub-tasks, so the offset
+// applies once before grouping rather than to each group.
+const skipTasks = (tasks: Task[], query: Query): Task[] => {
+  if (query.offset === 0) {
+    return tasks;
+  }
+
+  const flatten = (tree: TaskTree): Task[] => [tree, ...tree.children.flatMap(flatten)];
+  return getTaskTree(tasks, query.sorting).slice(query.offset).flatMap(flatten);
+};
@@ -1,10 +1,12 @@
 import type { Task } from "@/data/task";
 import { type TaskTree, buildTaskTree } from "@/data/transformations/relationships";
 import { sortTasks } from "@/data/transformations/sorting";
+import { t } from "@/i18n";
 import type { SortingVariant } from "@/query/query";
 import { QueryContext } from "@/ui/context";
 import { TaskList } from "@/ui/query/task/TaskList";
 import type React from "react";
+import { useEffect, useState } from "react";
 
 type Props = {
   tasks: Task[];
@@ -12,12 +14,42 @@ type Props = {
 
 export const ListDisplay: React.FC<Props> = ({ tasks }) => {
   const query = QueryContext.use();
+  const [pages, setPages] = useState(1);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: the query is only a trigger, to start from the first page again when it is edited.
+  useEffect(() => {
+    setPages(1);
+  }, [query]);
+
   const trees = getTaskTree(tasks, query.sorting);
+  const shown = query.limit !== undefined ? trees.slice(0, query.limit * pages) : trees;
+  const hidden = trees.length - shown.length;
+
+  return (
+    <>
+      <TaskList trees={shown} />
+      {query.limit !== undefined && hidden > 0 && (
+        <ShowMoreFooter
+          count={Math.min(query.limit, hidden)}
+          onClick={() => setPages((old) => old + 1)}
+        />
+      )}
+    </>
+  );
+};
 
-  return <TaskList trees={trees} />;
+const ShowMoreFooter: React.FC<{ count: number; onClick: () => void }> = ({ count, onClick }) => {
+  const i18n = t().query.displays.list;
+  return (
+    <div className="todoist-show-more">
+      <button type="button" onClick={onClick}>
+        {i18n.showMoreLabel(count)}
+      </button>
+    </div>
+  );
 };
 
-const getTaskTree = (tasks: Task[], sorting: SortingVariant[]): TaskTree[] => {
+export const getTaskTree = (tasks: Task[], sorting: SortingVariant[]): TaskTree[] => {
   const copy = [...tasks];
   sortTasks(copy, sorting);
   return buildTaskTree(copy);
@@ -1,13 +1,21 @@
+import type { UpdateTaskParams } from "@/api/domain/task";
 import { DueDate } from "@/data/dueDate";
+import type { Task as TaskData } from "@/data/task";
 import type { TaskTree } from "@/data/transformations/relationships";
 import { t } from "@/i18n";
 import { ShowMetadataVariant } from "@/query/query";
 import { useSettingsStore } from "@/settings";
 import Markdown from "@/ui/components/markdown";
+import { ObsidianIcon } from "@/ui/components/obsidian-icon";
 import { PluginContext, QueryContext } from "@/ui/context";
 import { TaskList } from "@/ui/query/task/TaskList";
 import { TaskMetadata } from "@/ui/query/task/TaskMetadata";
 import { showTaskContext } from "@/ui/query/task/contextMenu";
+import {
+  type DueDateUpdate,
+  showDueDatePicker,
+  showPriorityPicker,
+} from "@/ui/query/task/quickPickers";
 import { motion } from "framer-motion";
 import { Notice } from "obsidian";
 import React, { type MouseEvent } from "react";
@@ -17,11 +25,22 @@ type Props = {
   tree: TaskTree;
 };
 
+// Values changed from the task row, shown until the query returns the updated task.
+type Overrides = Partial<Pick<TaskData, "content" | "priority" | "due">>;
+
+const undoTimeout = 5000;
+
 export const Task: React.FC<Props> = ({ tree }) => {
   const plugin = PluginContext.use();
   const query = QueryContext.use();
   const settings = useSettingsStore();
 
+  // Overrides are tied to the task they were made on, so fresh query results replace them.
+  const [overrides, setOverrides] = React.useState<{ tree: TaskTree; values: Overrides }>();
+  const [isEditing, setIsEditing] = React.useState(false);
+
+  const task: TaskTree = { ...tree, ...(overrides?.tree === tree ? overrides.values : {}) };
+
   const onContextMenu = (ev: MouseEvent) => {
     ev.preventDefault();
     ev.stopPropagation();
@@ -29,18 +48,77 @@ export const Task: React.FC<Props> = ({ tree }) => {
   };
 
   const onClickTask = async () => {
+    // The task is hidden straight away, and shown again if closing it fails.
+    const closing = plugin.services.todoist.actions.closeTask(tree.id);
+
+    showUndoNotice(t().query.taskRow.completedNotice, async () => {
+      try {
+        await closing;
+      } catch {
+        // Closing already failed, so the task is back and there is nothing to undo.
+        return;
+      }
+
+      try {
+        await plugin.services.todoist.actions.reopenTask(tree.id);
+      } catch (error: unknown) {
+        console.error("Failed to reopen task", error);
+        new Notice(t().query.taskRow.failedUndoMessage, 2000);
+      }
+    });
+
     try {
-      await plugin.services.todoist.actions.closeTask(tree.id);
+      await closing;
     } catch (error: unknown) {
       console.error("Failed to close task", error);
       new Notice(t().query.failedCloseMessage, 2000);
     }
   };
 
-  const isDisabled = tree.content.startsWith("*");
+  const updateTask = async (params: UpdateTaskParams, optimistic: Overrides) => {
+    setOverrides((old) => ({
+      tree,
+      values: { ...(old?.tree === tree ? old.values : {}), ...optimistic },
+    }));
+
+    try {
+      await plugin.services.todoist.actions.updateTask(tree.id, params);
+    } catch (error: unknown) {
+      console.error("Failed to update task", error);
+      new Notice(t().query.taskRow.failedUpdateMessage, 2000);
+      setOverrides(undefined);
+    }
+  };
+
+  const onEditContent = async (content: string) => {
+    setIsEditing(false);
+    if (content === "" || content === task.content) {
+      return;
+    }
+
+    await updateTask({ content }, { content });
+  };
+
+  const onPickPriority = (ev: MouseEvent) => {
+    showPriorityPicker(task.priority, (priority) => updateTask({ priority }, { priority }), {
+      x: ev.pageX,
+      y: ev.pageY,
+    });
+  };
+
+  const onPickDueDate = (ev: MouseEvent) => {
+    showDueDatePicker((update: DueDateUpdate) => updateTask(update, { due: toDue(update) }), {
+      x: ev.pageX,
+      y: ev.pageY,
+    });
+  };
+
+  const isDisabled = task.content.startsWith("*");
 
   const shouldRenderDescription =
-    query.show.has(ShowMetadataVariant.Description) && tree.description !== "";
+    query.show.has(ShowMetadataVariant.Description) && task.description !== "";
+
+  const i18n = t().query.taskRow;
 
   const transitionOpacity = settings.fadeToggle ? 0 : 1;
 
@@ -49,9 +127,9 @@ export const Task: React.FC<Props> = ({ tree }) => {
       <motion.div
         className="todoist-task-container"
         onContextMenu={onContextMenu}
-        data-priority={tree.priority}
-        data-due-metadata={getDueMetadataInfo(tree)}
-        data-has-time={getTimeMetadataInfo(tree)}
+        data-priority={task.priority}
+        data-due-metadata={getDueMetadataInfo(task)}
+        data-has-time={getTimeMetadataInfo(task)}
         initial={{ opacity: transitionOpacity }}
         animate={{ opacity: 1 }}
         exit={{ opacity: transitionOpacity }}
@@ -66,9 +144,39 @@ export const Task: React.FC<Props> = ({ tree }) => {
           <div />
         </Checkbox>
         <div className="todoist-task">
-          <Markdown className="todoist-task-content" content={sanitizeContent(tree.content)} />
-          {shouldRenderDescription && <DescriptionRenderer content={tree.description} />}
-          <TaskMetadata query={query} task={tree} settings={settings} />
+          {isEditing ? (
+            <ContentEditor
+              content={task.content}
+              onSubmit={onEditContent}
+              onCancel={() => setIsEditing(false)}
+            />
+          ) : (
+            <div onDoubleClick={() => setIsEditing(true)}>
+              <Markdown className="todoist-task-content" content={sanitizeContent(task.content)} />
+            </div>
+          )}
+          {shouldRenderDescription && <DescriptionRenderer content={task.description} />}
+          <TaskMetadata query={query} task={task} settings={settings} />
+        </div>
+        <div className="todoist-task-actions">
+          <button
+            type="button"
+            className="clickable-icon"
+            aria-label={i18n.setPriorityLabel}
+            onClick={onPickPriority}
+          >
+            <ObsidianIcon size="s" id="flag" />
+          </button>
+          {!task.due?.isRecurring && (
+            <button
+              type="button"
+              className="clickable-icon"
+              aria-label={i18n.setDueDateLabel}
+              onClick={onPickDueDate}
+            >
+              <ObsidianIcon size="s" id="calendar" />
+            </button>
+          )}
         </div>
       </motion.div>
       {tree.children.length > 0 && <TaskList trees={tree.children} />}
@@ -76,6 +184,80 @@ export const Task: React.FC<Props> = ({ tree }) => {
   );
 };
 
+// The due date Todoist will store for a quick picker choice, used until the query refreshes.
+const toDue = (update: DueDateUpdate): TaskData["due"] => {
+  if (update.dueDate === undefined) {
+    return undefined;
+  }
+
+  return { isRecurring: false, date: update.dueDate };
+};
+
+// Shows a notice with an undo button for as long as the notice is displayed.
+const showUndoNotice = (message: string, undo: () => Promise<void>) => {
+  const fragment = document.createDocumentFragment();
+  const container = document.createElement("div");
+  container.className = "todoist-undo-notice";
+
+  const text = document.createElement("span");
+  text.textContent = message;
+
+  const button = document.createElement("button");
+  button.textContent = t().query.taskRow.undoButtonLabel;
+
+  container.append(text, button);
+  fragment.append(container);
+
+  const notice = new Notice(fragment, undoTimeout);
+  button.addEventListener("click", async (ev) => {
+    ev.stopPropagation();
+    notice.hide();
+    await undo();
+  });
+};
+
+type ContentEditorProps = {
+  content: string;
+  onSubmit: (content: string) => void;
+  onCancel: () => void;
+};
+
+// Enter or leaving the input saves the new content, Escape discards it.
+const ContentEditor: React.FC<ContentEditorProps> = ({ content, onSubmit, onCancel }) => {
+  const [value, setValue] = React.useState(content);
+  const isCancelled = React.useRef(false);
+
+  const onKeyDown = (ev: React.KeyboardEvent<HTMLInputElement>) => {
+    if (ev.key === "Enter") {
+      ev.preventDefault();
+      ev.currentTarget.blur();
+    } else if (ev.key === "Escape") {
+      ev.preventDefault();
+      isCancelled.current = true;
+      onCancel();
+    }
+  };
+
+  const onBlur = () => {
+    if (!isCancelled.current) {
+      onSubmit(value.trim());
+    }
+  };
+
+  return (
+    <input
+      className="todoist-task-content-editor"
+      type="text"
+      value={value}
+      // biome-ignore lint/a11y/noAutofocus: the editor is opened by double-clicking the content
+      autoFocus={true}
+      onChange={(ev) => setValue(ev.target.value)}
+      onKeyDown={onKeyDown}
+      onBlur={onBlur}
+    />
+  );
+};
+
 function getDueMetadataInfo(task: TaskTree): string | undefined {
   if (task.due === undefined) {
     return undefined;
@@ -1,7 +1,13 @@
+import type { Priority, UpdateTaskParams } from "@/api/domain/task";
 import type { Task } from "@/data/task";
 import { t } from "@/i18n";
 import type TodoistPlugin from "@/index";
-import { Menu } from "obsidian";
+import {
+  type DueDateUpdate,
+  addDueDateItems,
+  showPriorityPicker,
+} from "@/ui/query/task/quickPickers";
+import { Menu, Notice } from "obsidian";
 import type { Point } from "obsidian";
 
 type TaskContext = {
@@ -11,13 +17,58 @@ type TaskContext = {
 
 export function showTaskContext(ctx: TaskContext, position: Point) {
   const i18n = t().query.contextMenu;
-  new Menu()
+  const { modals } = ctx.plugin.services;
+
+  const menu = new Menu()
     .addItem((menuItem) =>
       menuItem
         .setTitle(i18n.completeTaskLabel)
         .setIcon("check-small")
         .onClick(async () => await ctx.plugin.services.todoist.actions.closeTask(ctx.task.id)),
     )
+    .addItem((menuItem) =>
+      menuItem
+        .setTitle(i18n.editTaskLabel)
+        .setIcon("pencil")
+        .onClick(() => modals.taskEditing(ctx.task)),
+    );
+
+  // Picking a date would replace the recurrence, so recurring tasks are rescheduled via edit.
+  if (!(ctx.task.due?.isRecurring ?? false)) {
+    menu.addItem((menuItem) =>
+      menuItem
+        .setTitle(i18n.rescheduleLabel)
+        .setIcon("calendar")
+        .onClick(() => showRescheduleMenu(ctx, position)),
+    );
+  }
+
+  menu
+    .addItem((menuItem) =>
+      menuItem
+        .setTitle(i18n.changePriorityLabel)
+        .setIcon("flag")
+        .onClick(() =>
+          showPriorityPicker(
+            ctx.task.priority,
+            (priority: Priority) => updateTask(ctx, { priority }),
+            position,
+          ),
+        ),
+    )
+    .addItem((menuItem) =>
+      menuItem
+        .setTitle(i18n.moveTaskLabel)
+        .setIcon("folder-input")
+        .onClick(() => modals.taskMoving({ task: ctx.task })),
+    )
+    .addItem((menuItem) =>
+      menuItem
+        .setTitle(i18n.addLabelLabel)
+        .setIcon("tag")
+        .onClick(() => showLabelMenu(ctx, position)),
+    )
+    .addSeparator()
     .addItem((menuItem) =>
       menuItem
         .setTitle(i18n.openTaskInAppLabel)
@@ -30,15 +81,80 @@ export function showTaskContext(ctx: TaskContext, position: Point) {
       menuItem
         .setTitle(i18n.openTaskInBrowserLabel)
         .setIcon("popup-open")
-        .onClick(() =>
-          openExternal(
-            `https://todoist.com/app/project/${ctx.task.project.id}/task/${ctx.task.id}`,
-          ),
-        ),
+        .onClick(() => openExternal(getTaskUrl(ctx.task))),
+    )
+    .addItem((menuItem) =>
+      menuItem
+        .setTitle(i18n.copyTaskLinkLabel)
+        .setIcon("link")
+        .onClick(async () => {
+          await navigator.clipboard.writeText(getTaskUrl(ctx.task));
+          new Notice(i18n.copiedTaskLinkNotice, 2000);
+        }),
+    )
+    .addSeparator()
+    .addItem((menuItem) =>
+      menuItem
+        .setTitle(i18n.deleteTaskLabel)
+        .setIcon("trash")
+        .onClick(() => modals.taskDeletion({ task: ctx.task })),
+    )
+    .showAtPosition(position);
+}
+
+// Obsidian menus don't support submenus, so the reschedule options open as a menu of their own.
+function showRescheduleMenu(ctx: TaskContext, position: Point) {
+  const menu = new Menu();
+  addDueDateItems(menu, (update: DueDateUpdate) => updateTask(ctx, update));
+  menu
+    .addSeparator()
+    .addItem((menuItem) =>
+      menuItem
+        .setTitle(t().query.contextMenu.pickDateLabel)
+        .setIcon("calendar-search")
+        .onClick(() => ctx.plugin.services.modals.taskRescheduling({ task: ctx.task })),
     )
     .showAtPosition(position);
 }
 
+function showLabelMenu(ctx: TaskContext, position: Point) {
+  const taskLabels = ctx.task.labels.map((label) => label.name);
+  const labels = Array.from(ctx.plugin.services.todoist.data().labels.iter())
+    .filter((label) => !taskLabels.includes(label.name))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const menu = new Menu();
+  if (labels.length === 0) {
+    menu.addItem((menuItem) =>
+      menuItem.setTitle(t().query.contextMenu.noLabelsToAddLabel).setDisabled(true),
+    );
+  }
+
+  for (const label of labels) {
+    menu.addItem((menuItem) =>
+      menuItem
+        .setTitle(label.name)
+        .setIcon("tag")
+        .onClick(() => updateTask(ctx, { labels: [...taskLabels, label.name] })),
+    );
+  }
+
+  menu.showAtPosition(position);
+}
+
+async function updateTask(ctx: TaskContext, params: UpdateTaskParams) {
+  try {
+    await ctx.plugin.services.todoist.actions.updateTask(ctx.task.id, params);
+  } catch (error: unknown) {
+    console.error("Failed to update task", error);
+    new Notice(t().query.taskRow.failedUpdateMessage, 2000);
+  }
+}
+
+function getTaskUrl(task: Task): string {
+  return `https://todoist.com/app/project/${task.project.id}/task/${task.id}`;
+}
+
 // A bit hacky, but in order to simulate clicking a link
 // we create a unparented DOM element, dispatch an event,
 // then remove the link. Using electron's openExternal doesn't
@@ -0,0 +1,60 @@
+import type { Priority, UpdateTaskParams } from "@/api/domain/task";
+import { t } from "@/i18n";
+import { getDateSuggestions } from "@/ui/createTaskModal/DueDateSelector";
+import { getPriorityLabel } from "@/ui/createTaskModal/PrioritySelector";
+import { Menu, type Point } from "obsidian";
+
+const priorities: Priority[] = [4, 3, 2, 1];
+
+export type DueDateUpdate = Pick<UpdateTaskParams, "dueDate" | "dueString">;
+
+export function addPriorityItems(
+  menu: Menu,
+  selected: Priority,
+  onSelect: (priority: Priority) => void,
+) {
+  const i18n = t().createTaskModal.prioritySelector;
+  for (const priority of priorities) {
+    menu.addItem((menuItem) =>
+      menuItem
+        .setTitle(getPriorityLabel(priority, i18n))
+        .setIcon("flag")
+        .setChecked(priority === selected)
+        .onClick(() => onSelect(priority)),
+    );
+  }
+}
+
+// Adds the same suggestions as the date selector in the create task modal.
+export function addDueDateItems(menu: Menu, onSelect: (update: DueDateUpdate) => void) {
+  for (const suggestion of getDateSuggestions()) {
+    menu.addItem((menuItem) =>
+      menuItem
+        .setTitle(suggestion.label)
+        .setIcon(suggestion.icon)
+        .onClick(() =>
+          onSelect(
+            suggestion.target === undefined
+              ? { dueString: "no date" }
+              : { dueDate: suggestion.target.toString() },
+          ),
+        ),
+    );
+  }
+}
+
+export function showPriorityPicker(
+  selected: Priority,
+  onSelect: (priority: Priority) => void,
+  position: Point,
+) {
+  const menu = new Menu();
+  addPriorityItems(menu, selected, onSelect);
+  menu.showAtPosition(position);
+}
+
+export function showDueDatePicker(onSelect: (update: DueDateUpdate) => void, position: Point) {
+  const menu = new Menu();
+  addDueDateItems(menu, onSelect);
+  menu.showAtPosition(position);
+}
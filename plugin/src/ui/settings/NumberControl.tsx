@@ -3,12 +3,13 @@ import { type ChangeEvent, useState } from "react";
 import { Input, TextField } from "react-aria-components";
 
 type Props = {
+  label: string;
   initialValue: number;
   onChange: (val: number) => Promise<void>;
 };
 
 // TODO: Add more validation and reporting to user
-export const AutoRefreshIntervalControl: React.FC<Props> = ({ initialValue, onChange }) => {
+export const NumberControl: React.FC<Props> = ({ label, initialValue, onChange }) => {
   const [value, setValue] = useState(`${initialValue}`);
 
   const onInputChange = (ev: ChangeEvent<HTMLInputElement>) => {
@@ -29,7 +30,7 @@ export const AutoRefreshIntervalControl: React.FC<Props> = ({ initialValue, onCh
   };
 
   return (
-    <TextField aria-label="Auto-refresh interval">
+    <TextField aria-label={label}>
       <Input value={value} onChange={onInputChange} type="number" onBlur={onBlur} />
     </TextField>
   );
@@ -0,0 +1,39 @@
+import type React from "react";
+import { type ChangeEvent, useState } from "react";
+import { Input, TextField } from "react-aria-components";
+
+type Props = {
+  label: string;
+  initialValue: string;
+  placeholder: string;
+  onChange: (val: string) => Promise<void>;
+};
+
+// Paths are saved once the input loses focus, so files aren't moved for every keystroke.
+export const PathControl: React.FC<Props> = ({ label, initialValue, placeholder, onChange }) => {
+  const [value, setValue] = useState(initialValue);
+
+  const onInputChange = (ev: ChangeEvent<HTMLInputElement>) => {
+    setValue(ev.target.value);
+  };
+
+  const onBlur = async () => {
+    const path = value.trim();
+    if (path === initialValue) {
+      return;
+    }
+
+    // An empty path falls back to the default
+    if (path.length === 0) {
+      setValue(placeholder);
+    }
+
+    await onChange(path.length === 0 ? placeholder : path);
+  };
+
+  return (
+    <TextField aria-label={label}>
+      <Input value={value} placeholder={placeholder} onChange={onInputChange} onBlur={onBlur} />
+    </TextField>
+  );
+};
@@ -4,6 +4,7 @@ import type React from "react";
 import { useEffect, useState } from "react";
 import { TodoistApiClient } from "../../api";
 import { ObsidianFetcher } from "../../api/fetcher";
+import { withDefaultMiddleware } from "../../api/middleware";
 import { TokenValidation } from "../../token";
 import { TokenValidationIcon } from "../components/token-validation-icon";
 import { Setting } from "./SettingItem";
@@ -39,7 +40,9 @@ export const TokenChecker: React.FC<Props> = ({ tester }) => {
         setTokenValidationCount((old) => old + 1);
 
         await tokenAccessor.write(token);
-        await todoist.initialize(new TodoistApiClient(token, new ObsidianFetcher()));
+        await todoist.initialize(
+          new TodoistApiClient(token, withDefaultMiddleware(new ObsidianFetcher())),
+        );
       },
     });
   };
@@ -4,9 +4,22 @@ import { type App, PluginSettingTab } from "obsidian";
 import type React from "react";
 import { type Root, createRoot } from "react-dom/client";
 import type TodoistPlugin from "../..";
-import { type Settings, useSettingsStore } from "../../settings";
+import {
+  type BackgroundSyncSettings,
+  type BackupSettings,
+  type ClosedTaskPolicy,
+  type ClosedTaskSettings,
+  type Settings,
+  type SyncLayoutSettings,
+  defaultBackgroundSync,
+  defaultBackupSettings,
+  defaultClosedTasks,
+  defaultSyncLayout,
+  useSettingsStore,
+} from "../../settings";
 import { TokenValidation } from "../../token";
-import { AutoRefreshIntervalControl } from "./AutoRefreshIntervalControl";
+import { NumberControl } from "./NumberControl";
+import { PathControl } from "./PathControl";
 import { Setting } from "./SettingItem";
 import { TokenChecker } from "./TokenChecker";
 import "./styles.scss";
@@ -40,6 +53,37 @@ type SettingsKeys<V> = {
   [K in keyof Settings]: Settings[K] extends V ? K : never;
 }[keyof Settings];
 
+type SyncLayoutKeys<V> = {
+  [K in keyof SyncLayoutSettings]: SyncLayoutSettings[K] extends V ? K : never;
+}[keyof SyncLayoutSettings];
+
+const layoutPaths: SyncLayoutKeys<string>[] = [
+  "baseFolder",
+  "inboxFile",
+  "todayFile",
+  "upcomingFile",
+  "projectFile",
+  "labelFile",
+  "systemFolder",
+  "localFolder",
+];
+
+type BackupKeys<V> = {
+  [K in keyof BackupSettings]: BackupSettings[K] extends V ? K : never;
+}[keyof BackupSettings];
+
+const backupCounts: BackupKeys<number>[] = ["keepLast", "keepDaily", "keepWeekly"];
+
+const closedTaskFiles: (keyof ClosedTaskSettings)[] = [
+  "inbox",
+  "today",
+  "upcoming",
+  "projects",
+  "labels",
+];
+
+const closedTaskPolicies: ClosedTaskPolicy[] = ["remove", "check", "section", "archive"];
+
 const SettingsRoot: React.FC<Props> = ({ plugin }) => {
   const settings = useSettingsStore();
 
@@ -58,6 +102,43 @@ const SettingsRoot: React.FC<Props> = ({ plugin }) => {
     };
   };
 
+  const writeSyncLayout = async (update: Partial<SyncLayoutSettings>) => {
+    await plugin.writeOptions({
+      syncLayout: { ...settings.syncLayout, ...update },
+    });
+  };
+
+  const layoutToggleProps = (key: SyncLayoutKeys<boolean>) => {
+    return {
+      value: settings.syncLayout[key],
+      onClick: (val: boolean) => writeSyncLayout({ [key]: val }),
+    };
+  };
+
+  const closedTasks = { ...defaultClosedTasks, ...settings.closedTasks };
+
+  const writeClosedTasks = async (update: Partial<ClosedTaskSettings>) => {
+    await plugin.writeOptions({
+      closedTasks: { ...closedTasks, ...update },
+    });
+  };
+
+  const backups = { ...defaultBackupSettings, ...settings.backups };
+
+  const writeBackups = async (update: Partial<BackupSettings>) => {
+    await plugin.writeOptions({
+      backups: { ...backups, ...update },
+    });
+  };
+
+  const backgroundSync = { ...defaultBackgroundSync, ...settings.backgroundSync };
+
+  const writeBackgroundSync = async (update: Partial<BackgroundSyncSettings>) => {
+    await plugin.writeOptions({
+      backgroundSync: { ...backgroundSync, ...update },
+    });
+  };
+
   const updateAutoRefreshInterval = async (val: number) => {
     await plugin.writeOptions({
       autoRefreshInterval: val,
@@ -114,7 +195,8 @@ const SettingsRoot: React.FC<Props> = ({ plugin }) => {
         name={i18n.autoRefresh.interval.label}
         description={i18n.autoRefresh.interval.description}
       >
-        <AutoRefreshIntervalControl
+        <NumberControl
+          label={i18n.autoRefresh.interval.label}
           initialValue={settings.autoRefreshInterval}
           onChange={updateAutoRefreshInterval}
         />
@@ -182,7 +264,184 @@ const SettingsRoot: React.FC<Props> = ({ plugin }) => {
         />
       </Setting.Root>
 
+      <h2>{i18n.syncLayout.header}</h2>
+      <p className="setting-item-description">{i18n.syncLayout.description}</p>
+      {layoutPaths.map((key) => (
+        <Setting.Root
+          key={key}
+          name={i18n.syncLayout[key].label}
+          description={i18n.syncLayout[key].description}
+        >
+          <PathControl
+            label={i18n.syncLayout[key].label}
+            initialValue={settings.syncLayout[key]}
+            placeholder={defaultSyncLayout[key]}
+            onChange={(val) => writeSyncLayout({ [key]: val })}
+          />
+        </Setting.Root>
+      ))}
+      <Setting.Root
+        name={i18n.syncLayout.labelFiles.label}
+        description={i18n.syncLayout.labelFiles.description}
+      >
+        <Setting.ToggleControl {...layoutToggleProps("labelFiles")} />
+      </Setting.Root>
+      <Setting.Root
+        name={i18n.syncLayout.nestSubprojects.label}
+        description={i18n.syncLayout.nestSubprojects.description}
+      >
+        <Setting.ToggleControl {...layoutToggleProps("nestSubprojects")} />
+      </Setting.Root>
+      <Setting.Root
+        name={i18n.syncLayout.templateFile.label}
+        description={i18n.syncLayout.templateFile.description}
+      >
+        <PathControl
+          label={i18n.syncLayout.templateFile.label}
+          initialValue={settings.syncTemplateFile}
+          placeholder=""
+          onChange={async (val) => {
+            await plugin.writeOptions({
+              syncTemplateFile: val,
+            });
+          }}
+        />
+      </Setting.Root>
+      <Setting.Root
+        name={i18n.syncLayout.taskLineFormat.label}
+        description={i18n.syncLayout.taskLineFormat.description}
+      >
+        <Setting.DropdownControl
+          value={settings.taskLineFormat}
+          options={[
+            {
+              label: i18n.syncLayout.taskLineFormat.options.default,
+              value: "default",
+            },
+            {
+              label: i18n.syncLayout.taskLineFormat.options.tasks,
+              value: "tasks",
+            },
+            {
+              label: i18n.syncLayout.taskLineFormat.options.dataview,
+              value: "dataview",
+            },
+          ]}
+          onClick={async (val) => {
+            await plugin.writeOptions({
+              taskLineFormat: val,
+            });
+          }}
+        />
+      </Setting.Root>
+
+      <Setting.Root
+        name={i18n.syncLayout.autoPush.label}
+        description={i18n.syncLayout.autoPush.description}
+      >
+        <Setting.ToggleControl {...toggleProps("enableBidirectionalSync")} />
+      </Setting.Root>
+
+      <h2>{i18n.closedTasks.header}</h2>
+      <p className="setting-item-description">{i18n.closedTasks.description}</p>
+      {closedTaskFiles.map((key) => (
+        <Setting.Root
+          key={key}
+          name={i18n.closedTasks[key].label}
+          description={i18n.closedTasks[key].description}
+        >
+          <Setting.DropdownControl
+            value={closedTasks[key]}
+            options={closedTaskPolicies.map((policy) => ({
+              label: i18n.closedTasks.options[policy],
+              value: policy,
+            }))}
+            onClick={(val) => writeClosedTasks({ [key]: val })}
+          />
+        </Setting.Root>
+      ))}
+
+      <h2>{i18n.backgroundSync.header}</h2>
+      <p className="setting-item-description">{i18n.backgroundSync.description}</p>
+      <Setting.Root
+        name={i18n.backgroundSync.enabled.label}
+        description={i18n.backgroundSync.enabled.description}
+      >
+        <Setting.ToggleControl
+          value={backgroundSync.enabled}
+          onClick={(val) => writeBackgroundSync({ enabled: val })}
+        />
+      </Setting.Root>
+      <Setting.Root
+        name={i18n.backgroundSync.interval.label}
+        description={i18n.backgroundSync.interval.description}
+      >
+        <NumberControl
+          label={i18n.backgroundSync.interval.label}
+          initialValue={backgroundSync.intervalMinutes}
+          onChange={(val) => writeBackgroundSync({ intervalMinutes: Math.max(1, val) })}
+        />
+      </Setting.Root>
+      <Setting.Root
+        name={i18n.backgroundSync.pauseWhenIdle.label}
+        description={i18n.backgroundSync.pauseWhenIdle.description}
+      >
+        <Setting.ToggleControl
+          value={backgroundSync.pauseWhenIdle}
+          onClick={(val) => writeBackgroundSync({ pauseWhenIdle: val })}
+        />
+      </Setting.Root>
+      <Setting.Root
+        name={i18n.backgroundSync.pauseOnMetered.label}
+        description={i18n.backgroundSync.pauseOnMetered.description}
+      >
+        <Setting.ToggleControl
+          value={backgroundSync.pauseOnMetered}
+          onClick={(val) => writeBackgroundSync({ pauseOnMetered: val })}
+        />
+      </Setting.Root>
+
+      <h2>{i18n.backups.header}</h2>
+      <p className="setting-item-description">{i18n.backups.description}</p>
+      {backupCounts.map((key) => (
+        <Setting.Root
+          key={key}
+          name={i18n.backups[key].label}
+          description={i18n.backups[key].description}
+        >
+          <NumberControl
+            label={i18n.backups[key].label}
+            initialValue={backups[key]}
+            onChange={(val) => writeBackups({ [key]: val })}
+          />
+        </Setting.Root>
+      ))}
+      <Setting.Root
+        name={i18n.backups.compress.label}
+        description={i18n.backups.compress.description}
+      >
+        <Setting.ToggleControl
+          value={backups.compress}
+          onClick={(val) => writeBackups({ compress: val })}
+        />
+      </Setting.Root>
+      <Setting.Root
+        name={i18n.backups.skipUnchanged.label}
+        description={i18n.backups.skipUnchanged.description}
+      >
+        <Setting.ToggleControl
+          value={backups.skipUnchanged}
+          onClick={(val) => writeBackups({ skipUnchanged: val })}
+        />
+      </Setting.Root>
+
       <h2>{i18n.advanced.header}</h2>
+      <Setting.Root
+        name={i18n.advanced.localFilters.label}
+        description={i18n.advanced.localFilters.description}
+      >
+        <Setting.ToggleControl {...toggleProps("evaluateFiltersLocally")} />
+      </Setting.Root>
       <Setting.Root
         name={i18n.advanced.debugLogging.label}
         description={i18n.advanced.debugLogging.description}
@@ -0,0 +1,74 @@
+import { type SyncStatus, useSyncStatusStore } from "@/core/sync/SyncStatus";
+import { t } from "@/i18n";
+import type TodoistPlugin from "@/index";
+import { useSettingsStore } from "@/settings";
+import { usePluginStateStore } from "@/state";
+
+const minute = 60 * 1000;
+
+// Shows how many changes are waiting in the outbox and how the latest file sync went. Hidden
+// until there is something to show.
+export const registerStatusBar = (plugin: TodoistPlugin) => {
+  const item = plugin.addStatusBarItem();
+  item.addClass("mod-clickable");
+
+  const render = () => {
+    const i18n = t().statusBar;
+    const entries = usePluginStateStore.getState().outbox?.entries ?? [];
+    const status: SyncStatus = useSyncStatusStore.getState();
+    const backgroundSync = useSettingsStore.getState().backgroundSync?.enabled ?? false;
+
+    item.toggle(
+      entries.length > 0 ||
+        backgroundSync ||
+        status.lastSyncAt !== null ||
+        status.lastError !== null,
+    );
+
+    if (entries.length > 0) {
+      item.setText(i18n.pendingChanges(entries.length));
+    } else if (status.running) {
+      item.setText(i18n.syncing);
+    } else if (status.lastError !== null) {
+      item.setText(i18n.syncFailed);
+    } else if (status.lastSyncAt !== null) {
+      item.setText(i18n.syncedAgo(Math.floor((Date.now() - status.lastSyncAt.getTime()) / minute)));
+    } else {
+      item.setText("Todoist");
+    }
+
+    const tooltip: string[] = [];
+    if (status.lastSyncAt !== null) {
+      tooltip.push(i18n.lastSync(status.lastSyncAt.toLocaleString()));
+    }
+    const lastError =
+      entries.find((entry) => entry.lastError !== undefined)?.lastError ?? status.lastError;
+    if (lastError !== null) {
+      tooltip.push(i18n.lastError(lastError));
+    }
+    if (backgroundSync && status.pausedReason !== null) {
+      tooltip.push(i18n.paused(status.pausedReason));
+    }
+    if (entries.length > 0) {
+      tooltip.push(i18n.retryHint);
+    }
+    tooltip.push(i18n.openLogHint);
+    item.setAttribute("aria-label", tooltip.join("\n"));
+  };
+
+  plugin.registerDomEvent(item, "click", async () => {
+    if ((usePluginStateStore.getState().outbox?.entries.length ?? 0) > 0) {
+      await plugin.services.todoist.retryPending(true);
+    }
+    const { SyncHistoryModal } = await import("@/ui/syncHistoryModal/SyncHistoryModal");
+    new SyncHistoryModal(plugin).open();
+  });
+
+  render();
+  plugin.register(usePluginStateStore.subscribe(render));
+  plugin.register(useSyncStatusStore.subscribe(render));
+  plugin.register(useSettingsStore.subscribe(render));
+
+  // Keeps "synced N min ago" current
+  plugin.registerInterval(window.setInterval(render, minute));
+};
@@ -0,0 +1,139 @@
+import {
+  SyncJournal,
+  type SyncJournalOperation,
+  type SyncRun,
+  type SyncTrigger,
+} from "@/core/sync/SyncJournal";
+import type TodoistPlugin from "@/index";
+import { Modal } from "obsidian";
+
+const TRIGGER_LABELS: Record<SyncTrigger, string> = {
+  command: "⌨️ Command",
+  "quick-sync": "⚡ Quick sync",
+  "smart-sync": "🧠 Smart sync",
+  "file-change": "✏️ File change",
+  schedule: "⏰ Scheduled",
+  setup: "🚀 Setup",
+};
+
+const ACTION_LABELS: Record<SyncJournalOperation["action"], string> = {
+  create: "➕ Created",
+  update: "✏️ Updated",
+  complete: "✅ Completed",
+  conflict: "⚠️ Conflict",
+  add: "➕ Added",
+  change: "🔄 Changed",
+  remove: "➖ Removed",
+  write: "📄 Wrote",
+};
+
+const OUTCOME_LABELS: Record<SyncJournalOperation["outcome"], string> = {
+  done: "",
+  queued: " (queued)",
+  failed: " (failed)",
+  skipped: " (skipped)",
+  planned: "",
+};
+
+/**
+ * Lists recent sync runs from the sync journal with what each of them changed, filtered by
+ * task or file
+ */
+export class SyncHistoryModal extends Modal {
+  private journal: SyncJournal;
+  private runs: SyncRun[] = [];
+  private query: string;
+  private listEl: HTMLElement | null = null;
+
+  constructor(plugin: TodoistPlugin, query = "") {
+    super(plugin.app);
+    this.journal = new SyncJournal(plugin);
+    this.query = query;
+  }
+
+  async onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h2", { text: "🕘 Sync History" });
+
+    this.runs = await this.journal.recent();
+    if (this.runs.length === 0) {
+      contentEl.createEl("p", { text: "No syncs have changed anything yet." });
+      return;
+    }
+
+    const filterEl = contentEl.createEl("input", {
+      type: "search",
+      placeholder: "Filter by task, Todoist ID or file",
+      value: this.query,
+    });
+    filterEl.addEventListener("input", () => {
+      this.query = filterEl.value;
+      this.renderRuns();
+    });
+
+    this.listEl = contentEl.createDiv();
+    this.renderRuns();
+  }
+
+  private renderRuns() {
+    if (!this.listEl) return;
+    this.listEl.empty();
+
+    const runs = SyncJournal.filter(this.runs, this.query);
+    if (runs.length === 0) {
+      this.listEl.createEl("p", { text: `No syncs touched "${this.query}".` });
+      return;
+    }
+
+    for (const run of runs) {
+      this.renderRun(this.listEl.createDiv("conflict-item"), run);
+    }
+  }
+
+  private renderRun(runEl: HTMLElement, run: SyncRun) {
+    const direction = run.direction === "push" ? "⬆️ Obsidian → Todoist" : "⬇️ Todoist → Obsidian";
+    runEl.createDiv({
+      text: `${new Date(run.startedAt).toLocaleString()} · ${direction}`,
+      cls: "conflict-task-title",
+    });
+    runEl.createDiv({
+      text: `${TRIGGER_LABELS[run.trigger] ?? run.trigger} · ${(run.durationMs / 1000).toFixed(1)}s · ${run.operations.length} changes`,
+    });
+
+    for (const error of run.errors) {
+      runEl.createDiv({ text: `❌ ${error}` });
+    }
+
+    const operationsEl = runEl.createEl("ul");
+    for (const operation of run.operations) {
+      operationsEl.createEl("li", { text: SyncHistoryModal.describe(operation) });
+    }
+  }
+
+  /**
+   * One line describing an operation, with the action worded by `actionLabels`
+   */
+  static describe(operation: SyncJournalOperation, actionLabels = ACTION_LABELS): string {
+    const parts = [actionLabels[operation.action]];
+
+    if (operation.content) {
+      parts.push(`"${operation.content}"`);
+    } else if (operation.todoistId) {
+      parts.push(`task ${operation.todoistId}`);
+    }
+    if (operation.fields && operation.fields.length > 0) {
+      parts.push(`(${operation.fields.join(", ")})`);
+    }
+    if (operation.file) {
+      parts.push(`in ${operation.file}${operation.line !== undefined ? `:${operation.line}` : ""}`);
+    }
+
+    const error = operation.error ? `: ${operation.error}` : "";
+    return `${parts.join(" ")}${OUTCOME_LABELS[operation.outcome]}${error}`;
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
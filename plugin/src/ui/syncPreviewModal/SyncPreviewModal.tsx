@@ -0,0 +1,97 @@
+import type { SyncJournalOperation } from "@/core/sync/SyncJournal";
+import type TodoistPlugin from "@/index";
+import { SyncHistoryModal } from "@/ui/syncHistoryModal/SyncHistoryModal";
+import { Modal } from "obsidian";
+
+const PLAN_LABELS: Record<SyncJournalOperation["action"], string> = {
+  create: "➕ Create",
+  update: "✏️ Update",
+  complete: "✅ Complete",
+  conflict: "⚠️ Ask about conflict",
+  add: "➕ Add",
+  change: "🔄 Change",
+  remove: "➖ Remove",
+  write: "📄 Write",
+};
+
+const OPERATION_GROUPS: { title: string; actions: SyncJournalOperation["action"][] }[] = [
+  { title: "⬆️ Send to Todoist", actions: ["create", "update", "complete"] },
+  { title: "⚠️ Conflicts", actions: ["conflict"] },
+  { title: "⬇️ Task lines from Todoist", actions: ["add", "change", "remove"] },
+  { title: "📄 Files to write", actions: ["write"] },
+];
+
+/**
+ * What a dry run of a sync would do
+ */
+export interface SyncPreview {
+  plan?: SyncJournalOperation[];
+  errors: string[];
+}
+
+/**
+ * Dry run of a sync command: lists every operation the sync would perform, and runs the
+ * command once confirmed
+ */
+export class SyncPreviewModal extends Modal {
+  private title: string;
+  private preview: () => Promise<SyncPreview>;
+  private apply: () => unknown;
+
+  constructor(
+    plugin: TodoistPlugin,
+    title: string,
+    preview: () => Promise<SyncPreview>,
+    apply: () => unknown,
+  ) {
+    super(plugin.app);
+    this.title = title;
+    this.preview = preview;
+    this.apply = apply;
+  }
+
+  async onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h2", { text: `🔍 Preview: ${this.title}` });
+
+    const statusEl = contentEl.createEl("p", { text: "Working out what the sync would change…" });
+    const { plan = [], errors } = await this.preview();
+    statusEl.setText(
+      plan.length === 0
+        ? "✅ Nothing to sync - files and Todoist already match."
+        : `This sync would make ${plan.length} changes. Nothing has been changed yet.`,
+    );
+
+    for (const error of errors) {
+      contentEl.createDiv({ text: `❌ ${error}` });
+    }
+
+    for (const group of OPERATION_GROUPS) {
+      const inGroup = plan.filter((op) => group.actions.includes(op.action));
+      if (inGroup.length === 0) continue;
+
+      contentEl.createEl("h4", { text: `${group.title} (${inGroup.length})` });
+      const listEl = contentEl.createEl("ul");
+      for (const op of inGroup) {
+        listEl.createEl("li", { text: SyncHistoryModal.describe(op, PLAN_LABELS) });
+      }
+    }
+
+    const actionsEl = contentEl.createDiv("modal-button-container");
+    actionsEl.createEl("button", { text: "Cancel" }).addEventListener("click", () => this.close());
+
+    if (plan.length === 0) return;
+
+    actionsEl
+      .createEl("button", { text: "Apply", cls: "mod-cta" })
+      .addEventListener("click", () => {
+        this.close();
+        this.apply();
+      });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
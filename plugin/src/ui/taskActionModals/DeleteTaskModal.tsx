@@ -0,0 +1,42 @@
+import type { Task } from "@/data/task";
+import { t } from "@/i18n";
+import { ModalContext, PluginContext } from "@/ui/context";
+import { Notice } from "obsidian";
+import type React from "react";
+import { Button } from "react-aria-components";
+import "./styles.scss";
+
+type Props = {
+  task: Task;
+};
+
+export const DeleteTaskModal: React.FC<Props> = ({ task }) => {
+  const plugin = PluginContext.use();
+  const modal = ModalContext.use();
+
+  const i18n = t().taskActionModals;
+
+  const deleteTask = async () => {
+    modal.close();
+
+    try {
+      await plugin.services.todoist.actions.deleteTask(task.id);
+    } catch (error: unknown) {
+      console.error("Failed to delete task", error);
+      new Notice(i18n.failedDeleteMessage, 2000);
+    }
+  };
+
+  return (
+    <div className="task-action-modal-root">
+      <p>{i18n.deleteConfirmation(task.content)}</p>
+      <p className="task-action-warning">{i18n.deleteWarning}</p>
+      <div className="task-action-controls">
+        <Button onPress={() => modal.close()}>{i18n.cancelButtonLabel}</Button>
+        <Button className="mod-warning" onPress={deleteTask}>
+          {i18n.deleteButtonLabel}
+        </Button>
+      </div>
+    </div>
+  );
+};
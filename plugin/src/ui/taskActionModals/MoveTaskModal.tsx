@@ -0,0 +1,58 @@
+import type { Task } from "@/data/task";
+import { t } from "@/i18n";
+import { ModalContext, PluginContext } from "@/ui/context";
+import { type ProjectIdentifier, ProjectSelector } from "@/ui/createTaskModal/ProjectSelector";
+import { Notice } from "obsidian";
+import type React from "react";
+import { useState } from "react";
+import { Button } from "react-aria-components";
+import "./styles.scss";
+
+type Props = {
+  task: Task;
+};
+
+export const MoveTaskModal: React.FC<Props> = ({ task }) => {
+  const plugin = PluginContext.use();
+  const modal = ModalContext.use();
+  const [destination, setDestination] = useState<ProjectIdentifier>({
+    projectId: task.project.id,
+    sectionId: task.section?.id,
+  });
+
+  const i18n = t().taskActionModals;
+
+  const isUnchanged =
+    destination.projectId === task.project.id && destination.sectionId === task.section?.id;
+
+  const move = async () => {
+    modal.close();
+
+    try {
+      await plugin.services.todoist.actions.moveTask(
+        task.id,
+        destination.sectionId !== undefined
+          ? { sectionId: destination.sectionId }
+          : { projectId: destination.projectId },
+      );
+    } catch (error: unknown) {
+      console.error("Failed to move task", error);
+      new Notice(i18n.failedMoveMessage, 2000);
+    }
+  };
+
+  return (
+    <div className="task-action-modal-root">
+      <p className="task-action-content">{task.content}</p>
+      <div className="task-action-selectors">
+        <ProjectSelector selected={destination} setSelected={setDestination} />
+      </div>
+      <div className="task-action-controls">
+        <Button onPress={() => modal.close()}>{i18n.cancelButtonLabel}</Button>
+        <Button className="mod-cta" isDisabled={isUnchanged} onPress={move}>
+          {i18n.moveButtonLabel}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import type { Task } from "@/data/task";
+import { t } from "@/i18n";
+import { ModalContext, PluginContext } from "@/ui/context";
+import {
+  type DueDate,
+  DueDateSelector,
+  fromTodoistDueDate,
+  toDueDateParams,
+} from "@/ui/createTaskModal/DueDateSelector";
+import { Notice } from "obsidian";
+import type React from "react";
+import { useState } from "react";
+import { Button } from "react-aria-components";
+import "./styles.scss";
+
+type Props = {
+  task: Task;
+};
+
+export const RescheduleTaskModal: React.FC<Props> = ({ task }) => {
+  const plugin = PluginContext.use();
+  const modal = ModalContext.use();
+  const [dueDate, setDueDate] = useState<DueDate | undefined>(() => fromTodoistDueDate(task.due));
+
+  const i18n = t().taskActionModals;
+
+  const save = async () => {
+    modal.close();
+
+    try {
+      await plugin.services.todoist.actions.updateTask(
+        task.id,
+        dueDate !== undefined ? toDueDateParams(dueDate) : { dueString: "no date" },
+      );
+    } catch (error: unknown) {
+      console.error("Failed to reschedule task", error);
+      new Notice(t().query.taskRow.failedUpdateMessage, 2000);
+    }
+  };
+
+  return (
+    <div className="task-action-modal-root">
+      <p className="task-action-content">{task.content}</p>
+      <div className="task-action-selectors">
+        <DueDateSelector selected={dueDate} setSelected={setDueDate} />
+      </div>
+      <div className="task-action-controls">
+        <Button onPress={() => modal.close()}>{i18n.cancelButtonLabel}</Button>
+        <Button className="mod-cta" onPress={save}>
+          {i18n.saveButtonLabel}
+        </Button>
+      </div>
+    </div>
+  );
+};